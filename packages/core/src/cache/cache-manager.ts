@@ -8,7 +8,7 @@
  */
 
 import { DataType, HealthSource, AnyHealthData } from '../models/unified-data';
-import { Logger, LogLevel } from '../types/config';
+import { EvictionPolicy, Logger, LogLevel } from '../types/config';
 import {
   ICacheProvider,
   CacheEntry,
@@ -17,6 +17,16 @@ import {
   generateCacheKey,
 } from './cache-provider';
 import { MemoryCacheProvider } from './memory-cache';
+import { deriveCacheTags, deriveRecordTags } from './cache-tags';
+import {
+  CachedSegment,
+  RangeLookup,
+  SeriesKey,
+  TimeRange,
+  getSeriesCacheKey,
+  lookupRange,
+  storeRanges,
+} from './range-cache';
 
 /**
  * Cache manager configuration
@@ -36,6 +46,12 @@ export interface CacheManagerConfig {
   /** Maximum entries for memory cache */
   maxMemoryEntries?: number;
 
+  /** Maximum approximate size of the memory cache in bytes (default: unbounded) */
+  maxMemoryBytes?: number;
+
+  /** Memory cache eviction policy */
+  evictionPolicy?: EvictionPolicy;
+
   /** Enable automatic cleanup */
   autoCleanup?: boolean;
 
@@ -47,12 +63,17 @@ export interface CacheManagerConfig {
 
   /** External cache provider (L2) */
   externalProvider?: ICacheProvider;
+
+  /** Further external cache providers, checked in order after `externalProvider` */
+  externalProviders?: ICacheProvider[];
 }
 
 /**
  * Default cache configuration
  */
-const DEFAULT_CONFIG: Required<Omit<CacheManagerConfig, 'externalProvider' | 'logger'>> = {
+const DEFAULT_CONFIG: Required<
+  Omit<CacheManagerConfig, 'externalProvider' | 'externalProviders' | 'logger'>
+> = {
   enabled: true,
   defaultTTL: 30 * 60 * 1000, // 30 minutes
   ttlByDataType: {
@@ -62,6 +83,8 @@ const DEFAULT_CONFIG: Required<Omit<CacheManagerConfig, 'externalProvider' | 'lo
     [DataType.WEIGHT]: 24 * 60 * 60 * 1000, // 24 hours
   },
   maxMemoryEntries: 1000,
+  maxMemoryBytes: Infinity,
+  evictionPolicy: EvictionPolicy.LRU,
   autoCleanup: true,
   cleanupInterval: 5 * 60 * 1000, // 5 minutes
 };
@@ -74,10 +97,12 @@ const DEFAULT_CONFIG: Required<Omit<CacheManagerConfig, 'externalProvider' | 'lo
  * @class CacheManager
  */
 export class CacheManager {
-  private config: Required<Omit<CacheManagerConfig, 'externalProvider' | 'logger'>>;
+  private config: Required<
+    Omit<CacheManagerConfig, 'externalProvider' | 'externalProviders' | 'logger'>
+  >;
   private logger: Logger | undefined;
   private memoryCache: ICacheProvider;
-  private externalCache: ICacheProvider | undefined;
+  private externalCaches: ICacheProvider[];
   private cleanupTimer: NodeJS.Timeout | undefined;
 
   /**
@@ -86,9 +111,11 @@ export class CacheManager {
    * @param {CacheManagerConfig} [config] - Cache configuration
    */
   constructor(config: CacheManagerConfig = {}) {
+    const { externalProvider, externalProviders, ...options } = config;
+
     this.config = {
       ...DEFAULT_CONFIG,
-      ...config,
+      ...options,
       ttlByDataType: {
         ...DEFAULT_CONFIG.ttlByDataType,
         ...config.ttlByDataType,
@@ -96,8 +123,15 @@ export class CacheManager {
     };
 
     this.logger = config.logger;
-    this.memoryCache = new MemoryCacheProvider(this.config.maxMemoryEntries);
-    this.externalCache = config.externalProvider;
+    this.memoryCache = new MemoryCacheProvider({
+      maxEntries: this.config.maxMemoryEntries,
+      maxBytes: this.config.maxMemoryBytes,
+      evictionPolicy: this.config.evictionPolicy,
+    });
+    this.externalCaches = [
+      ...(externalProvider ? [externalProvider] : []),
+      ...(externalProviders ?? []),
+    ];
 
     if (this.config.autoCleanup) {
       this.startAutoCleanup();
@@ -107,7 +141,8 @@ export class CacheManager {
   /**
    * Get cached data
    *
-   * Checks memory cache first (L1), then external cache (L2) if available.
+   * Checks memory cache first (L1), then the external caches (L2, ...) in
+   * order. Hits are promoted to the layers checked before.
    *
    * @param {CacheKey} key - Cache key
    * @returns {Promise<AnyHealthData[] | null>} Cached data or null
@@ -117,43 +152,22 @@ export class CacheManager {
       return null;
     }
 
-    const cacheKey = generateCacheKey(key);
+    const entry = await this.getEntry(generateCacheKey(key));
 
-    // Try memory cache first (L1)
-    let entry = await this.memoryCache.get(cacheKey);
-
-    if (entry) {
-      this.log(LogLevel.DEBUG, `Cache hit (L1): ${cacheKey}`);
-      return entry.data as AnyHealthData[];
-    }
-
-    // Try external cache (L2)
-    if (this.externalCache) {
-      entry = await this.externalCache.get(cacheKey);
-
-      if (entry) {
-        this.log(LogLevel.DEBUG, `Cache hit (L2): ${cacheKey}`);
-
-        // Promote to memory cache
-        await this.memoryCache.set(cacheKey, entry);
-
-        return entry.data as AnyHealthData[];
-      }
-    }
-
-    this.log(LogLevel.DEBUG, `Cache miss: ${cacheKey}`);
-    return null;
+    return entry ? (entry.data as AnyHealthData[]) : null;
   }
 
   /**
    * Set cached data
    *
-   * Stores in both memory cache (L1) and external cache (L2) if available.
+   * Stores in memory cache (L1) and every external cache. The entry is
+   * tagged with its source, account, data type and days (see
+   * `cache/cache-tags`) in addition to the given tags.
    *
    * @param {CacheKey} key - Cache key
    * @param {AnyHealthData[]} data - Data to cache
    * @param {number} [ttl] - TTL in milliseconds (overrides default)
-   * @param {string[]} [tags] - Tags for invalidation
+   * @param {string[]} [tags] - Additional tags for invalidation
    * @returns {Promise<void>}
    */
   async set(
@@ -176,21 +190,102 @@ export class CacheManager {
       expiresAt: now + effectiveTTL,
       source: key.source,
       dataType: key.dataType,
+      tags: Array.from(new Set([...deriveCacheTags(key, [key]), ...(tags ?? [])])),
     };
 
-    if (tags !== undefined) {
-      entry.tags = tags;
+    if (key.accountId !== undefined) {
+      entry.accountId = key.accountId;
     }
 
-    // Store in memory cache (L1)
-    await this.memoryCache.set(cacheKey, entry);
+    await this.setEntry(cacheKey, entry);
+
+    this.log(LogLevel.DEBUG, `Cached data: ${cacheKey} (TTL: ${effectiveTTL}ms)`);
+  }
+
+  /**
+   * Get cached data of a time range
+   *
+   * Answers the range from the cached segments of the series and reports
+   * the gaps still to be fetched.
+   *
+   * @param {SeriesKey} key - Series key
+   * @param {TimeRange} range - Requested range
+   * @returns {Promise<RangeLookup>} Cached records, gaps and hit ratio
+   */
+  async getRange(key: SeriesKey, range: TimeRange): Promise<RangeLookup> {
+    if (!this.config.enabled) {
+      return { data: [], gaps: [range], hitRatio: 0 };
+    }
+
+    const entry = await this.getEntry(getSeriesCacheKey(key));
+
+    return lookupRange((entry?.data as CachedSegment[] | undefined) ?? [], range, Date.now());
+  }
 
-    // Store in external cache (L2)
-    if (this.externalCache) {
-      await this.externalCache.set(cacheKey, entry);
+  /**
+   * Set cached data of time ranges
+   *
+   * The ranges replace the cached coverage they overlap; each keeps the
+   * records whose timestamp falls inside it. The series entry is tagged
+   * like `set()` entries, with the days of all its segments.
+   *
+   * @param {SeriesKey} key - Series key
+   * @param {TimeRange[]} ranges - Fetched ranges
+   * @param {AnyHealthData[]} data - Records fetched for the ranges
+   * @param {number} [ttl] - TTL in milliseconds (overrides default)
+   * @returns {Promise<void>}
+   */
+  async setRange(
+    key: SeriesKey,
+    ranges: TimeRange[],
+    data: AnyHealthData[],
+    ttl?: number
+  ): Promise<void> {
+    if (!this.config.enabled || ranges.length === 0) {
+      return;
     }
 
-    this.log(LogLevel.DEBUG, `Cached data: ${cacheKey} (TTL: ${effectiveTTL}ms)`);
+    const cacheKey = getSeriesCacheKey(key);
+    const effectiveTTL = this.getTTL(key.dataType, ttl);
+    const now = Date.now();
+    const current = await this.getEntry(cacheKey);
+    const segments = storeRanges(
+      (current?.data as CachedSegment[] | undefined) ?? [],
+      ranges,
+      data,
+      now,
+      now + effectiveTTL
+    );
+
+    if (segments.length === 0) {
+      return;
+    }
+
+    const entry: CacheEntry = {
+      data: segments,
+      cachedAt: now,
+      expiresAt: Math.max(...segments.map((segment) => segment.expiresAt)),
+      source: key.source,
+      dataType: key.dataType,
+      tags: deriveCacheTags(
+        key,
+        segments.map((segment) => ({
+          startDate: new Date(segment.start).toISOString(),
+          endDate: new Date(segment.end).toISOString(),
+        }))
+      ),
+    };
+
+    if (key.accountId !== undefined) {
+      entry.accountId = key.accountId;
+    }
+
+    await this.setEntry(cacheKey, entry);
+
+    this.log(
+      LogLevel.DEBUG,
+      `Cached ${ranges.length} ranges: ${cacheKey} (TTL: ${effectiveTTL}ms)`
+    );
   }
 
   /**
@@ -202,16 +297,17 @@ export class CacheManager {
   async delete(key: CacheKey): Promise<boolean> {
     const cacheKey = generateCacheKey(key);
 
-    const deleted1 = await this.memoryCache.delete(cacheKey);
-    const deleted2 = this.externalCache
-      ? await this.externalCache.delete(cacheKey)
-      : false;
+    let deleted = await this.memoryCache.delete(cacheKey);
+
+    for (const externalCache of this.externalCaches) {
+      deleted = (await externalCache.delete(cacheKey)) || deleted;
+    }
 
-    if (deleted1 || deleted2) {
+    if (deleted) {
       this.log(LogLevel.DEBUG, `Deleted from cache: ${cacheKey}`);
     }
 
-    return deleted1 || deleted2;
+    return deleted;
   }
 
   /**
@@ -222,8 +318,8 @@ export class CacheManager {
   async clear(): Promise<void> {
     await this.memoryCache.clear();
 
-    if (this.externalCache) {
-      await this.externalCache.clear();
+    for (const externalCache of this.externalCaches) {
+      await externalCache.clear();
     }
 
     this.log(LogLevel.INFO, 'Cleared all caches');
@@ -233,18 +329,20 @@ export class CacheManager {
    * Invalidate cache entries by source
    *
    * @param {HealthSource} source - Source to invalidate
+   * @param {string} [accountId] - Only invalidate entries of this account
    * @returns {Promise<number>} Number of entries invalidated
    */
-  async invalidateBySource(source: HealthSource): Promise<number> {
+  async invalidateBySource(source: HealthSource, accountId?: string): Promise<number> {
     let count = 0;
 
-    count += await this.memoryCache.invalidateBySource(source);
+    count += await this.memoryCache.invalidateBySource(source, accountId);
 
-    if (this.externalCache) {
-      count += await this.externalCache.invalidateBySource(source);
+    for (const externalCache of this.externalCaches) {
+      count += await externalCache.invalidateBySource(source, accountId);
     }
 
-    this.log(LogLevel.INFO, `Invalidated ${count} entries for source: ${source}`);
+    const owner = accountId !== undefined ? `${source}@${accountId}` : source;
+    this.log(LogLevel.INFO, `Invalidated ${count} entries for source: ${owner}`);
 
     return count;
   }
@@ -261,8 +359,8 @@ export class CacheManager {
 
     count += await this.memoryCache.invalidateByTags(tags);
 
-    if (this.externalCache) {
-      count += await this.externalCache.invalidateByTags(tags);
+    for (const externalCache of this.externalCaches) {
+      count += await externalCache.invalidateByTags(tags);
     }
 
     this.log(LogLevel.INFO, `Invalidated ${count} entries for data type: ${dataType}`);
@@ -281,8 +379,8 @@ export class CacheManager {
 
     count += await this.memoryCache.invalidateByTags(tags);
 
-    if (this.externalCache) {
-      count += await this.externalCache.invalidateByTags(tags);
+    for (const externalCache of this.externalCaches) {
+      count += await externalCache.invalidateByTags(tags);
     }
 
     this.log(LogLevel.INFO, `Invalidated ${count} entries by tags: ${tags.join(', ')}`);
@@ -290,6 +388,20 @@ export class CacheManager {
     return count;
   }
 
+  /**
+   * Invalidate cache entries covering new or changed records
+   *
+   * Removes the entries of the records' series that cover the records' days.
+   *
+   * @param {AnyHealthData[]} records - New or changed records
+   * @returns {Promise<number>} Number of entries invalidated
+   */
+  async invalidateForRecords(records: AnyHealthData[]): Promise<number> {
+    const tags = deriveRecordTags(records);
+
+    return tags.length > 0 ? this.invalidateByTags(tags) : 0;
+  }
+
   /**
    * Cleanup expired entries
    *
@@ -300,8 +412,8 @@ export class CacheManager {
 
     count += await this.memoryCache.cleanup();
 
-    if (this.externalCache) {
-      count += await this.externalCache.cleanup();
+    for (const externalCache of this.externalCaches) {
+      count += await externalCache.cleanup();
     }
 
     if (count > 0) {
@@ -314,15 +426,30 @@ export class CacheManager {
   /**
    * Get cache statistics
    *
-   * @returns {Promise<{ memory: CacheStats; external?: CacheStats }>} Cache stats
+   * `external` holds the first external cache's stats, `externalLayers` those
+   * of every external cache in order.
+   *
+   * @returns {Promise<{ memory: CacheStats; external?: CacheStats; externalLayers: CacheStats[] }>} Cache stats
    */
-  async stats(): Promise<{ memory: CacheStats; external?: CacheStats }> {
+  async stats(): Promise<{
+    memory: CacheStats;
+    external?: CacheStats;
+    externalLayers: CacheStats[];
+  }> {
     const memory = await this.memoryCache.stats();
+    const externalLayers: CacheStats[] = [];
+
+    for (const externalCache of this.externalCaches) {
+      externalLayers.push(await externalCache.stats());
+    }
 
-    const result: { memory: CacheStats; external?: CacheStats } = { memory };
+    const result: { memory: CacheStats; external?: CacheStats; externalLayers: CacheStats[] } = {
+      memory,
+      externalLayers,
+    };
 
-    if (this.externalCache) {
-      result.external = await this.externalCache.stats();
+    if (externalLayers[0]) {
+      result.external = externalLayers[0];
     }
 
     return result;
@@ -331,16 +458,81 @@ export class CacheManager {
   /**
    * Dispose cache manager
    *
-   * Stops cleanup timer and clears caches.
+   * Stops cleanup timer and clears the memory cache. External caches keep
+   * their entries so persistent layers survive restarts; they are disposed
+   * so pending writes are persisted.
    *
    * @returns {Promise<void>}
    */
   async dispose(): Promise<void> {
     this.stopAutoCleanup();
-    await this.clear();
+    await this.memoryCache.clear();
+
+    for (const externalCache of this.externalCaches) {
+      if (externalCache.dispose) {
+        await externalCache.dispose();
+      }
+    }
+
     this.log(LogLevel.INFO, 'Cache manager disposed');
   }
 
+  /**
+   * Get a cache entry
+   *
+   * Checks memory cache first (L1), then the external caches (L2, ...) in
+   * order. Hits are promoted to the layers checked before.
+   *
+   * @param {string} cacheKey - Serialized cache key
+   * @returns {Promise<CacheEntry | null>} Cached entry or null
+   * @private
+   */
+  private async getEntry(cacheKey: string): Promise<CacheEntry | null> {
+    // Try memory cache first (L1)
+    let entry = await this.memoryCache.get(cacheKey);
+
+    if (entry) {
+      this.log(LogLevel.DEBUG, `Cache hit (L1): ${cacheKey}`);
+      return entry;
+    }
+
+    // Try external caches (L2, ...)
+    for (const [index, externalCache] of this.externalCaches.entries()) {
+      entry = await externalCache.get(cacheKey);
+
+      if (entry) {
+        this.log(LogLevel.DEBUG, `Cache hit (L${index + 2}): ${cacheKey}`);
+
+        // Promote to memory cache and faster external caches
+        await this.memoryCache.set(cacheKey, entry);
+        for (const fasterCache of this.externalCaches.slice(0, index)) {
+          await fasterCache.set(cacheKey, entry);
+        }
+
+        return entry;
+      }
+    }
+
+    this.log(LogLevel.DEBUG, `Cache miss: ${cacheKey}`);
+    return null;
+  }
+
+  /**
+   * Store a cache entry in memory cache (L1) and every external cache
+   *
+   * @param {string} cacheKey - Serialized cache key
+   * @param {CacheEntry} entry - Cache entry
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async setEntry(cacheKey: string, entry: CacheEntry): Promise<void> {
+    await this.memoryCache.set(cacheKey, entry);
+
+    for (const externalCache of this.externalCaches) {
+      await externalCache.set(cacheKey, entry);
+    }
+  }
+
   /**
    * Get TTL for data type
    *
@@ -28,6 +28,9 @@ export interface CacheEntry<T = unknown> {
   /** Source of the data */
   source: HealthSource;
 
+  /** Account of the source that owns the data */
+  accountId?: string;
+
   /** Type of data */
   dataType: DataType;
 
@@ -44,6 +47,9 @@ export interface CacheKey {
   /** Data source */
   source: HealthSource;
 
+  /** Account of the source (omitted for single-account sources) */
+  accountId?: string;
+
   /** Type of health data */
   dataType: DataType;
 
@@ -69,6 +75,9 @@ export interface CacheStats {
   /** Total size in bytes (approximate) */
   sizeBytes: number;
 
+  /** Size limit in bytes (omitted if unbounded) */
+  maxSizeBytes?: number;
+
   /** Cache hits */
   hits: number;
 
@@ -156,9 +165,10 @@ export interface ICacheProvider {
    * Invalidate entries by source
    *
    * @param {HealthSource} source - Source to invalidate
+   * @param {string} [accountId] - Only invalidate entries of this account
    * @returns {Promise<number>} Number of entries invalidated
    */
-  invalidateBySource(source: HealthSource): Promise<number>;
+  invalidateBySource(source: HealthSource, accountId?: string): Promise<number>;
 
   /**
    * Cleanup expired entries
@@ -166,16 +176,27 @@ export interface ICacheProvider {
    * @returns {Promise<number>} Number of entries cleaned up
    */
   cleanup(): Promise<number>;
+
+  /**
+   * Release resources and persist pending writes (optional)
+   *
+   * @returns {Promise<void>}
+   */
+  dispose?(): Promise<void>;
 }
 
 /**
  * Generate cache key from CacheKey structure
  *
+ * Account-scoped keys qualify the source as `source@accountId`.
+ *
  * @param {CacheKey} key - Cache key structure
  * @returns {string} Serialized cache key
  */
 export function generateCacheKey(key: CacheKey): string {
-  const base = `${key.source}:${key.dataType}:${key.startDate}:${key.endDate}`;
+  const owner =
+    key.accountId !== undefined ? `${key.source}@${encodeURIComponent(key.accountId)}` : key.source;
+  const base = `${owner}:${key.dataType}:${key.startDate}:${key.endDate}`;
 
   if (!key.params || Object.keys(key.params).length === 0) {
     return base;
@@ -190,6 +211,37 @@ export function generateCacheKey(key: CacheKey): string {
   return `${base}?${sortedParams}`;
 }
 
+/**
+ * Estimate the size of a cache entry
+ *
+ * Counts the UTF-8 bytes of the entry serialized as JSON.
+ *
+ * @param {CacheEntry} entry - Cache entry
+ * @returns {number} Approximate size in bytes
+ */
+export function estimateEntrySize(entry: CacheEntry): number {
+  const json = JSON.stringify(entry);
+  let bytes = 0;
+
+  for (let i = 0; i < json.length; i++) {
+    const code = json.charCodeAt(i);
+
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte character
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+
+  return bytes;
+}
+
 /**
  * Parse cache key string back to CacheKey structure
  *
@@ -206,9 +258,15 @@ export function parseCacheKey(keyString: string): CacheKey | null {
       return null;
     }
 
-    const [source, dataType, startDate, endDate] = basePart.split(':');
+    const [owner, dataType, startDate, endDate] = basePart.split(':');
 
-    if (!source || !dataType || !startDate || !endDate) {
+    if (!owner || !dataType || !startDate || !endDate) {
+      return null;
+    }
+
+    const [source, accountId] = owner.split('@');
+
+    if (!source) {
       return null;
     }
 
@@ -219,6 +277,10 @@ export function parseCacheKey(keyString: string): CacheKey | null {
       endDate,
     };
 
+    if (accountId !== undefined) {
+      key.accountId = decodeURIComponent(accountId);
+    }
+
     if (paramsPart) {
       const params: Record<string, unknown> = {};
       paramsPart.split('&').forEach(pair => {
@@ -0,0 +1,133 @@
+/**
+ * Cache Tags
+ *
+ * Tags derived automatically for every cache write, so entries can be
+ * invalidated by source, account, data type or day:
+ *
+ * - `source:<source>`
+ * - `account:<source>@<accountId>` (account-scoped entries)
+ * - `dataType:<dataType>`
+ * - `day:<source>[@<accountId>]:<dataType>:<YYYY-MM-DD>` for each UTC day
+ *   the entry covers
+ *
+ * Day tags are scoped to the series so new records only invalidate the
+ * entries of their own source, account and data type.
+ *
+ * @module cache/cache-tags
+ */
+
+import { AnyHealthData, DataType, HealthSource } from '../models/unified-data';
+import { SeriesKey, TimeRange } from './range-cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tag of all entries of a source
+ *
+ * @param {HealthSource} source - Data source
+ * @returns {string} Tag
+ */
+export function sourceTag(source: HealthSource): string {
+  return `source:${source}`;
+}
+
+/**
+ * Tag of all entries of a source account
+ *
+ * @param {HealthSource} source - Data source
+ * @param {string} accountId - Account of the source
+ * @returns {string} Tag
+ */
+export function accountTag(source: HealthSource, accountId: string): string {
+  return `account:${source}@${encodeURIComponent(accountId)}`;
+}
+
+/**
+ * Tag of all entries of a data type
+ *
+ * @param {DataType} dataType - Data type
+ * @returns {string} Tag
+ */
+export function dataTypeTag(dataType: DataType): string {
+  return `dataType:${dataType}`;
+}
+
+/**
+ * Tag of the entries of a series covering a UTC day
+ *
+ * @param {SeriesKey} key - Series key
+ * @param {string} day - UTC day (`YYYY-MM-DD`)
+ * @returns {string} Tag
+ */
+export function dayTag(key: SeriesKey, day: string): string {
+  const owner =
+    key.accountId !== undefined ? `${key.source}@${encodeURIComponent(key.accountId)}` : key.source;
+  return `day:${owner}:${key.dataType}:${day}`;
+}
+
+/**
+ * Derive the tags of a cache entry
+ *
+ * @param {SeriesKey} key - Source, account and data type of the entry
+ * @param {TimeRange[]} ranges - Ranges the entry covers (unparsable ranges get no day tags)
+ * @returns {string[]} Tags
+ */
+export function deriveCacheTags(key: SeriesKey, ranges: TimeRange[]): string[] {
+  const tags = new Set([sourceTag(key.source), dataTypeTag(key.dataType)]);
+
+  if (key.accountId !== undefined) {
+    tags.add(accountTag(key.source, key.accountId));
+  }
+
+  for (const range of ranges) {
+    const start = Date.parse(range.startDate);
+    const end = Date.parse(range.endDate);
+
+    if (!(start <= end)) {
+      continue;
+    }
+
+    for (let day = start - (start % DAY_MS); day <= end; day += DAY_MS) {
+      tags.add(dayTag(key, toDay(day)));
+    }
+  }
+
+  return Array.from(tags);
+}
+
+/**
+ * Derive the day tags affected by new or changed records
+ *
+ * @param {AnyHealthData[]} records - Records
+ * @returns {string[]} Day tags of the records' series
+ */
+export function deriveRecordTags(records: AnyHealthData[]): string[] {
+  const tags = new Set<string>();
+
+  for (const record of records) {
+    const time = Date.parse(record.timestamp);
+
+    if (Number.isNaN(time)) {
+      continue;
+    }
+
+    const key: SeriesKey = { source: record.source, dataType: record.dataType };
+    if (record.accountId !== undefined) {
+      key.accountId = record.accountId;
+    }
+
+    tags.add(dayTag(key, toDay(time)));
+  }
+
+  return Array.from(tags);
+}
+
+/**
+ * Format a timestamp as its UTC day
+ *
+ * @param {number} time - Epoch milliseconds
+ * @returns {string} UTC day (`YYYY-MM-DD`)
+ */
+function toDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,264 @@
+/**
+ * Cloud Cache Reference Server
+ *
+ * In-process implementation of the cloud cache protocol documented in
+ * `cache/cloud-cache`, for tests and local development. Its `fetch`
+ * function can be passed to `CloudCacheProvider` directly; `handle()` can
+ * be mounted on a real HTTP server.
+ *
+ * @module cache/cloud-cache-server
+ */
+
+import { Clock, systemClock } from '../utils/clock';
+import { CacheEntry } from './cache-provider';
+import { CloudCacheBatch, CloudCacheInvalidation, FetchLike } from './cloud-cache';
+
+/**
+ * Request received by the reference server
+ *
+ * @interface CloudCacheRequest
+ */
+export interface CloudCacheRequest {
+  /** HTTP method */
+  method: string;
+
+  /** Request path, ending with the protocol path (e.g. `/v1/entries/abc`) */
+  path: string;
+
+  /** Request headers */
+  headers?: Record<string, string>;
+
+  /** Parsed JSON body */
+  body?: unknown;
+}
+
+/**
+ * Response of the reference server
+ *
+ * @interface CloudCacheResponse
+ */
+export interface CloudCacheResponse {
+  /** HTTP status */
+  status: number;
+
+  /** JSON body */
+  body?: unknown;
+}
+
+/**
+ * Reference server options
+ *
+ * @interface CloudCacheServerOptions
+ */
+export interface CloudCacheServerOptions {
+  /** Required `X-API-Key` header value */
+  apiKey?: string;
+
+  /** Required bearer token */
+  token?: string;
+
+  /** Clock used for expiry */
+  clock?: Clock;
+}
+
+/**
+ * Cloud Cache Reference Server
+ *
+ * Set `online` to false to simulate an unreachable endpoint: `fetch` then
+ * rejects like a failed network request.
+ *
+ * @example
+ * ```typescript
+ * const server = new CloudCacheReferenceServer({ apiKey: 'secret' });
+ * const cache = new CloudCacheProvider({
+ *   endpoint: 'https://cache.example.test/v1',
+ *   auth: { apiKey: 'secret' },
+ *   fetch: server.fetch,
+ * });
+ * ```
+ *
+ * @class CloudCacheReferenceServer
+ */
+export class CloudCacheReferenceServer {
+  /** Whether requests reach the server */
+  public online = true;
+
+  /** Requests handled so far */
+  public readonly requests: CloudCacheRequest[] = [];
+
+  private entries: Map<string, CacheEntry> = new Map();
+  private options: CloudCacheServerOptions;
+  private clock: Clock;
+
+  /**
+   * Create reference server
+   *
+   * @param {CloudCacheServerOptions} [options] - Server options
+   */
+  constructor(options: CloudCacheServerOptions = {}) {
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * `fetch` function routing requests to this server
+   *
+   * @param {string} url - Request URL
+   * @param {object} init - Method, headers and body
+   * @returns {Promise<FetchResponseLike>} Response
+   */
+  readonly fetch: FetchLike = (url, init) => {
+    if (!this.online) {
+      return Promise.reject(new TypeError('fetch failed'));
+    }
+
+    const request: CloudCacheRequest = {
+      method: init.method,
+      path: url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/[?#].*$/, ''),
+      headers: init.headers,
+    };
+    if (init.body !== undefined) {
+      request.body = JSON.parse(init.body);
+    }
+
+    const response = this.handle(request);
+
+    return Promise.resolve({
+      status: response.status,
+      json: () => Promise.resolve(response.body ?? null),
+    });
+  };
+
+  /**
+   * Handle a request
+   *
+   * @param {CloudCacheRequest} request - Request
+   * @returns {CloudCacheResponse} Response
+   */
+  handle(request: CloudCacheRequest): CloudCacheResponse {
+    this.requests.push(request);
+
+    if (!this.isAuthorized(request.headers ?? {})) {
+      return { status: 401, body: { error: 'Unauthorized' } };
+    }
+
+    const match = /\/(entries(?:\/([^/]+))?|batch|keys|invalidate|stats)$/.exec(request.path);
+    const route = `${request.method} ${match?.[2] !== undefined ? 'entries/:key' : match?.[1]}`;
+    const key = match?.[2] !== undefined ? decodeURIComponent(match[2]) : '';
+
+    switch (route) {
+      case 'GET entries/:key': {
+        const entry = this.read(key);
+        return entry ? { status: 200, body: entry } : { status: 404 };
+      }
+      case 'DELETE entries/:key':
+        return { status: this.read(key) && this.entries.delete(key) ? 204 : 404 };
+      case 'DELETE entries':
+        this.entries.clear();
+        return { status: 204 };
+      case 'POST batch': {
+        const batch = request.body as CloudCacheBatch;
+        batch.set.forEach(({ key: entryKey, entry }) => this.entries.set(entryKey, entry));
+        batch.delete.forEach((entryKey) => this.entries.delete(entryKey));
+        return { status: 204 };
+      }
+      case 'GET keys':
+        return { status: 200, body: { keys: this.liveKeys() } };
+      case 'POST invalidate':
+        return {
+          status: 200,
+          body: { count: this.invalidate(request.body as CloudCacheInvalidation) },
+        };
+      case 'GET stats': {
+        const keys = this.liveKeys();
+        const sizeBytes = keys.reduce(
+          (size, entryKey) => size + JSON.stringify(this.entries.get(entryKey)).length,
+          0
+        );
+        return { status: 200, body: { entries: keys.length, sizeBytes } };
+      }
+      default:
+        return { status: 404, body: { error: `No route for ${request.method} ${request.path}` } };
+    }
+  }
+
+  /**
+   * Check the request credentials
+   *
+   * @param {Record<string, string>} headers - Request headers
+   * @returns {boolean} True if the configured credentials are present
+   * @private
+   */
+  private isAuthorized(headers: Record<string, string>): boolean {
+    const header = (name: string): string | undefined =>
+      Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+    if (this.options.apiKey !== undefined && header('x-api-key') !== this.options.apiKey) {
+      return false;
+    }
+    if (
+      this.options.token !== undefined &&
+      header('authorization') !== `Bearer ${this.options.token}`
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Read an entry, removing it if expired
+   *
+   * @param {string} key - Cache key
+   * @returns {CacheEntry | undefined} Entry, or undefined if missing or expired
+   * @private
+   */
+  private read(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry && this.clock.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get the keys of unexpired entries
+   *
+   * @returns {string[]} Keys
+   * @private
+   */
+  private liveKeys(): string[] {
+    return Array.from(this.entries.keys()).filter((key) => this.read(key) !== undefined);
+  }
+
+  /**
+   * Remove entries matching an invalidation
+   *
+   * @param {CloudCacheInvalidation} invalidation - Criteria
+   * @returns {number} Number of entries removed
+   * @private
+   */
+  private invalidate(invalidation: CloudCacheInvalidation): number {
+    const { tags, source, accountId, expiredBefore } = invalidation;
+    let count = 0;
+
+    this.entries.forEach((entry, key) => {
+      const matches =
+        (tags !== undefined && tags.some((tag) => entry.tags?.includes(tag) ?? false)) ||
+        (source !== undefined &&
+          entry.source === source &&
+          (accountId === undefined || entry.accountId === accountId)) ||
+        (expiredBefore !== undefined && entry.expiresAt < expiredBefore);
+
+      if (matches) {
+        this.entries.delete(key);
+        count++;
+      }
+    });
+
+    return count;
+  }
+}
@@ -0,0 +1,750 @@
+/**
+ * Cloud Cache Provider
+ *
+ * Cache for the `CacheLayer.CLOUD` layer, stored on the user's backend
+ * through a small REST protocol. Keys are URL-encoded with
+ * `encodeURIComponent`; bodies are JSON.
+ *
+ * | Request                          | Body                     | Response                          |
+ * | -------------------------------- | ------------------------ | --------------------------------- |
+ * | `GET {endpoint}/entries/{key}`   |                          | 200 `CacheEntry`, 404 if missing  |
+ * | `DELETE {endpoint}/entries/{key}`|                          | 204, 404 if missing               |
+ * | `DELETE {endpoint}/entries`      |                          | 204 (removes all entries)         |
+ * | `POST {endpoint}/batch`          | `CloudCacheBatch`        | 204                               |
+ * | `GET {endpoint}/keys`            |                          | 200 `{ keys: string[] }`          |
+ * | `POST {endpoint}/invalidate`     | `CloudCacheInvalidation` | 200 `{ count: number }`           |
+ * | `GET {endpoint}/stats`           |                          | 200 `{ entries, sizeBytes }`      |
+ *
+ * Requests carry `Authorization: Bearer <token>` and `X-API-Key: <apiKey>`
+ * when configured, followed by any custom headers. A server must not
+ * return expired entries. See `CloudCacheReferenceServer` for a complete
+ * implementation.
+ *
+ * @module cache/cloud-cache
+ */
+
+import { HealthSource } from '../models/unified-data';
+import { CacheError, CacheLayer, ConfigurationError, Logger, LogLevel } from '../types/config';
+import { Clock, systemClock, TimerHandle } from '../utils/clock';
+import { ICacheProvider, CacheEntry, CacheStats } from './cache-provider';
+
+/**
+ * Response returned by a `FetchLike` function
+ *
+ * @interface FetchResponseLike
+ */
+export interface FetchResponseLike {
+  status: number;
+  json(): Promise<unknown>;
+}
+
+/**
+ * Subset of the WHATWG `fetch` API used by `CloudCacheProvider`
+ */
+export type FetchLike = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string }
+) => Promise<FetchResponseLike>;
+
+/**
+ * Body of `POST {endpoint}/batch`
+ *
+ * Deletions are applied after writes.
+ *
+ * @interface CloudCacheBatch
+ */
+export interface CloudCacheBatch {
+  /** Entries to write */
+  set: { key: string; entry: CacheEntry }[];
+
+  /** Keys to delete */
+  delete: string[];
+}
+
+/**
+ * Body of `POST {endpoint}/invalidate`
+ *
+ * Entries matching any of the given criteria are removed.
+ *
+ * @interface CloudCacheInvalidation
+ */
+export interface CloudCacheInvalidation {
+  /** Remove entries having any of these tags */
+  tags?: string[];
+
+  /** Remove entries of this source */
+  source?: HealthSource;
+
+  /** Restrict `source` to this account */
+  accountId?: string;
+
+  /** Remove entries expiring before this timestamp */
+  expiredBefore?: number;
+}
+
+/**
+ * Cloud cache configuration
+ *
+ * @interface CloudCacheConfig
+ */
+export interface CloudCacheConfig {
+  /** Base URL of the cache endpoint */
+  endpoint: string;
+
+  /** Authentication sent with every request */
+  auth?: {
+    apiKey?: string;
+    token?: string;
+    headers?: Record<string, string>;
+  };
+
+  /** HTTP client (defaults to the global `fetch`) */
+  fetch?: FetchLike;
+
+  /** Number of pending writes that triggers a flush (default: 25) */
+  batchSize?: number;
+
+  /** Delay before pending writes are flushed, in milliseconds (default: 2000) */
+  flushInterval?: number;
+
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+
+  /** Maximum pending writes kept while offline; oldest are dropped (default: 500) */
+  maxPendingWrites?: number;
+
+  /** Time requests outside flushes are skipped after a failure, in milliseconds (default: 15000) */
+  offlineBackoff?: number;
+
+  /** Clock used for timers */
+  clock?: Clock;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Invalidation waiting to be sent
+ *
+ * @interface PendingInvalidation
+ */
+interface PendingInvalidation {
+  /** Request body */
+  invalidation: CloudCacheInvalidation;
+
+  /** Same criteria, for remote entries read before it is sent */
+  matches: (entry: CacheEntry) => boolean;
+}
+
+/**
+ * Cloud Cache Provider
+ *
+ * Writes are queued and sent in batches, either once `batchSize` writes are
+ * pending or after `flushInterval`; reads see pending writes. When the
+ * endpoint is unreachable or fails, reads are reported as misses and
+ * writes, deletions, clears and invalidations are kept for the next flush.
+ * For `offlineBackoff` after a failure, only flushes contact the endpoint.
+ * Call `dispose()` to flush before shutdown.
+ *
+ * @class CloudCacheProvider
+ * @implements {ICacheProvider}
+ */
+export class CloudCacheProvider implements ICacheProvider {
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private fetch: FetchLike;
+  private batchSize: number;
+  private flushInterval: number;
+  private timeout: number;
+  private maxPendingWrites: number;
+  private offlineBackoff: number;
+  private clock: Clock;
+  private logger: Logger | undefined;
+  private pendingSets: Map<string, CacheEntry> = new Map();
+  private pendingDeletes: Set<string> = new Set();
+  private pendingClear = false;
+  private pendingInvalidations: PendingInvalidation[] = [];
+  private flushTimer?: TimerHandle;
+  private flushing: Promise<void> | undefined;
+  private online = true;
+  private retryAt = 0;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Create cloud cache provider
+   *
+   * @param {CloudCacheConfig} config - Cloud cache configuration
+   * @throws {ConfigurationError} If no `fetch` is configured or available globally
+   */
+  constructor(config: CloudCacheConfig) {
+    const fetch = config.fetch ?? (globalThis as { fetch?: FetchLike }).fetch;
+    if (!fetch) {
+      throw new ConfigurationError('No fetch implementation available for the cloud cache', {
+        endpoint: config.endpoint,
+      });
+    }
+
+    this.endpoint = config.endpoint.replace(/\/+$/, '');
+    this.fetch = fetch;
+    this.batchSize = config.batchSize ?? 25;
+    this.flushInterval = config.flushInterval ?? 2000;
+    this.timeout = config.timeout ?? 10000;
+    this.maxPendingWrites = config.maxPendingWrites ?? 500;
+    this.offlineBackoff = config.offlineBackoff ?? 15000;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger;
+
+    this.headers = { 'Content-Type': 'application/json' };
+    if (config.auth?.token !== undefined) {
+      this.headers['Authorization'] = `Bearer ${config.auth.token}`;
+    }
+    if (config.auth?.apiKey !== undefined) {
+      this.headers['X-API-Key'] = config.auth.apiKey;
+    }
+    Object.assign(this.headers, config.auth?.headers);
+  }
+
+  /**
+   * Get cached data by key
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<CacheEntry | null>} Cached entry or null if not found/expired/offline
+   */
+  async get(key: string): Promise<CacheEntry | null> {
+    let entry: CacheEntry | null = this.pendingSets.get(key) ?? null;
+
+    if (!entry && !this.pendingDeletes.has(key) && !this.pendingClear) {
+      const response = await this.tryRequest<CacheEntry>(
+        'GET',
+        `/entries/${encodeURIComponent(key)}`
+      );
+      const remote = response?.body ?? null;
+
+      // Remote entries removed by an unsent invalidation are stale
+      entry =
+        remote && !this.pendingInvalidations.some(({ matches }) => matches(remote)) ? remote : null;
+    }
+
+    if (!entry || this.clock.now() > entry.expiresAt) {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Set cache entry
+   *
+   * The entry is queued and written with the next batch.
+   *
+   * @param {string} key - Cache key
+   * @param {CacheEntry} entry - Cache entry
+   * @returns {Promise<void>}
+   */
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.pendingDeletes.delete(key);
+    this.pendingSets.delete(key);
+    this.pendingSets.set(key, entry);
+    this.trimPending();
+
+    if (this.pendingSets.size >= this.batchSize) {
+      await this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Delete cache entry
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async delete(key: string): Promise<boolean> {
+    const wasPending = this.pendingSets.delete(key);
+    const response = await this.tryRequest('DELETE', `/entries/${encodeURIComponent(key)}`);
+
+    if (!response) {
+      this.pendingDeletes.add(key);
+      this.scheduleFlush();
+      return wasPending;
+    }
+
+    return wasPending || response.status !== 404;
+  }
+
+  /**
+   * Clear all cache entries
+   *
+   * Pending writes are dropped. While offline, remote entries are cleared
+   * with the next flush and are not read until then.
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    this.pendingSets.clear();
+    this.pendingDeletes.clear();
+    this.pendingInvalidations = [];
+    this.hits = 0;
+    this.misses = 0;
+
+    if (!(await this.tryRequest('DELETE', '/entries'))) {
+      this.pendingClear = true;
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Check if key exists in cache
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<boolean>} True if exists and not expired
+   */
+  async has(key: string): Promise<boolean> {
+    const entry = await this.get(key);
+    return entry !== null;
+  }
+
+  /**
+   * Get all keys in cache
+   *
+   * Only pending keys are returned while offline or before a clear is sent.
+   *
+   * @returns {Promise<string[]>} Array of cache keys
+   */
+  async keys(): Promise<string[]> {
+    const response = this.pendingClear
+      ? null
+      : await this.tryRequest<{ keys: string[] }>('GET', '/keys');
+    const keys = new Set(response?.body?.keys ?? []);
+
+    this.pendingDeletes.forEach((key) => keys.delete(key));
+    this.pendingSets.forEach((_entry, key) => keys.add(key));
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Get cache statistics
+   *
+   * Entry counts and sizes are reported by the server (pending writes only
+   * while offline); hits and misses are counted locally.
+   *
+   * @returns {Promise<CacheStats>} Cache statistics
+   */
+  async stats(): Promise<CacheStats> {
+    const response = await this.tryRequest<{ entries: number; sizeBytes: number }>('GET', '/stats');
+    const total = this.hits + this.misses;
+    let entries = response?.body?.entries ?? 0;
+    let sizeBytes = response?.body?.sizeBytes ?? 0;
+
+    if (!response) {
+      this.pendingSets.forEach((entry) => {
+        entries++;
+        sizeBytes += JSON.stringify(entry).length;
+      });
+    }
+
+    return {
+      entries,
+      sizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+      evictions: 0,
+    };
+  }
+
+  /**
+   * Invalidate entries by tags
+   *
+   * @param {string[]} tags - Tags to invalidate
+   * @returns {Promise<number>} Number of entries invalidated
+   */
+  invalidateByTags(tags: string[]): Promise<number> {
+    return this.invalidate({ tags }, (entry) =>
+      tags.some((tag) => entry.tags?.includes(tag) ?? false)
+    );
+  }
+
+  /**
+   * Invalidate entries by source
+   *
+   * @param {HealthSource} source - Source to invalidate
+   * @param {string} [accountId] - Only invalidate entries of this account
+   * @returns {Promise<number>} Number of entries invalidated
+   */
+  invalidateBySource(source: HealthSource, accountId?: string): Promise<number> {
+    const invalidation: CloudCacheInvalidation = { source };
+    if (accountId !== undefined) {
+      invalidation.accountId = accountId;
+    }
+
+    return this.invalidate(
+      invalidation,
+      (entry) =>
+        entry.source === source && (accountId === undefined || entry.accountId === accountId)
+    );
+  }
+
+  /**
+   * Cleanup expired entries
+   *
+   * @returns {Promise<number>} Number of entries cleaned up
+   */
+  cleanup(): Promise<number> {
+    const now = this.clock.now();
+    return this.invalidate({ expiredBefore: now }, (entry) => now > entry.expiresAt);
+  }
+
+  /**
+   * Send pending writes and deletions
+   *
+   * Sends batches of at most `batchSize` writes until nothing is pending or
+   * a request fails; failed batches are kept for the next flush.
+   *
+   * @returns {Promise<void>}
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendPending().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+
+    return this.flushing;
+  }
+
+  /**
+   * Dispose provider
+   *
+   * Stops the flush timer and flushes pending writes.
+   *
+   * @returns {Promise<void>}
+   */
+  async dispose(): Promise<void> {
+    if (this.flushTimer !== undefined) {
+      this.clock.clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    await this.flush();
+
+    const pending =
+      this.pendingSets.size +
+      this.pendingDeletes.size +
+      this.pendingInvalidations.length +
+      (this.pendingClear ? 1 : 0);
+    if (pending > 0) {
+      this.log(LogLevel.WARN, `Disposed with ${pending} unsent changes`);
+    }
+  }
+
+  /**
+   * Send pending changes in batches
+   *
+   * Clears and invalidations are sent first; they were applied to the
+   * writes pending at the time, so later writes must not be removed.
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async sendPending(): Promise<void> {
+    if (!(await this.sendPendingInvalidations())) {
+      this.scheduleFlush();
+      return;
+    }
+
+    while (this.pendingSets.size > 0 || this.pendingDeletes.size > 0) {
+      const batch: CloudCacheBatch = {
+        set: Array.from(this.pendingSets)
+          .slice(0, this.batchSize)
+          .map(([key, entry]) => ({ key, entry })),
+        delete: Array.from(this.pendingDeletes),
+      };
+
+      batch.set.forEach(({ key }) => this.pendingSets.delete(key));
+      this.pendingDeletes.clear();
+
+      if (!(await this.tryRequest('POST', '/batch', batch, true))) {
+        this.requeue(batch);
+        this.scheduleFlush();
+        return;
+      }
+
+      this.log(
+        LogLevel.DEBUG,
+        `Flushed ${batch.set.length} writes and ${batch.delete.length} deletions`
+      );
+    }
+  }
+
+  /**
+   * Send the pending clear and invalidations in order
+   *
+   * @returns {Promise<boolean>} False if a request failed (it stays pending)
+   * @private
+   */
+  private async sendPendingInvalidations(): Promise<boolean> {
+    if (this.pendingClear) {
+      if (!(await this.tryRequest('DELETE', '/entries', undefined, true))) {
+        return false;
+      }
+      this.pendingClear = false;
+    }
+
+    for (let next = this.pendingInvalidations[0]; next; next = this.pendingInvalidations[0]) {
+      if (!(await this.tryRequest('POST', '/invalidate', next.invalidation, true))) {
+        return false;
+      }
+      this.pendingInvalidations = this.pendingInvalidations.filter((pending) => pending !== next);
+    }
+
+    return true;
+  }
+
+  /**
+   * Put the changes of a failed batch back in the queue
+   *
+   * Changes made to the same keys since the batch was taken win.
+   *
+   * @param {CloudCacheBatch} batch - Failed batch
+   * @private
+   */
+  private requeue(batch: CloudCacheBatch): void {
+    const newer = new Map(this.pendingSets);
+    const newerDeletes = new Set(this.pendingDeletes);
+
+    this.pendingSets = new Map();
+    for (const { key, entry } of batch.set) {
+      if (!newer.has(key) && !newerDeletes.has(key)) {
+        this.pendingSets.set(key, entry);
+      }
+    }
+    newer.forEach((entry, key) => this.pendingSets.set(key, entry));
+
+    for (const key of batch.delete) {
+      if (!newer.has(key)) {
+        this.pendingDeletes.add(key);
+      }
+    }
+
+    this.trimPending();
+  }
+
+  /**
+   * Drop the oldest pending writes beyond `maxPendingWrites`
+   *
+   * @private
+   */
+  private trimPending(): void {
+    for (const key of this.pendingSets.keys()) {
+      if (this.pendingSets.size <= this.maxPendingWrites) {
+        break;
+      }
+      this.pendingSets.delete(key);
+      this.log(LogLevel.WARN, `Dropped pending write: ${key}`);
+    }
+  }
+
+  /**
+   * Schedule a flush after `flushInterval`
+   *
+   * @private
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer !== undefined) {
+      return;
+    }
+
+    this.flushTimer = this.clock.setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch((error) => {
+        this.log(LogLevel.ERROR, `Flush error: ${String(error)}`);
+      });
+    }, this.flushInterval);
+  }
+
+  /**
+   * Invalidate matching entries remotely and in the queue
+   *
+   * While offline, the invalidation is sent with the next flush and only
+   * pending writes are counted.
+   *
+   * @param {CloudCacheInvalidation} invalidation - Request body
+   * @param {(entry: CacheEntry) => boolean} matches - Same criteria, for pending writes
+   * @returns {Promise<number>} Number of entries invalidated
+   * @private
+   */
+  private async invalidate(
+    invalidation: CloudCacheInvalidation,
+    matches: (entry: CacheEntry) => boolean
+  ): Promise<number> {
+    let count = 0;
+
+    this.pendingSets.forEach((entry, key) => {
+      if (matches(entry)) {
+        this.pendingSets.delete(key);
+        count++;
+      }
+    });
+
+    const response = await this.tryRequest<{ count: number }>('POST', '/invalidate', invalidation);
+
+    // A pending clear removes the matching remote entries anyway
+    if (!response && !this.pendingClear) {
+      this.pendingInvalidations.push({ invalidation, matches });
+      this.scheduleFlush();
+    }
+
+    return count + (response?.body?.count ?? 0);
+  }
+
+  /**
+   * Send a request, degrading to null when the endpoint is unavailable
+   *
+   * Requests other than flushes are skipped for `offlineBackoff` after a
+   * failure, so callers do not each wait for the timeout.
+   *
+   * @param {string} method - HTTP method
+   * @param {string} path - Path relative to the endpoint
+   * @param {unknown} [body] - JSON body
+   * @param {boolean} [flushing] - Whether the request is part of a flush
+   * @returns {Promise<{ status: number; body: T | null } | null>} Response, or null on failure
+   * @private
+   */
+  private async tryRequest<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    flushing = false
+  ): Promise<{ status: number; body: T | null } | null> {
+    if (!flushing && this.clock.now() < this.retryAt) {
+      return null;
+    }
+
+    try {
+      const response = await this.request<T>(method, path, body);
+      this.retryAt = 0;
+
+      if (!this.online) {
+        this.online = true;
+        this.log(LogLevel.INFO, 'Cloud cache reachable again');
+      }
+
+      return response;
+    } catch (error) {
+      this.retryAt = this.clock.now() + this.offlineBackoff;
+
+      if (this.online) {
+        this.online = false;
+        this.log(LogLevel.WARN, `Cloud cache unavailable: ${(error as Error).message}`);
+      }
+
+      return null;
+    }
+  }
+
+  /**
+   * Send a request
+   *
+   * @param {string} method - HTTP method
+   * @param {string} path - Path relative to the endpoint
+   * @param {unknown} [body] - JSON body
+   * @returns {Promise<{ status: number; body: T | null }>} Status and parsed body (null for 204/404)
+   * @throws {CacheError} On network errors, timeouts and unexpected statuses
+   * @private
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<{ status: number; body: T | null }> {
+    const init: Parameters<FetchLike>[1] = { method, headers: this.headers };
+    if (body !== undefined) {
+      init.body = JSON.stringify(body);
+    }
+
+    let response: FetchResponseLike;
+    try {
+      response = await this.withTimeout(this.fetch(`${this.endpoint}${path}`, init));
+    } catch (error) {
+      throw new CacheError(
+        `${method} ${path} failed: ${(error as Error).message}`,
+        CacheLayer.CLOUD
+      );
+    }
+
+    if (response.status === 204 || response.status === 404) {
+      return { status: response.status, body: null };
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new CacheError(
+        `${method} ${path} failed with status ${response.status}`,
+        CacheLayer.CLOUD,
+        { status: response.status }
+      );
+    }
+
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  /**
+   * Bound a request by the configured timeout
+   *
+   * @param {Promise<T>} promise - Pending request
+   * @returns {Promise<T>} Request result
+   * @private
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = this.clock.setTimeout(() => {
+        reject(new Error(`timeout after ${this.timeout}ms`));
+      }, this.timeout);
+
+      promise.then(
+        (value) => {
+          this.clock.clearTimeout(timer);
+          resolve(value);
+        },
+        (error: unknown) => {
+          this.clock.clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Log message
+   *
+   * @param {LogLevel} level - Log level
+   * @param {string} message - Log message
+   * @private
+   */
+  private log(level: LogLevel, message: string): void {
+    if (!this.logger) {
+      return;
+    }
+
+    const msg = `[CloudCache] ${message}`;
+
+    switch (level) {
+      case LogLevel.DEBUG:
+        this.logger.debug(msg);
+        break;
+      case LogLevel.INFO:
+        this.logger.info(msg);
+        break;
+      case LogLevel.WARN:
+        this.logger.warn(msg);
+        break;
+      case LogLevel.ERROR:
+        this.logger.error(msg);
+        break;
+    }
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Local Database Cache Provider
+ *
+ * Persistent cache for the `CacheLayer.LOCAL_DB` layer. Entries are stored
+ * as JSON in a key-value storage adapter and survive restarts.
+ * Implements the ICacheProvider interface with the same TTL, tag and
+ * source invalidation semantics as the memory cache.
+ *
+ * @module cache/local-db-cache
+ */
+
+import { HealthSource } from '../models/unified-data';
+import { ICacheProvider, CacheEntry, CacheStats, parseCacheKey } from './cache-provider';
+import { IKeyValueStorage } from './storage-adapter';
+
+/**
+ * Local Database Cache Provider
+ *
+ * Hit and miss counters are kept for the current session only; entries
+ * are only removed when they expire or are invalidated.
+ *
+ * @class LocalDBCacheProvider
+ * @implements {ICacheProvider}
+ */
+export class LocalDBCacheProvider implements ICacheProvider {
+  private storage: IKeyValueStorage;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Create local database cache provider
+   *
+   * @param {IKeyValueStorage} storage - Storage holding the entries
+   */
+  constructor(storage: IKeyValueStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get cached data by key
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<CacheEntry | null>} Cached entry or null if not found/expired
+   */
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = await this.read(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    // Check if expired
+    if (Date.now() > entry.expiresAt) {
+      await this.storage.removeItem(key);
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Set cache entry
+   *
+   * @param {string} key - Cache key
+   * @param {CacheEntry} entry - Cache entry
+   * @returns {Promise<void>}
+   */
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.storage.setItem(key, JSON.stringify(entry));
+  }
+
+  /**
+   * Delete cache entry
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async delete(key: string): Promise<boolean> {
+    if ((await this.storage.getItem(key)) === null) {
+      return false;
+    }
+
+    await this.storage.removeItem(key);
+    return true;
+  }
+
+  /**
+   * Clear all cache entries
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Check if key exists in cache
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<boolean>} True if exists and not expired
+   */
+  async has(key: string): Promise<boolean> {
+    const entry = await this.get(key);
+    return entry !== null;
+  }
+
+  /**
+   * Get all keys in cache
+   *
+   * @returns {Promise<string[]>} Array of cache keys
+   */
+  keys(): Promise<string[]> {
+    return this.storage.getAllKeys();
+  }
+
+  /**
+   * Get cache statistics
+   *
+   * @returns {Promise<CacheStats>} Cache statistics
+   */
+  async stats(): Promise<CacheStats> {
+    const total = this.hits + this.misses;
+    let entries = 0;
+    let sizeBytes = 0;
+
+    for (const key of await this.storage.getAllKeys()) {
+      const value = await this.storage.getItem(key);
+      if (value !== null) {
+        entries++;
+        sizeBytes += value.length;
+      }
+    }
+
+    return {
+      entries,
+      sizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+      evictions: 0,
+    };
+  }
+
+  /**
+   * Invalidate entries by tags
+   *
+   * @param {string[]} tags - Tags to invalidate
+   * @returns {Promise<number>} Number of entries invalidated
+   */
+  invalidateByTags(tags: string[]): Promise<number> {
+    return this.deleteWhere(async (key) => {
+      const entryTags = (await this.read(key))?.tags ?? [];
+      return tags.some((tag) => entryTags.includes(tag));
+    });
+  }
+
+  /**
+   * Invalidate entries by source
+   *
+   * @param {HealthSource} source - Source to invalidate
+   * @param {string} [accountId] - Only invalidate entries of this account
+   * @returns {Promise<number>} Number of entries invalidated
+   */
+  invalidateBySource(source: HealthSource, accountId?: string): Promise<number> {
+    return this.deleteWhere((key) => {
+      const parsedKey = parseCacheKey(key);
+      return Promise.resolve(
+        parsedKey !== null &&
+          parsedKey.source === source &&
+          (accountId === undefined || parsedKey.accountId === accountId)
+      );
+    });
+  }
+
+  /**
+   * Cleanup expired entries
+   *
+   * Entries that can no longer be parsed are removed as well.
+   *
+   * @returns {Promise<number>} Number of entries cleaned up
+   */
+  cleanup(): Promise<number> {
+    const now = Date.now();
+
+    return this.deleteWhere(async (key) => {
+      const entry = await this.read(key);
+      return !entry || now > entry.expiresAt;
+    });
+  }
+
+  /**
+   * Read and parse a stored entry
+   *
+   * @param {string} key - Cache key
+   * @returns {Promise<CacheEntry | null>} Entry, or null if missing or unparsable
+   * @private
+   */
+  private async read(key: string): Promise<CacheEntry | null> {
+    const value = await this.storage.getItem(key);
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as CacheEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete the entries whose key matches a predicate
+   *
+   * @param {(key: string) => Promise<boolean>} predicate - Whether to delete an entry
+   * @returns {Promise<number>} Number of entries deleted
+   * @private
+   */
+  private async deleteWhere(predicate: (key: string) => Promise<boolean>): Promise<number> {
+    let count = 0;
+
+    for (const key of await this.storage.getAllKeys()) {
+      if (await predicate(key)) {
+        await this.storage.removeItem(key);
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
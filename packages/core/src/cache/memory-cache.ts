@@ -1,14 +1,38 @@
 /**
  * In-Memory Cache Provider
  *
- * Fast, session-only cache using LRU eviction strategy.
+ * Fast, session-only cache bounded by entry count and approximate byte
+ * size, using LRU, LFU or TTL-first eviction.
  * Implements the ICacheProvider interface with in-memory Map storage.
  *
  * @module cache/memory-cache
  */
 
 import { HealthSource } from '../models/unified-data';
-import { ICacheProvider, CacheEntry, CacheStats, parseCacheKey } from './cache-provider';
+import { EvictionPolicy } from '../types/config';
+import {
+  ICacheProvider,
+  CacheEntry,
+  CacheStats,
+  estimateEntrySize,
+  parseCacheKey,
+} from './cache-provider';
+
+/**
+ * Memory cache options
+ *
+ * @interface MemoryCacheOptions
+ */
+export interface MemoryCacheOptions {
+  /** Maximum number of entries (default: 1000) */
+  maxEntries?: number;
+
+  /** Maximum total size in bytes (default: unbounded) */
+  maxBytes?: number;
+
+  /** Eviction policy (default: LRU) */
+  evictionPolicy?: EvictionPolicy;
+}
 
 /**
  * LRU Cache Node
@@ -19,12 +43,19 @@ import { ICacheProvider, CacheEntry, CacheStats, parseCacheKey } from './cache-p
 interface LRUNode {
   key: string;
   entry: CacheEntry;
+  size: number;
+  accessCount: number;
   prev: LRUNode | null;
   next: LRUNode | null;
 }
 
 /**
- * In-Memory Cache Provider with LRU Eviction
+ * In-Memory Cache Provider
+ *
+ * Entries are kept in recency order; when the entry count or total size is
+ * exceeded, entries are evicted according to the policy. The entry being
+ * written is never evicted by its own write, but entries larger than the
+ * byte limit are not cached at all.
  *
  * @class MemoryCacheProvider
  * @implements {ICacheProvider}
@@ -34,6 +65,9 @@ export class MemoryCacheProvider implements ICacheProvider {
   private head: LRUNode | null = null;
   private tail: LRUNode | null = null;
   private maxSize: number;
+  private maxBytes: number;
+  private policy: EvictionPolicy;
+  private totalBytes = 0;
   private hits = 0;
   private misses = 0;
   private evictions = 0;
@@ -41,10 +75,18 @@ export class MemoryCacheProvider implements ICacheProvider {
   /**
    * Create memory cache provider
    *
-   * @param {number} [maxSize=1000] - Maximum number of entries
+   * @param {number | MemoryCacheOptions} [options=1000] - Maximum number of entries, or options
    */
-  constructor(maxSize: number = 1000) {
-    this.maxSize = maxSize;
+  constructor(options: number | MemoryCacheOptions = 1000) {
+    const {
+      maxEntries = 1000,
+      maxBytes = Infinity,
+      evictionPolicy = EvictionPolicy.LRU,
+    } = typeof options === 'number' ? { maxEntries: options } : options;
+
+    this.maxSize = maxEntries;
+    this.maxBytes = maxBytes;
+    this.policy = evictionPolicy;
   }
 
   /**
@@ -70,6 +112,7 @@ export class MemoryCacheProvider implements ICacheProvider {
 
     // Move to front (most recently used)
     this.moveToFront(node);
+    node.accessCount++;
     this.hits++;
 
     return node.entry;
@@ -83,30 +126,40 @@ export class MemoryCacheProvider implements ICacheProvider {
    * @returns {Promise<void>}
    */
   async set(key: string, entry: CacheEntry): Promise<void> {
-    // Update existing entry
-    const existingNode = this.cache.get(key);
-    if (existingNode) {
-      existingNode.entry = entry;
-      this.moveToFront(existingNode);
+    const size = estimateEntrySize(entry);
+
+    // Entries larger than the whole cache are not kept
+    if (size > this.maxBytes) {
+      await this.delete(key);
       return;
     }
 
-    // Create new node
-    const newNode: LRUNode = {
-      key,
-      entry,
-      prev: null,
-      next: null,
-    };
-
-    // Add to front
-    this.addToFront(newNode);
-    this.cache.set(key, newNode);
-
-    // Evict LRU if over capacity
-    if (this.cache.size > this.maxSize) {
-      await this.evictLRU();
+    // Update existing entry
+    let node = this.cache.get(key);
+    if (node) {
+      this.totalBytes += size - node.size;
+      node.entry = entry;
+      node.size = size;
+      this.moveToFront(node);
+    } else {
+      // Create new node
+      node = {
+        key,
+        entry,
+        size,
+        accessCount: 0,
+        prev: null,
+        next: null,
+      };
+
+      // Add to front
+      this.addToFront(node);
+      this.cache.set(key, node);
+      this.totalBytes += size;
     }
+
+    // Evict if over capacity
+    await this.evict(node);
   }
 
   /**
@@ -124,6 +177,7 @@ export class MemoryCacheProvider implements ICacheProvider {
 
     this.removeNode(node);
     this.cache.delete(key);
+    this.totalBytes -= node.size;
 
     return true;
   }
@@ -137,6 +191,7 @@ export class MemoryCacheProvider implements ICacheProvider {
     this.cache.clear();
     this.head = null;
     this.tail = null;
+    this.totalBytes = 0;
     this.hits = 0;
     this.misses = 0;
     this.evictions = 0;
@@ -171,20 +226,20 @@ export class MemoryCacheProvider implements ICacheProvider {
     const total = this.hits + this.misses;
     const hitRate = total > 0 ? this.hits / total : 0;
 
-    // Estimate size (rough approximation)
-    let sizeBytes = 0;
-    for (const node of this.cache.values()) {
-      sizeBytes += JSON.stringify(node.entry.data).length;
-    }
-
-    return {
+    const stats: CacheStats = {
       entries: this.cache.size,
-      sizeBytes,
+      sizeBytes: this.totalBytes,
       hits: this.hits,
       misses: this.misses,
       hitRate,
       evictions: this.evictions,
     };
+
+    if (Number.isFinite(this.maxBytes)) {
+      stats.maxSizeBytes = this.maxBytes;
+    }
+
+    return stats;
   }
 
   /**
@@ -217,16 +272,21 @@ export class MemoryCacheProvider implements ICacheProvider {
    * Invalidate entries by source
    *
    * @param {HealthSource} source - Source to invalidate
+   * @param {string} [accountId] - Only invalidate entries of this account
    * @returns {Promise<number>} Number of entries invalidated
    */
-  async invalidateBySource(source: HealthSource): Promise<number> {
+  async invalidateBySource(source: HealthSource, accountId?: string): Promise<number> {
     let count = 0;
     const keysToDelete: string[] = [];
 
     for (const [key, _node] of this.cache.entries()) {
       // Parse key to get source
       const parsedKey = parseCacheKey(key);
-      if (parsedKey && parsedKey.source === source) {
+      if (
+        parsedKey &&
+        parsedKey.source === source &&
+        (accountId === undefined || parsedKey.accountId === accountId)
+      ) {
         keysToDelete.push(key);
       }
     }
@@ -325,18 +385,60 @@ export class MemoryCacheProvider implements ICacheProvider {
   }
 
   /**
-   * Evict least recently used entry
+   * Evict entries until the cache is within its limits
    *
+   * @param {LRUNode} written - Node just written, never evicted
    * @returns {Promise<void>}
    * @private
    */
-  private async evictLRU(): Promise<void> {
-    if (!this.tail) {
-      return;
+  private async evict(written: LRUNode): Promise<void> {
+    while (this.cache.size > this.maxSize || this.totalBytes > this.maxBytes) {
+      const victim = this.selectVictim(written);
+      if (!victim) {
+        return;
+      }
+
+      await this.delete(victim.key);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Select the entry to evict according to the policy
+   *
+   * Candidates are scanned from least to most recently used, so ties go to
+   * the least recently used entry.
+   *
+   * @param {LRUNode} written - Node just written, never selected
+   * @returns {LRUNode | null} Entry to evict, or null if none
+   * @private
+   */
+  private selectVictim(written: LRUNode): LRUNode | null {
+    let victim: LRUNode | null = null;
+
+    for (let node = this.tail; node; node = node.prev) {
+      if (node === written) {
+        continue;
+      }
+      if (this.policy === EvictionPolicy.LRU) {
+        return node;
+      }
+      if (!victim || this.rank(node) < this.rank(victim)) {
+        victim = node;
+      }
     }
 
-    const lruKey = this.tail.key;
-    await this.delete(lruKey);
-    this.evictions++;
+    return victim;
+  }
+
+  /**
+   * Eviction rank of an entry under the LFU and TTL-first policies
+   *
+   * @param {LRUNode} node - Node
+   * @returns {number} Rank (lowest is evicted first)
+   * @private
+   */
+  private rank(node: LRUNode): number {
+    return this.policy === EvictionPolicy.LFU ? node.accessCount : node.entry.expiresAt;
   }
 }
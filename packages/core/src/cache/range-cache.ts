@@ -0,0 +1,271 @@
+/**
+ * Range Cache
+ *
+ * Time-range index over the cached records of one source and data type (a
+ * "series"). Every fetched range is kept as a segment holding the records
+ * whose timestamp falls inside it, so any sub-range can be answered from
+ * the segments covering it and only the uncovered gaps need fetching.
+ *
+ * @module cache/range-cache
+ */
+
+import { AnyHealthData, DataType, HealthSource } from '../models/unified-data';
+import { generateCacheKey } from './cache-provider';
+
+/**
+ * Time range with inclusive bounds
+ *
+ * @interface TimeRange
+ */
+export interface TimeRange {
+  /** Range start (ISO 8601) */
+  startDate: string;
+
+  /** Range end, inclusive (ISO 8601) */
+  endDate: string;
+}
+
+/**
+ * Key of a cached series
+ *
+ * @interface SeriesKey
+ */
+export interface SeriesKey {
+  /** Data source */
+  source: HealthSource;
+
+  /** Account of the source (omitted for single-account sources) */
+  accountId?: string;
+
+  /** Type of health data */
+  dataType: DataType;
+}
+
+/**
+ * Cached range of a series
+ *
+ * @interface CachedSegment
+ */
+export interface CachedSegment {
+  /** Segment start (epoch milliseconds) */
+  start: number;
+
+  /** Segment end, inclusive (epoch milliseconds) */
+  end: number;
+
+  /** When the segment was cached */
+  cachedAt: number;
+
+  /** When the segment expires */
+  expiresAt: number;
+
+  /** Records whose timestamp falls inside the segment */
+  records: AnyHealthData[];
+}
+
+/**
+ * Result of looking up a range in a series
+ *
+ * @interface RangeLookup
+ */
+export interface RangeLookup {
+  /** Cached records inside the covered parts of the range */
+  data: AnyHealthData[];
+
+  /** Parts of the range not covered by the cache, in order */
+  gaps: TimeRange[];
+
+  /** Covered share of the range (0-1) */
+  hitRatio: number;
+}
+
+/**
+ * Generate the cache key of a series
+ *
+ * Series keys use `*` as dates, so they parse like any other cache key.
+ *
+ * @param {SeriesKey} key - Series key
+ * @returns {string} Serialized cache key
+ */
+export function getSeriesCacheKey(key: SeriesKey): string {
+  return generateCacheKey({ ...key, startDate: '*', endDate: '*' });
+}
+
+/**
+ * Look up a range in the segments of a series
+ *
+ * @param {CachedSegment[]} segments - Segments of the series, sorted by start
+ * @param {TimeRange} range - Requested range
+ * @param {number} now - Current time; expired segments are ignored
+ * @returns {RangeLookup} Cached records, gaps and hit ratio
+ */
+export function lookupRange(segments: CachedSegment[], range: TimeRange, now: number): RangeLookup {
+  const start = Date.parse(range.startDate);
+  const end = Date.parse(range.endDate);
+
+  if (!(start <= end)) {
+    return { data: [], gaps: [range], hitRatio: 0 };
+  }
+
+  const data: AnyHealthData[] = [];
+  const gaps: TimeRange[] = [];
+  let cursor = start;
+  let covered = 0;
+
+  for (const segment of segments) {
+    if (segment.expiresAt < now || segment.end < start) {
+      continue;
+    }
+    if (segment.start > end) {
+      break;
+    }
+
+    if (segment.start > cursor) {
+      gaps.push(toRange(cursor, segment.start - 1, range));
+    }
+
+    const overlapStart = Math.max(segment.start, start);
+    const overlapEnd = Math.min(segment.end, end);
+
+    covered += overlapEnd - overlapStart + 1;
+    data.push(...segment.records.filter((record) => isWithin(record, overlapStart, overlapEnd)));
+    cursor = overlapEnd + 1;
+  }
+
+  if (cursor <= end) {
+    gaps.push(toRange(cursor, end, range));
+  }
+
+  return { data, gaps, hitRatio: covered / (end - start + 1) };
+}
+
+/**
+ * Store fetched ranges in the segments of a series
+ *
+ * Each range replaces the cached coverage it overlaps and keeps the records
+ * whose timestamp falls inside it. Ranges are clipped at `now`, since later
+ * records may still arrive. Expired segments are dropped.
+ *
+ * @param {CachedSegment[]} segments - Segments of the series, sorted by start
+ * @param {TimeRange[]} ranges - Fetched ranges
+ * @param {AnyHealthData[]} records - Records fetched for the ranges
+ * @param {number} now - Current time
+ * @param {number} expiresAt - Expiry of the new segments
+ * @returns {CachedSegment[]} Updated segments, sorted by start
+ */
+export function storeRanges(
+  segments: CachedSegment[],
+  ranges: TimeRange[],
+  records: AnyHealthData[],
+  now: number,
+  expiresAt: number
+): CachedSegment[] {
+  let result = segments.filter((segment) => segment.expiresAt >= now);
+
+  for (const range of ranges) {
+    const start = Date.parse(range.startDate);
+    const end = Math.min(Date.parse(range.endDate), now);
+
+    if (!(start <= end)) {
+      continue;
+    }
+
+    result = result.flatMap((segment) => cutSegment(segment, start, end));
+    result.push({
+      start,
+      end,
+      cachedAt: now,
+      expiresAt,
+      records: records.filter((record) => isWithin(record, start, end)),
+    });
+  }
+
+  return result.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Clip ranges to the parts inside other ranges
+ *
+ * @param {TimeRange[]} ranges - Ranges to clip (e.g. planned fetch chunks)
+ * @param {TimeRange[]} bounds - Ranges to keep (e.g. cache gaps)
+ * @returns {TimeRange[]} Clipped ranges, in the order of `ranges`
+ */
+export function clipRanges(ranges: TimeRange[], bounds: TimeRange[]): TimeRange[] {
+  const clipped: TimeRange[] = [];
+
+  for (const range of ranges) {
+    const start = Date.parse(range.startDate);
+    const end = Date.parse(range.endDate);
+
+    for (const bound of bounds) {
+      const overlapStart = Math.max(start, Date.parse(bound.startDate));
+      const overlapEnd = Math.min(end, Date.parse(bound.endDate));
+
+      if (overlapStart <= overlapEnd) {
+        clipped.push(toRange(overlapStart, overlapEnd, range));
+      }
+    }
+  }
+
+  return clipped;
+}
+
+/**
+ * Remove a range from a segment
+ *
+ * @param {CachedSegment} segment - Segment
+ * @param {number} start - Start of the removed range
+ * @param {number} end - End of the removed range
+ * @returns {CachedSegment[]} Remaining parts of the segment
+ */
+function cutSegment(segment: CachedSegment, start: number, end: number): CachedSegment[] {
+  if (segment.end < start || segment.start > end) {
+    return [segment];
+  }
+
+  const pieces: CachedSegment[] = [];
+  const piece = (pieceStart: number, pieceEnd: number): CachedSegment => ({
+    ...segment,
+    start: pieceStart,
+    end: pieceEnd,
+    records: segment.records.filter((record) => isWithin(record, pieceStart, pieceEnd)),
+  });
+
+  if (segment.start < start) {
+    pieces.push(piece(segment.start, start - 1));
+  }
+  if (segment.end > end) {
+    pieces.push(piece(end + 1, segment.end));
+  }
+
+  return pieces;
+}
+
+/**
+ * Check whether a record's timestamp falls inside a range
+ *
+ * @param {AnyHealthData} record - Record
+ * @param {number} start - Range start
+ * @param {number} end - Range end, inclusive
+ * @returns {boolean} True if inside
+ */
+function isWithin(record: AnyHealthData, start: number, end: number): boolean {
+  const time = Date.parse(record.timestamp);
+  return time >= start && time <= end;
+}
+
+/**
+ * Build a range, reusing the original strings of unchanged bounds
+ *
+ * @param {number} start - Range start
+ * @param {number} end - Range end, inclusive
+ * @param {TimeRange} original - Range the bounds come from
+ * @returns {TimeRange} Range
+ */
+function toRange(start: number, end: number, original: TimeRange): TimeRange {
+  return {
+    startDate:
+      start === Date.parse(original.startDate) ? original.startDate : new Date(start).toISOString(),
+    endDate: end === Date.parse(original.endDate) ? original.endDate : new Date(end).toISOString(),
+  };
+}
@@ -0,0 +1,369 @@
+/**
+ * Key-Value Storage Adapters
+ *
+ * Minimal string key-value storage used by persistent cache providers,
+ * with adapters for React Native AsyncStorage, Node's file system and
+ * memory. Adapters take the platform API as a constructor argument so the
+ * core package does not depend on either platform.
+ *
+ * @module cache/storage-adapter
+ */
+
+/**
+ * Key-value storage interface
+ *
+ * Each adapter owns a namespace (key prefix, directory, ...): `getAllKeys()`
+ * and `clear()` only see keys stored through the adapter.
+ *
+ * @interface IKeyValueStorage
+ */
+export interface IKeyValueStorage {
+  /**
+   * Read a value
+   *
+   * @param {string} key - Key
+   * @returns {Promise<string | null>} Stored value or null if not found
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Write a value
+   *
+   * @param {string} key - Key
+   * @param {string} value - Value
+   * @returns {Promise<void>}
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Remove a value (no-op if not found)
+   *
+   * @param {string} key - Key
+   * @returns {Promise<void>}
+   */
+  removeItem(key: string): Promise<void>;
+
+  /**
+   * Get all keys in the namespace
+   *
+   * @returns {Promise<string[]>} Keys
+   */
+  getAllKeys(): Promise<string[]>;
+
+  /**
+   * Remove all values in the namespace
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Subset of the React Native AsyncStorage API used by `AsyncStorageAdapter`
+ *
+ * @interface AsyncStorageLike
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  multiRemove?(keys: readonly string[]): Promise<void>;
+}
+
+/**
+ * Subset of Node's `fs.promises` API used by `FileStorageAdapter`
+ *
+ * @interface FileSystemLike
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+/**
+ * AsyncStorage Adapter
+ *
+ * Stores values in AsyncStorage under a key prefix.
+ *
+ * @class AsyncStorageAdapter
+ * @implements {IKeyValueStorage}
+ */
+export class AsyncStorageAdapter implements IKeyValueStorage {
+  private storage: AsyncStorageLike;
+  private prefix: string;
+
+  /**
+   * Create AsyncStorage adapter
+   *
+   * @param {AsyncStorageLike} storage - AsyncStorage instance
+   * @param {string} [prefix='healthsync:cache:'] - Prefix of the adapter's keys
+   */
+  constructor(storage: AsyncStorageLike, prefix: string = 'healthsync:cache:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Read a value
+   *
+   * @param {string} key - Key
+   * @returns {Promise<string | null>} Stored value or null if not found
+   */
+  getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  /**
+   * Write a value
+   *
+   * @param {string} key - Key
+   * @param {string} value - Value
+   * @returns {Promise<void>}
+   */
+  setItem(key: string, value: string): Promise<void> {
+    return this.storage.setItem(this.prefix + key, value);
+  }
+
+  /**
+   * Remove a value (no-op if not found)
+   *
+   * @param {string} key - Key
+   * @returns {Promise<void>}
+   */
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(this.prefix + key);
+  }
+
+  /**
+   * Get all keys stored through the adapter
+   *
+   * @returns {Promise<string[]>} Keys
+   */
+  async getAllKeys(): Promise<string[]> {
+    const keys = await this.storage.getAllKeys();
+
+    return keys
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * Remove all values stored through the adapter
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    const keys = (await this.getAllKeys()).map((key) => this.prefix + key);
+
+    if (this.storage.multiRemove) {
+      await this.storage.multiRemove(keys);
+    } else {
+      await Promise.all(keys.map((key) => this.storage.removeItem(key)));
+    }
+  }
+}
+
+/**
+ * File Storage Adapter
+ *
+ * Stores each value in its own file of a directory (created on first
+ * write). Writes go to a temporary file renamed into place, so a crash
+ * never leaves a partially written value behind.
+ *
+ * @example
+ * ```typescript
+ * import { promises as fs } from 'fs';
+ * const storage = new FileStorageAdapter(fs, '/var/lib/my-app/health-cache');
+ * ```
+ *
+ * @class FileStorageAdapter
+ * @implements {IKeyValueStorage}
+ */
+export class FileStorageAdapter implements IKeyValueStorage {
+  private fs: FileSystemLike;
+  private directory: string;
+  private ready: Promise<unknown> | undefined;
+
+  /**
+   * Create file storage adapter
+   *
+   * @param {FileSystemLike} fs - File system API (`fs.promises`)
+   * @param {string} directory - Directory holding the adapter's files
+   */
+  constructor(fs: FileSystemLike, directory: string) {
+    this.fs = fs;
+    this.directory = directory.replace(/[\\/]+$/, '');
+  }
+
+  /**
+   * Read a value
+   *
+   * @param {string} key - Key
+   * @returns {Promise<string | null>} Stored value or null if not found
+   */
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await this.fs.readFile(this.getPath(key), 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write a value
+   *
+   * @param {string} key - Key
+   * @param {string} value - Value
+   * @returns {Promise<void>}
+   */
+  async setItem(key: string, value: string): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.fs.mkdir(this.directory, { recursive: true });
+    }
+    await this.ready;
+
+    const path = this.getPath(key);
+    await this.fs.writeFile(`${path}.tmp`, value, 'utf8');
+    await this.fs.rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Remove a value (no-op if not found)
+   *
+   * @param {string} key - Key
+   * @returns {Promise<void>}
+   */
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.fs.unlink(this.getPath(key));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get all keys stored through the adapter
+   *
+   * @returns {Promise<string[]>} Keys
+   */
+  async getAllKeys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await this.fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+
+  /**
+   * Remove all values stored through the adapter
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    const keys = await this.getAllKeys();
+    await Promise.all(keys.map((key) => this.removeItem(key)));
+  }
+
+  /**
+   * Get the file path of a key
+   *
+   * @param {string} key - Key
+   * @returns {string} Path
+   * @private
+   */
+  private getPath(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}.json`;
+  }
+}
+
+/**
+ * Memory Storage Adapter
+ *
+ * Session-only storage, for tests and environments without persistence.
+ *
+ * @class MemoryStorageAdapter
+ * @implements {IKeyValueStorage}
+ */
+export class MemoryStorageAdapter implements IKeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  /**
+   * Read a value
+   *
+   * @param {string} key - Key
+   * @returns {Promise<string | null>} Stored value or null if not found
+   */
+  getItem(key: string): Promise<string | null> {
+    return Promise.resolve(this.items.get(key) ?? null);
+  }
+
+  /**
+   * Write a value
+   *
+   * @param {string} key - Key
+   * @param {string} value - Value
+   * @returns {Promise<void>}
+   */
+  setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+    return Promise.resolve();
+  }
+
+  /**
+   * Remove a value (no-op if not found)
+   *
+   * @param {string} key - Key
+   * @returns {Promise<void>}
+   */
+  removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Get all keys stored through the adapter
+   *
+   * @returns {Promise<string[]>} Keys
+   */
+  getAllKeys(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.items.keys()));
+  }
+
+  /**
+   * Remove all values stored through the adapter
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void> {
+    this.items.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Check whether a file system error means the file does not exist
+ *
+ * @param {unknown} error - Error
+ * @returns {boolean} True for ENOENT errors
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'ENOENT';
+}
@@ -43,6 +43,15 @@ export {
   isValidHealthData,
 } from './models/unified-data';
 
+export {
+  registerHealthSource,
+  unregisterHealthSource,
+  isHealthSource,
+  getHealthSourceDefinition,
+  getCustomHealthSources,
+  type HealthSourceDefinition,
+} from './models/source-registry';
+
 // ============================================================================
 // Plugin System
 // ============================================================================
@@ -56,15 +65,25 @@ export {
   type IHealthDataPlugin,
   type PluginConfig,
   type PluginInfo,
+  type PluginRequirements,
+  type PeerPluginRequirement,
   type ConnectionResult,
   type DataQuery,
   type RawHealthData,
   type Subscription,
   type UpdateCallback,
   type RateLimitInfo,
+  type AggregateDataQuery,
+  type AggregateDataPoint,
+  type DataGranularity,
+  type PagingStyle,
+  type AggregationCapabilities,
+  type DataTypeCapabilities,
+  type PluginCapabilities,
 
   // Base Class
   BasePlugin,
+  getDefaultCapabilities,
 } from './plugins/plugin-interface';
 
 // ============================================================================
@@ -75,12 +94,17 @@ export {
   // Enums
   LogLevel,
   CacheLayer,
+  EvictionPolicy,
+  ConflictStrategy,
 
   // Interfaces
   type SDKConfig,
   type CacheConfig,
   type RetryConfig,
+  type CircuitBreakerConfig,
+  type ConflictResolutionConfig,
   type Logger,
+  type ConnectOptions,
   type SyncOptions,
   type SyncProgress,
   type SyncResult,
@@ -101,9 +125,14 @@ export {
   RateLimitError,
   ValidationError,
   PluginError,
+  PluginCompatibilityError,
   CacheError,
   SyncError,
+  SyncCancelledError,
   NetworkError,
+  OperationDeferredError,
+  CircuitOpenError,
+  UnsupportedCapabilityError,
 
   // Default Configurations
   DEFAULT_SDK_CONFIG,
@@ -120,6 +149,13 @@ export {
   type HealthDataResponse,
   type QueryFilters,
   type QueryMetadata,
+  type DataConflict,
+  type AggregateQuery,
+  type AggregateResponse,
+  type AggregateBucket,
+  type AggregateMetadata,
+  type AggregationBucket,
+  type AggregationFunction,
   type DataUpdateCallback,
   type SDKEventData,
 
@@ -137,7 +173,54 @@ export { HealthSyncSDK } from './sdk';
 // Plugin Registry
 // ============================================================================
 
-export { PluginRegistry } from './plugins/plugin-registry';
+export {
+  PluginRegistry,
+  getPluginKey,
+  resolvePluginSource,
+  type PluginRegistryConfig,
+  type PluginHealth,
+  type PluginErrorRecord,
+  type HealthReport,
+} from './plugins/plugin-registry';
+
+export {
+  CircuitBreaker,
+  CircuitState,
+  type CircuitBreakerSnapshot,
+} from './plugins/circuit-breaker';
+
+export {
+  RetryExecutor,
+  type RetryExecutorConfig,
+  type RetryContext,
+} from './plugins/retry-executor';
+
+export {
+  MiddlewarePipeline,
+  type PluginMiddleware,
+  type MiddlewareContext,
+  type MiddlewareOperation,
+  type HookResult,
+  type BeforeFetchResult,
+} from './plugins/plugin-middleware';
+
+export { PluginLoader, getManifestKey, type PluginManifest } from './plugins/plugin-loader';
+
+export {
+  mergePluginConfig,
+  validatePluginConfig,
+  type PluginConfigSchema,
+  type PluginConfigFieldSchema,
+  type PluginConfigFieldType,
+} from './plugins/plugin-config';
+
+export {
+  checkPluginCompatibility,
+  type CompatibilityIssue,
+  type CompatibilityIssueType,
+  type CompatibilityReport,
+  type PluginCompatibility,
+} from './plugins/plugin-compatibility';
 
 // ============================================================================
 // Health Connect Plugin
@@ -147,6 +230,7 @@ export {
   HealthConnectPlugin,
   type HealthConnectBridge,
   type HealthConnectRecord,
+  type HealthConnectAggregateResult,
   HealthConnectPermission,
   HealthConnectRecordType,
   HealthConnectSleepStage,
@@ -155,6 +239,7 @@ export {
   type HealthConnectConfig,
   type PermissionStatus,
   HEALTH_CONNECT_TYPE_MAP,
+  HEALTH_CONNECT_AGGREGATE_METRICS,
   DEFAULT_HEALTH_CONNECT_CONFIG,
 } from './plugins/health-connect';
 
@@ -186,6 +271,36 @@ export {
   type QualityScore,
 } from './normalizer/quality-scorer';
 
+// ============================================================================
+// Query Processing
+// ============================================================================
+
+export { QueryProcessor, type ProcessedQueryResult } from './query/query-processor';
+
+export {
+  ConflictResolver,
+  type ConflictResolverConfig,
+  type ConflictResolution,
+} from './query/conflict-resolver';
+
+export {
+  Aggregator,
+  AGGREGATION_SEMANTICS,
+  getPrimaryValue,
+  type AggregationSemantics,
+  type BucketRange,
+} from './query/aggregator';
+
+export {
+  QueryPlanner,
+  type QueryPlannerConfig,
+  type PlanRequest,
+  type PlanCandidate,
+  type PlannedRange,
+  type SourcePlan,
+  type QueryPlan,
+} from './query/query-planner';
+
 // ============================================================================
 // Cache System
 // ============================================================================
@@ -197,15 +312,121 @@ export {
   type CacheStats,
   generateCacheKey,
   parseCacheKey,
+  estimateEntrySize,
 } from './cache/cache-provider';
 
-export { MemoryCacheProvider } from './cache/memory-cache';
+export { MemoryCacheProvider, type MemoryCacheOptions } from './cache/memory-cache';
+
+export {
+  getSeriesCacheKey,
+  lookupRange,
+  storeRanges,
+  clipRanges,
+  type TimeRange,
+  type SeriesKey,
+  type CachedSegment,
+  type RangeLookup,
+} from './cache/range-cache';
+
+export {
+  sourceTag,
+  accountTag,
+  dataTypeTag,
+  dayTag,
+  deriveCacheTags,
+  deriveRecordTags,
+} from './cache/cache-tags';
+
+export { LocalDBCacheProvider } from './cache/local-db-cache';
+
+export {
+  AsyncStorageAdapter,
+  FileStorageAdapter,
+  MemoryStorageAdapter,
+  type IKeyValueStorage,
+  type AsyncStorageLike,
+  type FileSystemLike,
+} from './cache/storage-adapter';
+
+export {
+  CloudCacheProvider,
+  type CloudCacheConfig,
+  type CloudCacheBatch,
+  type CloudCacheInvalidation,
+  type FetchLike,
+  type FetchResponseLike,
+} from './cache/cloud-cache';
+
+export {
+  CloudCacheReferenceServer,
+  type CloudCacheRequest,
+  type CloudCacheResponse,
+  type CloudCacheServerOptions,
+} from './cache/cloud-cache-server';
 
 export {
   CacheManager,
   type CacheManagerConfig,
 } from './cache/cache-manager';
 
+// ============================================================================
+// Sync State
+// ============================================================================
+
+export {
+  type ISyncStateStore,
+  type SyncCursor,
+  type SeenRecord,
+  generateSyncStateKey,
+} from './sync/sync-state-store';
+
+export { MemorySyncStateStore } from './sync/memory-sync-state-store';
+
+export { StorageSyncStateStore } from './sync/storage-sync-state-store';
+
+export {
+  OfflineQueue,
+  type OfflineQueueConfig,
+  type QueuedJobInput,
+  type QueueDrainOptions,
+  type QueueDrainResult,
+} from './sync/offline-queue';
+
+export {
+  type IOfflineQueueStore,
+  type QueuedJob,
+  type QueuedJobKind,
+} from './sync/offline-queue-store';
+
+export { MemoryOfflineQueueStore } from './sync/memory-offline-queue-store';
+
+export { StorageOfflineQueueStore } from './sync/storage-offline-queue-store';
+
+export { SyncProgressTracker, type SyncTarget } from './sync/sync-progress';
+
+export {
+  AutoSyncEngine,
+  type AutoSyncConfig,
+  type AutoSyncState,
+  type SourceBackoff,
+} from './sync/auto-sync';
+
+export {
+  SyncScheduler,
+  type SyncSchedulerJob,
+  type SyncSchedulerConfig,
+} from './sync/sync-scheduler';
+
+export {
+  SyncStateManager,
+  type SyncStateManagerConfig,
+  type SyncWindow,
+  type SyncWindowOptions,
+  type SyncDelta,
+  getRecordIdentity,
+  getRecordFingerprint,
+} from './sync/sync-state-manager';
+
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -216,14 +437,39 @@ export {
   type EventSubscription,
 } from './utils/event-emitter';
 
+export { systemClock, type Clock, type TimerHandle } from './utils/clock';
+
+export {
+  isValidTimeZone,
+  toZonedDateTime,
+  fromZonedDateTime,
+  getTimeZoneOffset,
+  startOfPeriod,
+  nextPeriod,
+  formatInTimeZone,
+  getSystemTimeZone,
+  formatLocalDate,
+  parseLocalDate,
+  parseLocalDateTime,
+  parseOffset,
+  resolveRangeBoundary,
+  type CalendarUnit,
+  type ZonedDateTime,
+} from './utils/timezone';
+
+export {
+  parseVersion,
+  compareVersions,
+  satisfies,
+  isValidRange,
+  type SemVer,
+} from './utils/semver';
+
 // ============================================================================
 // Version
 // ============================================================================
 
-/**
- * Current SDK version
- */
-export const VERSION = '1.0.0';
+export { VERSION } from './version';
 
 /**
  * SDK name
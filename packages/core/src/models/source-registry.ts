@@ -0,0 +1,124 @@
+/**
+ * Health Source Registry
+ *
+ * Built-in sources are the `HealthSource` enum members. Sources of
+ * third-party plugins are registered at runtime and then used wherever a
+ * `HealthSource` is expected (queries, records, sync state).
+ *
+ * The registry is process-global, like the `HealthSource` enum it extends:
+ * a registered source is known to every SDK instance, and disposing an
+ * instance does not remove it. Call `unregisterHealthSource()` to remove a
+ * source, e.g. between tests.
+ *
+ * @module models/source-registry
+ */
+
+import { HealthSource } from './unified-data';
+import { ConfigurationError } from '../types/config';
+
+/**
+ * Definition of a custom health source
+ *
+ * @interface HealthSourceDefinition
+ */
+export interface HealthSourceDefinition {
+  /** Source identifier (lowercase letters, digits, `_` and `-`) */
+  id: string;
+
+  /** Human-readable name */
+  name?: string;
+
+  /** Reliability used for quality scoring (0-1, defaults to 0.5) */
+  reliability?: number;
+}
+
+/**
+ * Valid custom source identifier
+ */
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Built-in source identifiers
+ */
+const BUILT_IN_SOURCES: ReadonlySet<string> = new Set(Object.values(HealthSource));
+
+/**
+ * Custom sources by identifier (shared by all SDK instances)
+ */
+const customSources: Map<string, HealthSourceDefinition> = new Map();
+
+/**
+ * Register a custom health source
+ *
+ * The source is registered for the whole process. Registering an already
+ * registered identifier replaces its definition.
+ *
+ * @param {HealthSourceDefinition} definition - Source definition
+ * @returns {HealthSource} The source, usable wherever a HealthSource is expected
+ * @throws {ConfigurationError} If the identifier is invalid or a built-in source
+ */
+export function registerHealthSource(definition: HealthSourceDefinition): HealthSource {
+  const { id, reliability } = definition;
+
+  if (!SOURCE_ID_PATTERN.test(id)) {
+    throw new ConfigurationError(
+      `Invalid health source '${id}': use lowercase letters, digits, '_' and '-'`,
+      { source: id }
+    );
+  }
+  if (BUILT_IN_SOURCES.has(id)) {
+    throw new ConfigurationError(`Health source '${id}' is built in`, { source: id });
+  }
+  if (reliability !== undefined && (reliability < 0 || reliability > 1)) {
+    throw new ConfigurationError(`Reliability of '${id}' must be between 0 and 1`, {
+      source: id,
+      reliability,
+    });
+  }
+
+  customSources.set(id, { ...definition });
+  return id as HealthSource;
+}
+
+/**
+ * Remove a custom health source
+ *
+ * Plugins of the source stay registered with SDK instances but cannot be
+ * registered again until the source is.
+ *
+ * @param {string} id - Source identifier
+ * @returns {boolean} True if the source was registered
+ */
+export function unregisterHealthSource(id: string): boolean {
+  return customSources.delete(id);
+}
+
+/**
+ * Check whether a value is a built-in or registered health source
+ *
+ * @param {string} value - Value to check
+ * @returns {boolean} True if known
+ */
+export function isHealthSource(value: string): value is HealthSource {
+  return BUILT_IN_SOURCES.has(value) || customSources.has(value);
+}
+
+/**
+ * Get the definition of a custom health source
+ *
+ * @param {string} source - Source identifier
+ * @returns {HealthSourceDefinition | undefined} Definition, or undefined for built-in and unknown sources
+ */
+export function getHealthSourceDefinition(source: string): HealthSourceDefinition | undefined {
+  const definition = customSources.get(source);
+  return definition ? { ...definition } : undefined;
+}
+
+/**
+ * Get all registered custom health sources
+ *
+ * @returns {HealthSourceDefinition[]} Definitions in registration order
+ */
+export function getCustomHealthSources(): HealthSourceDefinition[] {
+  return Array.from(customSources.values()).map((definition) => ({ ...definition }));
+}
@@ -163,6 +163,12 @@ export interface DataMetadata {
   /** Original source-specific identifier */
   sourceId?: string;
 
+  /**
+   * UTC offset of the zone the record was captured in, in minutes
+   * (positive east); timestamps keep their own offset or are in UTC
+   */
+  zoneOffset?: number;
+
   /** Additional platform-specific metadata */
   custom?: Record<string, unknown>;
 }
@@ -180,6 +186,9 @@ export interface UnifiedHealthData {
   /** The health platform that provided this data */
   source: HealthSource;
 
+  /** Account of the source that owns this data (set for account-scoped plugins) */
+  accountId?: string;
+
   /** The type of health data */
   dataType: DataType;
 
@@ -33,6 +33,7 @@ import { UnitConverter } from './unit-converter';
 import { DataValidator } from './validator';
 import { QualityScorer, QualityScore } from './quality-scorer';
 import { ValidationError } from '../types/config';
+import { parseOffset } from '../utils/timezone';
 
 /**
  * Normalization options
@@ -341,6 +342,11 @@ export class DataNormalizer {
       metadata.sourceId = raw.sourceId;
     }
 
+    const zoneOffset = raw.zoneOffset ?? parseOffset(raw.timestamp);
+    if (zoneOffset !== undefined) {
+      metadata.zoneOffset = zoneOffset;
+    }
+
     const customMetadata = raw.raw['metadata'] as Record<string, unknown> | undefined;
     if (customMetadata !== undefined) {
       metadata.custom = customMetadata;
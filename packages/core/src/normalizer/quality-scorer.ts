@@ -8,6 +8,7 @@
  */
 
 import { HealthSource, DataType, DataQuality } from '../models/unified-data';
+import { getHealthSourceDefinition } from '../models/source-registry';
 
 /**
  * Quality score factors
@@ -126,7 +127,8 @@ export class QualityScorer {
     } = params;
 
     // Get source reliability
-    const sourceReliability = this.SOURCE_RELIABILITY[source] ?? 0.5;
+    const sourceReliability =
+      this.SOURCE_RELIABILITY[source] ?? getHealthSourceDefinition(source)?.reliability ?? 0.5;
 
     // Get device accuracy
     const deviceAccuracy = this.getDeviceAccuracy(manufacturer, dataType);
@@ -0,0 +1,194 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling a plugin whose backend keeps failing. After a number of
+ * consecutive fetch or network failures the circuit opens and calls fail
+ * fast; once the reset timeout elapses a single probe call is let through
+ * (half-open), which closes the circuit on success or re-opens it on failure.
+ *
+ * @module plugins/circuit-breaker
+ */
+
+import { CircuitBreakerConfig, DataFetchError, NetworkError } from '../types/config';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Circuit breaker state
+ *
+ * @enum {string}
+ */
+export enum CircuitState {
+  /** Calls go through */
+  CLOSED = 'closed',
+
+  /** Calls fail fast until the reset timeout elapses */
+  OPEN = 'open',
+
+  /** A single probe call is allowed to test recovery */
+  HALF_OPEN = 'half_open',
+}
+
+/**
+ * Snapshot of a circuit breaker
+ *
+ * @interface CircuitBreakerSnapshot
+ */
+export interface CircuitBreakerSnapshot {
+  /** Current state */
+  state: CircuitState;
+
+  /** Consecutive fetch/network failures */
+  consecutiveFailures: number;
+
+  /** When the circuit last opened (ISO 8601) */
+  openedAt?: string;
+
+  /** When a probe call will be let through (ISO 8601), while open */
+  retryAt?: string;
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  enabled: true,
+  failureThreshold: 5,
+  resetTimeout: 30000,
+};
+
+/**
+ * Circuit Breaker
+ *
+ * @class CircuitBreaker
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private clock: Clock;
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private probeInFlight = false;
+
+  /**
+   * Create circuit breaker
+   *
+   * @param {Partial<CircuitBreakerConfig>} [config] - Breaker configuration
+   * @param {Clock} [clock] - Clock (defaults to the system clock)
+   */
+  constructor(config: Partial<CircuitBreakerConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  /**
+   * Check whether a failure counts towards opening the circuit
+   *
+   * Only failures that indicate the backend is unavailable count; auth,
+   * validation and rate limit errors do not.
+   *
+   * @param {unknown} error - Failure
+   * @returns {boolean} True if the failure trips the breaker
+   */
+  static isTripError(error: unknown): boolean {
+    return error instanceof DataFetchError || error instanceof NetworkError;
+  }
+
+  /**
+   * Ask to make a call
+   *
+   * Moves an open circuit to half-open once the reset timeout has elapsed
+   * and reserves the probe call.
+   *
+   * @returns {boolean} True if the call may proceed
+   */
+  tryAcquire(): boolean {
+    if (!this.config.enabled || this.state === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (this.state === CircuitState.OPEN) {
+      if (this.clock.now() < this.getRetryAt()) {
+        return false;
+      }
+      this.state = CircuitState.HALF_OPEN;
+    }
+
+    if (this.probeInFlight) {
+      return false;
+    }
+
+    this.probeInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a successful call
+   *
+   * @returns {void}
+   */
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    this.state = CircuitState.CLOSED;
+    this.openedAt = undefined;
+  }
+
+  /**
+   * Record a failed call
+   *
+   * Failures that do not indicate an unavailable backend end a probe
+   * without changing the failure count.
+   *
+   * @param {unknown} error - Failure
+   * @returns {void}
+   */
+  recordFailure(error: unknown): void {
+    const probe = this.state === CircuitState.HALF_OPEN;
+    this.probeInFlight = false;
+
+    if (!CircuitBreaker.isTripError(error)) {
+      if (probe) {
+        // The backend answered, so it is reachable again
+        this.recordSuccess();
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    if (probe || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = this.clock.now();
+    }
+  }
+
+  /**
+   * Get a snapshot of the breaker
+   *
+   * @returns {CircuitBreakerSnapshot} Snapshot
+   */
+  getSnapshot(): CircuitBreakerSnapshot {
+    const snapshot: CircuitBreakerSnapshot = {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+
+    if (this.openedAt !== undefined) {
+      snapshot.openedAt = new Date(this.openedAt).toISOString();
+    }
+    if (this.state === CircuitState.OPEN) {
+      snapshot.retryAt = new Date(this.getRetryAt()).toISOString();
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Get when an open circuit lets a probe through (epoch milliseconds)
+   *
+   * @returns {number} Retry time
+   */
+  getRetryAt(): number {
+    return (this.openedAt ?? this.clock.now()) + this.config.resetTimeout;
+  }
+}
@@ -17,8 +17,13 @@ import {
   Subscription,
   UpdateCallback,
   ErrorAction,
+  AggregateDataQuery,
+  AggregateDataPoint,
+  DataTypeCapabilities,
+  PluginCapabilities,
 } from '../plugin-interface';
 import { DataType, HealthSource } from '../../models/unified-data';
+import { AggregationBucket, AggregationFunction } from '../../types/query';
 import { AuthenticationError, ConnectionError, DataFetchError, Logger } from '../../types/config';
 import {
   HealthConnectConfig,
@@ -26,6 +31,7 @@ import {
   HealthConnectAvailability,
   PermissionStatus,
   HEALTH_CONNECT_TYPE_MAP,
+  HEALTH_CONNECT_AGGREGATE_METRICS,
   DEFAULT_HEALTH_CONNECT_CONFIG,
 } from './types';
 
@@ -42,6 +48,7 @@ export class HealthConnectPlugin extends BasePlugin {
   readonly id: string = 'health-connect';
   readonly name: string = 'Health Connect';
   readonly version: string = '1.0.0';
+  readonly source: HealthSource = HealthSource.HEALTH_CONNECT;
   readonly supportedDataTypes: readonly DataType[] = [
     DataType.STEPS,
     DataType.HEART_RATE,
@@ -311,6 +318,12 @@ export class HealthConnectPlugin extends BasePlugin {
           data.endTimestamp = record.endTime;
         }
 
+        // Health Connect zone offsets are in seconds
+        const zoneOffset = record.zoneOffset ?? record.startZoneOffset;
+        if (zoneOffset !== undefined) {
+          data.zoneOffset = Math.round(zoneOffset / 60);
+        }
+
         return data;
       });
 
@@ -330,6 +343,109 @@ export class HealthConnectPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Fetch a natively computed aggregate
+   *
+   * Uses Health Connect's aggregate API (bucketed by period in the requested
+   * time zone) when the bridge supports it and the metric exists.
+   *
+   * @param {AggregateDataQuery} query - Aggregate query
+   * @returns {Promise<AggregateDataPoint[] | null>} Points, or null if unsupported
+   */
+  async fetchAggregate(query: AggregateDataQuery): Promise<AggregateDataPoint[] | null> {
+    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      throw new ConnectionError(
+        'Not connected to Health Connect',
+        HealthSource.HEALTH_CONNECT,
+        undefined,
+        { code: 'NOT_CONNECTED' }
+      );
+    }
+
+    const recordType = HEALTH_CONNECT_TYPE_MAP[query.dataType]?.recordType;
+    const metric = HEALTH_CONNECT_AGGREGATE_METRICS[query.dataType]?.[query.fn];
+
+    if (!this.platformBridge?.aggregateRecords || !recordType || !metric) {
+      return null;
+    }
+
+    const hasPermission = await this.hasPermissionsForDataType(query.dataType);
+
+    if (!hasPermission) {
+      throw new AuthenticationError(
+        `Missing permissions for ${query.dataType}`,
+        undefined,
+        { code: 'MISSING_PERMISSIONS', dataType: query.dataType, source: HealthSource.HEALTH_CONNECT }
+      );
+    }
+
+    this.log('info', `Aggregating ${query.dataType} (${metric}) by ${query.bucket}`);
+
+    try {
+      const results = await this.platformBridge.aggregateRecords({
+        recordType,
+        metric,
+        startTime: new Date(query.startDate),
+        endTime: new Date(query.endDate),
+        bucket: query.bucket,
+        timeZone: query.timezone,
+      });
+
+      const points: AggregateDataPoint[] = [];
+      for (const result of results) {
+        if (result.value !== null) {
+          points.push({ start: result.startTime, value: result.value });
+        }
+      }
+
+      return points;
+    } catch (error) {
+      this.log('error', `Failed to aggregate data: ${(error as Error).message}`);
+
+      throw new DataFetchError(
+        `Failed to aggregate ${query.dataType} data: ${(error as Error).message}`,
+        HealthSource.HEALTH_CONNECT,
+        query.dataType,
+        undefined,
+        { code: 'AGGREGATE_FAILED', originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Describe what Health Connect supports per data type
+   *
+   * Records are individual samples read in one request (the bridge pages
+   * internally). Native aggregates are only offered when the bridge
+   * implements `aggregateRecords`.
+   *
+   * @returns {PluginCapabilities} Capabilities
+   */
+  override getCapabilities(): PluginCapabilities {
+    const dataTypes: Partial<Record<DataType, DataTypeCapabilities>> = {};
+    const canAggregate = this.platformBridge?.aggregateRecords !== undefined;
+
+    for (const dataType of this.supportedDataTypes) {
+      const capabilities: DataTypeCapabilities = {
+        granularity: 'sample',
+        paging: 'none',
+        write: false,
+      };
+
+      const metrics = HEALTH_CONNECT_AGGREGATE_METRICS[dataType];
+      if (canAggregate && metrics) {
+        capabilities.aggregation = {
+          functions: Object.keys(metrics) as AggregationFunction[],
+          buckets: ['hour', 'day', 'week', 'month'],
+        };
+      }
+
+      dataTypes[dataType] = capabilities;
+    }
+
+    return { dataTypes, realtimeUpdates: true, changeTokens: false };
+  }
+
   /**
    * Subscribe to data updates
    *
@@ -553,6 +669,36 @@ interface ReadRecordsRequest {
   offset?: number;
 }
 
+/**
+ * Aggregate records request
+ *
+ * @interface AggregateRecordsRequest
+ */
+interface AggregateRecordsRequest {
+  recordType: string;
+  metric: string;
+  startTime: Date;
+  endTime: Date;
+  bucket: AggregationBucket;
+  timeZone: string;
+}
+
+/**
+ * Health Connect aggregate result for one bucket
+ *
+ * @interface HealthConnectAggregateResult
+ */
+export interface HealthConnectAggregateResult {
+  /** Bucket start (ISO 8601 format) */
+  startTime: string;
+
+  /** Bucket end (ISO 8601 format) */
+  endTime: string;
+
+  /** Aggregated value in unified units (null when the bucket has no data) */
+  value: number | null;
+}
+
 /**
  * Health Connect Bridge Interface
  *
@@ -592,6 +738,14 @@ export interface HealthConnectBridge {
    * @returns {Promise<HealthConnectRecord[]>} Health Connect records
    */
   readRecords(request: ReadRecordsRequest): Promise<HealthConnectRecord[]>;
+
+  /**
+   * Aggregate records by period (optional)
+   *
+   * @param {AggregateRecordsRequest} request - Aggregate request
+   * @returns {Promise<HealthConnectAggregateResult[]>} One result per bucket
+   */
+  aggregateRecords?(request: AggregateRecordsRequest): Promise<HealthConnectAggregateResult[]>;
 }
 
 /**
@@ -612,6 +766,12 @@ export interface HealthConnectRecord {
   /** End time (for interval records) */
   endTime?: string;
 
+  /** UTC offset of `time` in seconds (for instantaneous records) */
+  zoneOffset?: number;
+
+  /** UTC offset of `startTime` in seconds (for interval records) */
+  startZoneOffset?: number;
+
   /** Record data */
   [key: string]: unknown;
 }
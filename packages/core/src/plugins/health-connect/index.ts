@@ -7,7 +7,11 @@
  */
 
 export { HealthConnectPlugin } from './health-connect-plugin';
-export type { HealthConnectBridge, HealthConnectRecord } from './health-connect-plugin';
+export type {
+  HealthConnectBridge,
+  HealthConnectRecord,
+  HealthConnectAggregateResult,
+} from './health-connect-plugin';
 
 export {
   HealthConnectPermission,
@@ -16,6 +20,7 @@ export {
   HealthConnectExerciseType,
   HealthConnectAvailability,
   HEALTH_CONNECT_TYPE_MAP,
+  HEALTH_CONNECT_AGGREGATE_METRICS,
   DEFAULT_HEALTH_CONNECT_CONFIG,
 } from './types';
 export type { HealthConnectConfig, PermissionStatus } from './types';
@@ -8,6 +8,7 @@
  */
 
 import { DataType } from '../../models/unified-data';
+import { AggregationFunction } from '../../types/query';
 
 /**
  * Health Connect permission types
@@ -154,6 +155,29 @@ export const HEALTH_CONNECT_TYPE_MAP: Record<
   },
 };
 
+/**
+ * Health Connect aggregate metrics
+ *
+ * Maps unified data types and aggregation functions to the aggregate
+ * metrics Health Connect computes natively (e.g. `StepsRecord.COUNT_TOTAL`)
+ */
+export const HEALTH_CONNECT_AGGREGATE_METRICS: Partial<
+  Record<DataType, Partial<Record<AggregationFunction, string>>>
+> = {
+  [DataType.STEPS]: { sum: 'COUNT_TOTAL' },
+  [DataType.DISTANCE]: { sum: 'DISTANCE_TOTAL' },
+  [DataType.CALORIES]: { sum: 'ENERGY_TOTAL' },
+  [DataType.HEART_RATE]: {
+    avg: 'BPM_AVG',
+    min: 'BPM_MIN',
+    max: 'BPM_MAX',
+    count: 'MEASUREMENTS_COUNT',
+  },
+  [DataType.RESTING_HEART_RATE]: { avg: 'BPM_AVG', min: 'BPM_MIN', max: 'BPM_MAX' },
+  [DataType.WEIGHT]: { avg: 'WEIGHT_AVG', min: 'WEIGHT_MIN', max: 'WEIGHT_MAX' },
+  [DataType.SLEEP]: { sum: 'SLEEP_DURATION_TOTAL' },
+};
+
 /**
  * Health Connect sleep stage mapping
  */
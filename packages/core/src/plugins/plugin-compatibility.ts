@@ -0,0 +1,176 @@
+/**
+ * Plugin Compatibility
+ *
+ * Checks a plugin's declared requirements (`IHealthDataPlugin.requirements`)
+ * against the core SDK version and the other installed plugins.
+ *
+ * @module plugins/plugin-compatibility
+ */
+
+import { IHealthDataPlugin } from './plugin-interface';
+import { isValidRange, satisfies } from '../utils/semver';
+
+/**
+ * Kind of compatibility problem
+ *
+ * - `invalid-range`: a declared version range cannot be parsed
+ * - `core-version`: the core SDK version is outside the required range
+ * - `peer-missing`: a required peer plugin is not registered
+ * - `peer-version`: a registered peer's version is outside the required range
+ */
+export type CompatibilityIssueType =
+  'invalid-range' | 'core-version' | 'peer-missing' | 'peer-version';
+
+/**
+ * Single compatibility problem
+ *
+ * @interface CompatibilityIssue
+ */
+export interface CompatibilityIssue {
+  /** Kind of problem */
+  type: CompatibilityIssueType;
+
+  /** ID of the plugin declaring the requirement */
+  pluginId: string;
+
+  /** ID of the peer plugin concerned (peer issues only) */
+  peerId?: string;
+
+  /** Required version range */
+  required?: string;
+
+  /** Version found */
+  actual?: string;
+
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Compatibility of a single plugin
+ *
+ * @interface PluginCompatibility
+ */
+export interface PluginCompatibility {
+  /** Plugin ID */
+  pluginId: string;
+
+  /** Instance key of the plugin, if any */
+  instanceKey?: string;
+
+  /** Plugin version */
+  version: string;
+
+  /** Whether all requirements are met */
+  compatible: boolean;
+
+  /** Unmet requirements */
+  issues: CompatibilityIssue[];
+}
+
+/**
+ * Compatibility of all registered plugins
+ *
+ * @interface CompatibilityReport
+ */
+export interface CompatibilityReport {
+  /** Core SDK version checked against */
+  coreVersion: string;
+
+  /** Whether every plugin's requirements are met */
+  compatible: boolean;
+
+  /** Per-plugin compatibility */
+  plugins: PluginCompatibility[];
+}
+
+/**
+ * Check a plugin's requirements
+ *
+ * Peers are matched by plugin ID; every registered instance of a peer
+ * must satisfy the required range.
+ *
+ * @param {IHealthDataPlugin} plugin - Plugin to check
+ * @param {readonly IHealthDataPlugin[]} installed - Registered plugins (may include the plugin)
+ * @param {string} coreVersion - Core SDK version
+ * @returns {CompatibilityIssue[]} Unmet requirements (empty if compatible)
+ */
+export function checkPluginCompatibility(
+  plugin: IHealthDataPlugin,
+  installed: readonly IHealthDataPlugin[],
+  coreVersion: string
+): CompatibilityIssue[] {
+  const issues: CompatibilityIssue[] = [];
+  const { core, peers = [] } = plugin.requirements ?? {};
+
+  if (core !== undefined) {
+    if (!isValidRange(core)) {
+      issues.push({
+        type: 'invalid-range',
+        pluginId: plugin.id,
+        required: core,
+        message: `Plugin '${plugin.id}' declares an invalid core version range '${core}'`,
+      });
+    } else if (!satisfies(coreVersion, core)) {
+      issues.push({
+        type: 'core-version',
+        pluginId: plugin.id,
+        required: core,
+        actual: coreVersion,
+        message: `Plugin '${plugin.id}' requires core ${core} but core is ${coreVersion}`,
+      });
+    }
+  }
+
+  for (const peer of peers) {
+    if (peer.version !== undefined && !isValidRange(peer.version)) {
+      issues.push({
+        type: 'invalid-range',
+        pluginId: plugin.id,
+        peerId: peer.id,
+        required: peer.version,
+        message: `Plugin '${plugin.id}' declares an invalid version range '${peer.version}' for '${peer.id}'`,
+      });
+      continue;
+    }
+
+    const instances = installed.filter((other) => other !== plugin && other.id === peer.id);
+
+    if (instances.length === 0) {
+      if (!peer.optional) {
+        const issue: CompatibilityIssue = {
+          type: 'peer-missing',
+          pluginId: plugin.id,
+          peerId: peer.id,
+          message: `Plugin '${plugin.id}' requires peer plugin '${peer.id}', which is not registered`,
+        };
+
+        if (peer.version !== undefined) {
+          issue.required = peer.version;
+        }
+
+        issues.push(issue);
+      }
+      continue;
+    }
+
+    if (peer.version === undefined) {
+      continue;
+    }
+
+    for (const version of new Set(instances.map((instance) => instance.version))) {
+      if (!satisfies(version, peer.version)) {
+        issues.push({
+          type: 'peer-version',
+          pluginId: plugin.id,
+          peerId: peer.id,
+          required: peer.version,
+          actual: version,
+          message: `Plugin '${plugin.id}' requires '${peer.id}' ${peer.version} but ${version} is registered`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
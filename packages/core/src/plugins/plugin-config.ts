@@ -0,0 +1,146 @@
+/**
+ * Plugin Configuration
+ *
+ * Merging of the configuration passed to `IHealthDataPlugin.initialize()`
+ * and validation against the schema a plugin declares.
+ *
+ * @module plugins/plugin-config
+ */
+
+import { PluginConfig } from './plugin-interface';
+
+/**
+ * Type of a configuration value
+ */
+export type PluginConfigFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * Schema of a single configuration value
+ *
+ * @interface PluginConfigFieldSchema
+ */
+export interface PluginConfigFieldSchema {
+  /** Expected type */
+  type: PluginConfigFieldType;
+
+  /** Whether the value must be set */
+  required?: boolean;
+
+  /** Allowed values */
+  enum?: readonly unknown[];
+
+  /** Minimum (numbers) */
+  min?: number;
+
+  /** Maximum (numbers) */
+  max?: number;
+
+  /** Description, for error messages and documentation */
+  description?: string;
+}
+
+/**
+ * Schema a plugin declares for its configuration
+ *
+ * Only the listed values are checked; others pass through unvalidated.
+ *
+ * @interface PluginConfigSchema
+ */
+export interface PluginConfigSchema {
+  /** Schemas of standard `PluginConfig` values */
+  fields?: Partial<Record<Exclude<keyof PluginConfig, 'custom'>, PluginConfigFieldSchema>>;
+
+  /** Schemas of plugin-specific values in `PluginConfig.custom` */
+  custom?: Record<string, PluginConfigFieldSchema>;
+}
+
+/**
+ * Merge plugin configurations
+ *
+ * Later configurations override earlier ones; `customHeaders` and `custom`
+ * are merged key by key. Undefined values do not override.
+ *
+ * @param {...(PluginConfig | undefined)[]} configs - Configurations, lowest precedence first
+ * @returns {PluginConfig} Merged configuration
+ */
+export function mergePluginConfig(...configs: (PluginConfig | undefined)[]): PluginConfig {
+  const merged: PluginConfig = {};
+
+  for (const config of configs) {
+    if (!config) {
+      continue;
+    }
+
+    const { customHeaders, custom, ...values } = config;
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+    if (customHeaders) {
+      merged.customHeaders = { ...merged.customHeaders, ...customHeaders };
+    }
+    if (custom) {
+      merged.custom = { ...merged.custom, ...custom };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Validate a plugin configuration against a schema
+ *
+ * @param {PluginConfig} config - Configuration
+ * @param {PluginConfigSchema} schema - Schema declared by the plugin
+ * @returns {string[]} Problems found (empty if valid)
+ */
+export function validatePluginConfig(config: PluginConfig, schema: PluginConfigSchema): string[] {
+  const errors: string[] = [];
+  const values = config as Record<string, unknown>;
+
+  for (const [key, field] of Object.entries(schema.fields ?? {})) {
+    errors.push(...validateValue(key, values[key], field));
+  }
+  for (const [key, field] of Object.entries(schema.custom ?? {})) {
+    errors.push(...validateValue(`custom.${key}`, config.custom?.[key], field));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a single configuration value
+ *
+ * @param {string} path - Path of the value, for messages
+ * @param {unknown} value - Value
+ * @param {PluginConfigFieldSchema} field - Schema of the value
+ * @returns {string[]} Problems found
+ */
+function validateValue(path: string, value: unknown, field: PluginConfigFieldSchema): string[] {
+  if (value === undefined) {
+    return field.required ? [`${path} is required`] : [];
+  }
+
+  const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  if (type !== field.type) {
+    return [`${path} must be of type ${field.type} (got ${type})`];
+  }
+
+  const errors: string[] = [];
+
+  if (field.enum && !field.enum.includes(value)) {
+    errors.push(`${path} must be one of ${field.enum.map((v) => String(v)).join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (field.min !== undefined && value < field.min) {
+      errors.push(`${path} must be at least ${field.min}`);
+    }
+    if (field.max !== undefined && value > field.max) {
+      errors.push(`${path} must be at most ${field.max}`);
+    }
+  }
+
+  return errors;
+}
@@ -8,6 +8,8 @@
  */
 
 import { DataType, HealthSource, UnifiedHealthData } from '../models/unified-data';
+import { AggregationBucket, AggregationFunction } from '../types/query';
+import { PluginConfigSchema } from './plugin-config';
 
 /**
  * Plugin configuration options
@@ -129,10 +131,54 @@ export interface DataQuery {
   /** Sort order (asc or desc) */
   sortOrder?: 'asc' | 'desc';
 
+  /** User's IANA time zone, for sources that address data by calendar day */
+  timezone?: string;
+
   /** Additional query parameters */
   filters?: Record<string, unknown>;
 }
 
+/**
+ * Query parameters for a natively computed aggregate
+ *
+ * @interface AggregateDataQuery
+ */
+export interface AggregateDataQuery {
+  /** Type of data to aggregate */
+  dataType: DataType;
+
+  /** Start of date range (ISO 8601 format); buckets start at the period containing it */
+  startDate: string;
+
+  /** End of date range (ISO 8601 format) */
+  endDate: string;
+
+  /** Bucket size */
+  bucket: AggregationBucket;
+
+  /** Aggregation function */
+  fn: AggregationFunction;
+
+  /** IANA time zone of bucket boundaries */
+  timezone: string;
+}
+
+/**
+ * Natively computed aggregate value for one bucket
+ *
+ * @interface AggregateDataPoint
+ */
+export interface AggregateDataPoint {
+  /** Bucket start (ISO 8601 format) */
+  start: string;
+
+  /** Aggregated value in unified units */
+  value: number;
+
+  /** Number of records aggregated, if known */
+  count?: number;
+}
+
 /**
  * Raw health data from the source platform
  * This is the platform-specific format before normalization
@@ -157,6 +203,9 @@ export interface RawHealthData {
 
   /** Original record ID from the source platform */
   sourceId?: string;
+
+  /** UTC offset of the zone the record was captured in, in minutes (positive east) */
+  zoneOffset?: number;
 }
 
 /**
@@ -206,6 +255,35 @@ export enum ErrorAction {
   IGNORE = 'ignore',
 }
 
+/**
+ * Peer plugin a plugin works with
+ *
+ * @interface PeerPluginRequirement
+ */
+export interface PeerPluginRequirement {
+  /** Plugin ID of the peer */
+  id: string;
+
+  /** Semver range the peer's version must satisfy (default: any version) */
+  version?: string;
+
+  /** Whether the plugin works without the peer (its version is still checked when present) */
+  optional?: boolean;
+}
+
+/**
+ * Versions a plugin is compatible with
+ *
+ * @interface PluginRequirements
+ */
+export interface PluginRequirements {
+  /** Semver range of the core SDK versions the plugin supports (e.g. `^1.0.0`) */
+  core?: string;
+
+  /** Peer plugins the plugin works with */
+  peers?: readonly PeerPluginRequirement[];
+}
+
 /**
  * Plugin metadata information
  *
@@ -221,6 +299,18 @@ export interface PluginInfo {
   /** Semantic version */
   version: string;
 
+  /** Health source the plugin serves */
+  source?: HealthSource;
+
+  /** Instance key distinguishing several plugins of the same source */
+  instanceKey?: string;
+
+  /** Core version and peer plugins the plugin requires */
+  requirements?: PluginRequirements;
+
+  /** Whether the plugin module is loaded (false for manifests not used yet) */
+  loaded?: boolean;
+
   /** Plugin description */
   description?: string;
 
@@ -243,6 +333,77 @@ export interface PluginInfo {
   supportedPlatforms?: readonly ('ios' | 'android' | 'web')[];
 }
 
+/**
+ * Finest time resolution of the records a source returns
+ *
+ * - `sample`: individual measurements with their own timestamps
+ * - `minute`/`hour`/`day`: records summarize fixed periods
+ */
+export type DataGranularity = 'sample' | 'minute' | 'hour' | 'day';
+
+/**
+ * How a source pages through large result sets
+ *
+ * - `none`: a request returns the whole range
+ * - `offset`: `limit`/`offset` pages
+ * - `token`: opaque continuation tokens
+ */
+export type PagingStyle = 'none' | 'offset' | 'token';
+
+/**
+ * Natively supported aggregations of a data type
+ *
+ * @interface AggregationCapabilities
+ */
+export interface AggregationCapabilities {
+  /** Functions `fetchAggregate` can compute */
+  functions: readonly AggregationFunction[];
+
+  /** Bucket sizes `fetchAggregate` can compute */
+  buckets: readonly AggregationBucket[];
+}
+
+/**
+ * What a plugin can do with one data type
+ *
+ * @interface DataTypeCapabilities
+ */
+export interface DataTypeCapabilities {
+  /** Finest resolution of returned records */
+  granularity: DataGranularity;
+
+  /** Longest range a single `fetchData` call accepts, in milliseconds (unlimited if omitted) */
+  maxRangePerRequest?: number;
+
+  /** Paging style of the source API */
+  paging: PagingStyle;
+
+  /** Native aggregation support (none if omitted) */
+  aggregation?: AggregationCapabilities;
+
+  /** Whether records of this type can be written back to the source */
+  write: boolean;
+
+  /** How far back data is available, in days (unlimited if omitted) */
+  historicalLimit?: number;
+}
+
+/**
+ * Structured description of what a plugin supports
+ *
+ * @interface PluginCapabilities
+ */
+export interface PluginCapabilities {
+  /** Capabilities per supported data type; absent types are not supported */
+  dataTypes: Partial<Record<DataType, DataTypeCapabilities>>;
+
+  /** Whether `subscribeToUpdates` delivers real-time updates */
+  realtimeUpdates: boolean;
+
+  /** Whether the source offers a change feed (change tokens) for incremental sync */
+  changeTokens: boolean;
+}
+
 /**
  * Core plugin interface that all health data plugins must implement
  *
@@ -265,6 +426,35 @@ export interface IHealthDataPlugin {
   /** Semantic version (e.g., '1.0.0') */
   readonly version: string;
 
+  /**
+   * Health source the plugin serves (a `HealthSource` member or a source
+   * registered with `registerHealthSource()`)
+   *
+   * Plugins that omit it are only recognized by the built-in plugin IDs.
+   */
+  readonly source?: HealthSource;
+
+  /**
+   * Key distinguishing several plugin instances of the same source
+   * (e.g. two Fitbit accounts); the registry addresses such instances as
+   * `id:instanceKey`. The SDK uses it as the account ID when connecting,
+   * querying and caching, and tags the instance's records with it.
+   */
+  readonly instanceKey?: string;
+
+  /**
+   * Core version and peer plugins the plugin requires; the registry
+   * rejects plugins whose requirements are not met (see
+   * `PluginRegistry.getCompatibilityReport()`)
+   */
+  readonly requirements?: PluginRequirements;
+
+  /**
+   * Schema the SDK validates the plugin's configuration against before
+   * passing it to `initialize()` or `reconfigure()`
+   */
+  readonly configSchema?: PluginConfigSchema;
+
   /** Array of data types this plugin can provide */
   readonly supportedDataTypes: readonly DataType[];
 
@@ -283,7 +473,8 @@ export interface IHealthDataPlugin {
    *
    * Called once when the plugin is registered with the SDK.
    * Use this method to set up any required resources, validate configuration,
-   * and prepare the plugin for use.
+   * and prepare the plugin for use. The SDK passes its global plugin
+   * defaults merged with the plugin's entry in `SDKConfig.pluginConfig`.
    *
    * @param {PluginConfig} config - Configuration object for this plugin
    * @returns {Promise<void>} Resolves when initialization is complete
@@ -355,6 +546,18 @@ export interface IHealthDataPlugin {
    */
   fetchData(query: DataQuery): Promise<RawHealthData[]>;
 
+  /**
+   * Compute an aggregate natively (optional)
+   *
+   * Plugins backed by an aggregate API can implement this to avoid
+   * transferring raw records. Return null when the data type, function or
+   * bucket is not supported natively; the SDK then aggregates raw records.
+   *
+   * @param {AggregateDataQuery} query - Aggregate parameters
+   * @returns {Promise<AggregateDataPoint[] | null>} Points per non-empty bucket, or null
+   */
+  fetchAggregate?(query: AggregateDataQuery): Promise<AggregateDataPoint[] | null>;
+
   /**
    * Subscribe to real-time data updates
    *
@@ -392,6 +595,28 @@ export interface IHealthDataPlugin {
    */
   getInfo?(): Promise<PluginInfo>;
 
+  /**
+   * Apply a changed configuration to an initialized plugin
+   *
+   * Plugins that do not implement it are disconnected and initialized
+   * again instead.
+   *
+   * @param {PluginConfig} config - Complete new configuration
+   * @returns {Promise<void>} Resolves when the configuration is applied
+   */
+  reconfigure?(config: PluginConfig): Promise<void>;
+
+  /**
+   * Describe what the plugin supports per data type
+   *
+   * The SDK uses this to split long ranges, skip sources that cannot serve
+   * a request and reject impossible requests early. Plugins that do not
+   * implement it are described by `getDefaultCapabilities()`.
+   *
+   * @returns {PluginCapabilities} Capabilities
+   */
+  getCapabilities?(): PluginCapabilities;
+
   /**
    * Validate that the plugin can operate in the current environment
    *
@@ -433,6 +658,40 @@ export interface RateLimitInfo {
   resetInSeconds: number;
 }
 
+/**
+ * Describe a plugin that does not declare its capabilities
+ *
+ * Every supported data type is assumed to return individual samples for
+ * any range in one request, without write support. Plugins implementing
+ * `fetchAggregate` are asked for every aggregation (they return null for
+ * unsupported ones).
+ *
+ * @param {IHealthDataPlugin} plugin - Plugin
+ * @returns {PluginCapabilities} Conservative capabilities
+ */
+export function getDefaultCapabilities(plugin: IHealthDataPlugin): PluginCapabilities {
+  const dataTypes: Partial<Record<DataType, DataTypeCapabilities>> = {};
+
+  for (const dataType of plugin.supportedDataTypes) {
+    const capabilities: DataTypeCapabilities = {
+      granularity: 'sample',
+      paging: 'none',
+      write: false,
+    };
+
+    if (plugin.fetchAggregate) {
+      capabilities.aggregation = {
+        functions: ['sum', 'avg', 'min', 'max', 'count'],
+        buckets: ['hour', 'day', 'week', 'month'],
+      };
+    }
+
+    dataTypes[dataType] = capabilities;
+  }
+
+  return { dataTypes, realtimeUpdates: true, changeTokens: false };
+}
+
 /**
  * Abstract base class providing common plugin functionality
  *
@@ -530,4 +789,11 @@ export abstract class BasePlugin implements IHealthDataPlugin {
       isCloudBased: this.isCloudBased,
     };
   }
+
+  /**
+   * Get plugin capabilities (derived from supportedDataTypes by default)
+   */
+  getCapabilities(): PluginCapabilities {
+    return getDefaultCapabilities(this);
+  }
 }
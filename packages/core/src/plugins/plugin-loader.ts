@@ -0,0 +1,253 @@
+/**
+ * Plugin Loader
+ *
+ * Holds plugin manifests: cheap descriptions of plugins whose module is
+ * only imported when the SDK first needs the plugin (on `connect()` or a
+ * query of its source). Keeping plugin modules out of the initial bundle
+ * is the point, so manifests carry everything the SDK needs before then.
+ *
+ * @module plugins/plugin-loader
+ */
+
+import { HealthSource, DataType } from '../models/unified-data';
+import { isHealthSource } from '../models/source-registry';
+import { IHealthDataPlugin, PluginCapabilities, PluginInfo } from './plugin-interface';
+import { ConfigurationError, PluginError } from '../types/config';
+
+/**
+ * Plugin manifest
+ *
+ * @interface PluginManifest
+ */
+export interface PluginManifest {
+  /** ID of the plugin the loader returns */
+  id: string;
+
+  /** Human-readable plugin name */
+  name: string;
+
+  /** Semantic version of the plugin */
+  version: string;
+
+  /** Health source the plugin serves */
+  source: HealthSource;
+
+  /** Instance key of the plugin, if any (the account ID for multi-account sources) */
+  instanceKey?: string;
+
+  /** Capabilities of the plugin, reported before it is loaded */
+  capabilities?: PluginCapabilities;
+
+  /** Whether the plugin requires user authentication (default: false) */
+  requiresAuthentication?: boolean;
+
+  /** Whether the plugin uses cloud APIs (default: false) */
+  isCloudBased?: boolean;
+
+  /** Plugin description */
+  description?: string;
+
+  /**
+   * Import and construct the plugin
+   *
+   * Typically `async () => new (await import('./my-plugin')).MyPlugin()`.
+   * The plugin must match the manifest's id, source and instance key.
+   */
+  load(): Promise<IHealthDataPlugin>;
+}
+
+/**
+ * Get the key a manifest's plugin will be registered under
+ *
+ * @param {PluginManifest} manifest - Plugin manifest
+ * @returns {string} `id`, or `id:instanceKey` for keyed instances
+ */
+export function getManifestKey(manifest: PluginManifest): string {
+  return manifest.instanceKey !== undefined
+    ? `${manifest.id}:${manifest.instanceKey}`
+    : manifest.id;
+}
+
+/**
+ * Plugin Loader
+ *
+ * Manifests are removed once their plugin has loaded; concurrent loads of
+ * the same manifest share a single import.
+ *
+ * @class PluginLoader
+ */
+export class PluginLoader {
+  /** Manifests of plugins not loaded yet, by plugin key */
+  private manifests: Map<string, PluginManifest> = new Map();
+
+  /** Loads in progress, by plugin key */
+  private loading: Map<string, Promise<IHealthDataPlugin>> = new Map();
+
+  /**
+   * Add a manifest
+   *
+   * @param {PluginManifest} manifest - Plugin manifest
+   * @returns {void}
+   * @throws {PluginError} If a manifest with the same key is already registered
+   * @throws {ConfigurationError} If the manifest's source is unknown
+   */
+  register(manifest: PluginManifest): void {
+    const key = getManifestKey(manifest);
+
+    if (this.manifests.has(key)) {
+      throw new PluginError(`Plugin manifest '${key}' is already registered`, manifest.id, 400);
+    }
+    if (!isHealthSource(manifest.source)) {
+      throw new ConfigurationError(
+        `Plugin manifest '${key}' serves unknown health source '${String(manifest.source)}'; ` +
+          'register it with registerHealthSource() first',
+        { pluginId: manifest.id, source: manifest.source }
+      );
+    }
+
+    this.manifests.set(key, manifest);
+  }
+
+  /**
+   * Remove a manifest
+   *
+   * @param {string} key - Plugin key of the manifest
+   * @returns {boolean} True if a manifest was removed
+   */
+  unregister(key: string): boolean {
+    return this.manifests.delete(key);
+  }
+
+  /**
+   * Check whether a manifest is registered
+   *
+   * @param {string} key - Plugin key of the manifest
+   * @returns {boolean} True if registered and not loaded yet
+   */
+  has(key: string): boolean {
+    return this.manifests.has(key);
+  }
+
+  /**
+   * Find the manifest serving a source
+   *
+   * Without an instance key, the manifest without one is preferred, else
+   * the first one registered for the source.
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [instanceKey] - Instance key
+   * @returns {PluginManifest | undefined} Manifest, or undefined if none
+   */
+  find(source: HealthSource, instanceKey?: string): PluginManifest | undefined {
+    const manifests = this.getManifests().filter((manifest) => manifest.source === source);
+
+    if (instanceKey !== undefined) {
+      return manifests.find((manifest) => manifest.instanceKey === instanceKey);
+    }
+
+    return manifests.find((manifest) => manifest.instanceKey === undefined) ?? manifests[0];
+  }
+
+  /**
+   * Get all manifests not loaded yet
+   *
+   * @returns {PluginManifest[]} Manifests in registration order
+   */
+  getManifests(): PluginManifest[] {
+    return Array.from(this.manifests.values());
+  }
+
+  /**
+   * Describe the manifests not loaded yet
+   *
+   * @returns {PluginInfo[]} Plugin info built from the manifests
+   */
+  getPluginInfo(): PluginInfo[] {
+    return this.getManifests().map((manifest) => {
+      const info: PluginInfo = {
+        id: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        source: manifest.source,
+        supportedDataTypes: Object.keys(manifest.capabilities?.dataTypes ?? {}) as DataType[],
+        requiresAuthentication: manifest.requiresAuthentication ?? false,
+        isCloudBased: manifest.isCloudBased ?? false,
+        loaded: false,
+      };
+
+      if (manifest.instanceKey !== undefined) {
+        info.instanceKey = manifest.instanceKey;
+      }
+      if (manifest.description !== undefined) {
+        info.description = manifest.description;
+      }
+
+      return info;
+    });
+  }
+
+  /**
+   * Load a manifest's plugin
+   *
+   * `setup` runs once with the loaded plugin (e.g. to register and
+   * initialize it); the manifest is removed when it succeeds. A failed load
+   * keeps the manifest so the load can be retried.
+   *
+   * @param {PluginManifest} manifest - Plugin manifest
+   * @param {(plugin: IHealthDataPlugin) => Promise<void>} setup - Called with the loaded plugin
+   * @returns {Promise<IHealthDataPlugin>} Loaded plugin
+   * @throws {PluginError} If loading fails or the plugin does not match the manifest
+   */
+  load(
+    manifest: PluginManifest,
+    setup: (plugin: IHealthDataPlugin) => Promise<void>
+  ): Promise<IHealthDataPlugin> {
+    const key = getManifestKey(manifest);
+    const pending = this.loading.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = (async (): Promise<IHealthDataPlugin> => {
+      let plugin: IHealthDataPlugin;
+      try {
+        plugin = await manifest.load();
+      } catch (error) {
+        throw new PluginError(
+          `Failed to load plugin '${key}': ${(error as Error).message}`,
+          manifest.id,
+          500,
+          { originalError: error }
+        );
+      }
+
+      if (
+        plugin.id !== manifest.id ||
+        plugin.instanceKey !== manifest.instanceKey ||
+        (plugin.source !== undefined && plugin.source !== manifest.source)
+      ) {
+        throw new PluginError(
+          `Plugin loaded for manifest '${key}' does not match its id, source or instance key`,
+          manifest.id,
+          500
+        );
+      }
+
+      await setup(plugin);
+      this.manifests.delete(key);
+      return plugin;
+    })();
+
+    this.loading.set(key, load);
+    return load.finally(() => this.loading.delete(key));
+  }
+
+  /**
+   * Remove all manifests
+   *
+   * @returns {void}
+   */
+  clear(): void {
+    this.manifests.clear();
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Plugin Middleware
+ *
+ * Hooks run by the SDK around every plugin call: connecting, fetching and
+ * normalizing fetched records. Middleware is applied in registration order;
+ * each hook receives the output of the previous one and may transform it,
+ * and `before*` hooks may short-circuit the plugin call.
+ *
+ * @module plugins/plugin-middleware
+ */
+
+import { HealthSource, UnifiedHealthData } from '../models/unified-data';
+import { ConnectionResult, DataQuery, IHealthDataPlugin, RawHealthData } from './plugin-interface';
+import { Logger } from '../types/config';
+
+/**
+ * Plugin operation a hook runs for
+ */
+export type MiddlewareOperation = 'connect' | 'fetchData' | 'fetchAggregate' | 'normalize';
+
+/**
+ * Description of the plugin call passed to every hook
+ *
+ * @interface MiddlewareContext
+ */
+export interface MiddlewareContext {
+  /** Operation being performed */
+  operation: MiddlewareOperation;
+
+  /** Plugin being called */
+  plugin: IHealthDataPlugin;
+
+  /** Source the plugin serves */
+  source: HealthSource;
+
+  /** Account of the source (set for account-scoped plugins) */
+  accountId?: string;
+}
+
+/**
+ * Hook return value; `undefined` keeps the input unchanged
+ */
+export type HookResult<T> = T | void | Promise<T | void>;
+
+/**
+ * Plugin middleware
+ *
+ * All hooks are optional. A `before*` or `after*` hook that throws fails
+ * the plugin call with that error.
+ *
+ * @interface PluginMiddleware
+ */
+export interface PluginMiddleware {
+  /** Name used in logs */
+  name?: string;
+
+  /**
+   * Called before a plugin connects
+   *
+   * Returning a result skips the plugin's `connect()` and the remaining
+   * `beforeConnect` hooks.
+   */
+  beforeConnect?(context: MiddlewareContext): HookResult<ConnectionResult>;
+
+  /**
+   * Called before each plugin fetch
+   *
+   * Returning a query replaces the query passed on; returning records skips
+   * the plugin's `fetchData()` and the remaining `beforeFetch` hooks
+   * (`afterFetch` hooks still run). Before a native aggregate
+   * (`fetchAggregate` operation), returning records makes the SDK aggregate
+   * raw records instead.
+   */
+  beforeFetch?(
+    query: DataQuery,
+    context: MiddlewareContext
+  ): HookResult<DataQuery | RawHealthData[]>;
+
+  /** Called with the raw records of each fetch; returning records replaces them */
+  afterFetch?(
+    data: RawHealthData[],
+    query: DataQuery,
+    context: MiddlewareContext
+  ): HookResult<RawHealthData[]>;
+
+  /** Called with the normalized records of each fetch; returning records replaces them */
+  afterNormalize?(
+    data: UnifiedHealthData[],
+    context: MiddlewareContext
+  ): HookResult<UnifiedHealthData[]>;
+
+  /**
+   * Called when a plugin call fails (after retries); returning an error
+   * replaces the one reported
+   */
+  onError?(error: Error, context: MiddlewareContext): HookResult<Error>;
+}
+
+/**
+ * Outcome of the `beforeFetch` hooks
+ *
+ * @interface BeforeFetchResult
+ */
+export interface BeforeFetchResult {
+  /** Query to pass to the plugin */
+  query: DataQuery;
+
+  /** Records to use instead of calling the plugin */
+  data?: RawHealthData[];
+}
+
+/**
+ * Middleware Pipeline
+ *
+ * Holds the registered middleware and runs each kind of hook in order.
+ *
+ * @class MiddlewarePipeline
+ */
+export class MiddlewarePipeline {
+  private middleware: PluginMiddleware[] = [];
+  private logger: Logger | undefined;
+
+  /**
+   * Create middleware pipeline
+   *
+   * @param {PluginMiddleware[]} [middleware] - Initial middleware
+   * @param {Logger} [logger] - Logger instance
+   */
+  constructor(middleware: PluginMiddleware[] = [], logger?: Logger) {
+    this.middleware = [...middleware];
+    this.logger = logger;
+  }
+
+  /**
+   * Add middleware to the end of the pipeline
+   *
+   * @param {PluginMiddleware} middleware - Middleware to add
+   * @returns {() => void} Function removing the middleware again
+   */
+  use(middleware: PluginMiddleware): () => void {
+    this.middleware.push(middleware);
+    this.logger?.debug(`[Middleware] Added ${middleware.name ?? 'anonymous middleware'}`);
+
+    return (): void => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Get the number of registered middleware
+   *
+   * @returns {number} Middleware count
+   */
+  count(): number {
+    return this.middleware.length;
+  }
+
+  /**
+   * Run `beforeConnect` hooks
+   *
+   * @param {MiddlewareContext} context - Call context
+   * @returns {Promise<ConnectionResult | undefined>} Result short-circuiting the connect, if any
+   */
+  async beforeConnect(context: MiddlewareContext): Promise<ConnectionResult | undefined> {
+    for (const middleware of [...this.middleware]) {
+      const result = await middleware.beforeConnect?.(context);
+      if (result) {
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run `beforeFetch` hooks
+   *
+   * @param {DataQuery} query - Plugin query
+   * @param {MiddlewareContext} context - Call context
+   * @returns {Promise<BeforeFetchResult>} Query to pass on, or records short-circuiting the fetch
+   */
+  async beforeFetch(query: DataQuery, context: MiddlewareContext): Promise<BeforeFetchResult> {
+    let current = query;
+
+    for (const middleware of [...this.middleware]) {
+      const result = await middleware.beforeFetch?.(current, context);
+      if (Array.isArray(result)) {
+        return { query: current, data: result };
+      }
+      if (result) {
+        current = result;
+      }
+    }
+
+    return { query: current };
+  }
+
+  /**
+   * Run `afterFetch` hooks
+   *
+   * @param {RawHealthData[]} data - Fetched records
+   * @param {DataQuery} query - Query the records were fetched for
+   * @param {MiddlewareContext} context - Call context
+   * @returns {Promise<RawHealthData[]>} Transformed records
+   */
+  async afterFetch(
+    data: RawHealthData[],
+    query: DataQuery,
+    context: MiddlewareContext
+  ): Promise<RawHealthData[]> {
+    let current = data;
+
+    for (const middleware of [...this.middleware]) {
+      current = (await middleware.afterFetch?.(current, query, context)) ?? current;
+    }
+
+    return current;
+  }
+
+  /**
+   * Run `afterNormalize` hooks
+   *
+   * @param {UnifiedHealthData[]} data - Normalized records
+   * @param {MiddlewareContext} context - Call context
+   * @returns {Promise<UnifiedHealthData[]>} Transformed records
+   */
+  async afterNormalize(
+    data: UnifiedHealthData[],
+    context: MiddlewareContext
+  ): Promise<UnifiedHealthData[]> {
+    let current = data;
+
+    for (const middleware of [...this.middleware]) {
+      current = (await middleware.afterNormalize?.(current, context)) ?? current;
+    }
+
+    return current;
+  }
+
+  /**
+   * Run `onError` hooks
+   *
+   * Errors thrown by the hooks themselves are logged and ignored so the
+   * original failure is still reported.
+   *
+   * @param {Error} error - Error of the plugin call
+   * @param {MiddlewareContext} context - Call context
+   * @returns {Promise<Error>} Error to report
+   */
+  async onError(error: Error, context: MiddlewareContext): Promise<Error> {
+    let current = error;
+
+    for (const middleware of [...this.middleware]) {
+      try {
+        current = (await middleware.onError?.(current, context)) ?? current;
+      } catch (hookError) {
+        this.logger?.error(
+          `[Middleware] onError hook of ${middleware.name ?? 'anonymous middleware'} failed`,
+          hookError as Error
+        );
+      }
+    }
+
+    return current;
+  }
+}
@@ -7,8 +7,105 @@
  */
 
 import { HealthSource } from '../models/unified-data';
-import { IHealthDataPlugin, PluginInfo, ConnectionStatus } from './plugin-interface';
-import { PluginError, ConfigurationError } from '../types/config';
+import { isHealthSource } from '../models/source-registry';
+import { IHealthDataPlugin, PluginInfo, ConnectionStatus, RateLimitInfo } from './plugin-interface';
+import { CircuitBreaker, CircuitBreakerSnapshot, CircuitState } from './circuit-breaker';
+import {
+  CompatibilityIssue,
+  CompatibilityReport,
+  PluginCompatibility,
+  checkPluginCompatibility,
+} from './plugin-compatibility';
+import {
+  PluginError,
+  PluginCompatibilityError,
+  ConfigurationError,
+  CircuitBreakerConfig,
+  CircuitOpenError,
+  SDKError,
+} from '../types/config';
+import { Clock, systemClock } from '../utils/clock';
+import { satisfies } from '../utils/semver';
+import { VERSION } from '../version';
+
+/**
+ * Plugin registry configuration
+ *
+ * @interface PluginRegistryConfig
+ */
+export interface PluginRegistryConfig {
+  /** Circuit breaker applied to each plugin */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+
+  /** Clock used for circuit breaker timing (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Core version plugin requirements are checked against (defaults to the SDK version) */
+  coreVersion?: string;
+}
+
+/**
+ * Most recent failure of a plugin call
+ *
+ * @interface PluginErrorRecord
+ */
+export interface PluginErrorRecord {
+  /** Error message */
+  message: string;
+
+  /** SDK error code, if the error is an SDKError */
+  code?: string;
+
+  /** When the failure occurred (ISO 8601) */
+  occurredAt: string;
+}
+
+/**
+ * Health of a single plugin
+ *
+ * @interface PluginHealth
+ */
+export interface PluginHealth {
+  /** Plugin ID */
+  pluginId: string;
+
+  /** Instance key of the plugin, if any */
+  instanceKey?: string;
+
+  /** Health source served by the plugin */
+  source?: HealthSource;
+
+  /** Current connection status */
+  connectionStatus: ConnectionStatus;
+
+  /** Circuit breaker state */
+  circuit: CircuitBreakerSnapshot;
+
+  /** When a call last succeeded (ISO 8601) */
+  lastSuccessAt?: string;
+
+  /** Most recent failed call */
+  lastError?: PluginErrorRecord;
+
+  /** Rate limit status reported by the plugin, if supported */
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Health of all registered plugins
+ *
+ * @interface HealthReport
+ */
+export interface HealthReport {
+  /** When the report was generated (ISO 8601) */
+  generatedAt: string;
+
+  /** Whether no plugin has an open circuit or a connection error */
+  healthy: boolean;
+
+  /** Per-plugin health */
+  plugins: PluginHealth[];
+}
 
 /**
  * Plugin registry entry
@@ -19,6 +116,9 @@ interface PluginEntry {
   /** The plugin instance */
   plugin: IHealthDataPlugin;
 
+  /** Health source served by the plugin */
+  source: HealthSource;
+
   /** Whether the plugin is initialized */
   initialized: boolean;
 
@@ -30,6 +130,60 @@ interface PluginEntry {
 
   /** Timestamp when plugin was last initialized (ISO 8601) */
   lastInitializedAt?: string;
+
+  /** Circuit breaker guarding calls to the plugin */
+  breaker: CircuitBreaker;
+
+  /** Timestamp of the last successful call (ISO 8601) */
+  lastSuccessAt?: string;
+
+  /** Most recent failed call */
+  lastError?: PluginErrorRecord;
+}
+
+/**
+ * Registry owning each registered plugin instance
+ *
+ * Plugin instances hold connection and auth state, so an instance may only
+ * be registered with one registry (one SDK) at a time.
+ */
+const pluginOwners: WeakMap<IHealthDataPlugin, PluginRegistry> = new WeakMap();
+
+/**
+ * Sources of built-in plugins that predate `IHealthDataPlugin.source`
+ */
+const LEGACY_PLUGIN_SOURCES: Record<string, HealthSource> = {
+  'health-connect': HealthSource.HEALTH_CONNECT,
+  health_connect: HealthSource.HEALTH_CONNECT,
+  'apple-health': HealthSource.APPLE_HEALTH,
+  apple_health: HealthSource.APPLE_HEALTH,
+  healthkit: HealthSource.APPLE_HEALTH,
+  fitbit: HealthSource.FITBIT,
+  garmin: HealthSource.GARMIN,
+  oura: HealthSource.OURA,
+  whoop: HealthSource.WHOOP,
+  strava: HealthSource.STRAVA,
+  myfitnesspal: HealthSource.MYFITNESSPAL,
+};
+
+/**
+ * Get the key a plugin is registered under
+ *
+ * @param {IHealthDataPlugin} plugin - Plugin
+ * @returns {string} `id`, or `id:instanceKey` for keyed instances
+ */
+export function getPluginKey(plugin: IHealthDataPlugin): string {
+  return plugin.instanceKey !== undefined ? `${plugin.id}:${plugin.instanceKey}` : plugin.id;
+}
+
+/**
+ * Resolve the health source a plugin serves
+ *
+ * @param {IHealthDataPlugin} plugin - Plugin
+ * @returns {HealthSource | undefined} Declared source, or the source of a built-in plugin ID
+ */
+export function resolvePluginSource(plugin: IHealthDataPlugin): HealthSource | undefined {
+  return plugin.source ?? LEGACY_PLUGIN_SOURCES[plugin.id.toLowerCase()];
 }
 
 /**
@@ -40,25 +194,63 @@ interface PluginEntry {
  * @class PluginRegistry
  */
 export class PluginRegistry {
-  /** Map of plugin ID to plugin entry */
+  /** Map of plugin key to plugin entry */
   private plugins: Map<string, PluginEntry> = new Map();
 
-  /** Map of health source to plugin ID */
-  private sourceToPlugin: Map<HealthSource, string> = new Map();
+  /** Map of health source to plugin keys, in registration order */
+  private sourceToPlugins: Map<HealthSource, string[]> = new Map();
+
+  /** Circuit breaker configuration for new entries */
+  private circuitBreakerConfig: Partial<CircuitBreakerConfig>;
+
+  /** Clock for circuit breaker timing */
+  private clock: Clock;
+
+  /** Core version plugin requirements are checked against */
+  private coreVersion: string;
+
+  /**
+   * Create plugin registry
+   *
+   * @param {PluginRegistryConfig} [config] - Registry configuration
+   */
+  constructor(config: PluginRegistryConfig = {}) {
+    this.circuitBreakerConfig = config.circuitBreaker ?? {};
+    this.clock = config.clock ?? systemClock;
+    this.coreVersion = config.coreVersion ?? VERSION;
+  }
 
   /**
    * Register a new plugin
    *
+   * Several plugins may serve the same source as long as they have
+   * distinct instance keys.
+   *
+   * The plugin's requirements are checked against the core version and the
+   * registered plugins. Peers that are not registered yet do not block
+   * registration; they are listed by `getCompatibilityReport()` instead.
+   *
    * @param {IHealthDataPlugin} plugin - The plugin to register
-   * @throws {PluginError} If plugin with same ID already exists
+   * @throws {PluginError} If plugin with same key already exists, or the
+   *   instance is registered with another registry
+   * @throws {PluginCompatibilityError} If the plugin's requirements are not
+   *   met, or its version breaks a registered plugin's peer requirement
+   * @throws {ConfigurationError} If the plugin's source is missing or unknown
    * @returns {void}
    */
   register(plugin: IHealthDataPlugin): void {
-    if (this.plugins.has(plugin.id)) {
+    const key = getPluginKey(plugin);
+
+    if (this.plugins.has(key)) {
+      throw new PluginError(`Plugin with ID '${key}' is already registered`, plugin.id, 400);
+    }
+
+    const owner = pluginOwners.get(plugin);
+    if (owner !== undefined && owner !== this) {
       throw new PluginError(
-        `Plugin with ID '${plugin.id}' is already registered`,
+        `Plugin instance '${plugin.id}' is already registered with another SDK instance`,
         plugin.id,
-        400
+        409
       );
     }
 
@@ -70,27 +262,43 @@ export class PluginRegistry {
       );
     }
 
+    const source = resolvePluginSource(plugin);
+    if (source === undefined) {
+      throw new ConfigurationError(`Plugin '${plugin.id}' does not declare a health source`, {
+        pluginId: plugin.id,
+      });
+    }
+    if (!isHealthSource(source)) {
+      throw new ConfigurationError(
+        `Plugin '${plugin.id}' serves unknown health source '${String(source)}'; ` +
+          'register it with registerHealthSource() first',
+        { pluginId: plugin.id, source }
+      );
+    }
+
+    const issues = this.checkRegistration(plugin);
+    if (issues.length > 0) {
+      throw new PluginCompatibilityError(plugin.id, issues);
+    }
+
     const entry: PluginEntry = {
       plugin,
+      source,
       initialized: false,
       connectionStatus: ConnectionStatus.DISCONNECTED,
       registeredAt: new Date().toISOString(),
+      breaker: new CircuitBreaker(this.circuitBreakerConfig, this.clock),
     };
 
-    this.plugins.set(plugin.id, entry);
-
-    // Map health source to plugin (assuming plugin ID matches source for now)
-    // This can be enhanced to support multiple sources per plugin
-    const source = this.pluginIdToHealthSource(plugin.id);
-    if (source) {
-      this.sourceToPlugin.set(source, plugin.id);
-    }
+    this.plugins.set(key, entry);
+    pluginOwners.set(plugin, this);
+    this.sourceToPlugins.set(source, [...(this.sourceToPlugins.get(source) ?? []), key]);
   }
 
   /**
    * Unregister a plugin
    *
-   * @param {string} pluginId - ID of the plugin to unregister
+   * @param {string} pluginId - Key of the plugin to unregister (see `getPluginKey`)
    * @returns {Promise<void>}
    * @throws {PluginError} If plugin is not found
    */
@@ -112,19 +320,21 @@ export class PluginRegistry {
 
     // Remove from maps
     this.plugins.delete(pluginId);
+    pluginOwners.delete(entry.plugin);
 
     // Remove source mapping
-    for (const [source, id] of this.sourceToPlugin.entries()) {
-      if (id === pluginId) {
-        this.sourceToPlugin.delete(source);
-      }
+    const keys = (this.sourceToPlugins.get(entry.source) ?? []).filter((key) => key !== pluginId);
+    if (keys.length > 0) {
+      this.sourceToPlugins.set(entry.source, keys);
+    } else {
+      this.sourceToPlugins.delete(entry.source);
     }
   }
 
   /**
-   * Get a plugin by ID
+   * Get a plugin by key
    *
-   * @param {string} pluginId - ID of the plugin
+   * @param {string} pluginId - Key of the plugin (see `getPluginKey`)
    * @returns {IHealthDataPlugin | undefined} The plugin instance or undefined
    */
   getPlugin(pluginId: string): IHealthDataPlugin | undefined {
@@ -134,15 +344,59 @@ export class PluginRegistry {
   /**
    * Get a plugin by health source
    *
+   * Without an instance key, the source's primary plugin is returned: the
+   * one registered without a key, or else the first one registered.
+   *
    * @param {HealthSource} source - Health source
+   * @param {string} [instanceKey] - Instance key
    * @returns {IHealthDataPlugin | undefined} The plugin instance or undefined
    */
-  getPluginBySource(source: HealthSource): IHealthDataPlugin | undefined {
-    const pluginId = this.sourceToPlugin.get(source);
-    if (!pluginId) {
-      return undefined;
+  getPluginBySource(source: HealthSource, instanceKey?: string): IHealthDataPlugin | undefined {
+    const plugins = this.getPluginsBySource(source);
+
+    if (instanceKey !== undefined) {
+      return plugins.find((plugin) => plugin.instanceKey === instanceKey);
     }
-    return this.getPlugin(pluginId);
+
+    return plugins.find((plugin) => plugin.instanceKey === undefined) ?? plugins[0];
+  }
+
+  /**
+   * Get all plugins serving a health source
+   *
+   * @param {HealthSource} source - Health source
+   * @returns {IHealthDataPlugin[]} Plugins in registration order
+   */
+  getPluginsBySource(source: HealthSource): IHealthDataPlugin[] {
+    const plugins: IHealthDataPlugin[] = [];
+
+    for (const key of this.sourceToPlugins.get(source) ?? []) {
+      const plugin = this.getPlugin(key);
+      if (plugin) {
+        plugins.push(plugin);
+      }
+    }
+
+    return plugins;
+  }
+
+  /**
+   * Get the health source a plugin serves
+   *
+   * @param {string} pluginId - Key of the plugin (see `getPluginKey`)
+   * @returns {HealthSource | undefined} Source, or undefined if not registered
+   */
+  getPluginSource(pluginId: string): HealthSource | undefined {
+    return this.plugins.get(pluginId)?.source;
+  }
+
+  /**
+   * Get the health sources of all registered plugins
+   *
+   * @returns {HealthSource[]} Sources in registration order
+   */
+  getSources(): HealthSource[] {
+    return Array.from(this.sourceToPlugins.keys());
   }
 
   /**
@@ -179,23 +433,35 @@ export class PluginRegistry {
   /**
    * Get plugin info for all plugins
    *
+   * Each entry carries the source and instance key the plugin is registered with.
+   *
    * @returns {Promise<PluginInfo[]>} Array of plugin info
    */
   async getPluginInfo(): Promise<PluginInfo[]> {
-    const plugins = this.getAllPlugins();
-    const infoPromises = plugins.map(async (plugin) => {
-      if (plugin.getInfo) {
-        return plugin.getInfo();
+    const entries = Array.from(this.plugins.values());
+    const infoPromises = entries.map(async ({ plugin, source }): Promise<PluginInfo> => {
+      // Plugins without getInfo() are described by their properties
+      const info: PluginInfo = plugin.getInfo
+        ? await plugin.getInfo()
+        : {
+            id: plugin.id,
+            name: plugin.name,
+            version: plugin.version,
+            supportedDataTypes: plugin.supportedDataTypes,
+            requiresAuthentication: plugin.requiresAuthentication,
+            isCloudBased: plugin.isCloudBased,
+          };
+
+      info.source = source;
+      info.loaded = true;
+      if (plugin.instanceKey !== undefined) {
+        info.instanceKey = plugin.instanceKey;
       }
-      // Fallback to basic info
-      return {
-        id: plugin.id,
-        name: plugin.name,
-        version: plugin.version,
-        supportedDataTypes: plugin.supportedDataTypes,
-        requiresAuthentication: plugin.requiresAuthentication,
-        isCloudBased: plugin.isCloudBased,
-      };
+      if (plugin.requirements !== undefined) {
+        info.requirements = plugin.requirements;
+      }
+
+      return info;
     });
 
     return Promise.all(infoPromises);
@@ -204,7 +470,7 @@ export class PluginRegistry {
   /**
    * Check if a plugin is initialized
    *
-   * @param {string} pluginId - ID of the plugin
+   * @param {string} pluginId - Key of the plugin
    * @returns {boolean} True if plugin is initialized
    */
   isInitialized(pluginId: string): boolean {
@@ -214,7 +480,7 @@ export class PluginRegistry {
   /**
    * Mark a plugin as initialized
    *
-   * @param {string} pluginId - ID of the plugin
+   * @param {string} pluginId - Key of the plugin
    * @returns {void}
    * @throws {PluginError} If plugin is not found
    */
@@ -231,7 +497,7 @@ export class PluginRegistry {
   /**
    * Update plugin connection status
    *
-   * @param {string} pluginId - ID of the plugin
+   * @param {string} pluginId - Key of the plugin
    * @param {ConnectionStatus} status - New connection status
    * @returns {void}
    * @throws {PluginError} If plugin is not found
@@ -248,7 +514,7 @@ export class PluginRegistry {
   /**
    * Get plugin connection status
    *
-   * @param {string} pluginId - ID of the plugin
+   * @param {string} pluginId - Key of the plugin
    * @returns {ConnectionStatus} Connection status
    * @throws {PluginError} If plugin is not found
    */
@@ -261,6 +527,129 @@ export class PluginRegistry {
     return entry.connectionStatus;
   }
 
+  /**
+   * Call a plugin through its circuit breaker
+   *
+   * While the circuit is open calls fail fast; once the reset timeout has
+   * elapsed a single probe call is let through. The outcome is recorded as
+   * the plugin's last success or last error.
+   *
+   * @param {string} pluginId - Key of the plugin
+   * @param {() => Promise<T>} operation - Plugin call
+   * @returns {Promise<T>} Result of the call
+   * @throws {CircuitOpenError} If the circuit is open
+   * @throws {PluginError} If plugin is not found
+   */
+  async execute<T>(pluginId: string, operation: () => Promise<T>): Promise<T> {
+    const entry = this.plugins.get(pluginId);
+    if (!entry) {
+      throw new PluginError(`Plugin '${pluginId}' not found`, pluginId, 404);
+    }
+
+    if (!entry.breaker.tryAcquire()) {
+      throw new CircuitOpenError(pluginId, new Date(entry.breaker.getRetryAt()).toISOString());
+    }
+
+    try {
+      const result = await operation();
+      entry.breaker.recordSuccess();
+      entry.lastSuccessAt = new Date(this.clock.now()).toISOString();
+      return result;
+    } catch (error) {
+      entry.breaker.recordFailure(error);
+      entry.lastError = {
+        message: (error as Error).message,
+        occurredAt: new Date(this.clock.now()).toISOString(),
+      };
+      if (error instanceof SDKError) {
+        entry.lastError.code = error.code;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the circuit breaker state of a plugin
+   *
+   * @param {string} pluginId - Key of the plugin
+   * @returns {CircuitState} Circuit state
+   * @throws {PluginError} If plugin is not found
+   */
+  getCircuitState(pluginId: string): CircuitState {
+    const entry = this.plugins.get(pluginId);
+    if (!entry) {
+      throw new PluginError(`Plugin '${pluginId}' not found`, pluginId, 404);
+    }
+
+    return entry.breaker.getSnapshot().state;
+  }
+
+  /**
+   * Get the health of a plugin
+   *
+   * @param {string} pluginId - Key of the plugin
+   * @returns {PluginHealth} Connection, circuit and last call status
+   * @throws {PluginError} If plugin is not found
+   */
+  getHealth(pluginId: string): PluginHealth {
+    const entry = this.plugins.get(pluginId);
+    if (!entry) {
+      throw new PluginError(`Plugin '${pluginId}' not found`, pluginId, 404);
+    }
+
+    const health: PluginHealth = {
+      pluginId: entry.plugin.id,
+      source: entry.source,
+      connectionStatus: entry.connectionStatus,
+      circuit: entry.breaker.getSnapshot(),
+    };
+
+    if (entry.plugin.instanceKey !== undefined) {
+      health.instanceKey = entry.plugin.instanceKey;
+    }
+    if (entry.lastSuccessAt !== undefined) {
+      health.lastSuccessAt = entry.lastSuccessAt;
+    }
+    if (entry.lastError !== undefined) {
+      health.lastError = { ...entry.lastError };
+    }
+
+    return health;
+  }
+
+  /**
+   * Get the compatibility of all registered plugins
+   *
+   * Lists every unmet requirement, including required peers that were
+   * never registered.
+   *
+   * @returns {CompatibilityReport} Per-plugin compatibility
+   */
+  getCompatibilityReport(): CompatibilityReport {
+    const installed = this.getAllPlugins();
+    const plugins = installed.map((plugin): PluginCompatibility => {
+      const issues = checkPluginCompatibility(plugin, installed, this.coreVersion);
+      const compatibility: PluginCompatibility = {
+        pluginId: plugin.id,
+        version: plugin.version,
+        compatible: issues.length === 0,
+        issues,
+      };
+
+      if (plugin.instanceKey !== undefined) {
+        compatibility.instanceKey = plugin.instanceKey;
+      }
+
+      return compatibility;
+    });
+
+    return {
+      coreVersion: this.coreVersion,
+      compatible: plugins.every((plugin) => plugin.compatible),
+      plugins,
+    };
+  }
+
   /**
    * Get the number of registered plugins
    *
@@ -290,35 +679,46 @@ export class PluginRegistry {
 
     await Promise.all(disposePromises);
 
+    for (const entry of this.plugins.values()) {
+      pluginOwners.delete(entry.plugin);
+    }
+
     this.plugins.clear();
-    this.sourceToPlugin.clear();
+    this.sourceToPlugins.clear();
   }
 
   /**
-   * Convert plugin ID to health source
+   * Find the compatibility issues blocking a plugin's registration
    *
-   * This is a helper method that maps plugin IDs to health sources.
-   * Can be extended to support custom mappings.
-   *
-   * @param {string} pluginId - Plugin ID
-   * @returns {HealthSource | undefined} Corresponding health source
-   * @private
+   * @param {IHealthDataPlugin} plugin - Plugin being registered
+   * @returns {CompatibilityIssue[]} Issues of the plugin itself (other than
+   *   missing peers) and of registered plugins whose peer range excludes it
    */
-  private pluginIdToHealthSource(pluginId: string): HealthSource | undefined {
-    const mapping: Record<string, HealthSource> = {
-      'health-connect': HealthSource.HEALTH_CONNECT,
-      'health_connect': HealthSource.HEALTH_CONNECT,
-      'apple-health': HealthSource.APPLE_HEALTH,
-      'apple_health': HealthSource.APPLE_HEALTH,
-      'healthkit': HealthSource.APPLE_HEALTH,
-      fitbit: HealthSource.FITBIT,
-      garmin: HealthSource.GARMIN,
-      oura: HealthSource.OURA,
-      whoop: HealthSource.WHOOP,
-      strava: HealthSource.STRAVA,
-      myfitnesspal: HealthSource.MYFITNESSPAL,
-    };
+  private checkRegistration(plugin: IHealthDataPlugin): CompatibilityIssue[] {
+    const installed = this.getAllPlugins();
+    const issues = checkPluginCompatibility(plugin, installed, this.coreVersion).filter(
+      (issue) => issue.type !== 'peer-missing'
+    );
+
+    for (const dependent of installed) {
+      for (const peer of dependent.requirements?.peers ?? []) {
+        if (
+          peer.id === plugin.id &&
+          peer.version !== undefined &&
+          !satisfies(plugin.version, peer.version)
+        ) {
+          issues.push({
+            type: 'peer-version',
+            pluginId: dependent.id,
+            peerId: plugin.id,
+            required: peer.version,
+            actual: plugin.version,
+            message: `Plugin '${dependent.id}' requires '${plugin.id}' ${peer.version} but ${plugin.version} is being registered`,
+          });
+        }
+      }
+    }
 
-    return mapping[pluginId.toLowerCase()];
+    return issues;
   }
 }
@@ -0,0 +1,276 @@
+/**
+ * Retry Executor
+ *
+ * Runs plugin calls under the SDK retry policy. Each attempt is bounded by
+ * a timeout; failures are classified by the plugin's `handleError()` and
+ * retried with jittered exponential backoff (`RETRY`), retried once after
+ * refreshing credentials (`REAUTH`), deferred (`QUEUE`), ignored (`IGNORE`)
+ * or rethrown (`FAIL`).
+ *
+ * @module plugins/retry-executor
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+import { ErrorAction, IHealthDataPlugin } from './plugin-interface';
+import {
+  AuthenticationError,
+  Logger,
+  NetworkError,
+  OperationDeferredError,
+  RateLimitError,
+  RetryConfig,
+} from '../types/config';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Retry executor configuration
+ *
+ * @interface RetryExecutorConfig
+ */
+export interface RetryExecutorConfig extends Partial<RetryConfig> {
+  /** Clock used for backoff delays and timeouts (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Random source for jitter in [0, 1) (defaults to Math.random) */
+  random?: () => number;
+
+  /** Called when a plugin asks for the call to be queued */
+  onDefer?: (context: RetryContext, error: Error) => void;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Description of a plugin call
+ *
+ * @interface RetryContext
+ */
+export interface RetryContext {
+  /** Operation name for logs and errors (e.g. `fetchData`) */
+  operation: string;
+
+  /** Source the call targets */
+  source?: HealthSource;
+
+  /** Data type the call targets */
+  dataType?: DataType;
+
+  /** Date range start (ISO 8601) */
+  startDate?: string;
+
+  /** Date range end (ISO 8601) */
+  endDate?: string;
+}
+
+/**
+ * Default retry policy
+ */
+const DEFAULT_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffMultiplier: 2,
+  useJitter: true,
+  timeout: 30000,
+};
+
+/**
+ * Retry Executor
+ *
+ * @class RetryExecutor
+ */
+export class RetryExecutor {
+  private config: RetryConfig;
+  private clock: Clock;
+  private random: () => number;
+  private onDefer: ((context: RetryContext, error: Error) => void) | undefined;
+  private logger: Logger | undefined;
+
+  /**
+   * Create retry executor
+   *
+   * @param {RetryExecutorConfig} [config] - Retry policy and dependencies
+   */
+  constructor(config: RetryExecutorConfig = {}) {
+    this.config = {
+      maxAttempts: config.maxAttempts ?? DEFAULT_CONFIG.maxAttempts,
+      initialDelay: config.initialDelay ?? DEFAULT_CONFIG.initialDelay,
+      maxDelay: config.maxDelay ?? DEFAULT_CONFIG.maxDelay,
+      backoffMultiplier: config.backoffMultiplier ?? DEFAULT_CONFIG.backoffMultiplier,
+      useJitter: config.useJitter ?? DEFAULT_CONFIG.useJitter,
+      timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+    };
+    this.clock = config.clock ?? systemClock;
+    this.random = config.random ?? Math.random;
+    this.onDefer = config.onDefer;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Run a plugin call under the retry policy
+   *
+   * @param {IHealthDataPlugin} plugin - Plugin that classifies failures
+   * @param {() => Promise<T>} call - The call to run
+   * @param {RetryContext} context - Description of the call
+   * @param {T} [ignored] - Result to return when the plugin answers `IGNORE`
+   * @returns {Promise<T>} Result of the first successful attempt
+   * @throws {OperationDeferredError} If the plugin asks for the call to be queued
+   * @throws {AuthenticationError} If re-authentication is needed but fails
+   * @throws {Error} The last error once retries are exhausted or on `FAIL`
+   */
+  async execute<T>(
+    plugin: IHealthDataPlugin,
+    call: () => Promise<T>,
+    context: RetryContext,
+    ignored?: T
+  ): Promise<T> {
+    const label = `${context.operation} on ${plugin.id}`;
+    let reauthenticated = false;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withTimeout(call(), label);
+      } catch (error) {
+        const action = this.classify(plugin, error as Error);
+
+        this.logger?.debug(
+          `[RetryExecutor] ${label} failed (attempt ${attempt}, ${action}): ${(error as Error).message}`
+        );
+
+        switch (action) {
+          case ErrorAction.IGNORE:
+            if (ignored !== undefined) {
+              return ignored;
+            }
+            throw error;
+
+          case ErrorAction.REAUTH:
+            if (reauthenticated || !(await this.refreshAuth(plugin))) {
+              throw new AuthenticationError(
+                `Re-authentication required for ${plugin.id}: ${(error as Error).message}`,
+                401,
+                { pluginId: plugin.id, originalError: error }
+              );
+            }
+            reauthenticated = true;
+            continue;
+
+          case ErrorAction.QUEUE:
+            this.onDefer?.(context, error as Error);
+            throw new OperationDeferredError(
+              `${label} deferred: ${(error as Error).message}`,
+              error instanceof RateLimitError ? error.resetAt : undefined,
+              error as Error
+            );
+
+          case ErrorAction.RETRY:
+            if (attempt >= this.config.maxAttempts) {
+              throw error;
+            }
+            await this.sleep(this.getDelay(attempt));
+            continue;
+
+          case ErrorAction.FAIL:
+          default:
+            throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the backoff delay after a failed attempt
+   *
+   * @param {number} attempt - Number of the failed attempt (1-based)
+   * @returns {number} Delay in milliseconds
+   */
+  getDelay(attempt: number): number {
+    const { initialDelay, backoffMultiplier, maxDelay, useJitter } = this.config;
+    const delay = Math.min(initialDelay * Math.pow(backoffMultiplier, attempt - 1), maxDelay);
+
+    // Equal jitter: keep half the delay, randomize the other half
+    return useJitter ? delay / 2 + this.random() * (delay / 2) : delay;
+  }
+
+  /**
+   * Ask the plugin how to handle an error
+   *
+   * @param {IHealthDataPlugin} plugin - Plugin
+   * @param {Error} error - Error
+   * @returns {ErrorAction} Action (FAIL if the plugin's handler throws)
+   * @private
+   */
+  private classify(plugin: IHealthDataPlugin, error: Error): ErrorAction {
+    try {
+      return plugin.handleError(error);
+    } catch {
+      return ErrorAction.FAIL;
+    }
+  }
+
+  /**
+   * Refresh the plugin's credentials
+   *
+   * @param {IHealthDataPlugin} plugin - Plugin
+   * @returns {Promise<boolean>} True if refreshed
+   * @private
+   */
+  private async refreshAuth(plugin: IHealthDataPlugin): Promise<boolean> {
+    if (!plugin.refreshAuth) {
+      return false;
+    }
+
+    try {
+      return await plugin.refreshAuth();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Bound a call by the configured timeout
+   *
+   * @param {Promise<T>} promise - Pending call
+   * @param {string} label - Call description for the error message
+   * @returns {Promise<T>} Call result
+   * @throws {NetworkError} If the call does not settle in time
+   * @private
+   */
+  private withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+    const timeout = this.config.timeout;
+    if (timeout <= 0) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = this.clock.setTimeout(() => {
+        reject(new NetworkError(`${label} timeout after ${timeout}ms`, 408, true, { timeout }));
+      }, timeout);
+
+      promise.then(
+        (value) => {
+          this.clock.clearTimeout(timer);
+          resolve(value);
+        },
+        (error: unknown) => {
+          this.clock.clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Wait for a delay
+   *
+   * @param {number} delay - Delay in milliseconds
+   * @returns {Promise<void>}
+   * @private
+   */
+  private sleep(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.clock.setTimeout(resolve, delay);
+    });
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Aggregator
+ *
+ * Folds normalized records into calendar buckets (hour/day/week/month in an
+ * IANA time zone) using per-data-type semantics: additive types such as
+ * steps are summed and split across buckets by duration, point measurements
+ * such as heart rate are averaged.
+ *
+ * @module query/aggregator
+ */
+
+import { DataType, UnifiedHealthData } from '../models/unified-data';
+import { AggregateDataPoint } from '../plugins/plugin-interface';
+import { AggregateBucket, AggregationBucket, AggregationFunction } from '../types/query';
+import { formatInTimeZone, nextPeriod, startOfPeriod } from '../utils/timezone';
+
+/**
+ * How a data type is aggregated
+ *
+ * @interface AggregationSemantics
+ */
+export interface AggregationSemantics {
+  /** Numeric field holding the record's value */
+  field: string;
+
+  /** Natural aggregation function */
+  fn: AggregationFunction;
+
+  /** Whether values are amounts over the record's duration (split across buckets) */
+  additive: boolean;
+}
+
+/**
+ * Time range of a bucket
+ *
+ * @interface BucketRange
+ */
+export interface BucketRange {
+  /** Start in epoch milliseconds */
+  start: number;
+
+  /** Exclusive end in epoch milliseconds */
+  end: number;
+}
+
+/**
+ * Aggregation semantics per data type
+ */
+export const AGGREGATION_SEMANTICS: Partial<Record<DataType, AggregationSemantics>> = {
+  [DataType.STEPS]: { field: 'count', fn: 'sum', additive: true },
+  [DataType.CALORIES]: { field: 'total', fn: 'sum', additive: true },
+  [DataType.DISTANCE]: { field: 'meters', fn: 'sum', additive: true },
+  [DataType.SLEEP]: { field: 'totalDuration', fn: 'sum', additive: true },
+  [DataType.ACTIVITY]: { field: 'duration', fn: 'sum', additive: true },
+  [DataType.HEART_RATE]: { field: 'bpm', fn: 'avg', additive: false },
+  [DataType.RESTING_HEART_RATE]: { field: 'bpm', fn: 'avg', additive: false },
+  [DataType.HEART_RATE_VARIABILITY]: { field: 'milliseconds', fn: 'avg', additive: false },
+  [DataType.BLOOD_OXYGEN]: { field: 'percentage', fn: 'avg', additive: false },
+  [DataType.BLOOD_PRESSURE]: { field: 'systolic', fn: 'avg', additive: false },
+  [DataType.WEIGHT]: { field: 'kilograms', fn: 'avg', additive: false },
+  [DataType.VO2_MAX]: { field: 'value', fn: 'avg', additive: false },
+};
+
+/**
+ * Get the primary numeric value of a record
+ *
+ * @param {UnifiedHealthData} record - Record
+ * @returns {number | undefined} Value, or undefined if the type has none
+ */
+export function getPrimaryValue(record: UnifiedHealthData): number | undefined {
+  const semantics = AGGREGATION_SEMANTICS[record.dataType];
+  if (!semantics) {
+    return undefined;
+  }
+
+  const value = (record as unknown as Record<string, unknown>)[semantics.field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Values collected for one bucket
+ */
+interface BucketAccumulator {
+  values: number[];
+  weights: number[];
+  count: number;
+}
+
+/**
+ * Aggregator
+ *
+ * @class Aggregator
+ */
+export class Aggregator {
+  /**
+   * Get the natural aggregation function of a data type
+   *
+   * @param {DataType} dataType - Data type
+   * @returns {AggregationFunction} Function (`count` for types without a value)
+   */
+  static getDefaultFunction(dataType: DataType): AggregationFunction {
+    return AGGREGATION_SEMANTICS[dataType]?.fn ?? 'count';
+  }
+
+  /**
+   * Check whether a function can be applied to a data type
+   *
+   * @param {DataType} dataType - Data type
+   * @param {AggregationFunction} fn - Aggregation function
+   * @returns {boolean} True if supported
+   */
+  static supports(dataType: DataType, fn: AggregationFunction): boolean {
+    return fn === 'count' || AGGREGATION_SEMANTICS[dataType] !== undefined;
+  }
+
+  /**
+   * Create the buckets covering a range
+   *
+   * The first bucket starts at the period containing `startDate`, so it may
+   * begin before the range; the last one contains `endDate`.
+   *
+   * @param {number} startDate - Range start in epoch milliseconds
+   * @param {number} endDate - Range end (exclusive) in epoch milliseconds
+   * @param {AggregationBucket} bucket - Bucket size
+   * @param {string} timezone - IANA time zone
+   * @returns {BucketRange[]} Buckets in chronological order
+   */
+  createBuckets(
+    startDate: number,
+    endDate: number,
+    bucket: AggregationBucket,
+    timezone: string
+  ): BucketRange[] {
+    const ranges: BucketRange[] = [];
+
+    for (let start = startOfPeriod(startDate, bucket, timezone); start < endDate;) {
+      const end = nextPeriod(start, bucket, timezone);
+      ranges.push({ start, end });
+      start = end;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Aggregate records into buckets
+   *
+   * Records are clipped to `[range.start, range.end)`. Additive records with
+   * an end timestamp are split across the buckets they overlap in
+   * proportion to the overlap; other records count in the bucket containing
+   * their timestamp. Weighted (duration-aware) averages are used for
+   * additive types.
+   *
+   * @param {UnifiedHealthData[]} records - Records of a single data type
+   * @param {BucketRange[]} buckets - Buckets from `createBuckets`
+   * @param {BucketRange} range - Requested range
+   * @param {AggregationFunction} fn - Aggregation function
+   * @param {string} timezone - IANA time zone for bucket labels
+   * @returns {AggregateBucket[]} Aggregated buckets
+   */
+  aggregate(
+    records: UnifiedHealthData[],
+    buckets: BucketRange[],
+    range: BucketRange,
+    fn: AggregationFunction,
+    timezone: string
+  ): AggregateBucket[] {
+    const accumulators = buckets.map((): BucketAccumulator => ({
+      values: [],
+      weights: [],
+      count: 0,
+    }));
+
+    for (const record of records) {
+      const value = fn === 'count' ? 1 : getPrimaryValue(record);
+      if (value === undefined) {
+        continue;
+      }
+
+      const start = Date.parse(record.timestamp);
+      const end = record.endTimestamp !== undefined ? Date.parse(record.endTimestamp) : start;
+      const additive = AGGREGATION_SEMANTICS[record.dataType]?.additive ?? false;
+
+      if (additive && end > start && fn !== 'count') {
+        this.distribute(value, start, end, buckets, range, accumulators);
+        continue;
+      }
+
+      if (start < range.start || start >= range.end) {
+        continue;
+      }
+
+      const index = this.findBucket(buckets, start);
+      const accumulator = index === -1 ? undefined : accumulators[index];
+      if (accumulator) {
+        accumulator.values.push(value);
+        accumulator.weights.push(1);
+        accumulator.count++;
+      }
+    }
+
+    return buckets.map((bucket, index) => {
+      const accumulator = accumulators[index] as BucketAccumulator;
+      return {
+        start: formatInTimeZone(bucket.start, timezone),
+        end: formatInTimeZone(bucket.end, timezone),
+        value: this.reduce(accumulator.values, accumulator.weights, fn),
+        count: accumulator.count,
+      };
+    });
+  }
+
+  /**
+   * Place natively computed points into buckets
+   *
+   * Points finer than the bucket size (e.g. daily values for a weekly
+   * bucket) are combined with the same function; averages are weighted by
+   * the points' record counts when known.
+   *
+   * @param {AggregateDataPoint[]} points - Points returned by a plugin
+   * @param {BucketRange[]} buckets - Buckets from `createBuckets`
+   * @param {AggregationFunction} fn - Aggregation function
+   * @param {string} timezone - IANA time zone for bucket labels
+   * @returns {AggregateBucket[]} Aggregated buckets
+   */
+  fromDataPoints(
+    points: AggregateDataPoint[],
+    buckets: BucketRange[],
+    fn: AggregationFunction,
+    timezone: string
+  ): AggregateBucket[] {
+    const accumulators = buckets.map((): BucketAccumulator => ({
+      values: [],
+      weights: [],
+      count: 0,
+    }));
+    const combine: AggregationFunction = fn === 'count' ? 'sum' : fn;
+
+    for (const point of points) {
+      const index = this.findBucket(buckets, Date.parse(point.start));
+      const accumulator = index === -1 ? undefined : accumulators[index];
+      if (accumulator) {
+        const weight = point.count ?? 1;
+        accumulator.values.push(combine === 'avg' ? point.value * weight : point.value);
+        accumulator.weights.push(weight);
+      }
+    }
+
+    return buckets.map((bucket, index) => {
+      const accumulator = accumulators[index] as BucketAccumulator;
+      const value = this.reduce(accumulator.values, accumulator.weights, combine);
+      return {
+        start: formatInTimeZone(bucket.start, timezone),
+        end: formatInTimeZone(bucket.end, timezone),
+        value: value === null && fn === 'count' ? 0 : value,
+      };
+    });
+  }
+
+  /**
+   * Split an additive value across the buckets its interval overlaps
+   *
+   * @param {number} value - Record value
+   * @param {number} start - Record start
+   * @param {number} end - Record end
+   * @param {BucketRange[]} buckets - Buckets
+   * @param {BucketRange} range - Requested range
+   * @param {BucketAccumulator[]} accumulators - Per-bucket accumulators
+   * @private
+   */
+  private distribute(
+    value: number,
+    start: number,
+    end: number,
+    buckets: BucketRange[],
+    range: BucketRange,
+    accumulators: BucketAccumulator[]
+  ): void {
+    const duration = end - start;
+
+    buckets.forEach((bucket, index) => {
+      const overlap =
+        Math.min(end, bucket.end, range.end) - Math.max(start, bucket.start, range.start);
+      const accumulator = accumulators[index];
+
+      if (overlap > 0 && accumulator) {
+        accumulator.values.push((value * overlap) / duration);
+        accumulator.weights.push(overlap / duration);
+        accumulator.count++;
+      }
+    });
+  }
+
+  /**
+   * Find the bucket containing an instant
+   *
+   * @param {BucketRange[]} buckets - Buckets in chronological order
+   * @param {number} instant - Epoch milliseconds
+   * @returns {number} Bucket index or -1
+   * @private
+   */
+  private findBucket(buckets: BucketRange[], instant: number): number {
+    let low = 0;
+    let high = buckets.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const bucket = buckets[mid] as BucketRange;
+
+      if (instant < bucket.start) {
+        high = mid - 1;
+      } else if (instant >= bucket.end) {
+        low = mid + 1;
+      } else {
+        return mid;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Reduce bucket values with an aggregation function
+   *
+   * @param {number[]} values - Values
+   * @param {number[]} weights - Weights of the values (used by avg)
+   * @param {AggregationFunction} fn - Aggregation function
+   * @returns {number | null} Result, or null if there are no values (0 for count)
+   * @private
+   */
+  private reduce(values: number[], weights: number[], fn: AggregationFunction): number | null {
+    if (fn === 'count') {
+      return values.length;
+    }
+
+    if (values.length === 0) {
+      return null;
+    }
+
+    switch (fn) {
+      case 'sum':
+        return values.reduce((sum, value) => sum + value, 0);
+
+      case 'min':
+        return values.reduce((min, value) => (value < min ? value : min), Infinity);
+
+      case 'max':
+        return values.reduce((max, value) => (value > max ? value : max), -Infinity);
+
+      case 'avg': {
+        // Split values are already scaled by their weight
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        const total = values.reduce((sum, value) => sum + value, 0);
+        return totalWeight > 0 ? total / totalWeight : null;
+      }
+    }
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * Conflict Resolver
+ *
+ * Detects records from different sources that describe the same
+ * measurement — near-identical time windows with similar values — and
+ * reduces each group to a single record using a configurable strategy.
+ *
+ * Amounts of additive data types reported at different granularity, such as
+ * a daily total from one source and hourly records from another, are
+ * detected by their overlap relative to the shorter window; when the sources'
+ * totals are similar, only the preferred source's records are kept.
+ *
+ * @module query/conflict-resolver
+ */
+
+import { UnifiedHealthData } from '../models/unified-data';
+import { QualityScorer } from '../normalizer/quality-scorer';
+import { AGGREGATION_SEMANTICS, getPrimaryValue } from './aggregator';
+import { ConflictResolutionConfig, ConflictStrategy, Logger } from '../types/config';
+import { DataConflict } from '../types/query';
+
+/**
+ * Conflict resolver configuration
+ *
+ * @interface ConflictResolverConfig
+ */
+export interface ConflictResolverConfig extends Partial<ConflictResolutionConfig> {
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Result of conflict resolution
+ *
+ * @interface ConflictResolution
+ */
+export interface ConflictResolution<T extends UnifiedHealthData = UnifiedHealthData> {
+  /** Records with each conflict reduced to a single record */
+  data: T[];
+
+  /** Conflicts that were resolved */
+  conflicts: DataConflict[];
+}
+
+/**
+ * Default conflict resolver configuration
+ */
+const DEFAULT_CONFIG: Omit<ConflictResolutionConfig, 'enabled'> = {
+  strategy: ConflictStrategy.HIGHEST_QUALITY,
+  sourcePriority: [],
+  timeTolerance: 60 * 1000, // 1 minute
+  valueTolerance: 0.1, // 10%
+};
+
+/**
+ * Minimum overlap, as a fraction of the shorter window, for records of
+ * different granularity to cover the same period
+ */
+const MIN_OVERLAP_RATIO = 0.5;
+
+/**
+ * Conflict Resolver
+ *
+ * @class ConflictResolver
+ */
+export class ConflictResolver {
+  private config: Omit<ConflictResolutionConfig, 'enabled'>;
+  private logger: Logger | undefined;
+
+  /**
+   * Create conflict resolver
+   *
+   * @param {ConflictResolverConfig} config - Resolver configuration
+   */
+  constructor(config: ConflictResolverConfig = {}) {
+    this.config = {
+      strategy: config.strategy ?? DEFAULT_CONFIG.strategy,
+      sourcePriority: config.sourcePriority ?? DEFAULT_CONFIG.sourcePriority,
+      timeTolerance: config.timeTolerance ?? DEFAULT_CONFIG.timeTolerance,
+      valueTolerance: config.valueTolerance ?? DEFAULT_CONFIG.valueTolerance,
+    };
+    this.logger = config.logger;
+  }
+
+  /**
+   * Detect and resolve cross-source conflicts
+   *
+   * Records from the same source never conflict with each other. Each
+   * resolved record takes the position of the earliest record of its group.
+   * Overlapping records of different granularity are resolved afterwards by
+   * keeping the records of the group's best source and dropping the others.
+   *
+   * @param {T[]} data - Merged records from all sources
+   * @returns {ConflictResolution<T>} Deduplicated records and conflicts
+   */
+  resolve<T extends UnifiedHealthData>(data: T[]): ConflictResolution<T> {
+    const replacements = new Map<T, T | null>();
+    const conflicts: DataConflict[] = [];
+
+    for (const group of this.detect(data)) {
+      const resolved = this.resolveGroup(group);
+      const [first, ...rest] = group;
+
+      replacements.set(first as T, resolved);
+      for (const record of rest) {
+        replacements.set(record, null);
+      }
+
+      conflicts.push(this.describeConflict(group, resolved));
+    }
+
+    const deduplicated = this.applyReplacements(data, replacements);
+    replacements.clear();
+
+    for (const group of this.detectOverlaps(deduplicated)) {
+      const resolved = this.pickBest(group, this.compareFor(this.config.strategy));
+
+      for (const record of group) {
+        if (record.source !== resolved.source) {
+          replacements.set(record, null);
+        }
+      }
+
+      conflicts.push(this.describeConflict(group, resolved));
+    }
+
+    const result = this.applyReplacements(deduplicated, replacements);
+
+    if (conflicts.length > 0) {
+      this.logger?.debug(`[ConflictResolver] Resolved ${conflicts.length} cross-source conflicts`);
+    }
+
+    return { data: result, conflicts };
+  }
+
+  /**
+   * Group records describing the same measurement
+   *
+   * @param {T[]} data - Records to group
+   * @returns {T[][]} Groups of two or more records, each in input order
+   */
+  detect<T extends UnifiedHealthData>(data: T[]): T[][] {
+    const order = new Map<T, number>();
+    data.forEach((record, index) => order.set(record, index));
+
+    const sorted = [...data].sort((a, b) => this.startOf(a) - this.startOf(b));
+    const clusters: T[][] = [];
+    let open: T[][] = [];
+
+    for (const record of sorted) {
+      // Clusters whose anchor ended before this record started cannot match
+      open = open.filter(
+        (cluster) => this.endOf(cluster[0] as T) + this.config.timeTolerance >= this.startOf(record)
+      );
+
+      const match = open.find(
+        (cluster) =>
+          !cluster.some((member) => member.source === record.source) &&
+          this.isSameMeasurement(cluster[0] as T, record)
+      );
+
+      if (match) {
+        match.push(record);
+      } else {
+        const cluster = [record];
+        clusters.push(cluster);
+        open.push(cluster);
+      }
+    }
+
+    return clusters
+      .filter((cluster) => cluster.length > 1)
+      .map((cluster) => cluster.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)));
+  }
+
+  /**
+   * Group additive records of different granularity covering the same period
+   *
+   * Records from different sources are linked when their windows overlap by
+   * at least half of the shorter window. A group is reported when the
+   * sources' totals over it are within `valueTolerance` of each other.
+   *
+   * @param {T[]} data - Records to group
+   * @returns {T[][]} Groups of records from two or more sources, each in input order
+   */
+  detectOverlaps<T extends UnifiedHealthData>(data: T[]): T[][] {
+    const candidates = data.filter(
+      (record) =>
+        AGGREGATION_SEMANTICS[record.dataType]?.additive === true &&
+        this.endOf(record) > this.startOf(record)
+    );
+    const sorted = [...candidates].sort((a, b) => this.startOf(a) - this.startOf(b));
+    const parent = new Map<T, T>(candidates.map((record) => [record, record]));
+
+    const find = (record: T): T => {
+      let root = record;
+      while (parent.get(root) !== root) {
+        root = parent.get(root) as T;
+      }
+      parent.set(record, root);
+      return root;
+    };
+
+    let active: T[] = [];
+    for (const record of sorted) {
+      active = active.filter((other) => this.endOf(other) > this.startOf(record));
+
+      for (const other of active) {
+        if (
+          other.source !== record.source &&
+          other.dataType === record.dataType &&
+          this.overlapRatio(other, record) >= MIN_OVERLAP_RATIO
+        ) {
+          parent.set(find(record), find(other));
+        }
+      }
+
+      active.push(record);
+    }
+
+    const groups = new Map<T, T[]>();
+    for (const record of candidates) {
+      const root = find(record);
+      groups.set(root, [...(groups.get(root) ?? []), record]);
+    }
+
+    return Array.from(groups.values()).filter(
+      (group) => new Set(group.map((record) => record.source)).size > 1 && this.totalsAgree(group)
+    );
+  }
+
+  /**
+   * Check whether two records describe the same measurement
+   *
+   * Both the starts and the ends must lie within `timeTolerance` of each
+   * other; windows that merely overlap are handled by `detectOverlaps`.
+   *
+   * @param {UnifiedHealthData} a - First record
+   * @param {UnifiedHealthData} b - Second record
+   * @returns {boolean} True if time windows nearly coincide and values are similar
+   */
+  isSameMeasurement(a: UnifiedHealthData, b: UnifiedHealthData): boolean {
+    if (a.dataType !== b.dataType) {
+      return false;
+    }
+
+    const tolerance = this.config.timeTolerance;
+    if (
+      Math.abs(this.startOf(a) - this.startOf(b)) > tolerance ||
+      Math.abs(this.endOf(a) - this.endOf(b)) > tolerance
+    ) {
+      return false;
+    }
+
+    const valueA = getPrimaryValue(a);
+    const valueB = getPrimaryValue(b);
+    if (valueA === undefined || valueB === undefined) {
+      return true;
+    }
+
+    const scale = Math.max(Math.abs(valueA), Math.abs(valueB));
+    return scale === 0 || Math.abs(valueA - valueB) / scale <= this.config.valueTolerance;
+  }
+
+  /**
+   * Pick or build the record representing a conflict group
+   *
+   * @param {T[]} group - Conflicting records
+   * @returns {T} Resolved record
+   * @private
+   */
+  private resolveGroup<T extends UnifiedHealthData>(group: T[]): T {
+    return this.config.strategy === ConflictStrategy.MERGE
+      ? this.merge(group)
+      : this.pickBest(group, this.compareFor(this.config.strategy));
+  }
+
+  /**
+   * Get the primary comparator of a strategy
+   *
+   * MERGE and HIGHEST_QUALITY have none; their ties are broken by quality.
+   *
+   * @param {ConflictStrategy} strategy - Resolution strategy
+   * @returns {(a: UnifiedHealthData, b: UnifiedHealthData) => number} Comparator (negative = a is better)
+   * @private
+   */
+  private compareFor(
+    strategy: ConflictStrategy
+  ): (a: UnifiedHealthData, b: UnifiedHealthData) => number {
+    switch (strategy) {
+      case ConflictStrategy.PREFER_SOURCE:
+        return (a, b) => this.sourceRank(a) - this.sourceRank(b);
+
+      case ConflictStrategy.NEWEST:
+        return (a, b) => this.recordedAt(b) - this.recordedAt(a);
+
+      case ConflictStrategy.MERGE:
+      case ConflictStrategy.HIGHEST_QUALITY:
+      default:
+        return () => 0;
+    }
+  }
+
+  /**
+   * Apply replacements to records, keeping their order
+   *
+   * @param {T[]} data - Records
+   * @param {Map<T, T | null>} replacements - Replacement per record (null drops it)
+   * @returns {T[]} Records after replacement
+   * @private
+   */
+  private applyReplacements<T extends UnifiedHealthData>(
+    data: T[],
+    replacements: Map<T, T | null>
+  ): T[] {
+    const result: T[] = [];
+    for (const record of data) {
+      const replacement = replacements.get(record);
+      if (replacement === undefined) {
+        result.push(record);
+      } else if (replacement !== null) {
+        result.push(replacement);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the overlap of two records as a fraction of the shorter window
+   *
+   * @param {UnifiedHealthData} a - First record
+   * @param {UnifiedHealthData} b - Second record
+   * @returns {number} Overlap ratio (0-1)
+   * @private
+   */
+  private overlapRatio(a: UnifiedHealthData, b: UnifiedHealthData): number {
+    const overlap =
+      Math.min(this.endOf(a), this.endOf(b)) - Math.max(this.startOf(a), this.startOf(b));
+    const shorter = Math.min(this.endOf(a) - this.startOf(a), this.endOf(b) - this.startOf(b));
+
+    return overlap > 0 && shorter > 0 ? overlap / shorter : 0;
+  }
+
+  /**
+   * Check whether each source's total over a group is similar
+   *
+   * @param {UnifiedHealthData[]} group - Overlapping records
+   * @returns {boolean} True if the totals are within `valueTolerance`
+   * @private
+   */
+  private totalsAgree(group: UnifiedHealthData[]): boolean {
+    const totals = new Map<string, number>();
+    for (const record of group) {
+      const value = getPrimaryValue(record);
+      if (value === undefined) {
+        return false;
+      }
+      totals.set(record.source, (totals.get(record.source) ?? 0) + value);
+    }
+
+    const values = Array.from(totals.values());
+    const scale = Math.max(...values.map(Math.abs));
+    return (
+      scale === 0 ||
+      (Math.max(...values) - Math.min(...values)) / scale <= this.config.valueTolerance
+    );
+  }
+
+  /**
+   * Pick the best record by a comparator, breaking ties by quality score
+   * and then by source priority
+   *
+   * @param {T[]} group - Candidate records
+   * @param {(a: T, b: T) => number} compare - Primary comparator (negative = a is better)
+   * @returns {T} Best record
+   * @private
+   */
+  private pickBest<T extends UnifiedHealthData>(group: T[], compare: (a: T, b: T) => number): T {
+    const sorted = [...group].sort(
+      (a, b) =>
+        compare(a, b) ||
+        this.qualityScore(b) - this.qualityScore(a) ||
+        this.sourceRank(a) - this.sourceRank(b)
+    );
+
+    return sorted[0] as T;
+  }
+
+  /**
+   * Merge a group into its highest-quality record
+   *
+   * Fields missing from the base record are taken from the other records in
+   * order of quality; the merged-from record IDs are kept in
+   * `metadata.custom.mergedFrom`.
+   *
+   * @param {T[]} group - Conflicting records
+   * @returns {T} Merged record
+   * @private
+   */
+  private merge<T extends UnifiedHealthData>(group: T[]): T {
+    const base = this.pickBest(group, () => 0);
+    const others = [...group]
+      .filter((record) => record !== base)
+      .sort((a, b) => this.qualityScore(b) - this.qualityScore(a));
+
+    const merged = { ...base } as Record<string, unknown>;
+    for (const other of others) {
+      for (const [key, value] of Object.entries(other)) {
+        if (merged[key] === undefined && value !== undefined) {
+          merged[key] = value;
+        }
+      }
+    }
+
+    return {
+      ...(merged as T),
+      metadata: {
+        ...base.metadata,
+        custom: {
+          ...base.metadata.custom,
+          mergedFrom: group.map((record) => record.id),
+        },
+      },
+    };
+  }
+
+  /**
+   * Describe a resolved conflict
+   *
+   * @param {UnifiedHealthData[]} group - Conflicting records
+   * @param {UnifiedHealthData} resolved - Resolved record
+   * @returns {DataConflict} Conflict description
+   * @private
+   */
+  private describeConflict(group: UnifiedHealthData[], resolved: UnifiedHealthData): DataConflict {
+    const start = Math.min(...group.map((record) => this.startOf(record)));
+    const end = Math.max(...group.map((record) => this.endOf(record)));
+    const first = group[0] as UnifiedHealthData;
+
+    const conflict: DataConflict = {
+      dataType: first.dataType,
+      timestamp: new Date(start).toISOString(),
+      sources: group.map((record) => record.source),
+      recordIds: group.map((record) => record.id),
+      resolvedRecordId: resolved.id,
+      strategy: this.config.strategy,
+    };
+
+    if (end !== start) {
+      conflict.endTimestamp = new Date(end).toISOString();
+    }
+
+    return conflict;
+  }
+
+  /**
+   * Get the quality score (0-100) of a record
+   *
+   * @param {UnifiedHealthData} record - Record
+   * @returns {number} Quality score
+   * @private
+   */
+  private qualityScore(record: UnifiedHealthData): number {
+    const params: Parameters<typeof QualityScorer.calculateQualityScore>[0] = {
+      source: record.source,
+      dataType: record.dataType,
+      isManualEntry: record.metadata.isManualEntry,
+    };
+
+    if (record.metadata.manufacturer !== undefined) {
+      params.manufacturer = record.metadata.manufacturer;
+    }
+
+    return QualityScorer.calculateQualityScore(params).score;
+  }
+
+  /**
+   * Get the priority rank of a record's source (lower is preferred)
+   *
+   * @param {UnifiedHealthData} record - Record
+   * @returns {number} Rank
+   * @private
+   */
+  private sourceRank(record: UnifiedHealthData): number {
+    const index = this.config.sourcePriority.indexOf(record.source);
+    return index === -1 ? this.config.sourcePriority.length : index;
+  }
+
+  /**
+   * Get when a record was recorded (epoch milliseconds)
+   *
+   * @param {UnifiedHealthData} record - Record
+   * @returns {number} Recorded time
+   * @private
+   */
+  private recordedAt(record: UnifiedHealthData): number {
+    const recordedAt = Date.parse(record.metadata.recordedAt);
+    return Number.isNaN(recordedAt) ? Date.parse(record.metadata.syncedAt) || 0 : recordedAt;
+  }
+
+  /**
+   * Get the start of a record (epoch milliseconds)
+   *
+   * @param {UnifiedHealthData} record - Record
+   * @returns {number} Start time
+   * @private
+   */
+  private startOf(record: UnifiedHealthData): number {
+    return Date.parse(record.timestamp);
+  }
+
+  /**
+   * Get the end of a record (epoch milliseconds); point records end at their start
+   *
+   * @param {UnifiedHealthData} record - Record
+   * @returns {number} End time
+   * @private
+   */
+  private endOf(record: UnifiedHealthData): number {
+    return record.endTimestamp !== undefined
+      ? Date.parse(record.endTimestamp)
+      : this.startOf(record);
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Query Planner
+ *
+ * Turns a request into per-source fetch plans using the plugins' declared
+ * capabilities: sources that cannot serve the request are rejected before
+ * any call is made, ranges are clipped to each source's history and split
+ * into chunks no longer than the source accepts per request.
+ *
+ * @module query/query-planner
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+import {
+  DataGranularity,
+  DataTypeCapabilities,
+  PluginCapabilities,
+} from '../plugins/plugin-interface';
+import { Logger, UnsupportedCapabilityError } from '../types/config';
+import { AggregationBucket, AggregationFunction } from '../types/query';
+import { Clock, systemClock } from '../utils/clock';
+import { startOfPeriod } from '../utils/timezone';
+
+/**
+ * Query planner configuration
+ *
+ * @interface QueryPlannerConfig
+ */
+export interface QueryPlannerConfig {
+  /** Clock for historical limits (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Request to plan
+ *
+ * @interface PlanRequest
+ */
+export interface PlanRequest {
+  /** Data type to fetch */
+  dataType: DataType;
+
+  /** Range start (ISO 8601) */
+  startDate: string;
+
+  /** Range end, inclusive (ISO 8601) */
+  endDate: string;
+
+  /** IANA time zone used to align chunks of non-sample sources */
+  timezone: string;
+
+  /** Bucket size of an aggregate request (rejects coarser sources) */
+  bucket?: AggregationBucket;
+}
+
+/**
+ * Source considered by the planner
+ *
+ * @interface PlanCandidate
+ */
+export interface PlanCandidate {
+  /** Health source */
+  source: HealthSource;
+
+  /** Capabilities of the source's plugin */
+  capabilities: PluginCapabilities;
+}
+
+/**
+ * Range fetched with a single plugin call
+ *
+ * @interface PlannedRange
+ */
+export interface PlannedRange {
+  /** Chunk start (ISO 8601) */
+  startDate: string;
+
+  /** Chunk end, inclusive (ISO 8601) */
+  endDate: string;
+}
+
+/**
+ * Fetch plan of one source
+ *
+ * @interface SourcePlan
+ */
+export interface SourcePlan {
+  /** Health source */
+  source: HealthSource;
+
+  /** Capabilities of the source for the requested data type */
+  capabilities: DataTypeCapabilities;
+
+  /** Chunks to fetch, in chronological order */
+  ranges: PlannedRange[];
+}
+
+/**
+ * Fetch plan of a request
+ *
+ * @interface QueryPlan
+ */
+export interface QueryPlan {
+  /** Sources able to serve the request, in candidate order */
+  sources: SourcePlan[];
+
+  /** Why the other sources were rejected */
+  rejected: UnsupportedCapabilityError[];
+}
+
+/**
+ * Granularities from finest to coarsest
+ */
+const GRANULARITY_ORDER: readonly DataGranularity[] = ['sample', 'minute', 'hour', 'day'];
+
+/**
+ * Finest granularity able to fill each bucket size
+ */
+const BUCKET_GRANULARITY: Record<AggregationBucket, DataGranularity> = {
+  hour: 'hour',
+  day: 'day',
+  week: 'day',
+  month: 'day',
+};
+
+/**
+ * Query Planner
+ *
+ * @class QueryPlanner
+ */
+export class QueryPlanner {
+  private clock: Clock;
+  private logger: Logger | undefined;
+
+  /**
+   * Create query planner
+   *
+   * @param {QueryPlannerConfig} config - Planner configuration
+   */
+  constructor(config: QueryPlannerConfig = {}) {
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Check whether a source computes an aggregate natively
+   *
+   * @param {PluginCapabilities} capabilities - Capabilities of the source's plugin
+   * @param {DataType} dataType - Data type
+   * @param {AggregationFunction} fn - Aggregation function
+   * @param {AggregationBucket} bucket - Bucket size
+   * @returns {boolean} True if the aggregate can be pushed down
+   */
+  static canAggregate(
+    capabilities: PluginCapabilities,
+    dataType: DataType,
+    fn: AggregationFunction,
+    bucket: AggregationBucket
+  ): boolean {
+    const aggregation = capabilities.dataTypes[dataType]?.aggregation;
+    return (
+      aggregation !== undefined &&
+      aggregation.functions.includes(fn) &&
+      aggregation.buckets.includes(bucket)
+    );
+  }
+
+  /**
+   * Plan a request across sources
+   *
+   * @param {PlanRequest} request - Request to plan
+   * @param {PlanCandidate[]} candidates - Sources to consider
+   * @returns {QueryPlan} Plans of the usable sources and rejections of the others
+   */
+  plan(request: PlanRequest, candidates: PlanCandidate[]): QueryPlan {
+    const plan: QueryPlan = { sources: [], rejected: [] };
+
+    for (const candidate of candidates) {
+      try {
+        plan.sources.push(this.planSource(request, candidate));
+      } catch (error) {
+        if (!(error instanceof UnsupportedCapabilityError)) {
+          throw error;
+        }
+        plan.rejected.push(error);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Plan a request for one source
+   *
+   * @param {PlanRequest} request - Request to plan
+   * @param {PlanCandidate} candidate - Source to plan for
+   * @returns {SourcePlan} Chunks to fetch
+   * @throws {UnsupportedCapabilityError} If the source cannot serve the request
+   */
+  planSource(request: PlanRequest, candidate: PlanCandidate): SourcePlan {
+    const { source } = candidate;
+    const { dataType } = request;
+    const capabilities = candidate.capabilities.dataTypes[dataType];
+
+    if (!capabilities) {
+      throw new UnsupportedCapabilityError(
+        `${source} does not support ${dataType}`,
+        source,
+        dataType,
+        { reason: 'dataType' }
+      );
+    }
+
+    if (
+      request.bucket !== undefined &&
+      this.isCoarser(capabilities.granularity, BUCKET_GRANULARITY[request.bucket])
+    ) {
+      throw new UnsupportedCapabilityError(
+        `${source} reports ${dataType} per ${capabilities.granularity}, ` +
+          `too coarse for ${request.bucket} buckets`,
+        source,
+        dataType,
+        { reason: 'granularity', granularity: capabilities.granularity, bucket: request.bucket }
+      );
+    }
+
+    let start = Date.parse(request.startDate);
+    const end = Date.parse(request.endDate);
+
+    if (capabilities.historicalLimit !== undefined) {
+      const earliest = this.clock.now() - capabilities.historicalLimit * 24 * 60 * 60 * 1000;
+
+      if (end < earliest) {
+        throw new UnsupportedCapabilityError(
+          `${source} keeps ${dataType} for ${capabilities.historicalLimit} days; ` +
+            `requested range ends ${request.endDate}`,
+          source,
+          dataType,
+          {
+            reason: 'historicalLimit',
+            historicalLimit: capabilities.historicalLimit,
+            earliest: new Date(earliest).toISOString(),
+          }
+        );
+      }
+
+      if (start < earliest) {
+        this.logger?.debug(
+          `[QueryPlanner] Clipping ${source} ${dataType} to its ` +
+            `${capabilities.historicalLimit}-day history`
+        );
+        start = earliest;
+      }
+    }
+
+    return {
+      source,
+      capabilities,
+      ranges: this.splitRange(start, end, capabilities, request.timezone),
+    };
+  }
+
+  /**
+   * Split a range into chunks no longer than a source accepts per request
+   *
+   * Split points of non-sample sources are moved back to the start of their
+   * period, so a summarized period never straddles two chunks.
+   *
+   * @param {number} start - Range start in epoch milliseconds
+   * @param {number} end - Inclusive range end in epoch milliseconds
+   * @param {DataTypeCapabilities} capabilities - Capabilities of the source
+   * @param {string} timezone - IANA time zone
+   * @returns {PlannedRange[]} Chunks
+   * @private
+   */
+  private splitRange(
+    start: number,
+    end: number,
+    capabilities: DataTypeCapabilities,
+    timezone: string
+  ): PlannedRange[] {
+    const maxRange = capabilities.maxRangePerRequest;
+
+    if (maxRange === undefined || maxRange <= 0 || end - start < maxRange) {
+      return [{ startDate: new Date(start).toISOString(), endDate: new Date(end).toISOString() }];
+    }
+
+    const ranges: PlannedRange[] = [];
+
+    for (let chunkStart = start; chunkStart <= end;) {
+      let next = chunkStart + maxRange;
+      const aligned = this.alignToPeriod(next, capabilities.granularity, timezone);
+      if (aligned > chunkStart) {
+        next = aligned;
+      }
+
+      ranges.push({
+        startDate: new Date(chunkStart).toISOString(),
+        endDate: new Date(Math.min(next - 1, end)).toISOString(),
+      });
+      chunkStart = next;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Move an instant back to the start of its period
+   *
+   * @param {number} instant - Epoch milliseconds
+   * @param {DataGranularity} granularity - Period size
+   * @param {string} timezone - IANA time zone
+   * @returns {number} Period start
+   * @private
+   */
+  private alignToPeriod(instant: number, granularity: DataGranularity, timezone: string): number {
+    switch (granularity) {
+      case 'sample':
+        return instant;
+      case 'minute':
+        return instant - (instant % 60000);
+      case 'hour':
+      case 'day':
+        return startOfPeriod(instant, granularity, timezone);
+    }
+  }
+
+  /**
+   * Check whether a granularity is coarser than another
+   *
+   * @param {DataGranularity} granularity - Granularity to check
+   * @param {DataGranularity} than - Reference granularity
+   * @returns {boolean} True if coarser
+   * @private
+   */
+  private isCoarser(granularity: DataGranularity, than: DataGranularity): boolean {
+    return GRANULARITY_ORDER.indexOf(granularity) > GRANULARITY_ORDER.indexOf(than);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Query Processor
+ *
+ * Applies the result-shaping parts of a `HealthDataQuery` — filters,
+ * sorting and pagination — to the merged, normalized results of all
+ * queried sources.
+ *
+ * @module query/query-processor
+ */
+
+import { DataQuality, UnifiedHealthData } from '../models/unified-data';
+import { HealthDataQuery, QueryFilters } from '../types/query';
+
+/**
+ * Result of processing a query
+ *
+ * @interface ProcessedQueryResult
+ */
+export interface ProcessedQueryResult<T extends UnifiedHealthData = UnifiedHealthData> {
+  /** Records of the requested page */
+  data: T[];
+
+  /** Records matching the filters before pagination */
+  totalCount: number;
+}
+
+/**
+ * Quality ranking (higher is better)
+ */
+const QUALITY_RANK: Record<DataQuality, number> = {
+  [DataQuality.UNKNOWN]: 0,
+  [DataQuality.LOW]: 1,
+  [DataQuality.MEDIUM]: 2,
+  [DataQuality.HIGH]: 3,
+};
+
+/**
+ * Query Processor
+ *
+ * @class QueryProcessor
+ */
+export class QueryProcessor {
+  /**
+   * Filter, sort and paginate merged query results
+   *
+   * Records are sorted by timestamp ascending unless `sortBy`/`sortOrder`
+   * say otherwise; `limit`/`offset` apply to the merged set.
+   *
+   * @param {T[]} data - Merged normalized records
+   * @param {HealthDataQuery} request - Query request
+   * @returns {ProcessedQueryResult<T>} Page of records and total count
+   */
+  process<T extends UnifiedHealthData>(
+    data: T[],
+    request: HealthDataQuery
+  ): ProcessedQueryResult<T> {
+    const filtered = request.filters ? this.filter(data, request.filters) : [...data];
+    const sorted = this.sort(filtered, request.sortBy ?? 'timestamp', request.sortOrder ?? 'asc');
+
+    return {
+      data: this.paginate(sorted, request.limit, request.offset),
+      totalCount: sorted.length,
+    };
+  }
+
+  /**
+   * Filter records
+   *
+   * `manufacturer` and `model` match case-insensitively; `custom` entries
+   * must equal the corresponding `metadata.custom` values.
+   *
+   * @param {T[]} data - Records to filter
+   * @param {QueryFilters} filters - Filters to apply
+   * @returns {T[]} Matching records
+   */
+  filter<T extends UnifiedHealthData>(data: T[], filters: QueryFilters): T[] {
+    const minRank = filters.minQuality !== undefined ? QUALITY_RANK[filters.minQuality] : 0;
+    const manufacturer = filters.manufacturer?.toLowerCase();
+    const model = filters.model?.toLowerCase();
+
+    return data.filter((record) => {
+      const { metadata } = record;
+
+      if (QUALITY_RANK[metadata.quality] < minRank) {
+        return false;
+      }
+
+      if (filters.manualOnly && !metadata.isManualEntry) {
+        return false;
+      }
+
+      if (filters.automaticOnly && metadata.isManualEntry) {
+        return false;
+      }
+
+      if (manufacturer !== undefined && metadata.manufacturer?.toLowerCase() !== manufacturer) {
+        return false;
+      }
+
+      if (model !== undefined && metadata.model?.toLowerCase() !== model) {
+        return false;
+      }
+
+      if (filters.custom) {
+        for (const [key, value] of Object.entries(filters.custom)) {
+          if (metadata.custom?.[key] !== value) {
+            return false;
+          }
+        }
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Sort records
+   *
+   * Ties are broken by timestamp, then by original order.
+   *
+   * @param {T[]} data - Records to sort
+   * @param {'timestamp' | 'source' | 'quality'} sortBy - Sort field
+   * @param {'asc' | 'desc'} sortOrder - Sort direction
+   * @returns {T[]} Sorted copy of the records
+   */
+  sort<T extends UnifiedHealthData>(
+    data: T[],
+    sortBy: 'timestamp' | 'source' | 'quality',
+    sortOrder: 'asc' | 'desc'
+  ): T[] {
+    const direction = sortOrder === 'desc' ? -1 : 1;
+
+    return [...data].sort((a, b) => {
+      let result = 0;
+
+      switch (sortBy) {
+        case 'source':
+          result = a.source.localeCompare(b.source);
+          break;
+        case 'quality':
+          result = QUALITY_RANK[a.metadata.quality] - QUALITY_RANK[b.metadata.quality];
+          break;
+        case 'timestamp':
+          break;
+      }
+
+      if (result === 0) {
+        result = Date.parse(a.timestamp) - Date.parse(b.timestamp);
+      }
+
+      return result * direction;
+    });
+  }
+
+  /**
+   * Apply offset and limit
+   *
+   * @param {T[]} data - Records to paginate
+   * @param {number} [limit] - Maximum number of records
+   * @param {number} [offset] - Number of records to skip
+   * @returns {T[]} Page of records
+   */
+  paginate<T>(data: T[], limit?: number, offset?: number): T[] {
+    const start = Math.max(0, offset ?? 0);
+    const end = limit !== undefined ? start + Math.max(0, limit) : undefined;
+
+    return data.slice(start, end);
+  }
+}
@@ -7,38 +7,101 @@
  * @module sdk
  */
 
-import { HealthSource, UnifiedHealthData } from './models/unified-data';
+import { DataType, HealthSource, UnifiedHealthData } from './models/unified-data';
 import {
   IHealthDataPlugin,
   PluginInfo,
+  PluginConfig,
   ConnectionResult,
   ConnectionStatus,
   DataQuery as PluginDataQuery,
+  Subscription,
+  AggregateDataQuery,
+  AggregateDataPoint,
+  PluginCapabilities,
+  RawHealthData,
+  getDefaultCapabilities,
 } from './plugins/plugin-interface';
-import { PluginRegistry } from './plugins/plugin-registry';
+import {
+  PluginRegistry,
+  PluginRegistryConfig,
+  HealthReport,
+  getPluginKey,
+} from './plugins/plugin-registry';
+import { CompatibilityReport } from './plugins/plugin-compatibility';
+import { PluginLoader, PluginManifest, getManifestKey } from './plugins/plugin-loader';
+import { mergePluginConfig, validatePluginConfig } from './plugins/plugin-config';
+import { CircuitState } from './plugins/circuit-breaker';
+import { RetryExecutor, RetryExecutorConfig } from './plugins/retry-executor';
+import {
+  MiddlewareContext,
+  MiddlewareOperation,
+  MiddlewarePipeline,
+  PluginMiddleware,
+} from './plugins/plugin-middleware';
 import {
   SDKConfig,
+  ConnectOptions,
   SyncOptions,
+  SyncProgress,
   SyncResult,
   SourceSyncResult,
   DataTypeSyncResult,
   DEFAULT_SDK_CONFIG,
   DEFAULT_SYNC_OPTIONS,
   ConnectionError,
+  PluginError,
   SyncError,
+  SyncCancelledError,
+  ConfigurationError,
+  ValidationError,
+  OperationDeferredError,
+  CircuitOpenError,
   LogLevel,
   Logger,
+  CacheLayer,
+  EvictionPolicy,
 } from './types/config';
 import {
   HealthDataQuery,
   HealthDataResponse,
+  AggregateQuery,
+  AggregateResponse,
+  AggregateBucket,
   DataUpdateCallback,
   SDKEvent,
   SDKEventData,
 } from './types/query';
 import { EventEmitter, EventSubscription } from './utils/event-emitter';
+import { systemClock } from './utils/clock';
 import { DataNormalizer } from './normalizer/data-normalizer';
 import { CacheManager, CacheManagerConfig } from './cache/cache-manager';
+import { RangeLookup, SeriesKey, TimeRange, clipRanges } from './cache/range-cache';
+import { LocalDBCacheProvider } from './cache/local-db-cache';
+import { CloudCacheConfig, CloudCacheProvider } from './cache/cloud-cache';
+import { QueryProcessor } from './query/query-processor';
+import { ConflictResolver } from './query/conflict-resolver';
+import { Aggregator, BucketRange } from './query/aggregator';
+import { PlanCandidate, PlannedRange, QueryPlanner } from './query/query-planner';
+import { isValidTimeZone, resolveRangeBoundary } from './utils/timezone';
+import {
+  SyncStateManager,
+  SyncStateManagerConfig,
+  SyncWindowOptions,
+  SyncDelta,
+} from './sync/sync-state-manager';
+import { SyncCursor } from './sync/sync-state-store';
+import { SyncScheduler, SyncSchedulerJob } from './sync/sync-scheduler';
+import { SyncProgressTracker, SyncTarget } from './sync/sync-progress';
+import { AutoSyncEngine, AutoSyncConfig, AutoSyncState } from './sync/auto-sync';
+import {
+  OfflineQueue,
+  OfflineQueueConfig,
+  QueueDrainOptions,
+  QueueDrainResult,
+  QueuedJobInput,
+} from './sync/offline-queue';
+import { QueuedJob, QueuedJobKind } from './sync/offline-queue-store';
 
 /**
  * SDK Events type map
@@ -51,11 +114,26 @@ type SDKEvents = {
   [SDKEvent.DISCONNECTED]: SDKEventData;
   [SDKEvent.DATA_UPDATE]: SDKEventData;
   [SDKEvent.SYNC_STARTED]: SDKEventData;
+  [SDKEvent.SYNC_PROGRESS]: SDKEventData;
   [SDKEvent.SYNC_COMPLETED]: SDKEventData;
   [SDKEvent.SYNC_FAILED]: SDKEventData;
   [SDKEvent.ERROR]: SDKEventData;
 };
 
+/**
+ * Outcome of syncing one source × data type
+ */
+interface DataTypeSyncOutcome {
+  /** Per data type result */
+  result: DataTypeSyncResult;
+
+  /** New/updated record counts (successful syncs only) */
+  delta?: SyncDelta;
+
+  /** Error (failed syncs only) */
+  error?: SyncError;
+}
+
 /**
  * Default console logger
  */
@@ -89,6 +167,12 @@ export class HealthSyncSDK {
   /** Plugin registry */
   private pluginRegistry: PluginRegistry;
 
+  /** Manifests of plugins loaded on first use */
+  private pluginLoader: PluginLoader;
+
+  /** Per-plugin configuration by plugin ID or key, including reconfigurations */
+  private pluginConfigs: Record<string, PluginConfig>;
+
   /** Event emitter */
   private eventEmitter: EventEmitter<SDKEvents>;
 
@@ -101,11 +185,50 @@ export class HealthSyncSDK {
   /** Cache manager */
   private cacheManager: CacheManager;
 
-  /** Singleton instance */
+  /** Filters, sorts and paginates merged query results */
+  private queryProcessor: QueryProcessor;
+
+  /** Deduplicates records reported by several sources */
+  private conflictResolver: ConflictResolver;
+
+  /** Folds records into time buckets */
+  private aggregator: Aggregator;
+
+  /** Plans fetches from plugin capabilities */
+  private queryPlanner: QueryPlanner;
+
+  /** Runs plugin calls under the retry policy */
+  private retryExecutor: RetryExecutor;
+
+  /** Hooks run around plugin calls */
+  private middleware: MiddlewarePipeline;
+
+  /** Incremental sync state */
+  private syncState: SyncStateManager;
+
+  /** Sync job scheduler */
+  private scheduler: SyncScheduler;
+
+  /** Deferred fetch and sync jobs awaiting replay */
+  private offlineQueue: OfflineQueue;
+
+  /** Counter for sync job groups */
+  private syncCounter = 0;
+
+  /** Background sync engine (null when auto-sync is disabled) */
+  private autoSync: AutoSyncEngine | null = null;
+
+  /** User's IANA time zone for calendar boundaries */
+  private timezone: string;
+
+  /** Real-time update subscriptions by plugin ID */
+  private updateSubscriptions: Map<string, Subscription> = new Map();
+
+  /** Shared instance managed by `initialize()` */
   private static instance: HealthSyncSDK | null = null;
 
   /**
-   * Private constructor (use static initialize method)
+   * Private constructor (use static create or initialize method)
    *
    * @param {SDKConfig} config - SDK configuration
    * @private
@@ -116,10 +239,32 @@ export class HealthSyncSDK {
       ...config,
       cache: { ...DEFAULT_SDK_CONFIG.cache, ...config.cache },
       retry: { ...DEFAULT_SDK_CONFIG.retry, ...config.retry },
+      circuitBreaker: { ...DEFAULT_SDK_CONFIG.circuitBreaker, ...config.circuitBreaker },
+      conflictResolution: {
+        ...DEFAULT_SDK_CONFIG.conflictResolution,
+        ...config.conflictResolution,
+      },
     };
 
+    this.timezone = this.config.timezone ?? DEFAULT_SDK_CONFIG.timezone;
+    if (!isValidTimeZone(this.timezone)) {
+      throw new ConfigurationError(`Unknown time zone: ${this.timezone}`, {
+        timezone: this.timezone,
+      });
+    }
+
     this.logger = config.logger ?? defaultLogger;
-    this.pluginRegistry = new PluginRegistry();
+    const registryConfig: PluginRegistryConfig = {};
+    if (this.config.circuitBreaker !== undefined) {
+      registryConfig.circuitBreaker = this.config.circuitBreaker;
+    }
+    if (this.config.clock !== undefined) {
+      registryConfig.clock = this.config.clock;
+    }
+
+    this.pluginRegistry = new PluginRegistry(registryConfig);
+    this.pluginLoader = new PluginLoader();
+    this.pluginConfigs = { ...this.config.pluginConfig };
     this.eventEmitter = new EventEmitter<SDKEvents>();
     this.normalizer = new DataNormalizer({
       validate: true,
@@ -141,40 +286,145 @@ export class HealthSyncSDK {
     }
 
     if (this.config.cache?.maxSize !== undefined) {
-      // Convert MB to approximate entry count (assuming ~1KB per entry)
-      cacheManagerConfig.maxMemoryEntries = this.config.cache.maxSize * 1024;
+      // Bound the memory cache by size only
+      cacheManagerConfig.maxMemoryBytes = this.config.cache.maxSize * 1024 * 1024;
+      cacheManagerConfig.maxMemoryEntries = Infinity;
+    }
+
+    cacheManagerConfig.evictionPolicy =
+      this.config.cache?.evictionPolicy ??
+      (this.config.cache?.useLRU === false ? EvictionPolicy.TTL_FIRST : EvictionPolicy.LRU);
+
+    // Persist entries in the LOCAL_DB layer when storage is provided
+    const layers = this.config.cache?.layers ?? [];
+    if (layers.includes(CacheLayer.LOCAL_DB) || layers.includes(CacheLayer.ALL)) {
+      if (this.config.cache?.storage) {
+        cacheManagerConfig.externalProvider = new LocalDBCacheProvider(this.config.cache.storage);
+      } else {
+        this.log(LogLevel.DEBUG, 'No cache.storage configured; LOCAL_DB cache layer disabled');
+      }
+    }
+
+    // Share entries through the CLOUD layer when an endpoint is provided
+    if (layers.includes(CacheLayer.CLOUD) || layers.includes(CacheLayer.ALL)) {
+      if (this.config.cache?.cloudEndpoint !== undefined) {
+        cacheManagerConfig.externalProviders = [
+          this.createCloudCache(this.config.cache.cloudEndpoint),
+        ];
+      } else {
+        this.log(LogLevel.DEBUG, 'No cache.cloudEndpoint configured; CLOUD cache layer disabled');
+      }
     }
 
     this.cacheManager = new CacheManager(cacheManagerConfig);
+    this.queryProcessor = new QueryProcessor();
+    this.aggregator = new Aggregator();
+    this.queryPlanner = new QueryPlanner(
+      this.config.clock !== undefined
+        ? { clock: this.config.clock, logger: this.logger }
+        : { logger: this.logger }
+    );
+    this.conflictResolver = new ConflictResolver({
+      ...this.config.conflictResolution,
+      logger: this.logger,
+    });
+
+    const retryConfig: RetryExecutorConfig = {
+      ...this.config.retry,
+      logger: this.logger,
+    };
+
+    if (this.config.clock !== undefined) {
+      retryConfig.clock = this.config.clock;
+    }
+
+    this.retryExecutor = new RetryExecutor(retryConfig);
+    this.middleware = new MiddlewarePipeline(config.middleware, this.logger);
+
+    const syncStateConfig: SyncStateManagerConfig = {
+      timezone: this.timezone,
+      logger: this.logger,
+    };
+
+    if (this.config.maxDataAge !== undefined && this.config.maxDataAge > 0) {
+      syncStateConfig.initialWindow = this.config.maxDataAge * 24 * 60 * 60 * 1000;
+    }
+    if (this.config.syncLookback !== undefined) {
+      syncStateConfig.lookback = this.config.syncLookback;
+    }
+    if (this.config.clock !== undefined) {
+      syncStateConfig.clock = this.config.clock;
+    }
+
+    if (config.syncStateStore !== undefined) {
+      syncStateConfig.store = config.syncStateStore;
+    }
+
+    this.syncState = new SyncStateManager(syncStateConfig);
+    this.scheduler = new SyncScheduler({
+      sourceLimit: (source): number => this.getSourceConcurrency(source),
+    });
+
+    const offlineQueueConfig: OfflineQueueConfig = {
+      runJob: (job): Promise<void> => this.replayJob(job),
+      logger: this.logger,
+    };
+
+    if (config.offlineQueueStore !== undefined) {
+      offlineQueueConfig.store = config.offlineQueueStore;
+    }
+    if (this.config.clock !== undefined) {
+      offlineQueueConfig.clock = this.config.clock;
+    }
+
+    this.offlineQueue = new OfflineQueue(offlineQueueConfig);
   }
 
   /**
-   * Initialize the SDK
+   * Create an SDK instance
    *
-   * Creates a singleton instance of the SDK with the provided configuration.
-   * If an instance already exists, it will be disposed and a new one created.
+   * Each instance has its own plugin registry, cache, sync state and event
+   * emitter, so several instances (e.g. one per user) can run side by side.
+   * The instance is not registered as the shared instance.
    *
-   * @param {SDKConfig} config - SDK configuration
+   * @param {SDKConfig} [config] - SDK configuration
+   * @returns {Promise<HealthSyncSDK>} Initialized SDK instance
+   * @throws {ConfigurationError} If configuration is invalid
+   */
+  static async create(config: SDKConfig = {}): Promise<HealthSyncSDK> {
+    const sdk = new HealthSyncSDK(config);
+    await sdk.init();
+    return sdk;
+  }
+
+  /**
+   * Initialize the shared SDK instance
+   *
+   * Convenience for apps that use a single SDK: creates an instance and
+   * makes it available through `getInstance()`. If a shared instance
+   * already exists, it will be disposed and a new one created. Instances
+   * from `create()` are not affected.
+   *
+   * @param {SDKConfig} [config] - SDK configuration
    * @returns {Promise<HealthSyncSDK>} Initialized SDK instance
    * @throws {ConfigurationError} If configuration is invalid
    */
-  static async initialize(config: SDKConfig): Promise<HealthSyncSDK> {
+  static async initialize(config: SDKConfig = {}): Promise<HealthSyncSDK> {
     // Dispose existing instance if present
     if (HealthSyncSDK.instance) {
       await HealthSyncSDK.instance.dispose();
     }
 
-    const sdk = new HealthSyncSDK(config);
-    await sdk.init();
+    const sdk = await HealthSyncSDK.create(config);
 
     HealthSyncSDK.instance = sdk;
     return sdk;
   }
 
   /**
-   * Get the current SDK instance
+   * Get the shared SDK instance
    *
-   * @returns {HealthSyncSDK | null} SDK instance or null if not initialized
+   * @returns {HealthSyncSDK | null} SDK instance or null if `initialize()` was not called
    */
   static getInstance(): HealthSyncSDK | null {
     return HealthSyncSDK.instance;
@@ -196,6 +446,13 @@ export class HealthSyncSDK {
       }
     }
 
+    for (const manifest of this.config.pluginManifests ?? []) {
+      this.registerPluginManifest(manifest);
+    }
+
+    // Pick up jobs deferred by a previous session
+    await this.offlineQueue.start();
+
     this.log(LogLevel.INFO, 'HealthSync SDK initialized successfully');
 
     // Emit initialized event
@@ -204,6 +461,65 @@ export class HealthSyncSDK {
       timestamp: new Date().toISOString(),
       data: { pluginCount: this.pluginRegistry.count() },
     });
+
+    this.startAutoSync();
+  }
+
+  /**
+   * Start the background sync engine if enabled by configuration
+   *
+   * `autoSync` runs a first sync immediately; `syncInterval` repeats it.
+   *
+   * @private
+   */
+  private startAutoSync(): void {
+    const interval = this.config.syncInterval ?? 0;
+
+    if (!this.config.autoSync && interval <= 0) {
+      return;
+    }
+
+    const autoSyncConfig: AutoSyncConfig = {
+      interval: Math.max(0, interval),
+      runOnStart: this.config.autoSync ?? false,
+      runSync: (skipSources): Promise<SyncResult> =>
+        this.sync({
+          sources: this.getActiveSources().filter((source) => !skipSources.includes(source)),
+          background: true,
+        }),
+      logger: this.logger,
+    };
+
+    if (this.config.clock !== undefined) {
+      autoSyncConfig.clock = this.config.clock;
+    }
+
+    this.autoSync = new AutoSyncEngine(autoSyncConfig);
+    this.autoSync.start();
+  }
+
+  /**
+   * Create the provider of the CLOUD cache layer
+   *
+   * @param {string} endpoint - Cloud cache endpoint
+   * @returns {CloudCacheProvider} Cloud cache provider
+   * @private
+   */
+  private createCloudCache(endpoint: string): CloudCacheProvider {
+    const cache = this.config.cache ?? {};
+    const cloudConfig: CloudCacheConfig = { endpoint, logger: this.logger };
+
+    if (cache.cloudAuth !== undefined) {
+      cloudConfig.auth = cache.cloudAuth;
+    }
+    if (cache.cloudFetch !== undefined) {
+      cloudConfig.fetch = cache.cloudFetch;
+    }
+    if (this.config.clock !== undefined) {
+      cloudConfig.clock = this.config.clock;
+    }
+
+    return new CloudCacheProvider(cloudConfig);
   }
 
   // ============================================================================
@@ -216,6 +532,7 @@ export class HealthSyncSDK {
    * @param {IHealthDataPlugin} plugin - Plugin to register
    * @returns {void}
    * @throws {PluginError} If plugin is invalid or already registered
+   * @throws {PluginCompatibilityError} If the plugin's version requirements are not met
    */
   registerPlugin(plugin: IHealthDataPlugin): void {
     this.log(LogLevel.INFO, `Registering plugin: ${plugin.name} (${plugin.id})`);
@@ -232,17 +549,44 @@ export class HealthSyncSDK {
     });
   }
 
+  /**
+   * Register a plugin manifest
+   *
+   * The plugin's module is only loaded, registered and initialized on the
+   * first `connect()` or query of its source (and account); until then it
+   * is listed by `getAvailablePlugins()` with `loaded: false`.
+   *
+   * @param {PluginManifest} manifest - Plugin manifest
+   * @returns {void}
+   * @throws {PluginError} If a plugin or manifest with the same key is already registered
+   * @throws {ConfigurationError} If the manifest's source is unknown
+   */
+  registerPluginManifest(manifest: PluginManifest): void {
+    const key = getManifestKey(manifest);
+    this.log(LogLevel.INFO, `Registering plugin manifest: ${manifest.name} (${key})`);
+
+    if (this.pluginRegistry.getPlugin(key)) {
+      throw new PluginError(`Plugin with ID '${key}' is already registered`, manifest.id, 400);
+    }
+
+    this.pluginLoader.register(manifest);
+  }
+
   /**
    * Unregister a plugin
    *
-   * @param {string} pluginId - ID of the plugin to unregister
+   * Also removes manifests of plugins that were not loaded yet.
+   *
+   * @param {string} pluginId - ID of the plugin to unregister (`id:instanceKey` for keyed instances)
    * @returns {Promise<void>}
    * @throws {PluginError} If plugin is not found
    */
   async unregisterPlugin(pluginId: string): Promise<void> {
     this.log(LogLevel.INFO, `Unregistering plugin: ${pluginId}`);
 
-    await this.pluginRegistry.unregister(pluginId);
+    if (!this.pluginLoader.unregister(pluginId) || this.pluginRegistry.getPlugin(pluginId)) {
+      await this.pluginRegistry.unregister(pluginId);
+    }
 
     // Emit plugin removed event
     await this.emitEvent(SDKEvent.PLUGIN_REMOVED, {
@@ -255,10 +599,100 @@ export class HealthSyncSDK {
   /**
    * Get available plugins
    *
+   * Lists registered plugins followed by manifests of plugins not loaded
+   * yet (without loading them).
+   *
    * @returns {Promise<PluginInfo[]>} Array of plugin information
    */
   async getAvailablePlugins(): Promise<PluginInfo[]> {
-    return this.pluginRegistry.getPluginInfo();
+    return [...(await this.pluginRegistry.getPluginInfo()), ...this.pluginLoader.getPluginInfo()];
+  }
+
+  /**
+   * Change the configuration of a plugin
+   *
+   * The patch is merged into the plugin's `SDKConfig.pluginConfig` entry
+   * (values cannot be removed, only overridden). Initialized plugins get
+   * the validated result through `reconfigure()`, or are disconnected and
+   * initialized again if they do not implement it (connected sources must
+   * then be reconnected); others receive it when initialized.
+   *
+   * @param {string} pluginId - Plugin ID (all instances), or `id:instanceKey` for one instance
+   * @param {PluginConfig} patch - Configuration to merge
+   * @returns {Promise<void>}
+   * @throws {PluginError} If no plugin or manifest has the ID
+   * @throws {ConfigurationError} If the result does not match a plugin's schema
+   */
+  async reconfigurePlugin(pluginId: string, patch: PluginConfig): Promise<void> {
+    const plugins = this.pluginRegistry
+      .getAllPlugins()
+      .filter((plugin) => plugin.id === pluginId || getPluginKey(plugin) === pluginId);
+    const pending = this.pluginLoader
+      .getManifests()
+      .some((manifest) => manifest.id === pluginId || getManifestKey(manifest) === pluginId);
+
+    if (plugins.length === 0 && !pending) {
+      throw new PluginError(`Plugin '${pluginId}' not found`, pluginId, 404);
+    }
+
+    this.log(LogLevel.INFO, `Reconfiguring plugin: ${pluginId}`);
+
+    const previous = this.pluginConfigs[pluginId];
+    this.pluginConfigs[pluginId] = mergePluginConfig(previous, patch);
+
+    // Validate every affected plugin before applying to any
+    let configs: [IHealthDataPlugin, PluginConfig][];
+    try {
+      configs = plugins.map((plugin) => [plugin, this.resolvePluginConfig(plugin)]);
+    } catch (error) {
+      if (previous !== undefined) {
+        this.pluginConfigs[pluginId] = previous;
+      } else {
+        delete this.pluginConfigs[pluginId];
+      }
+      throw error;
+    }
+
+    for (const [plugin, config] of configs) {
+      if (!this.pluginRegistry.isInitialized(getPluginKey(plugin))) {
+        continue;
+      }
+
+      if (plugin.reconfigure) {
+        await plugin.reconfigure(config);
+        continue;
+      }
+
+      // Initializing again may drop the plugin's session; require a reconnect
+      const pluginKey = getPluginKey(plugin);
+      const source = this.pluginRegistry.getPluginSource(pluginKey);
+      if (
+        source !== undefined &&
+        this.pluginRegistry.getConnectionStatus(pluginKey) === ConnectionStatus.CONNECTED
+      ) {
+        const options: ConnectOptions = {};
+        if (plugin.instanceKey !== undefined) {
+          options.accountId = plugin.instanceKey;
+        }
+
+        await this.disconnect(source, options);
+      }
+
+      await plugin.initialize(config);
+    }
+  }
+
+  /**
+   * Add middleware run around every plugin call
+   *
+   * Middleware applies to all registered plugins, in the order it was
+   * added (after any passed as `SDKConfig.middleware`).
+   *
+   * @param {PluginMiddleware} middleware - Middleware to add
+   * @returns {() => void} Function removing the middleware again
+   */
+  use(middleware: PluginMiddleware): () => void {
+    return this.middleware.use(middleware);
   }
 
   /**
@@ -277,63 +711,70 @@ export class HealthSyncSDK {
   /**
    * Connect to a health data source
    *
+   * Sources with several accounts (one plugin per account, registered with
+   * the account ID as `instanceKey`) are connected one account at a time.
+   *
    * @param {HealthSource} source - Health source to connect to
+   * @param {ConnectOptions} [options] - Connect options
    * @returns {Promise<ConnectionResult>} Connection result
    * @throws {ConnectionError} If connection fails
+   * @throws {PluginError} If the source's plugin manifest fails to load
    */
-  async connect(source: HealthSource): Promise<ConnectionResult> {
-    this.log(LogLevel.INFO, `Connecting to ${source}...`);
+  async connect(source: HealthSource, options?: ConnectOptions): Promise<ConnectionResult> {
+    const accountId = options?.accountId;
+    const target = this.describeTarget(source, accountId);
+    this.log(LogLevel.INFO, `Connecting to ${target}...`);
 
-    const plugin = this.pluginRegistry.getPluginBySource(source);
-    if (!plugin) {
-      throw new ConnectionError(
-        `No plugin registered for source: ${source}`,
-        source,
-        404
-      );
-    }
+    await this.loadPlugin(source, accountId);
+    const plugin = this.requirePlugin(source, accountId);
+    const context = this.createMiddlewareContext('connect', plugin, source);
 
     try {
-      // Initialize plugin if not already initialized
-      if (!this.pluginRegistry.isInitialized(plugin.id)) {
-        this.log(LogLevel.DEBUG, `Initializing plugin ${plugin.id}...`);
-        await plugin.initialize({});
-        this.pluginRegistry.markInitialized(plugin.id);
-      }
+      await this.initializePlugin(plugin);
 
       // Update status to connecting
-      this.pluginRegistry.updateConnectionStatus(plugin.id, ConnectionStatus.CONNECTING);
+      this.pluginRegistry.updateConnectionStatus(getPluginKey(plugin), ConnectionStatus.CONNECTING);
 
-      // Attempt connection
-      const result = await plugin.connect();
+      // Attempt connection (unless middleware answers in the plugin's place)
+      const result = (await this.middleware.beforeConnect(context)) ?? (await plugin.connect());
 
       // Update status based on result
       const newStatus = result.success ? ConnectionStatus.CONNECTED : ConnectionStatus.ERROR;
-      this.pluginRegistry.updateConnectionStatus(plugin.id, newStatus);
+      this.pluginRegistry.updateConnectionStatus(getPluginKey(plugin), newStatus);
 
       if (result.success) {
-        this.log(LogLevel.INFO, `Successfully connected to ${source}`);
+        this.log(LogLevel.INFO, `Successfully connected to ${target}`);
 
         // Emit connected event
         await this.emitEvent(SDKEvent.CONNECTED, {
           event: SDKEvent.CONNECTED,
           timestamp: new Date().toISOString(),
-          data: { source, pluginId: plugin.id, result },
+          data: { source, accountId, pluginId: plugin.id, result },
         });
+
+        if (
+          this.config.enableRealtimeUpdates &&
+          this.getPluginCapabilities(plugin).realtimeUpdates
+        ) {
+          await this.subscribeToPluginUpdates(plugin, source);
+        }
+
+        this.replayDeferredJobs(source);
       } else {
-        this.log(LogLevel.WARN, `Failed to connect to ${source}: ${result.message}`);
+        this.log(LogLevel.WARN, `Failed to connect to ${target}: ${result.message}`);
       }
 
       return result;
     } catch (error) {
-      this.pluginRegistry.updateConnectionStatus(plugin.id, ConnectionStatus.ERROR);
-      this.log(LogLevel.ERROR, `Error connecting to ${source}`, error as Error);
+      const reported = await this.middleware.onError(error as Error, context);
+      this.pluginRegistry.updateConnectionStatus(getPluginKey(plugin), ConnectionStatus.ERROR);
+      this.log(LogLevel.ERROR, `Error connecting to ${target}`, reported);
 
       throw new ConnectionError(
-        `Failed to connect to ${source}: ${(error as Error).message}`,
+        `Failed to connect to ${target}: ${reported.message}`,
         source,
         500,
-        { originalError: error }
+        { originalError: reported }
       );
     }
   }
@@ -342,41 +783,39 @@ export class HealthSyncSDK {
    * Disconnect from a health data source
    *
    * @param {HealthSource} source - Health source to disconnect from
+   * @param {ConnectOptions} [options] - Disconnect options (account to disconnect)
    * @returns {Promise<void>}
    * @throws {ConnectionError} If disconnection fails
    */
-  async disconnect(source: HealthSource): Promise<void> {
-    this.log(LogLevel.INFO, `Disconnecting from ${source}...`);
+  async disconnect(source: HealthSource, options?: ConnectOptions): Promise<void> {
+    const accountId = options?.accountId;
+    const target = this.describeTarget(source, accountId);
+    this.log(LogLevel.INFO, `Disconnecting from ${target}...`);
 
-    const plugin = this.pluginRegistry.getPluginBySource(source);
-    if (!plugin) {
-      throw new ConnectionError(
-        `No plugin registered for source: ${source}`,
-        source,
-        404
-      );
-    }
+    const plugin = this.requirePlugin(source, accountId);
+    const pluginKey = getPluginKey(plugin);
 
     try {
-      this.pluginRegistry.updateConnectionStatus(plugin.id, ConnectionStatus.DISCONNECTING);
+      this.pluginRegistry.updateConnectionStatus(pluginKey, ConnectionStatus.DISCONNECTING);
 
+      await this.unsubscribeFromPluginUpdates(pluginKey);
       await plugin.disconnect();
 
-      this.pluginRegistry.updateConnectionStatus(plugin.id, ConnectionStatus.DISCONNECTED);
+      this.pluginRegistry.updateConnectionStatus(pluginKey, ConnectionStatus.DISCONNECTED);
 
-      this.log(LogLevel.INFO, `Successfully disconnected from ${source}`);
+      this.log(LogLevel.INFO, `Successfully disconnected from ${target}`);
 
       // Emit disconnected event
       await this.emitEvent(SDKEvent.DISCONNECTED, {
         event: SDKEvent.DISCONNECTED,
         timestamp: new Date().toISOString(),
-        data: { source, pluginId: plugin.id },
+        data: { source, accountId, pluginId: plugin.id },
       });
     } catch (error) {
-      this.log(LogLevel.ERROR, `Error disconnecting from ${source}`, error as Error);
+      this.log(LogLevel.ERROR, `Error disconnecting from ${target}`, error as Error);
 
       throw new ConnectionError(
-        `Failed to disconnect from ${source}: ${(error as Error).message}`,
+        `Failed to disconnect from ${target}: ${(error as Error).message}`,
         source,
         500,
         { originalError: error }
@@ -388,15 +827,105 @@ export class HealthSyncSDK {
    * Get connection status for a health source
    *
    * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source (default: primary plugin)
    * @returns {ConnectionStatus} Connection status
    */
-  getConnectionStatus(source: HealthSource): ConnectionStatus {
-    const plugin = this.pluginRegistry.getPluginBySource(source);
+  getConnectionStatus(source: HealthSource, accountId?: string): ConnectionStatus {
+    const plugin = this.pluginRegistry.getPluginBySource(source, accountId);
     if (!plugin) {
       return ConnectionStatus.DISCONNECTED;
     }
 
-    return this.pluginRegistry.getConnectionStatus(plugin.id);
+    return this.pluginRegistry.getConnectionStatus(getPluginKey(plugin));
+  }
+
+  /**
+   * Get the capabilities of a health source
+   *
+   * Plugins that do not declare capabilities are described from their
+   * supported data types; plugins not loaded yet by their manifest's.
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source (default: primary plugin)
+   * @returns {PluginCapabilities | null} Capabilities, or null if unknown
+   */
+  getCapabilities(source: HealthSource, accountId?: string): PluginCapabilities | null {
+    const plugin = this.pluginRegistry.getPluginBySource(source, accountId);
+    if (plugin) {
+      return this.getPluginCapabilities(plugin);
+    }
+
+    return this.pluginLoader.find(source, accountId)?.capabilities ?? null;
+  }
+
+  /**
+   * Get the accounts registered for a health source
+   *
+   * Includes accounts whose plugin manifest is not loaded yet.
+   *
+   * @param {HealthSource} source - Health source
+   * @returns {string[]} Account IDs (instance keys) in registration order
+   */
+  getAccounts(source: HealthSource): string[] {
+    const manifests = this.pluginLoader
+      .getManifests()
+      .filter((manifest) => manifest.source === source);
+
+    return [...this.pluginRegistry.getPluginsBySource(source), ...manifests].flatMap((plugin) =>
+      plugin.instanceKey !== undefined ? [plugin.instanceKey] : []
+    );
+  }
+
+  /**
+   * Get the health of all registered plugins
+   *
+   * Reports each plugin's connection status, circuit breaker state, last
+   * successful call, last error and, for plugins that support it, the
+   * current rate limit status.
+   *
+   * @returns {Promise<HealthReport>} Health report
+   */
+  async getHealthReport(): Promise<HealthReport> {
+    const plugins = await Promise.all(
+      this.pluginRegistry.getAllPlugins().map(async (plugin) => {
+        const health = this.pluginRegistry.getHealth(getPluginKey(plugin));
+
+        if (plugin.getRateLimitStatus) {
+          try {
+            health.rateLimit = await plugin.getRateLimitStatus();
+          } catch (error) {
+            this.log(
+              LogLevel.WARN,
+              `Failed to get rate limit status of ${plugin.id}`,
+              error as Error
+            );
+          }
+        }
+
+        return health;
+      })
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      healthy: plugins.every(
+        (health) =>
+          health.circuit.state === CircuitState.CLOSED &&
+          health.connectionStatus !== ConnectionStatus.ERROR
+      ),
+      plugins,
+    };
+  }
+
+  /**
+   * Get the compatibility of all registered plugins
+   *
+   * Lists each plugin's unmet core and peer version requirements.
+   *
+   * @returns {CompatibilityReport} Compatibility report
+   */
+  getCompatibilityReport(): CompatibilityReport {
+    return this.pluginRegistry.getCompatibilityReport();
   }
 
   // ============================================================================
@@ -406,137 +935,328 @@ export class HealthSyncSDK {
   /**
    * Query health data
    *
+   * Each source's records for the requested range are read from cache where
+   * covered and fetched for the remaining gaps (`metadata.cacheHitRatio`
+   * reports the cached share); filters, sorting and `limit`/`offset` are then
+   * applied to the merged results. `forceFresh` skips cached data and refreshes the cache,
+   * `includeCache: false` bypasses the cache entirely. Records reported by
+   * more than one source are deduplicated first (see `conflictResolution`).
+   * Date-only boundaries (`YYYY-MM-DD`) cover whole days in the query's time
+   * zone. Without `accountId`, every connected account of each source is
+   * queried.
+   *
    * @param {HealthDataQuery} request - Query request
    * @returns {Promise<HealthDataResponse>} Query response with data
+   * @throws {ValidationError} If the range or time zone is invalid
+   * @throws {UnsupportedCapabilityError} If no requested source can serve the request
    * @throws {DataFetchError} If query fails
    */
   async query(request: HealthDataQuery): Promise<HealthDataResponse> {
+    return this.runQuery(request, 'fetch');
+  }
+
+  /**
+   * Run a query
+   *
+   * Each source's fetch is planned from its plugin's capabilities: long
+   * ranges are fetched in chunks and sources that cannot serve the request
+   * are skipped (or rejected, when requested explicitly). Fetches a plugin
+   * defers (`ErrorAction.QUEUE`) are added to the offline queue as jobs of
+   * the given kind, unless the query is itself a replay.
+   *
+   * @param {HealthDataQuery} request - Query request
+   * @param {QueuedJobKind | null} deferAs - Kind of job to queue deferred fetches as (null = none)
+   * @param {boolean} [allAccounts=true] - Query every connected account of a source when
+   *   `request.accountId` is omitted (false = only the primary plugin)
+   * @returns {Promise<HealthDataResponse>} Query response with data
+   * @throws {ValidationError} If the range or time zone is invalid
+   * @throws {UnsupportedCapabilityError} If no requested source can serve the request
+   * @private
+   */
+  private async runQuery(
+    request: HealthDataQuery,
+    deferAs: QueuedJobKind | null,
+    allAccounts = true
+  ): Promise<HealthDataResponse> {
     const startTime = Date.now();
-    this.log(LogLevel.INFO, `Querying ${request.dataType} from ${request.startDate} to ${request.endDate}`);
+    const timezone = request.timezone ?? this.timezone;
+
+    if (!isValidTimeZone(timezone)) {
+      throw new ValidationError(`Unknown time zone: ${timezone}`, ['timezone']);
+    }
+
+    const startDate = resolveRangeBoundary(request.startDate, 'start', timezone);
+    const endDate = resolveRangeBoundary(request.endDate, 'end', timezone);
+    const start = Date.parse(startDate);
+    const end = Date.parse(endDate);
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+      throw new ValidationError('Query range must have startDate before endDate', [
+        'startDate',
+        'endDate',
+      ]);
+    }
+
+    this.log(LogLevel.INFO, `Querying ${request.dataType} from ${startDate} to ${endDate}`);
+
+    const sources = request.sources ?? this.getActiveSources(request.accountId);
+    const loadErrors = await this.loadPlugins(sources, request.accountId);
+    const plan = this.queryPlanner.plan(
+      { dataType: request.dataType, startDate, endDate, timezone },
+      this.getPlanCandidates(sources, request.accountId)
+    );
+
+    // Reject up front when none of the explicitly requested sources can answer
+    const [firstRejection] = plan.rejected;
+    if (request.sources !== undefined && plan.sources.length === 0 && firstRejection) {
+      throw firstRejection;
+    }
 
-    const sources = request.sources ?? this.getActivePlugins().map((p) => this.getSourceForPlugin(p));
     const allData: UnifiedHealthData[] = [];
     const errors: SyncError[] = [];
     const sourcesQueried: HealthSource[] = [];
-    const sourcesWithData: HealthSource[] = [];
-    const sourcesFailed: HealthSource[] = [];
+    const sourcesWithData = new Set<HealthSource>();
+    const sourcesFailed = new Set<HealthSource>();
     let fromCache = false;
+    let cachedTime = 0;
+    let lookups = 0;
+    const readCache = request.includeCache !== false && request.forceFresh !== true;
+    const writeCache = request.includeCache !== false;
 
     for (const source of sources) {
       if (source === HealthSource.UNKNOWN) {
         continue;
       }
 
+      const rejection = plan.rejected.find((error) => error.source === source);
+      if (rejection) {
+        this.log(LogLevel.DEBUG, `Skipping ${source}: ${rejection.message}`);
+        if (request.sources !== undefined) {
+          errors.push(
+            new SyncError(rejection.message, 'fetch', source, request.dataType, {
+              ...rejection.details,
+              unsupported: true,
+            })
+          );
+        }
+        continue;
+      }
+
       sourcesQueried.push(source);
 
-      try {
-        const plugin = this.pluginRegistry.getPluginBySource(source);
-        if (!plugin) {
-          this.log(LogLevel.WARN, `No plugin for source: ${source}`);
-          continue;
-        }
+      const loadError = loadErrors.get(source);
+      if (loadError) {
+        sourcesFailed.add(source);
+        errors.push(
+          new SyncError(
+            `Failed to query ${source}: ${loadError.message}`,
+            'connection',
+            source,
+            request.dataType
+          )
+        );
+        continue;
+      }
+
+      const plugins = this.getSourcePlugins(source, request.accountId, allAccounts);
+      if (plugins.length === 0) {
+        this.log(
+          LogLevel.WARN,
+          `No plugin for source: ${this.describeTarget(source, request.accountId)}`
+        );
+        continue;
+      }
+
+      // Without an account, every connected account of the source is queried
+      for (const plugin of plugins) {
+        const target = this.describeTarget(source, plugin.instanceKey);
 
         // Check if plugin is connected
-        const status = this.pluginRegistry.getConnectionStatus(plugin.id);
+        const status = this.pluginRegistry.getConnectionStatus(getPluginKey(plugin));
         if (status !== ConnectionStatus.CONNECTED) {
-          this.log(LogLevel.WARN, `Plugin ${plugin.id} is not connected`);
-          sourcesFailed.push(source);
+          this.log(LogLevel.WARN, `Plugin ${getPluginKey(plugin)} is not connected`);
+          sourcesFailed.add(source);
           continue;
         }
 
-        // Check cache first
-        const cacheKey = {
-          source,
-          dataType: request.dataType,
-          startDate: request.startDate,
-          endDate: request.endDate,
-          params: {
-            limit: request.limit,
-            offset: request.offset,
-            sortOrder: request.sortOrder,
-          },
-        };
+        const context = this.createMiddlewareContext('fetchData', plugin, source);
 
-        const cachedData = await this.cacheManager.get(cacheKey);
-
-        if (cachedData && cachedData.length > 0) {
-          this.log(LogLevel.DEBUG, `Using cached data for ${source}`);
-          sourcesWithData.push(source);
-          allData.push(...cachedData);
-          fromCache = true;
-          continue;
-        }
-
-        // Build plugin query
-        const pluginQuery: PluginDataQuery = {
-          dataType: request.dataType,
-          startDate: request.startDate,
-          endDate: request.endDate,
-        };
-
-        if (request.limit !== undefined) {
-          pluginQuery.limit = request.limit;
-        }
-        if (request.offset !== undefined) {
-          pluginQuery.offset = request.offset;
-        }
-        if (request.sortOrder !== undefined) {
-          pluginQuery.sortOrder = request.sortOrder;
-        }
-
-        // Fetch raw data
-        const rawData = await plugin.fetchData(pluginQuery);
-
-        // Normalize data
-        const normalizationResult = this.normalizer.normalize(rawData);
+        try {
+          // The cache holds records by time; only ranges it does not cover are
+          // fetched. Pagination applies after merging
+          const seriesKey: SeriesKey = { source, dataType: request.dataType };
+
+          if (plugin.instanceKey !== undefined) {
+            seriesKey.accountId = plugin.instanceKey;
+          }
+
+          const cached: RangeLookup = readCache
+            ? await this.cacheManager.getRange(seriesKey, { startDate, endDate })
+            : { data: [], gaps: [{ startDate, endDate }], hitRatio: 0 };
+
+          if (readCache) {
+            lookups++;
+            cachedTime += cached.hitRatio;
+          }
+          if (cached.hitRatio > 0) {
+            fromCache = true;
+          }
+
+          if (cached.gaps.length === 0) {
+            this.log(LogLevel.DEBUG, `Using cached data for ${target}`);
+            if (cached.data.length > 0) {
+              sourcesWithData.add(source);
+              allData.push(...cached.data);
+            }
+            continue;
+          }
+
+          // Fetch raw data of the gaps in planned chunks (retried, re-authenticated or
+          // deferred per plugin policy; short-circuited while the plugin's circuit breaker
+          // is open) through the middleware fetch hooks
+          const plannedRanges: PlannedRange[] = plan.sources.find((p) => p.source === source)
+            ?.ranges ?? [{ startDate, endDate }];
+          const ranges = clipRanges(plannedRanges, cached.gaps);
+          const rawData: RawHealthData[] = [];
+          const answeredRanges: TimeRange[] = [];
+
+          for (const range of ranges) {
+            const pluginQuery: PluginDataQuery = {
+              dataType: request.dataType,
+              startDate: range.startDate,
+              endDate: range.endDate,
+              timezone,
+            };
+
+            const { query: hookedQuery, data: hookedData } = await this.middleware.beforeFetch(
+              pluginQuery,
+              context
+            );
+            const ignored: RawHealthData[] = [];
+            const chunk =
+              hookedData ??
+              (await this.pluginRegistry.execute(getPluginKey(plugin), () =>
+                this.retryExecutor.execute(
+                  plugin,
+                  () => plugin.fetchData(hookedQuery),
+                  { operation: 'fetchData', source, dataType: request.dataType, ...range },
+                  ignored
+                )
+              ));
+
+            // Chunks whose failure the plugin ignored are not known to be empty
+            if (chunk !== ignored) {
+              answeredRanges.push(range);
+            }
+
+            rawData.push(...(await this.middleware.afterFetch(chunk, hookedQuery, context)));
+          }
+
+          // Normalize data
+          const normalizationResult = this.normalizer.normalize(rawData);
+
+          // Tag records of account-scoped plugins with their account
+          if (plugin.instanceKey !== undefined) {
+            for (const record of normalizationResult.data) {
+              record.accountId = plugin.instanceKey;
+            }
+          }
+
+          const normalized = await this.middleware.afterNormalize(normalizationResult.data, {
+            ...context,
+            operation: 'normalize',
+          });
 
-        if (normalizationResult.data.length > 0) {
-          sourcesWithData.push(source);
-          allData.push(...normalizationResult.data);
+          // The source answered again; replay work deferred while it was unavailable
+          if (deferAs !== null) {
+            this.replayDeferredJobs(source);
+          }
+
+          if (cached.data.length > 0 || normalized.length > 0) {
+            sourcesWithData.add(source);
+            allData.push(...cached.data, ...normalized);
+          }
+
+          // Cache the normalized data of the answered chunks only; gaps the planner clipped
+          // or dropped and chunks whose failure was ignored stay uncached
+          if (writeCache) {
+            await this.cacheManager.setRange(seriesKey, answeredRanges, normalized);
+          }
+
+          // Log normalization warnings
+          if (normalizationResult.warnings.length > 0) {
+            this.log(
+              LogLevel.WARN,
+              `Normalization warnings for ${target}: ${normalizationResult.warnings.join(', ')}`
+            );
+          }
+        } catch (error) {
+          const reported = await this.middleware.onError(error as Error, context);
+          this.log(LogLevel.ERROR, `Error querying ${target}`, reported);
+          sourcesFailed.add(source);
 
-          // Cache the normalized data
-          await this.cacheManager.set(cacheKey, normalizationResult.data);
-        }
+          if (error instanceof OperationDeferredError && deferAs !== null) {
+            await this.deferFetch(
+              deferAs,
+              source,
+              request.dataType,
+              startDate,
+              endDate,
+              error,
+              plugin.instanceKey
+            );
+          }
 
-        // Log normalization warnings
-        if (normalizationResult.warnings.length > 0) {
-          this.log(
-            LogLevel.WARN,
-            `Normalization warnings for ${source}: ${normalizationResult.warnings.join(', ')}`
+          errors.push(
+            new SyncError(
+              `Failed to query ${target}: ${reported.message}`,
+              'fetch',
+              source,
+              request.dataType,
+              error instanceof OperationDeferredError
+                ? { deferred: true, retryAt: error.retryAt }
+                : error instanceof CircuitOpenError
+                  ? { circuitOpen: true, retryAt: error.retryAt }
+                  : undefined
+            )
           );
         }
-      } catch (error) {
-        this.log(LogLevel.ERROR, `Error querying ${source}`, error as Error);
-        sourcesFailed.push(source);
-        errors.push(
-          new SyncError(
-            `Failed to query ${source}: ${(error as Error).message}`,
-            'fetch',
-            source,
-            request.dataType
-          )
-        );
       }
     }
 
+    const deduplicate = request.deduplicate ?? this.config.conflictResolution?.enabled ?? true;
+    const resolution =
+      deduplicate && sourcesWithData.size > 1
+        ? this.conflictResolver.resolve(allData)
+        : { data: allData, conflicts: [] };
+
+    const { data, totalCount } = this.queryProcessor.process(resolution.data, request);
     const duration = Date.now() - startTime;
 
     const response: HealthDataResponse = {
       success: allData.length > 0 || errors.length === 0,
-      data: allData,
-      totalCount: allData.length,
-      count: allData.length,
+      data,
+      totalCount,
+      count: data.length,
       metadata: {
         executedAt: new Date().toISOString(),
         duration,
         fromCache,
         sourcesQueried,
-        sourcesWithData,
+        sourcesWithData: Array.from(sourcesWithData),
       },
     };
 
-    if (sourcesFailed.length > 0) {
-      response.metadata.sourcesFailed = sourcesFailed;
+    if (lookups > 0) {
+      response.metadata.cacheHitRatio = cachedTime / lookups;
+    }
+
+    if (sourcesFailed.size > 0) {
+      response.metadata.sourcesFailed = Array.from(sourcesFailed);
+    }
+
+    if (resolution.conflicts.length > 0) {
+      response.metadata.conflicts = resolution.conflicts;
     }
 
     if (errors.length > 0) {
@@ -546,17 +1266,164 @@ export class HealthSyncSDK {
     return response;
   }
 
+  /**
+   * Aggregate health data into time buckets
+   *
+   * When a single source (and account) is queried and its plugin declares
+   * native support for the function and bucket size, the aggregate is
+   * computed natively;
+   * otherwise raw records are queried (deduplicated across sources) and
+   * folded locally. Sources whose granularity is coarser than the bucket
+   * size are left out.
+   *
+   * @param {AggregateQuery} request - Aggregate request
+   * @returns {Promise<AggregateResponse>} Buckets covering the requested range
+   * @throws {ValidationError} If the range, time zone or function is invalid
+   * @throws {UnsupportedCapabilityError} If no requested source can serve the request
+   */
+  async aggregate(request: AggregateQuery): Promise<AggregateResponse> {
+    const startTime = Date.now();
+    const timezone = request.timezone ?? this.timezone;
+    const fn = request.fn ?? Aggregator.getDefaultFunction(request.dataType);
+
+    if (!isValidTimeZone(timezone)) {
+      throw new ValidationError(`Unknown time zone: ${timezone}`, ['timezone']);
+    }
+
+    const startDate = resolveRangeBoundary(request.startDate, 'start', timezone);
+    const endDate = resolveRangeBoundary(request.endDate, 'end', timezone);
+    const range: BucketRange = { start: Date.parse(startDate), end: Date.parse(endDate) };
+
+    if (Number.isNaN(range.start) || Number.isNaN(range.end) || range.start >= range.end) {
+      throw new ValidationError('Aggregate range must have startDate before endDate', [
+        'startDate',
+        'endDate',
+      ]);
+    }
+    if (!Aggregator.supports(request.dataType, fn)) {
+      throw new ValidationError(`Cannot apply ${fn} to ${request.dataType}`, ['fn']);
+    }
+
+    this.log(
+      LogLevel.INFO,
+      `Aggregating ${request.dataType} by ${request.bucket} (${fn}, ${timezone})`
+    );
+
+    const candidates = (request.sources ?? this.getActiveSources(request.accountId)).filter(
+      (source) => source !== HealthSource.UNKNOWN
+    );
+    await this.loadPlugins(candidates, request.accountId);
+    const plan = this.queryPlanner.plan(
+      { dataType: request.dataType, startDate, endDate, timezone, bucket: request.bucket },
+      this.getPlanCandidates(candidates, request.accountId)
+    );
+
+    const [firstRejection] = plan.rejected;
+    if (request.sources !== undefined && plan.sources.length === 0 && firstRejection) {
+      throw firstRejection;
+    }
+
+    const sources = candidates.filter(
+      (source) => !plan.rejected.some((error) => error.source === source)
+    );
+    const bucketRanges = this.aggregator.createBuckets(
+      range.start,
+      range.end,
+      request.bucket,
+      timezone
+    );
+
+    let buckets: AggregateBucket[] | null = null;
+    let errors: SyncError[] | undefined;
+    let sourcesFailed: HealthSource[] | undefined;
+    const pushedDown: HealthSource[] = [];
+
+    const [onlySource] = sources;
+    if (request.pushDown !== false && sources.length === 1 && onlySource !== undefined) {
+      const points = await this.fetchNativeAggregate(
+        onlySource,
+        {
+          dataType: request.dataType,
+          startDate,
+          endDate,
+          bucket: request.bucket,
+          fn,
+          timezone,
+        },
+        request.accountId
+      );
+
+      if (points) {
+        buckets = this.aggregator.fromDataPoints(points, bucketRanges, fn, timezone);
+        pushedDown.push(onlySource);
+      }
+    }
+
+    if (!buckets) {
+      const query: HealthDataQuery = {
+        dataType: request.dataType,
+        startDate,
+        endDate,
+        timezone,
+        sources,
+      };
+
+      if (request.accountId !== undefined) {
+        query.accountId = request.accountId;
+      }
+
+      const response = await this.query(query);
+
+      buckets = this.aggregator.aggregate(response.data, bucketRanges, range, fn, timezone);
+      errors = response.errors;
+      sourcesFailed = response.metadata.sourcesFailed;
+    }
+
+    const result: AggregateResponse = {
+      success: errors === undefined,
+      dataType: request.dataType,
+      bucket: request.bucket,
+      fn,
+      timezone,
+      buckets,
+      metadata: {
+        executedAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        sourcesQueried: sources,
+        pushedDown,
+      },
+    };
+
+    if (sourcesFailed !== undefined) {
+      result.metadata.sourcesFailed = sourcesFailed;
+    }
+    if (errors !== undefined) {
+      result.errors = errors;
+    }
+
+    return result;
+  }
+
   /**
    * Sync health data
    *
+   * Each source × data type pair runs as a separate job on the sync
+   * scheduler, bounded by `maxConcurrency` and per-source limits. Jobs of
+   * concurrent sync calls are started in `priority` order.
+   *
    * @param {SyncOptions} [options] - Sync options
    * @returns {Promise<SyncResult>} Sync result
+   * @throws {SyncCancelledError} If the sync is cancelled via `options.signal`
    */
   async sync(options?: SyncOptions): Promise<SyncResult> {
     const opts = { ...DEFAULT_SYNC_OPTIONS, ...options };
     const startTime = Date.now();
     const startedAt = new Date().toISOString();
 
+    if (opts.signal?.aborted) {
+      throw new SyncCancelledError();
+    }
+
     this.log(LogLevel.INFO, 'Starting data sync...');
 
     // Emit sync started event
@@ -566,75 +1433,125 @@ export class HealthSyncSDK {
       data: { options: opts },
     });
 
-    const sources = opts.sources ?? this.getActivePlugins().map((p) => this.getSourceForPlugin(p));
+    const sources = (opts.sources ?? this.getActiveSources()).filter(
+      (source) => source !== HealthSource.UNKNOWN
+    );
     const dataTypes = opts.dataTypes ?? this.config.defaultDataTypes ?? [];
 
+    const windowOptions: SyncWindowOptions = { forceFull: opts.forceFull ?? false };
+
+    if (opts.startDate !== undefined) {
+      windowOptions.startDate = resolveRangeBoundary(opts.startDate, 'start', this.timezone);
+    }
+    if (opts.endDate !== undefined) {
+      windowOptions.endDate = resolveRangeBoundary(opts.endDate, 'end', this.timezone);
+    }
+
+    // Each connected account of a source is synced on its own
+    const targets = sources.flatMap((source): SyncTarget[] => {
+      const accounts = this.getSourcePlugins(source).map((plugin) => plugin.instanceKey);
+      return (accounts.length > 0 ? accounts : [undefined]).map((accountId) =>
+        accountId !== undefined ? { source, accountId } : { source }
+      );
+    });
+
+    const clock = this.config.clock ?? systemClock;
+    const progress = new SyncProgressTracker(targets, dataTypes, () => clock.now());
+
+    // Fan out one job per source (account) × data type
+    const group = `sync_${++this.syncCounter}`;
+    const jobs = targets.map((target) =>
+      dataTypes.map((dataType) => {
+        const job: SyncSchedulerJob<DataTypeSyncOutcome> = {
+          source: target.source,
+          group,
+          groupConcurrency: Math.max(1, opts.maxConcurrency ?? 1),
+          priority: opts.priority ?? 0,
+          run: async (): Promise<DataTypeSyncOutcome> => {
+            const outcome = await this.syncDataType(
+              target.source,
+              dataType,
+              windowOptions,
+              target.accountId
+            );
+            this.reportSyncProgress(
+              opts,
+              progress.complete(target, dataType, outcome.result.recordCount),
+              outcome.error
+            );
+            return outcome;
+          },
+        };
+
+        if (opts.signal !== undefined) {
+          job.signal = opts.signal;
+        }
+
+        return this.scheduler.schedule(job);
+      })
+    );
+
+    const outcomes = await Promise.all(jobs.map((sourceJobs) => Promise.allSettled(sourceJobs)));
+
+    const cancelled = outcomes
+      .flat()
+      .some(
+        (outcome) => outcome.status === 'rejected' && outcome.reason instanceof SyncCancelledError
+      );
+    if (cancelled) {
+      this.log(LogLevel.INFO, 'Sync cancelled');
+      throw new SyncCancelledError();
+    }
+
     const sourceResults: SourceSyncResult[] = [];
     let totalRecords = 0;
     let newRecords = 0;
     let updatedRecords = 0;
     let failedRecords = 0;
     const errors: SyncError[] = [];
+    const changed: UnifiedHealthData[] = [];
 
-    for (const source of sources) {
-      if (source === HealthSource.UNKNOWN) {
-        continue;
-      }
-
+    targets.forEach((target, targetIndex) => {
       const dataTypeResults: DataTypeSyncResult[] = [];
       let sourceRecordCount = 0;
       let sourceSuccess = true;
 
-      for (const dataType of dataTypes) {
-        try {
-          const query: HealthDataQuery = {
-            dataType,
-            startDate: opts.startDate ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-            endDate: opts.endDate ?? new Date().toISOString(),
-            sources: [source],
-          };
-
-          const response = await this.query(query);
-          const recordCount = response.data.length;
-
-          dataTypeResults.push({
-            dataType,
-            success: true,
-            recordCount,
-          });
+      outcomes[targetIndex]?.forEach((outcome, dataTypeIndex) => {
+        const dataType = dataTypes[dataTypeIndex] as DataType;
+        const { result, delta, error } =
+          outcome.status === 'fulfilled'
+            ? outcome.value
+            : this.toFailedOutcome(
+                target.source,
+                dataType,
+                outcome.reason as Error,
+                target.accountId
+              );
+
+        dataTypeResults.push(result);
+        sourceRecordCount += result.recordCount;
+        totalRecords += result.recordCount;
+
+        if (delta) {
+          newRecords += delta.newRecords;
+          updatedRecords += delta.updatedRecords;
+          changed.push(...delta.changed);
+        }
 
-          sourceRecordCount += recordCount;
-          totalRecords += recordCount;
-          newRecords += recordCount; // TODO: Differentiate new vs updated
-        } catch (error) {
+        if (error) {
           sourceSuccess = false;
           failedRecords++;
-
-          dataTypeResults.push({
-            dataType,
-            success: false,
-            recordCount: 0,
-            error: error as Error,
-          });
-
-          errors.push(
-            new SyncError(
-              `Sync failed for ${source} - ${dataType}`,
-              'fetch',
-              source,
-              dataType
-            )
-          );
+          errors.push(error);
         }
-      }
+      });
 
       sourceResults.push({
-        source,
+        ...target,
         success: sourceSuccess,
         recordCount: sourceRecordCount,
         dataTypeResults,
       });
-    }
+    });
 
     const completedAt = new Date().toISOString();
     const duration = Date.now() - startTime;
@@ -657,6 +1574,24 @@ export class HealthSyncSDK {
 
     this.log(LogLevel.INFO, `Sync completed: ${totalRecords} records in ${duration}ms`);
 
+    // Publish only records not seen by a previous sync
+    if (changed.length > 0) {
+      await this.emitEvent(SDKEvent.DATA_UPDATE, {
+        event: SDKEvent.DATA_UPDATE,
+        timestamp: completedAt,
+        data: changed,
+      });
+    }
+
+    if (errors.length > 0) {
+      await this.emitEvent(SDKEvent.SYNC_FAILED, {
+        event: SDKEvent.SYNC_FAILED,
+        timestamp: completedAt,
+        data: { result, errors },
+        error: errors[0] as SyncError,
+      });
+    }
+
     // Emit sync completed event
     await this.emitEvent(SDKEvent.SYNC_COMPLETED, {
       event: SDKEvent.SYNC_COMPLETED,
@@ -672,6 +1607,122 @@ export class HealthSyncSDK {
     return result;
   }
 
+  /**
+   * Get the incremental sync cursor for a source (account) and data type
+   *
+   * @param {HealthSource} source - Health source
+   * @param {DataType} dataType - Data type
+   * @param {string} [accountId] - Account of the source (omit for single-account sources)
+   * @returns {Promise<SyncCursor | null>} Stored cursor or null if never synced
+   */
+  async getSyncCursor(
+    source: HealthSource,
+    dataType: DataType,
+    accountId?: string
+  ): Promise<SyncCursor | null> {
+    return this.syncState.getCursor(source, dataType, accountId);
+  }
+
+  /**
+   * Reset incremental sync state
+   *
+   * The next sync of the affected source/data types fetches the full
+   * initial window again.
+   *
+   * @param {HealthSource} [source] - Source to reset (all if omitted)
+   * @param {DataType} [dataType] - Data type to reset (all if omitted)
+   * @param {string} [accountId] - Account to reset (all if omitted)
+   * @returns {Promise<number>} Number of cursors removed
+   */
+  async resetSyncState(
+    source?: HealthSource,
+    dataType?: DataType,
+    accountId?: string
+  ): Promise<number> {
+    return this.syncState.reset(source, dataType, accountId);
+  }
+
+  /**
+   * Get fetch and sync jobs deferred by rate limits or lost connectivity
+   *
+   * @param {HealthSource} [source] - Only return jobs for this source
+   * @returns {Promise<QueuedJob[]>} Queued jobs, oldest first
+   */
+  async getQueuedJobs(source?: HealthSource): Promise<QueuedJob[]> {
+    return this.offlineQueue.list(source);
+  }
+
+  /**
+   * Replay deferred jobs now
+   *
+   * Jobs are replayed automatically when their `notBefore` time passes and
+   * when their source reconnects or answers again; this replays them on
+   * demand. Without `force` only jobs whose `notBefore` time has passed run.
+   *
+   * @param {QueueDrainOptions} [options] - Drain options
+   * @returns {Promise<QueueDrainResult>} Completed, deferred and dropped jobs
+   */
+  async drainQueue(options?: QueueDrainOptions): Promise<QueueDrainResult> {
+    return this.offlineQueue.drain(options);
+  }
+
+  /**
+   * Discard deferred jobs without replaying them
+   *
+   * @param {HealthSource} [source] - Only discard jobs for this source
+   * @returns {Promise<number>} Number of jobs discarded
+   */
+  async clearQueue(source?: HealthSource): Promise<number> {
+    return this.offlineQueue.clear(source);
+  }
+
+  /**
+   * Pause background sync
+   *
+   * A run already in progress completes; no further runs start until resumed.
+   *
+   * @returns {void}
+   */
+  pauseAutoSync(): void {
+    this.autoSync?.pause();
+  }
+
+  /**
+   * Resume background sync
+   *
+   * @returns {void}
+   */
+  resumeAutoSync(): void {
+    this.autoSync?.resume();
+  }
+
+  /**
+   * Get background sync state
+   *
+   * @returns {AutoSyncState | null} Engine state or null if auto-sync is disabled
+   */
+  getAutoSyncState(): AutoSyncState | null {
+    return this.autoSync?.getState() ?? null;
+  }
+
+  /**
+   * Report records written to a source outside the SDK
+   *
+   * Use after writing through a platform API: cached entries covering the
+   * records are invalidated so the next query refetches them, and the
+   * records are published as a DATA_UPDATE event.
+   *
+   * @param {UnifiedHealthData[]} records - Written records
+   * @returns {Promise<void>}
+   */
+  async notifyDataWritten(records: UnifiedHealthData[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await this.publishExternalUpdate(records);
+  }
+
   /**
    * Subscribe to data updates
    *
@@ -711,6 +1762,17 @@ export class HealthSyncSDK {
   async dispose(): Promise<void> {
     this.log(LogLevel.INFO, 'Disposing HealthSync SDK...');
 
+    // Stop background sync and cancel queued sync jobs
+    this.autoSync?.stop();
+    this.autoSync = null;
+    this.scheduler.clear();
+    this.offlineQueue.stop();
+
+    // Cancel real-time update subscriptions
+    for (const pluginId of Array.from(this.updateSubscriptions.keys())) {
+      await this.unsubscribeFromPluginUpdates(pluginId);
+    }
+
     // Clear event listeners
     this.eventEmitter.clear();
 
@@ -719,6 +1781,7 @@ export class HealthSyncSDK {
 
     // Dispose all plugins
     await this.pluginRegistry.clear();
+    this.pluginLoader.clear();
 
     if (HealthSyncSDK.instance === this) {
       HealthSyncSDK.instance = null;
@@ -786,28 +1849,767 @@ export class HealthSyncSDK {
   }
 
   /**
-   * Get health source for a plugin
+   * Route a plugin's real-time updates into DATA_UPDATE events
+   *
+   * Cached entries covering updated records are invalidated first.
+   * Subscription failures are logged and emitted as ERROR events; they do
+   * not fail the connection.
+   *
+   * @param {IHealthDataPlugin} plugin - Connected plugin
+   * @param {HealthSource} source - Source of the plugin
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async subscribeToPluginUpdates(
+    plugin: IHealthDataPlugin,
+    source: HealthSource
+  ): Promise<void> {
+    if (this.updateSubscriptions.has(getPluginKey(plugin))) {
+      return;
+    }
+
+    try {
+      const subscription = await plugin.subscribeToUpdates(async (data) => {
+        if (data.length === 0) {
+          return;
+        }
+
+        // Tag records of account-scoped plugins with their account
+        if (plugin.instanceKey !== undefined) {
+          for (const record of data) {
+            record.accountId = plugin.instanceKey;
+          }
+        }
+
+        await this.publishExternalUpdate(data);
+      });
+
+      this.updateSubscriptions.set(getPluginKey(plugin), subscription);
+      this.log(LogLevel.DEBUG, `Subscribed to real-time updates from ${source}`);
+    } catch (error) {
+      this.log(LogLevel.WARN, `Failed to subscribe to updates from ${source}`, error as Error);
+
+      await this.emitEvent(SDKEvent.ERROR, {
+        event: SDKEvent.ERROR,
+        timestamp: new Date().toISOString(),
+        data: { source, pluginId: plugin.id },
+        error: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Invalidate the cache for records changed outside a query and publish them
+   *
+   * @param {UnifiedHealthData[]} records - New or changed records
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async publishExternalUpdate(records: UnifiedHealthData[]): Promise<void> {
+    const invalidated = await this.cacheManager.invalidateForRecords(records);
+    if (invalidated > 0) {
+      this.log(LogLevel.DEBUG, `Invalidated ${invalidated} cache entries for updated records`);
+    }
+
+    await this.emitEvent(SDKEvent.DATA_UPDATE, {
+      event: SDKEvent.DATA_UPDATE,
+      timestamp: new Date().toISOString(),
+      data: records,
+    });
+  }
+
+  /**
+   * Cancel a plugin's real-time update subscription
+   *
+   * @param {string} pluginId - Plugin key
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async unsubscribeFromPluginUpdates(pluginId: string): Promise<void> {
+    const subscription = this.updateSubscriptions.get(pluginId);
+    if (!subscription) {
+      return;
+    }
+
+    this.updateSubscriptions.delete(pluginId);
+
+    try {
+      await subscription.unsubscribe();
+    } catch (error) {
+      this.log(LogLevel.WARN, `Failed to unsubscribe from ${pluginId} updates`, error as Error);
+    }
+  }
+
+  /**
+   * Get a plugin's declared or derived capabilities
    *
    * @param {IHealthDataPlugin} plugin - Plugin
-   * @returns {HealthSource} Health source
+   * @returns {PluginCapabilities} Capabilities
+   * @private
+   */
+  private getPluginCapabilities(plugin: IHealthDataPlugin): PluginCapabilities {
+    return plugin.getCapabilities?.() ?? getDefaultCapabilities(plugin);
+  }
+
+  /**
+   * Get planner candidates for the sources with a registered plugin
+   *
+   * @param {HealthSource[]} sources - Health sources
+   * @param {string} [accountId] - Account of the sources (default: primary plugins)
+   * @returns {PlanCandidate[]} Candidates
    * @private
    */
-  private getSourceForPlugin(plugin: IHealthDataPlugin): HealthSource {
-    // Map plugin ID to health source
-    const mapping: Record<string, HealthSource> = {
-      'health-connect': HealthSource.HEALTH_CONNECT,
-      'health_connect': HealthSource.HEALTH_CONNECT,
-      'apple-health': HealthSource.APPLE_HEALTH,
-      'apple_health': HealthSource.APPLE_HEALTH,
-      healthkit: HealthSource.APPLE_HEALTH,
-      fitbit: HealthSource.FITBIT,
-      garmin: HealthSource.GARMIN,
-      oura: HealthSource.OURA,
-      whoop: HealthSource.WHOOP,
-      strava: HealthSource.STRAVA,
-      myfitnesspal: HealthSource.MYFITNESSPAL,
+  private getPlanCandidates(sources: HealthSource[], accountId?: string): PlanCandidate[] {
+    const candidates: PlanCandidate[] = [];
+
+    for (const source of sources) {
+      const plugin = this.pluginRegistry.getPluginBySource(source, accountId);
+      if (plugin) {
+        candidates.push({ source, capabilities: this.getPluginCapabilities(plugin) });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Ask a source's plugin to compute an aggregate natively
+   *
+   * The call runs through the middleware, retry policy and circuit breaker
+   * like record fetches. Failures fall back to aggregating raw records.
+   *
+   * @param {HealthSource} source - Health source
+   * @param {AggregateDataQuery} query - Aggregate parameters
+   * @param {string} [accountId] - Account of the source (default: every connected account)
+   * @returns {Promise<AggregateDataPoint[] | null>} Points, or null to aggregate locally
+   * @private
+   */
+  private async fetchNativeAggregate(
+    source: HealthSource,
+    query: AggregateDataQuery,
+    accountId?: string
+  ): Promise<AggregateDataPoint[] | null> {
+    // Several connected accounts are aggregated from their combined records
+    const plugins = this.getSourcePlugins(source, accountId);
+    const [plugin] = plugins;
+
+    if (
+      plugins.length !== 1 ||
+      !plugin?.fetchAggregate ||
+      this.pluginRegistry.getConnectionStatus(getPluginKey(plugin)) !==
+        ConnectionStatus.CONNECTED ||
+      !QueryPlanner.canAggregate(
+        this.getPluginCapabilities(plugin),
+        query.dataType,
+        query.fn,
+        query.bucket
+      )
+    ) {
+      return null;
+    }
+
+    const fetchAggregate = plugin.fetchAggregate.bind(plugin);
+    const context = this.createMiddlewareContext('fetchAggregate', plugin, source);
+
+    try {
+      const { query: hookedQuery, data: hookedData } = await this.middleware.beforeFetch(
+        {
+          dataType: query.dataType,
+          startDate: query.startDate,
+          endDate: query.endDate,
+          timezone: query.timezone,
+        },
+        context
+      );
+
+      // Middleware answering with records takes the plugin's place; aggregate those
+      if (hookedData) {
+        return null;
+      }
+
+      const aggregateQuery: AggregateDataQuery = {
+        ...query,
+        dataType: hookedQuery.dataType,
+        startDate: hookedQuery.startDate,
+        endDate: hookedQuery.endDate,
+      };
+
+      return await this.pluginRegistry.execute(getPluginKey(plugin), () =>
+        this.retryExecutor.execute(plugin, () => fetchAggregate(aggregateQuery), {
+          operation: 'fetchAggregate',
+          source,
+          dataType: aggregateQuery.dataType,
+          startDate: aggregateQuery.startDate,
+          endDate: aggregateQuery.endDate,
+        })
+      );
+    } catch (error) {
+      const reported = await this.middleware.onError(error as Error, context);
+      this.log(
+        LogLevel.WARN,
+        `Native aggregate failed for ${source}, aggregating raw records`,
+        reported
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Sync a single source (account) × data type
+   *
+   * Resolves the account's incremental window, fetches it and commits the
+   * account's cursor. Data types the source does not provide are skipped.
+   * Never throws; failures are reported in the returned outcome.
+   *
+   * @param {HealthSource} source - Health source
+   * @param {DataType} dataType - Data type
+   * @param {SyncWindowOptions} windowOptions - Window options from the sync call
+   * @param {string} [accountId] - Account of the source (default: primary plugin)
+   * @param {boolean} [deferrable] - Whether a deferred fetch is added to the offline queue
+   * @returns {Promise<DataTypeSyncOutcome>} Sync outcome
+   * @private
+   */
+  private async syncDataType(
+    source: HealthSource,
+    dataType: DataType,
+    windowOptions: SyncWindowOptions,
+    accountId?: string,
+    deferrable = true
+  ): Promise<DataTypeSyncOutcome> {
+    const capabilities = this.getCapabilities(source);
+    if (capabilities && !capabilities.dataTypes[dataType]) {
+      this.log(LogLevel.DEBUG, `Skipping sync of ${dataType} from ${source}: not supported`);
+      return { result: { dataType, success: true, recordCount: 0, skipped: true } };
+    }
+
+    try {
+      const syncWindow = await this.syncState.resolveWindow(
+        source,
+        dataType,
+        windowOptions,
+        accountId
+      );
+
+      const query: HealthDataQuery = {
+        dataType,
+        startDate: syncWindow.startDate,
+        endDate: syncWindow.endDate,
+        sources: [source],
+        // Cached ranges predate records that arrived since; syncs always refetch
+        forceFresh: true,
+      };
+
+      if (accountId !== undefined) {
+        query.accountId = accountId;
+      }
+
+      const response = await this.runQuery(query, deferrable ? 'sync' : null, false);
+
+      // query() reports per-source failures instead of throwing; the
+      // cursor must only advance when the source actually answered
+      const sourceFailed = response.metadata.sourcesFailed?.includes(source) ?? false;
+      if (response.errors !== undefined || sourceFailed) {
+        throw (
+          response.errors?.[0] ??
+          new Error(`Source ${this.describeTarget(source, accountId)} is not available`)
+        );
+      }
+
+      const delta = await this.syncState.commit(
+        source,
+        dataType,
+        syncWindow,
+        response.data,
+        accountId
+      );
+
+      return {
+        result: { dataType, success: true, recordCount: response.data.length },
+        delta,
+      };
+    } catch (error) {
+      return this.toFailedOutcome(source, dataType, error as Error, accountId);
+    }
+  }
+
+  /**
+   * Add a deferred fetch to the offline queue
+   *
+   * @param {QueuedJobKind} kind - Kind of job
+   * @param {HealthSource} source - Health source
+   * @param {DataType} dataType - Data type
+   * @param {string} startDate - Range start (ISO 8601)
+   * @param {string} endDate - Range end (ISO 8601)
+   * @param {OperationDeferredError} error - Deferral
+   * @param {string} [accountId] - Account of the source
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async deferFetch(
+    kind: QueuedJobKind,
+    source: HealthSource,
+    dataType: DataType,
+    startDate: string,
+    endDate: string,
+    error: OperationDeferredError,
+    accountId?: string
+  ): Promise<void> {
+    const job: QueuedJobInput = { kind, source, dataType, startDate, endDate };
+
+    if (accountId !== undefined) {
+      job.accountId = accountId;
+    }
+    if (error.retryAt !== undefined) {
+      job.notBefore = error.retryAt;
+    }
+    if (error.originalError !== undefined) {
+      job.lastError = error.originalError.message;
+    }
+
+    try {
+      await this.offlineQueue.enqueue(job);
+    } catch (queueError) {
+      this.log(LogLevel.ERROR, `Failed to queue deferred ${source} fetch`, queueError as Error);
+    }
+  }
+
+  /**
+   * Replay a deferred job
+   *
+   * Sync jobs sync the range and publish changed records; fetch jobs
+   * refresh the cached range.
+   *
+   * @param {QueuedJob} job - Job to replay
+   * @returns {Promise<void>}
+   * @throws {OperationDeferredError} If the source is unavailable or defers again
+   * @private
+   */
+  private async replayJob(job: QueuedJob): Promise<void> {
+    const plugin = this.pluginRegistry.getPluginBySource(job.source, job.accountId);
+    if (
+      !plugin ||
+      this.pluginRegistry.getConnectionStatus(getPluginKey(plugin)) !== ConnectionStatus.CONNECTED
+    ) {
+      throw new OperationDeferredError(
+        `Source ${this.describeTarget(job.source, job.accountId)} is not connected`
+      );
+    }
+
+    let error: Error | undefined;
+
+    if (job.kind === 'sync') {
+      const outcome = await this.syncDataType(
+        job.source,
+        job.dataType,
+        { startDate: job.startDate, endDate: job.endDate },
+        job.accountId,
+        false
+      );
+      error = outcome.result.error;
+
+      if (outcome.delta && outcome.delta.changed.length > 0) {
+        await this.emitEvent(SDKEvent.DATA_UPDATE, {
+          event: SDKEvent.DATA_UPDATE,
+          timestamp: new Date().toISOString(),
+          data: outcome.delta.changed,
+        });
+      }
+    } else {
+      const query: HealthDataQuery = {
+        dataType: job.dataType,
+        startDate: job.startDate,
+        endDate: job.endDate,
+        sources: [job.source],
+        forceFresh: true,
+      };
+
+      if (job.accountId !== undefined) {
+        query.accountId = job.accountId;
+      }
+
+      const response = await this.runQuery(query, null, false);
+      error = response.errors?.[0];
+    }
+
+    if (!error) {
+      return;
+    }
+
+    // query() reports deferrals as SyncErrors; surface them to the queue
+    const details = (error as SyncError).details;
+    if (details?.['deferred'] === true) {
+      const retryAt = details['retryAt'];
+      throw new OperationDeferredError(
+        error.message,
+        typeof retryAt === 'string' ? retryAt : undefined,
+        error
+      );
+    }
+
+    throw error;
+  }
+
+  /**
+   * Replay a source's deferred jobs in the background
+   *
+   * Called when the source connects or answers a fetch, i.e. when it is
+   * reachable again. Jobs deferred while offline run right away; jobs
+   * waiting for a rate limit reset keep waiting for their `notBefore` time.
+   *
+   * @param {HealthSource} source - Health source
+   * @private
+   */
+  private replayDeferredJobs(source: HealthSource): void {
+    this.offlineQueue.drain({ source, offline: true }).catch((error) => {
+      this.log(LogLevel.ERROR, `Failed to replay deferred ${source} jobs`, error as Error);
+    });
+  }
+
+  /**
+   * Report progress of a sync call
+   *
+   * Invokes the caller's `onProgress`/`onError` callbacks and mirrors the
+   * progress as a SYNC_PROGRESS event. Callback errors are logged and do not
+   * interrupt the sync.
+   *
+   * @param {SyncOptions} opts - Options of the sync call
+   * @param {SyncProgress} progress - Progress snapshot
+   * @param {SyncError} [error] - Error of the completed unit, if it failed
+   * @private
+   */
+  private reportSyncProgress(opts: SyncOptions, progress: SyncProgress, error?: SyncError): void {
+    if (error && opts.onError) {
+      try {
+        opts.onError(error);
+      } catch (callbackError) {
+        this.log(LogLevel.ERROR, 'Error in sync onError callback', callbackError as Error);
+      }
+    }
+
+    if (opts.onProgress) {
+      try {
+        opts.onProgress(progress);
+      } catch (callbackError) {
+        this.log(LogLevel.ERROR, 'Error in sync onProgress callback', callbackError as Error);
+      }
+    }
+
+    this.emitEvent(SDKEvent.SYNC_PROGRESS, {
+      event: SDKEvent.SYNC_PROGRESS,
+      timestamp: new Date().toISOString(),
+      data: { progress },
+    }).catch((emitError) => {
+      this.log(LogLevel.ERROR, 'Error emitting sync progress event', emitError as Error);
+    });
+  }
+
+  /**
+   * Build a failed sync outcome
+   *
+   * @param {HealthSource} source - Health source
+   * @param {DataType} dataType - Data type
+   * @param {Error} error - Failure cause
+   * @param {string} [accountId] - Account of the source
+   * @returns {DataTypeSyncOutcome} Failed outcome
+   * @private
+   */
+  private toFailedOutcome(
+    source: HealthSource,
+    dataType: DataType,
+    error: Error,
+    accountId?: string
+  ): DataTypeSyncOutcome {
+    return {
+      result: { dataType, success: false, recordCount: 0, error },
+      error: new SyncError(
+        `Sync failed for ${this.describeTarget(source, accountId)} - ${dataType}`,
+        'fetch',
+        source,
+        dataType,
+        { reason: error.message }
+      ),
+    };
+  }
+
+  /**
+   * Get the maximum number of concurrent sync jobs for a source
+   *
+   * Cloud-based plugins default to one job at a time so their API rate
+   * limits are not exhausted by parallel requests.
+   *
+   * @param {HealthSource} source - Health source
+   * @returns {number} Concurrency limit
+   * @private
+   */
+  private getSourceConcurrency(source: HealthSource): number {
+    const configured = this.config.sourceConcurrency?.[source];
+    if (configured !== undefined) {
+      return Math.max(1, configured);
+    }
+
+    const plugin = this.pluginRegistry.getPluginBySource(source);
+    return plugin?.isCloudBased ? 1 : Infinity;
+  }
+
+  /**
+   * Describe a plugin call for middleware hooks
+   *
+   * @param {MiddlewareOperation} operation - Operation being performed
+   * @param {IHealthDataPlugin} plugin - Plugin being called
+   * @param {HealthSource} source - Source the plugin serves
+   * @returns {MiddlewareContext} Context
+   * @private
+   */
+  private createMiddlewareContext(
+    operation: MiddlewareOperation,
+    plugin: IHealthDataPlugin,
+    source: HealthSource
+  ): MiddlewareContext {
+    const context: MiddlewareContext = { operation, plugin, source };
+
+    if (plugin.instanceKey !== undefined) {
+      context.accountId = plugin.instanceKey;
+    }
+
+    return context;
+  }
+
+  /**
+   * Get the plugin of a source's account
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source (default: primary plugin)
+   * @returns {IHealthDataPlugin} Plugin
+   * @throws {ConnectionError} If no plugin is registered for the source or account
+   * @private
+   */
+  private requirePlugin(source: HealthSource, accountId?: string): IHealthDataPlugin {
+    const plugin = this.pluginRegistry.getPluginBySource(source, accountId);
+
+    if (!plugin) {
+      throw new ConnectionError(
+        accountId !== undefined
+          ? `No plugin registered for account ${accountId} of source: ${source}`
+          : `No plugin registered for source: ${source}`,
+        source,
+        404
+      );
+    }
+
+    return plugin;
+  }
+
+  /**
+   * Load the plugin serving a source from its manifest, if not loaded yet
+   *
+   * The loaded plugin is registered and initialized; if initialization
+   * fails it is unregistered again, leaving the manifest to retry the load.
+   * Nothing is loaded when a registered plugin already serves the source
+   * (and account).
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source (default: primary plugin)
+   * @returns {Promise<void>}
+   * @throws {PluginError} If the manifest fails to load
+   * @private
+   */
+  private async loadPlugin(source: HealthSource, accountId?: string): Promise<void> {
+    const manifest = this.pluginLoader.find(source, accountId);
+    if (!manifest) {
+      return;
+    }
+
+    // Registered plugins win, except that a manifest without instance key
+    // takes over as primary from keyed plugins
+    const registered = this.pluginRegistry.getPluginBySource(source, accountId);
+    if (
+      registered &&
+      (registered.instanceKey === accountId || manifest.instanceKey !== undefined)
+    ) {
+      return;
+    }
+
+    this.log(LogLevel.DEBUG, `Loading plugin ${getManifestKey(manifest)}...`);
+
+    await this.pluginLoader.load(manifest, async (plugin) => {
+      this.registerPlugin(plugin);
+
+      try {
+        await this.initializePlugin(plugin);
+      } catch (error) {
+        await this.pluginRegistry.unregister(getPluginKey(plugin));
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Load the plugins serving several sources from their manifests
+   *
+   * A failed load only affects its own source; failures are logged and
+   * returned so callers can report them per source.
+   *
+   * @param {HealthSource[]} sources - Health sources
+   * @param {string} [accountId] - Account of the sources (default: primary plugins)
+   * @returns {Promise<Map<HealthSource, Error>>} Load errors by source
+   * @private
+   */
+  private async loadPlugins(
+    sources: HealthSource[],
+    accountId?: string
+  ): Promise<Map<HealthSource, Error>> {
+    const failures = new Map<HealthSource, Error>();
+
+    await Promise.all(
+      sources.map(async (source) => {
+        try {
+          await this.loadPlugin(source, accountId);
+        } catch (error) {
+          this.log(
+            LogLevel.ERROR,
+            `Failed to load plugin for ${this.describeTarget(source, accountId)}`,
+            error as Error
+          );
+          failures.set(source, error as Error);
+        }
+      })
+    );
+
+    return failures;
+  }
+
+  /**
+   * Initialize a registered plugin unless already initialized
+   *
+   * @param {IHealthDataPlugin} plugin - Plugin
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async initializePlugin(plugin: IHealthDataPlugin): Promise<void> {
+    const key = getPluginKey(plugin);
+
+    if (!this.pluginRegistry.isInitialized(key)) {
+      this.log(LogLevel.DEBUG, `Initializing plugin ${plugin.id}...`);
+      await plugin.initialize(this.resolvePluginConfig(plugin));
+      this.pluginRegistry.markInitialized(key);
+    }
+  }
+
+  /**
+   * Build the configuration passed to a plugin
+   *
+   * Merges, in increasing precedence: the SDK-level settings, the
+   * `pluginDefaults`, the plugin's ID entry and its `id:instanceKey` entry.
+   *
+   * @param {IHealthDataPlugin} plugin - Plugin
+   * @returns {PluginConfig} Configuration
+   * @throws {ConfigurationError} If it does not match the plugin's schema
+   * @private
+   */
+  private resolvePluginConfig(plugin: IHealthDataPlugin): PluginConfig {
+    const sdkDefaults: PluginConfig = {
+      debug: this.config.logLevel === LogLevel.DEBUG,
+      custom: { logger: this.logger },
     };
+    if (this.config.apiBaseUrl !== undefined) {
+      sdkDefaults.apiBaseUrl = this.config.apiBaseUrl;
+    }
+    if (this.config.clientId !== undefined) {
+      sdkDefaults.clientId = this.config.clientId;
+    }
+    if (this.config.clientSecret !== undefined) {
+      sdkDefaults.clientSecret = this.config.clientSecret;
+    }
+    if (this.config.retry?.timeout !== undefined) {
+      sdkDefaults.timeout = this.config.retry.timeout;
+    }
+
+    const key = getPluginKey(plugin);
+    const config = mergePluginConfig(
+      sdkDefaults,
+      this.config.pluginDefaults,
+      this.pluginConfigs[plugin.id],
+      key !== plugin.id ? this.pluginConfigs[key] : undefined
+    );
+
+    const errors = plugin.configSchema ? validatePluginConfig(config, plugin.configSchema) : [];
+    if (errors.length > 0) {
+      throw new ConfigurationError(
+        `Invalid configuration for plugin '${key}': ${errors.join('; ')}`,
+        { pluginId: plugin.id, errors }
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Describe a source's account for log and error messages
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source
+   * @returns {string} Description
+   * @private
+   */
+  private describeTarget(source: HealthSource, accountId?: string): string {
+    return accountId !== undefined ? `${source} (account ${accountId})` : source;
+  }
+
+  /**
+   * Get the plugins a query of a source should use
+   *
+   * An account selects its own plugin. Otherwise all connected plugins of
+   * the source are used, falling back to the primary plugin when none is
+   * connected (or when `allAccounts` is false).
+   *
+   * @param {HealthSource} source - Health source
+   * @param {string} [accountId] - Account of the source
+   * @param {boolean} [allAccounts=true] - Use every connected account without `accountId`
+   * @returns {IHealthDataPlugin[]} Plugins in registration order
+   * @private
+   */
+  private getSourcePlugins(
+    source: HealthSource,
+    accountId?: string,
+    allAccounts = true
+  ): IHealthDataPlugin[] {
+    if (accountId === undefined && allAccounts) {
+      const connected = this.pluginRegistry
+        .getPluginsBySource(source)
+        .filter(
+          (plugin) =>
+            this.pluginRegistry.getConnectionStatus(getPluginKey(plugin)) ===
+            ConnectionStatus.CONNECTED
+        );
+
+      if (connected.length > 0) {
+        return connected;
+      }
+    }
+
+    const plugin = this.pluginRegistry.getPluginBySource(source, accountId);
+    return plugin ? [plugin] : [];
+  }
+
+  /**
+   * Get the health sources of connected plugins
+   *
+   * @param {string} [accountId] - Only include sources with this account connected
+   * @returns {HealthSource[]} Distinct sources
+   * @private
+   */
+  private getActiveSources(accountId?: string): HealthSource[] {
+    const sources = new Set<HealthSource>();
+
+    for (const plugin of this.getActivePlugins()) {
+      if (accountId !== undefined && plugin.instanceKey !== accountId) {
+        continue;
+      }
+
+      const source = this.pluginRegistry.getPluginSource(getPluginKey(plugin));
+      sources.add(source ?? HealthSource.UNKNOWN);
+    }
 
-    return mapping[plugin.id.toLowerCase()] ?? HealthSource.UNKNOWN;
+    return Array.from(sources);
   }
 }
@@ -0,0 +1,367 @@
+/**
+ * Auto-Sync Engine
+ *
+ * Runs incremental syncs on a fixed interval. Sources that fail are backed
+ * off exponentially and skipped until their retry time; runs are skipped
+ * while a previous run is still in progress. All timing goes through an
+ * injectable clock.
+ *
+ * @module sync/auto-sync
+ */
+
+import { HealthSource } from '../models/unified-data';
+import { Logger, LogLevel, SyncResult } from '../types/config';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+/**
+ * Auto-sync engine configuration
+ *
+ * @interface AutoSyncConfig
+ */
+export interface AutoSyncConfig {
+  /** Interval between runs in milliseconds (0 = no periodic runs) */
+  interval: number;
+
+  /** Whether to run once immediately when started */
+  runOnStart?: boolean;
+
+  /** Maximum backoff for a failing source in milliseconds */
+  maxBackoff?: number;
+
+  /** Performs one sync, skipping the given sources */
+  runSync: (skipSources: HealthSource[]) => Promise<SyncResult>;
+
+  /** Clock used for timers (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Backoff state of a failing source
+ *
+ * @interface SourceBackoff
+ */
+export interface SourceBackoff {
+  /** Failing source */
+  source: HealthSource;
+
+  /** Consecutive failed runs */
+  failures: number;
+
+  /** When the source is retried (epoch milliseconds) */
+  retryAt: number;
+}
+
+/**
+ * Snapshot of the auto-sync engine state
+ *
+ * @interface AutoSyncState
+ */
+export interface AutoSyncState {
+  /** Whether the engine has been started and not stopped */
+  active: boolean;
+
+  /** Whether the engine is paused */
+  paused: boolean;
+
+  /** Whether a run is currently in progress */
+  inProgress: boolean;
+
+  /** When the last run started (epoch milliseconds) */
+  lastRunAt?: number;
+
+  /** When the next run is scheduled (epoch milliseconds) */
+  nextRunAt?: number;
+
+  /** Result of the last completed run */
+  lastResult?: SyncResult;
+
+  /** Sources currently backed off */
+  backoff: SourceBackoff[];
+}
+
+/**
+ * Default maximum backoff (1 hour)
+ */
+const DEFAULT_MAX_BACKOFF = 60 * 60 * 1000;
+
+/**
+ * Auto-Sync Engine
+ *
+ * @class AutoSyncEngine
+ */
+export class AutoSyncEngine {
+  private interval: number;
+  private runOnStart: boolean;
+  private maxBackoff: number;
+  private runSync: (skipSources: HealthSource[]) => Promise<SyncResult>;
+  private clock: Clock;
+  private logger: Logger | undefined;
+
+  private active = false;
+  private paused = false;
+  private inProgress = false;
+  private timer?: TimerHandle;
+  private nextRunAt: number | undefined;
+  private lastRunAt: number | undefined;
+  private lastResult: SyncResult | undefined;
+  private backoff: Map<HealthSource, SourceBackoff> = new Map();
+
+  /**
+   * Create auto-sync engine
+   *
+   * @param {AutoSyncConfig} config - Engine configuration
+   */
+  constructor(config: AutoSyncConfig) {
+    this.interval = config.interval;
+    this.runOnStart = config.runOnStart ?? false;
+    this.maxBackoff = Math.max(config.maxBackoff ?? DEFAULT_MAX_BACKOFF, config.interval);
+    this.runSync = config.runSync;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Start the engine
+   *
+   * @returns {void}
+   */
+  start(): void {
+    if (this.active) {
+      return;
+    }
+
+    this.active = true;
+    this.paused = false;
+
+    if (this.runOnStart) {
+      this.scheduleNext(0);
+    } else if (this.interval > 0) {
+      this.scheduleNext(this.interval);
+    }
+
+    this.log(LogLevel.INFO, `Auto-sync started (interval: ${this.interval}ms)`);
+  }
+
+  /**
+   * Stop the engine
+   *
+   * A run already in progress completes but no further runs are scheduled.
+   *
+   * @returns {void}
+   */
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    this.paused = false;
+    this.cancelTimer();
+    this.log(LogLevel.INFO, 'Auto-sync stopped');
+  }
+
+  /**
+   * Pause periodic runs
+   *
+   * @returns {void}
+   */
+  pause(): void {
+    if (!this.active || this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    this.cancelTimer();
+    this.log(LogLevel.INFO, 'Auto-sync paused');
+  }
+
+  /**
+   * Resume periodic runs
+   *
+   * The next run is scheduled one interval after resuming.
+   *
+   * @returns {void}
+   */
+  resume(): void {
+    if (!this.active || !this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    if (this.interval > 0) {
+      this.scheduleNext(this.interval);
+    }
+    this.log(LogLevel.INFO, 'Auto-sync resumed');
+  }
+
+  /**
+   * Get the current engine state
+   *
+   * @returns {AutoSyncState} State snapshot
+   */
+  getState(): AutoSyncState {
+    const state: AutoSyncState = {
+      active: this.active,
+      paused: this.paused,
+      inProgress: this.inProgress,
+      backoff: Array.from(this.backoff.values()).map((entry) => ({ ...entry })),
+    };
+
+    if (this.lastRunAt !== undefined) {
+      state.lastRunAt = this.lastRunAt;
+    }
+    if (this.nextRunAt !== undefined) {
+      state.nextRunAt = this.nextRunAt;
+    }
+    if (this.lastResult !== undefined) {
+      state.lastResult = this.lastResult;
+    }
+
+    return state;
+  }
+
+  /**
+   * Perform one run
+   *
+   * Skipped if a previous run is still in progress.
+   *
+   * @returns {Promise<SyncResult | null>} Sync result, or null if skipped or failed
+   */
+  async runOnce(): Promise<SyncResult | null> {
+    if (this.inProgress) {
+      this.log(LogLevel.DEBUG, 'Previous auto-sync still in progress, skipping run');
+      return null;
+    }
+
+    const now = this.clock.now();
+    const skipSources = Array.from(this.backoff.values())
+      .filter((entry) => entry.retryAt > now)
+      .map((entry) => entry.source);
+
+    this.inProgress = true;
+    this.lastRunAt = now;
+
+    try {
+      const result = await this.runSync(skipSources);
+      this.lastResult = result;
+      this.updateBackoff(result);
+      return result;
+    } catch (error) {
+      this.log(LogLevel.ERROR, `Auto-sync run failed: ${(error as Error).message}`);
+      return null;
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  /**
+   * Update per-source backoff from a run result
+   *
+   * @param {SyncResult} result - Sync result
+   * @private
+   */
+  private updateBackoff(result: SyncResult): void {
+    const now = this.clock.now();
+
+    for (const sourceResult of result.sourceResults) {
+      if (sourceResult.success) {
+        this.backoff.delete(sourceResult.source);
+        continue;
+      }
+
+      const failures = (this.backoff.get(sourceResult.source)?.failures ?? 0) + 1;
+      const delay = Math.min(Math.max(this.interval, 1000) * 2 ** (failures - 1), this.maxBackoff);
+
+      this.backoff.set(sourceResult.source, {
+        source: sourceResult.source,
+        failures,
+        retryAt: now + delay,
+      });
+
+      this.log(
+        LogLevel.WARN,
+        `Source ${sourceResult.source} failed ${failures} time(s), backing off ${delay}ms`
+      );
+    }
+  }
+
+  /**
+   * Schedule the next tick
+   *
+   * @param {number} delay - Delay in milliseconds
+   * @private
+   */
+  private scheduleNext(delay: number): void {
+    this.cancelTimer();
+    this.nextRunAt = this.clock.now() + delay;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.nextRunAt = undefined;
+      this.tick().catch((error) => {
+        this.log(LogLevel.ERROR, `Auto-sync tick error: ${(error as Error).message}`);
+      });
+    }, delay);
+  }
+
+  /**
+   * Run and reschedule
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async tick(): Promise<void> {
+    if (this.interval > 0) {
+      // Schedule before running so slow runs do not drift the interval;
+      // overlapping ticks are skipped by runOnce()
+      this.scheduleNext(this.interval);
+    }
+
+    await this.runOnce();
+  }
+
+  /**
+   * Cancel the pending timer
+   *
+   * @private
+   */
+  private cancelTimer(): void {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.nextRunAt = undefined;
+  }
+
+  /**
+   * Log message
+   *
+   * @param {LogLevel} level - Log level
+   * @param {string} message - Log message
+   * @private
+   */
+  private log(level: LogLevel, message: string): void {
+    if (!this.logger) {
+      return;
+    }
+
+    const msg = `[AutoSync] ${message}`;
+
+    switch (level) {
+      case LogLevel.DEBUG:
+        this.logger.debug(msg);
+        break;
+      case LogLevel.INFO:
+        this.logger.info(msg);
+        break;
+      case LogLevel.WARN:
+        this.logger.warn(msg);
+        break;
+      case LogLevel.ERROR:
+        this.logger.error(msg);
+        break;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * In-Memory Offline Queue Store
+ *
+ * Session-only storage for deferred jobs. Used by default when no persistent
+ * store is configured; queued jobs are lost when the process exits.
+ *
+ * @module sync/memory-offline-queue-store
+ */
+
+import { IOfflineQueueStore, QueuedJob } from './offline-queue-store';
+
+/**
+ * In-Memory Offline Queue Store
+ *
+ * @class MemoryOfflineQueueStore
+ * @implements {IOfflineQueueStore}
+ */
+export class MemoryOfflineQueueStore implements IOfflineQueueStore {
+  private jobs: Map<string, QueuedJob> = new Map();
+
+  /**
+   * Get a job by ID
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<QueuedJob | null>} Stored job or null if not found
+   */
+  get(id: string): Promise<QueuedJob | null> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job ? { ...job } : null);
+  }
+
+  /**
+   * Store a job
+   *
+   * @param {string} id - Job ID
+   * @param {QueuedJob} job - Job to store
+   * @returns {Promise<void>}
+   */
+  set(id: string, job: QueuedJob): Promise<void> {
+    this.jobs.set(id, { ...job });
+    return Promise.resolve();
+  }
+
+  /**
+   * Delete a job
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.delete(id));
+  }
+
+  /**
+   * Get all job IDs in the store
+   *
+   * @returns {Promise<string[]>} Array of job IDs
+   */
+  keys(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.jobs.keys()));
+  }
+
+  /**
+   * Clear all jobs
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void> {
+    this.jobs.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * In-Memory Sync State Store
+ *
+ * Session-only sync cursor storage. Used by default when no persistent
+ * store is configured; cursors are lost when the process exits.
+ *
+ * @module sync/memory-sync-state-store
+ */
+
+import { ISyncStateStore, SyncCursor } from './sync-state-store';
+
+/**
+ * In-Memory Sync State Store
+ *
+ * @class MemorySyncStateStore
+ * @implements {ISyncStateStore}
+ */
+export class MemorySyncStateStore implements ISyncStateStore {
+  private cursors: Map<string, SyncCursor> = new Map();
+
+  /**
+   * Get a sync cursor by key
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<SyncCursor | null>} Stored cursor or null if not found
+   */
+  get(key: string): Promise<SyncCursor | null> {
+    const cursor = this.cursors.get(key);
+    return Promise.resolve(cursor ? { ...cursor, seen: { ...cursor.seen } } : null);
+  }
+
+  /**
+   * Store a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @param {SyncCursor} cursor - Cursor to store
+   * @returns {Promise<void>}
+   */
+  set(key: string, cursor: SyncCursor): Promise<void> {
+    this.cursors.set(key, { ...cursor, seen: { ...cursor.seen } });
+    return Promise.resolve();
+  }
+
+  /**
+   * Delete a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.cursors.delete(key));
+  }
+
+  /**
+   * Get all keys in the store
+   *
+   * @returns {Promise<string[]>} Array of sync state keys
+   */
+  keys(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.cursors.keys()));
+  }
+
+  /**
+   * Clear all sync cursors
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void> {
+    this.cursors.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Offline Queue Store Interface
+ *
+ * Abstract interface for persisting deferred fetch and sync jobs.
+ * Implementations can use different storage mechanisms (memory, AsyncStorage, SQLite, etc.)
+ *
+ * @module sync/offline-queue-store
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+
+/**
+ * Kind of deferred work
+ *
+ * - `fetch`: re-fetch the range and refresh the cache
+ * - `sync`: sync the range and commit the sync cursor
+ */
+export type QueuedJobKind = 'fetch' | 'sync';
+
+/**
+ * Deferred job for a single source × data type range
+ *
+ * Jobs are plain JSON so any key-value storage can persist them.
+ *
+ * @interface QueuedJob
+ */
+export interface QueuedJob {
+  /** Job identifier */
+  id: string;
+
+  /** Kind of deferred work */
+  kind: QueuedJobKind;
+
+  /** Data source */
+  source: HealthSource;
+
+  /** Account of the source (omitted for the source's primary plugin) */
+  accountId?: string;
+
+  /** Type of health data */
+  dataType: DataType;
+
+  /** Range start (ISO 8601) */
+  startDate: string;
+
+  /** Range end (ISO 8601) */
+  endDate: string;
+
+  /** Replay attempts made so far */
+  attempts: number;
+
+  /** Earliest time the job may be replayed (ISO 8601) */
+  notBefore: string;
+
+  /** Whether the job waits for its source to be reachable rather than for a known reset time */
+  offline?: boolean;
+
+  /** When the job was first queued (ISO 8601) */
+  createdAt: string;
+
+  /** When the job was last queued, merged or replayed (ISO 8601) */
+  updatedAt: string;
+
+  /** Message of the error that deferred the job most recently */
+  lastError?: string;
+}
+
+/**
+ * Offline queue store interface
+ *
+ * Defines the contract for deferred job storage backends.
+ *
+ * @interface IOfflineQueueStore
+ */
+export interface IOfflineQueueStore {
+  /**
+   * Get a job by ID
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<QueuedJob | null>} Stored job or null if not found
+   */
+  get(id: string): Promise<QueuedJob | null>;
+
+  /**
+   * Store a job
+   *
+   * @param {string} id - Job ID
+   * @param {QueuedJob} job - Job to store
+   * @returns {Promise<void>}
+   */
+  set(id: string, job: QueuedJob): Promise<void>;
+
+  /**
+   * Delete a job
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Get all job IDs in the store
+   *
+   * @returns {Promise<string[]>} Array of job IDs
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Clear all jobs
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,518 @@
+/**
+ * Offline Queue
+ *
+ * Durable queue of fetch and sync jobs that a plugin asked to defer
+ * (`ErrorAction.QUEUE`), typically because it is rate limited or offline.
+ * Overlapping ranges of the same source × data type are merged into one
+ * job. Jobs are replayed once their `notBefore` time passes or when the
+ * SDK drains the queue; jobs deferred while offline (without a known reset
+ * time) may also be replayed early once their source answers again. Failed
+ * replays are backed off and dropped after a maximum number of attempts.
+ *
+ * @module sync/offline-queue
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+import { Logger, LogLevel, OperationDeferredError } from '../types/config';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import { IOfflineQueueStore, QueuedJob, QueuedJobKind } from './offline-queue-store';
+import { MemoryOfflineQueueStore } from './memory-offline-queue-store';
+
+/**
+ * Offline queue configuration
+ *
+ * @interface OfflineQueueConfig
+ */
+export interface OfflineQueueConfig {
+  /** Replays one job; resolves on success, throws `OperationDeferredError` to defer again */
+  runJob: (job: QueuedJob) => Promise<void>;
+
+  /** Job storage backend (defaults to in-memory) */
+  store?: IOfflineQueueStore;
+
+  /** Replay attempts before a job is dropped */
+  maxAttempts?: number;
+
+  /** Delay before replaying a job that has no reset time, in milliseconds */
+  retryDelay?: number;
+
+  /** Maximum backoff between replays, in milliseconds */
+  maxRetryDelay?: number;
+
+  /** Clock used for replay timers (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Deferred work to add to the queue
+ *
+ * @interface QueuedJobInput
+ */
+export interface QueuedJobInput {
+  /** Kind of deferred work */
+  kind: QueuedJobKind;
+
+  /** Data source */
+  source: HealthSource;
+
+  /** Account of the source (omitted for the source's primary plugin) */
+  accountId?: string;
+
+  /** Type of health data */
+  dataType: DataType;
+
+  /** Range start (ISO 8601) */
+  startDate: string;
+
+  /** Range end (ISO 8601) */
+  endDate: string;
+
+  /** Earliest replay time (ISO 8601), e.g. a rate limit reset time (omitted while offline) */
+  notBefore?: string;
+
+  /** Message of the error that deferred the work */
+  lastError?: string;
+}
+
+/**
+ * Options for draining the queue
+ *
+ * @interface QueueDrainOptions
+ */
+export interface QueueDrainOptions {
+  /** Only replay jobs for this source */
+  source?: HealthSource;
+
+  /** Replay jobs even if their `notBefore` time has not passed */
+  force?: boolean;
+
+  /** Replay jobs deferred while offline even if their `notBefore` time has not passed */
+  offline?: boolean;
+}
+
+/**
+ * Result of draining the queue
+ *
+ * @interface QueueDrainResult
+ */
+export interface QueueDrainResult {
+  /** Jobs replayed successfully and removed */
+  completed: QueuedJob[];
+
+  /** Jobs deferred again or backed off after a failure */
+  deferred: QueuedJob[];
+
+  /** Jobs removed after exhausting their attempts */
+  dropped: QueuedJob[];
+
+  /** Jobs left in the queue */
+  remaining: number;
+}
+
+/**
+ * Default offline queue configuration
+ */
+const DEFAULT_CONFIG = {
+  maxAttempts: 5,
+  retryDelay: 60 * 1000, // 1 minute
+  maxRetryDelay: 60 * 60 * 1000, // 1 hour
+};
+
+/**
+ * Offline Queue
+ *
+ * @class OfflineQueue
+ */
+export class OfflineQueue {
+  private config: typeof DEFAULT_CONFIG;
+  private runJob: (job: QueuedJob) => Promise<void>;
+  private store: IOfflineQueueStore;
+  private clock: Clock;
+  private logger: Logger | undefined;
+  private timer?: TimerHandle;
+  private active = false;
+  private jobCounter = 0;
+
+  /** Tail of the operation chain; queue mutations run one at a time */
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create offline queue
+   *
+   * @param {OfflineQueueConfig} config - Queue configuration
+   */
+  constructor(config: OfflineQueueConfig) {
+    this.config = {
+      maxAttempts: config.maxAttempts ?? DEFAULT_CONFIG.maxAttempts,
+      retryDelay: config.retryDelay ?? DEFAULT_CONFIG.retryDelay,
+      maxRetryDelay: config.maxRetryDelay ?? DEFAULT_CONFIG.maxRetryDelay,
+    };
+    this.runJob = config.runJob;
+    this.store = config.store ?? new MemoryOfflineQueueStore();
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Start replaying jobs when they become due
+   *
+   * Jobs persisted by a previous session are picked up.
+   *
+   * @returns {Promise<void>}
+   */
+  async start(): Promise<void> {
+    this.active = true;
+    await this.scheduleReplay();
+  }
+
+  /**
+   * Stop the replay timer (queued jobs are kept)
+   *
+   * @returns {void}
+   */
+  stop(): void {
+    this.active = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Add deferred work to the queue
+   *
+   * Jobs of the same source, account and data type whose ranges overlap or
+   * touch the new range are merged into a single job covering all of them;
+   * the merged job keeps the latest `notBefore` time and the highest attempt
+   * count.
+   *
+   * @param {QueuedJobInput} input - Deferred work
+   * @returns {Promise<QueuedJob>} Queued (possibly merged) job
+   */
+  async enqueue(input: QueuedJobInput): Promise<QueuedJob> {
+    const job = await this.serialize(async () => {
+      const now = this.clock.now();
+      const nowIso = new Date(now).toISOString();
+      const notBefore = input.notBefore ?? new Date(now + this.config.retryDelay).toISOString();
+
+      const merged: QueuedJob = {
+        id: `job_${now}_${++this.jobCounter}`,
+        kind: input.kind,
+        source: input.source,
+        dataType: input.dataType,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        attempts: 0,
+        notBefore,
+        createdAt: nowIso,
+        updatedAt: nowIso,
+      };
+
+      if (input.accountId !== undefined) {
+        merged.accountId = input.accountId;
+      }
+      if (input.notBefore === undefined) {
+        merged.offline = true;
+      }
+      if (input.lastError !== undefined) {
+        merged.lastError = input.lastError;
+      }
+
+      const overlapping = (await this.loadJobs()).filter(
+        (existing) =>
+          existing.source === input.source &&
+          existing.accountId === input.accountId &&
+          existing.dataType === input.dataType &&
+          Date.parse(existing.startDate) <= Date.parse(merged.endDate) &&
+          Date.parse(merged.startDate) <= Date.parse(existing.endDate)
+      );
+
+      for (const existing of overlapping) {
+        if (Date.parse(existing.createdAt) <= Date.parse(merged.createdAt)) {
+          merged.id = existing.id;
+          merged.createdAt = existing.createdAt;
+        }
+        if (Date.parse(existing.startDate) < Date.parse(merged.startDate)) {
+          merged.startDate = existing.startDate;
+        }
+        if (Date.parse(existing.endDate) > Date.parse(merged.endDate)) {
+          merged.endDate = existing.endDate;
+        }
+        if (Date.parse(existing.notBefore) > Date.parse(merged.notBefore)) {
+          merged.notBefore = existing.notBefore;
+        }
+        if (existing.kind === 'sync') {
+          merged.kind = 'sync';
+        }
+        if (existing.offline !== true) {
+          delete merged.offline;
+        }
+        merged.attempts = Math.max(merged.attempts, existing.attempts);
+
+        await this.store.delete(existing.id);
+      }
+
+      await this.store.set(merged.id, merged);
+
+      this.log(
+        LogLevel.DEBUG,
+        `Queued ${merged.kind} ${merged.source}:${merged.dataType} ` +
+          `${merged.startDate}..${merged.endDate} (not before ${merged.notBefore})`
+      );
+
+      return merged;
+    });
+
+    await this.scheduleReplay();
+    return job;
+  }
+
+  /**
+   * List queued jobs, oldest first
+   *
+   * @param {HealthSource} [source] - Only list jobs for this source
+   * @returns {Promise<QueuedJob[]>} Queued jobs
+   */
+  async list(source?: HealthSource): Promise<QueuedJob[]> {
+    const jobs = await this.loadJobs();
+    return jobs.filter((job) => source === undefined || job.source === source);
+  }
+
+  /**
+   * Remove a queued job
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<boolean>} True if removed
+   */
+  async remove(id: string): Promise<boolean> {
+    const removed = await this.serialize(() => this.store.delete(id));
+    await this.scheduleReplay();
+    return removed;
+  }
+
+  /**
+   * Remove queued jobs without replaying them
+   *
+   * @param {HealthSource} [source] - Only remove jobs for this source
+   * @returns {Promise<number>} Number of jobs removed
+   */
+  async clear(source?: HealthSource): Promise<number> {
+    const count = await this.serialize(async () => {
+      const jobs = await this.list(source);
+
+      if (source === undefined) {
+        await this.store.clear();
+      } else {
+        for (const job of jobs) {
+          await this.store.delete(job.id);
+        }
+      }
+
+      return jobs.length;
+    });
+
+    await this.scheduleReplay();
+    return count;
+  }
+
+  /**
+   * Replay due jobs
+   *
+   * Jobs run one at a time, oldest first. A job deferred again takes the
+   * new reset time; a job that fails is backed off exponentially. Jobs
+   * that reach the maximum number of attempts are dropped.
+   *
+   * @param {QueueDrainOptions} [options] - Drain options
+   * @returns {Promise<QueueDrainResult>} Drain result
+   */
+  async drain(options: QueueDrainOptions = {}): Promise<QueueDrainResult> {
+    const result = await this.serialize(async () => {
+      const now = this.clock.now();
+      const due = (await this.list(options.source)).filter(
+        (job) =>
+          options.force === true ||
+          (options.offline === true && job.offline === true) ||
+          Date.parse(job.notBefore) <= now
+      );
+      const drainResult: QueueDrainResult = {
+        completed: [],
+        deferred: [],
+        dropped: [],
+        remaining: 0,
+      };
+
+      for (const job of due) {
+        try {
+          await this.runJob(job);
+          await this.store.delete(job.id);
+          drainResult.completed.push(job);
+          this.log(LogLevel.DEBUG, `Replayed ${job.kind} ${job.source}:${job.dataType}`);
+        } catch (error) {
+          const updated = this.reschedule(job, error as Error);
+
+          if (updated.attempts >= this.config.maxAttempts) {
+            await this.store.delete(job.id);
+            drainResult.dropped.push(updated);
+            this.log(
+              LogLevel.WARN,
+              `Dropped ${job.kind} ${job.source}:${job.dataType} after ${updated.attempts} attempts`
+            );
+          } else {
+            await this.store.set(job.id, updated);
+            drainResult.deferred.push(updated);
+          }
+        }
+      }
+
+      drainResult.remaining = (await this.store.keys()).length;
+      return drainResult;
+    });
+
+    await this.scheduleReplay();
+    return result;
+  }
+
+  /**
+   * Record a failed replay attempt
+   *
+   * @param {QueuedJob} job - Replayed job
+   * @param {Error} error - Replay error
+   * @returns {QueuedJob} Updated job
+   * @private
+   */
+  private reschedule(job: QueuedJob, error: Error): QueuedJob {
+    const now = this.clock.now();
+    const attempts = job.attempts + 1;
+    const backoff = Math.min(
+      this.config.retryDelay * Math.pow(2, attempts - 1),
+      this.config.maxRetryDelay
+    );
+
+    const resetAt =
+      error instanceof OperationDeferredError && error.retryAt !== undefined
+        ? Date.parse(error.retryAt)
+        : NaN;
+    const notBefore = Number.isNaN(resetAt) ? now + backoff : Math.max(resetAt, now);
+
+    const updated: QueuedJob = {
+      ...job,
+      attempts,
+      notBefore: new Date(notBefore).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      lastError: error.message,
+    };
+
+    // Deferred again without a reset time: the source is still unreachable
+    if (error instanceof OperationDeferredError && Number.isNaN(resetAt)) {
+      updated.offline = true;
+    } else {
+      delete updated.offline;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Arm the replay timer for the earliest due job
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async scheduleReplay(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+
+    const jobs = await this.loadJobs();
+    this.clearTimer();
+
+    if (jobs.length === 0) {
+      return;
+    }
+
+    const next = Math.min(...jobs.map((job) => Date.parse(job.notBefore)));
+    const delay = Math.max(0, next - this.clock.now());
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.drain().catch((error) => {
+        this.log(LogLevel.ERROR, 'Offline queue replay failed', error as Error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Cancel the replay timer
+   *
+   * @private
+   */
+  private clearTimer(): void {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Load all stored jobs, oldest first
+   *
+   * @returns {Promise<QueuedJob[]>} Jobs
+   * @private
+   */
+  private async loadJobs(): Promise<QueuedJob[]> {
+    const jobs: QueuedJob[] = [];
+
+    for (const id of await this.store.keys()) {
+      const job = await this.store.get(id);
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    return jobs.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  }
+
+  /**
+   * Run an operation after all previously started ones
+   *
+   * @param {() => Promise<T>} operation - Operation
+   * @returns {Promise<T>} Operation result
+   * @private
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(operation, operation);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Log a message
+   *
+   * @param {LogLevel} level - Log level
+   * @param {string} message - Log message
+   * @param {Error} [error] - Optional error
+   * @private
+   */
+  private log(level: LogLevel, message: string, error?: Error): void {
+    if (!this.logger) {
+      return;
+    }
+
+    const msg = `[OfflineQueue] ${message}`;
+
+    switch (level) {
+      case LogLevel.DEBUG:
+        this.logger.debug(msg);
+        break;
+      case LogLevel.INFO:
+        this.logger.info(msg);
+        break;
+      case LogLevel.WARN:
+        this.logger.warn(msg);
+        break;
+      case LogLevel.ERROR:
+        this.logger.error(msg, error);
+        break;
+    }
+  }
+}
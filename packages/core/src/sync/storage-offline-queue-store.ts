@@ -0,0 +1,97 @@
+/**
+ * Storage Offline Queue Store
+ *
+ * Persistent storage for deferred jobs. Jobs are stored as JSON in a
+ * key-value storage adapter and survive restarts, so work deferred while
+ * offline or rate limited is replayed by the next session.
+ *
+ * @module sync/storage-offline-queue-store
+ */
+
+import { IKeyValueStorage } from '../cache/storage-adapter';
+import { IOfflineQueueStore, QueuedJob } from './offline-queue-store';
+
+/**
+ * Storage Offline Queue Store
+ *
+ * The storage should not be shared with other stores or the cache: `keys()`
+ * and `clear()` cover every key of its namespace.
+ *
+ * @class StorageOfflineQueueStore
+ * @implements {IOfflineQueueStore}
+ */
+export class StorageOfflineQueueStore implements IOfflineQueueStore {
+  private storage: IKeyValueStorage;
+
+  /**
+   * Create storage offline queue store
+   *
+   * @param {IKeyValueStorage} storage - Storage holding the jobs
+   */
+  constructor(storage: IKeyValueStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get a job by ID
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<QueuedJob | null>} Stored job or null if not found or unparsable
+   */
+  async get(id: string): Promise<QueuedJob | null> {
+    const value = await this.storage.getItem(id);
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as QueuedJob;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a job
+   *
+   * @param {string} id - Job ID
+   * @param {QueuedJob} job - Job to store
+   * @returns {Promise<void>}
+   */
+  async set(id: string, job: QueuedJob): Promise<void> {
+    await this.storage.setItem(id, JSON.stringify(job));
+  }
+
+  /**
+   * Delete a job
+   *
+   * @param {string} id - Job ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    if ((await this.storage.getItem(id)) === null) {
+      return false;
+    }
+
+    await this.storage.removeItem(id);
+    return true;
+  }
+
+  /**
+   * Get all job IDs in the store
+   *
+   * @returns {Promise<string[]>} Array of job IDs
+   */
+  keys(): Promise<string[]> {
+    return this.storage.getAllKeys();
+  }
+
+  /**
+   * Clear all jobs
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void> {
+    return this.storage.clear();
+  }
+}
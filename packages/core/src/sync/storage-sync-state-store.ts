@@ -0,0 +1,97 @@
+/**
+ * Storage Sync State Store
+ *
+ * Persistent sync cursor storage. Cursors are stored as JSON in a
+ * key-value storage adapter and survive restarts, so incremental syncs
+ * resume where the previous session stopped.
+ *
+ * @module sync/storage-sync-state-store
+ */
+
+import { IKeyValueStorage } from '../cache/storage-adapter';
+import { ISyncStateStore, SyncCursor } from './sync-state-store';
+
+/**
+ * Storage Sync State Store
+ *
+ * The storage should not be shared with other stores or the cache: `keys()`
+ * and `clear()` cover every key of its namespace.
+ *
+ * @class StorageSyncStateStore
+ * @implements {ISyncStateStore}
+ */
+export class StorageSyncStateStore implements ISyncStateStore {
+  private storage: IKeyValueStorage;
+
+  /**
+   * Create storage sync state store
+   *
+   * @param {IKeyValueStorage} storage - Storage holding the cursors
+   */
+  constructor(storage: IKeyValueStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get a sync cursor by key
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<SyncCursor | null>} Stored cursor or null if not found or unparsable
+   */
+  async get(key: string): Promise<SyncCursor | null> {
+    const value = await this.storage.getItem(key);
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as SyncCursor;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @param {SyncCursor} cursor - Cursor to store
+   * @returns {Promise<void>}
+   */
+  async set(key: string, cursor: SyncCursor): Promise<void> {
+    await this.storage.setItem(key, JSON.stringify(cursor));
+  }
+
+  /**
+   * Delete a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async delete(key: string): Promise<boolean> {
+    if ((await this.storage.getItem(key)) === null) {
+      return false;
+    }
+
+    await this.storage.removeItem(key);
+    return true;
+  }
+
+  /**
+   * Get all keys in the store
+   *
+   * @returns {Promise<string[]>} Array of sync state keys
+   */
+  keys(): Promise<string[]> {
+    return this.storage.getAllKeys();
+  }
+
+  /**
+   * Clear all sync cursors
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void> {
+    return this.storage.clear();
+  }
+}
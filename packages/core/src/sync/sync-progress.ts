@@ -0,0 +1,112 @@
+/**
+ * Sync Progress Tracker
+ *
+ * Tracks completion of source (account) × data type units during a sync and
+ * derives `SyncProgress` snapshots, including a time-remaining estimate
+ * based on the throughput observed so far.
+ *
+ * @module sync/sync-progress
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+import { SyncProgress } from '../types/config';
+
+/**
+ * Source, or account of a source, being synced
+ *
+ * @interface SyncTarget
+ */
+export interface SyncTarget {
+  /** Data source */
+  source: HealthSource;
+
+  /** Account of the source (omitted for single-account sources) */
+  accountId?: string;
+}
+
+/**
+ * Sync Progress Tracker
+ *
+ * @class SyncProgressTracker
+ */
+export class SyncProgressTracker {
+  private readonly totalSources: number;
+  private readonly totalUnits: number;
+  private readonly unitsPerSource: number;
+  private readonly startedAt: number;
+  private readonly now: () => number;
+  private completedByTarget: Map<string, number> = new Map();
+  private completedUnits = 0;
+  private totalRecords = 0;
+
+  /**
+   * Create progress tracker
+   *
+   * @param {SyncTarget[]} targets - Sources (accounts) being synced
+   * @param {DataType[]} dataTypes - Data types synced for each target
+   * @param {() => number} [now] - Clock returning epoch milliseconds
+   */
+  constructor(targets: SyncTarget[], dataTypes: DataType[], now: () => number = Date.now) {
+    this.totalSources = targets.length;
+    this.unitsPerSource = dataTypes.length;
+    this.totalUnits = targets.length * dataTypes.length;
+    this.now = now;
+    this.startedAt = now();
+  }
+
+  /**
+   * Record a completed unit and return the resulting progress
+   *
+   * `totalDataTypes`/`completedDataTypes` count source × data type units,
+   * so they reach the same total regardless of how many sources are synced.
+   * Each account of a source counts as a source of its own.
+   *
+   * @param {SyncTarget} target - Source (account) of the completed unit
+   * @param {DataType} dataType - Data type of the completed unit
+   * @param {number} recordCount - Records synced by the unit
+   * @returns {SyncProgress} Progress snapshot
+   */
+  complete(target: SyncTarget, dataType: DataType, recordCount: number): SyncProgress {
+    const key = `${target.source}@${target.accountId ?? ''}`;
+
+    this.completedUnits++;
+    this.totalRecords += recordCount;
+    this.completedByTarget.set(key, (this.completedByTarget.get(key) ?? 0) + 1);
+
+    let completedSources = 0;
+    for (const count of this.completedByTarget.values()) {
+      if (count >= this.unitsPerSource) {
+        completedSources++;
+      }
+    }
+
+    const progress: SyncProgress = {
+      currentSource: target.source,
+      currentDataType: dataType,
+      totalSources: this.totalSources,
+      completedSources,
+      totalDataTypes: this.totalUnits,
+      completedDataTypes: this.completedUnits,
+      totalRecords: this.totalRecords,
+      percentage:
+        this.totalUnits > 0 ? Math.round((this.completedUnits / this.totalUnits) * 100) : 100,
+    };
+
+    // Remaining time from the average time per unit observed so far
+    const elapsed = this.now() - this.startedAt;
+    const remainingUnits = this.totalUnits - this.completedUnits;
+    if (remainingUnits === 0) {
+      progress.estimatedTimeRemaining = 0;
+    } else if (elapsed > 0) {
+      progress.estimatedTimeRemaining = Math.round(
+        (elapsed / this.completedUnits) * remainingUnits
+      );
+    }
+
+    if (target.accountId !== undefined) {
+      progress.currentAccountId = target.accountId;
+    }
+
+    return progress;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Sync Scheduler
+ *
+ * Bounded-concurrency work queue for sync jobs. Jobs belong to a group
+ * (one `sync()` call) with its own concurrency limit, and to a source with
+ * a per-source limit so rate-limited cloud APIs are not hammered. Queued
+ * jobs start in priority order and can be cancelled with an AbortSignal.
+ *
+ * @module sync/sync-scheduler
+ */
+
+import { HealthSource } from '../models/unified-data';
+import { SyncCancelledError } from '../types/config';
+
+/**
+ * Job submitted to the scheduler
+ *
+ * @interface SyncSchedulerJob
+ * @template T
+ */
+export interface SyncSchedulerJob<T> {
+  /** Source the job talks to (used for per-source limits) */
+  source: HealthSource;
+
+  /** Group the job belongs to (e.g. one sync call) */
+  group: string;
+
+  /** Maximum concurrent jobs for the group */
+  groupConcurrency: number;
+
+  /** Priority (higher = start first) */
+  priority?: number;
+
+  /** Signal that cancels the job while it is still queued */
+  signal?: AbortSignal;
+
+  /** Work to perform */
+  run: () => Promise<T>;
+}
+
+/**
+ * Sync scheduler configuration
+ *
+ * @interface SyncSchedulerConfig
+ */
+export interface SyncSchedulerConfig {
+  /** Maximum concurrent jobs per source (default: unlimited) */
+  sourceLimit?: (source: HealthSource) => number;
+}
+
+/**
+ * Queued job with its settlement callbacks
+ *
+ * @interface QueuedJob
+ * @private
+ */
+interface QueuedJob {
+  job: SyncSchedulerJob<unknown>;
+  sequence: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+/**
+ * Sync Scheduler
+ *
+ * @class SyncScheduler
+ */
+export class SyncScheduler {
+  private queue: QueuedJob[] = [];
+  private runningBySource: Map<HealthSource, number> = new Map();
+  private runningByGroup: Map<string, number> = new Map();
+  private sourceLimit: (source: HealthSource) => number;
+  private sequence = 0;
+
+  /**
+   * Create sync scheduler
+   *
+   * @param {SyncSchedulerConfig} [config] - Scheduler configuration
+   */
+  constructor(config: SyncSchedulerConfig = {}) {
+    this.sourceLimit = config.sourceLimit ?? ((): number => Infinity);
+  }
+
+  /**
+   * Schedule a job
+   *
+   * @template T
+   * @param {SyncSchedulerJob<T>} job - Job to run
+   * @returns {Promise<T>} Resolves with the job result
+   * @throws {SyncCancelledError} If the job is cancelled before it starts
+   */
+  schedule<T>(job: SyncSchedulerJob<T>): Promise<T> {
+    if (job.signal?.aborted) {
+      return Promise.reject(new SyncCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedJob = {
+        job: job as SyncSchedulerJob<unknown>,
+        sequence: this.sequence++,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      };
+
+      if (job.signal) {
+        const signal = job.signal;
+        queued.onAbort = (): void => {
+          this.remove(queued);
+          reject(new SyncCancelledError());
+        };
+        signal.addEventListener('abort', queued.onAbort, { once: true });
+      }
+
+      this.queue.push(queued);
+      this.queue.sort(
+        (a, b) => (b.job.priority ?? 0) - (a.job.priority ?? 0) || a.sequence - b.sequence
+      );
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Number of jobs waiting to start
+   *
+   * @returns {number} Queued job count
+   */
+  pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of jobs currently running
+   *
+   * @returns {number} Running job count
+   */
+  runningCount(): number {
+    let count = 0;
+    for (const running of this.runningBySource.values()) {
+      count += running;
+    }
+    return count;
+  }
+
+  /**
+   * Cancel all queued jobs
+   *
+   * Running jobs are allowed to finish.
+   *
+   * @returns {void}
+   */
+  clear(): void {
+    const queued = this.queue;
+    this.queue = [];
+
+    for (const entry of queued) {
+      this.detachAbort(entry);
+      entry.reject(new SyncCancelledError());
+    }
+  }
+
+  /**
+   * Start every queued job that fits within its limits
+   *
+   * @private
+   */
+  private dispatch(): void {
+    for (const entry of [...this.queue]) {
+      const { source, group, groupConcurrency } = entry.job;
+
+      if ((this.runningBySource.get(source) ?? 0) >= this.sourceLimit(source)) {
+        continue;
+      }
+      if ((this.runningByGroup.get(group) ?? 0) >= groupConcurrency) {
+        continue;
+      }
+
+      this.remove(entry);
+      this.detachAbort(entry);
+      this.start(entry);
+    }
+  }
+
+  /**
+   * Run a job and release its slots when it settles
+   *
+   * @param {QueuedJob} entry - Job to run
+   * @private
+   */
+  private start(entry: QueuedJob): void {
+    const { source, group } = entry.job;
+
+    this.runningBySource.set(source, (this.runningBySource.get(source) ?? 0) + 1);
+    this.runningByGroup.set(group, (this.runningByGroup.get(group) ?? 0) + 1);
+
+    const release = (): void => {
+      this.decrement(this.runningBySource, source);
+      this.decrement(this.runningByGroup, group);
+      this.dispatch();
+    };
+
+    let result: Promise<unknown>;
+    try {
+      result = entry.job.run();
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    result.then(
+      (value) => {
+        release();
+        entry.resolve(value);
+      },
+      (error: Error) => {
+        release();
+        entry.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Remove a job from the queue
+   *
+   * @param {QueuedJob} entry - Job to remove
+   * @private
+   */
+  private remove(entry: QueuedJob): void {
+    const index = this.queue.indexOf(entry);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  /**
+   * Detach a job's abort listener
+   *
+   * @param {QueuedJob} entry - Job
+   * @private
+   */
+  private detachAbort(entry: QueuedJob): void {
+    if (entry.onAbort && entry.job.signal) {
+      entry.job.signal.removeEventListener('abort', entry.onAbort);
+    }
+  }
+
+  /**
+   * Decrement a running counter, dropping it at zero
+   *
+   * @param {Map<K, number>} counters - Counter map
+   * @param {K} key - Counter key
+   * @private
+   */
+  private decrement<K>(counters: Map<K, number>, key: K): void {
+    const next = (counters.get(key) ?? 1) - 1;
+    if (next <= 0) {
+      counters.delete(key);
+    } else {
+      counters.set(key, next);
+    }
+  }
+}
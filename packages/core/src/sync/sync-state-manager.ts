@@ -0,0 +1,432 @@
+/**
+ * Sync State Manager
+ *
+ * Tracks incremental sync progress per source (account) × data type.
+ * Resolves the window each sync should fetch, advances high-water marks
+ * after successful syncs, and classifies fetched records as new, updated,
+ * or unchanged.
+ *
+ * @module sync/sync-state-manager
+ */
+
+import { DataType, HealthSource, UnifiedHealthData } from '../models/unified-data';
+import { Logger, LogLevel } from '../types/config';
+import { ISyncStateStore, SyncCursor, SeenRecord, generateSyncStateKey } from './sync-state-store';
+import { MemorySyncStateStore } from './memory-sync-state-store';
+import { startOfPeriod } from '../utils/timezone';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Sync state manager configuration
+ *
+ * @interface SyncStateManagerConfig
+ */
+export interface SyncStateManagerConfig {
+  /** Cursor storage backend (defaults to in-memory) */
+  store?: ISyncStateStore;
+
+  /** Window fetched when no cursor exists, in milliseconds */
+  initialWindow?: number;
+
+  /**
+   * How far before the high-water mark incremental windows start, in
+   * milliseconds, so records uploaded late with earlier timestamps are still
+   * fetched (default: 24 hours)
+   */
+  lookback?: number;
+
+  /** IANA time zone; when set, initial windows start at local midnight */
+  timezone?: string;
+
+  /**
+   * How long seen records are remembered, in milliseconds (default: the
+   * initial window or lookback, whichever is longer). The seen records are
+   * part of the cursor and rewritten on every commit, so longer retention
+   * makes commits more expensive.
+   */
+  seenRetention?: number;
+
+  /** Clock (defaults to the system clock) */
+  clock?: Clock;
+
+  /** Logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Date window to fetch for one source (account) × data type
+ *
+ * @interface SyncWindow
+ */
+export interface SyncWindow {
+  /** Window start (ISO 8601) */
+  startDate: string;
+
+  /** Window end (ISO 8601) */
+  endDate: string;
+
+  /** Whether the window resumes from a stored cursor */
+  incremental: boolean;
+}
+
+/**
+ * Options used to resolve a sync window
+ *
+ * @interface SyncWindowOptions
+ */
+export interface SyncWindowOptions {
+  /** Explicit window start (overrides the cursor) */
+  startDate?: string;
+
+  /** Explicit window end (defaults to now) */
+  endDate?: string;
+
+  /** Ignore the stored cursor */
+  forceFull?: boolean;
+}
+
+/**
+ * Record counts produced by committing a sync window
+ *
+ * @interface SyncDelta
+ */
+export interface SyncDelta {
+  /** Records never seen before */
+  newRecords: number;
+
+  /** Previously seen records whose content changed */
+  updatedRecords: number;
+
+  /** Previously seen records with identical content */
+  unchangedRecords: number;
+
+  /** New and updated records, in fetch order */
+  changed: UnifiedHealthData[];
+}
+
+/**
+ * Default sync state configuration
+ */
+const DEFAULT_CONFIG: Required<Pick<SyncStateManagerConfig, 'initialWindow' | 'lookback'>> = {
+  initialWindow: 30 * 24 * 60 * 60 * 1000, // 30 days
+  lookback: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+/**
+ * Sync State Manager
+ *
+ * @class SyncStateManager
+ */
+export class SyncStateManager {
+  private config: Required<Pick<SyncStateManagerConfig, 'initialWindow' | 'lookback'>>;
+  private seenRetention: number;
+  private store: ISyncStateStore;
+  private timezone: string | undefined;
+  private clock: Clock;
+  private logger: Logger | undefined;
+
+  /**
+   * Create sync state manager
+   *
+   * @param {SyncStateManagerConfig} [config] - Sync state configuration
+   */
+  constructor(config: SyncStateManagerConfig = {}) {
+    this.config = {
+      initialWindow: config.initialWindow ?? DEFAULT_CONFIG.initialWindow,
+      lookback: config.lookback ?? DEFAULT_CONFIG.lookback,
+    };
+    this.seenRetention =
+      config.seenRetention ?? Math.max(this.config.initialWindow, this.config.lookback);
+    this.store = config.store ?? new MemorySyncStateStore();
+    this.timezone = config.timezone;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Get the stored cursor for a source (account) × data type
+   *
+   * @param {HealthSource} source - Data source
+   * @param {DataType} dataType - Type of health data
+   * @param {string} [accountId] - Account of the source
+   * @returns {Promise<SyncCursor | null>} Stored cursor or null
+   */
+  getCursor(
+    source: HealthSource,
+    dataType: DataType,
+    accountId?: string
+  ): Promise<SyncCursor | null> {
+    return this.store.get(generateSyncStateKey(source, dataType, accountId));
+  }
+
+  /**
+   * Resolve the window the next sync should fetch
+   *
+   * Explicit start dates and forced full syncs ignore the cursor; otherwise
+   * the window resumes from the last high-water mark, minus the lookback.
+   *
+   * @param {HealthSource} source - Data source
+   * @param {DataType} dataType - Type of health data
+   * @param {SyncWindowOptions} [options] - Window options
+   * @param {string} [accountId] - Account of the source
+   * @returns {Promise<SyncWindow>} Window to fetch
+   */
+  async resolveWindow(
+    source: HealthSource,
+    dataType: DataType,
+    options: SyncWindowOptions = {},
+    accountId?: string
+  ): Promise<SyncWindow> {
+    const endDate = options.endDate ?? new Date(this.clock.now()).toISOString();
+
+    if (options.startDate !== undefined) {
+      return { startDate: options.startDate, endDate, incremental: false };
+    }
+
+    if (!options.forceFull) {
+      const cursor = await this.getCursor(source, dataType, accountId);
+      if (cursor) {
+        const start = Date.parse(cursor.highWaterMark) - this.config.lookback;
+        return { startDate: new Date(start).toISOString(), endDate, incremental: true };
+      }
+    }
+
+    let start = Date.parse(endDate) - this.config.initialWindow;
+    if (this.timezone !== undefined) {
+      start = startOfPeriod(start, 'day', this.timezone);
+    }
+
+    return { startDate: new Date(start).toISOString(), endDate, incremental: false };
+  }
+
+  /**
+   * Record the result of a successful sync window
+   *
+   * Classifies records against those seen previously and advances the
+   * high-water mark when the window is contiguous with the stored cursor.
+   *
+   * @param {HealthSource} source - Data source
+   * @param {DataType} dataType - Type of health data
+   * @param {SyncWindow} window - Window that was fetched
+   * @param {UnifiedHealthData[]} records - Records fetched for the window
+   * @param {string} [accountId] - Account of the source
+   * @returns {Promise<SyncDelta>} New/updated/unchanged counts
+   */
+  async commit(
+    source: HealthSource,
+    dataType: DataType,
+    window: SyncWindow,
+    records: UnifiedHealthData[],
+    accountId?: string
+  ): Promise<SyncDelta> {
+    const key = generateSyncStateKey(source, dataType, accountId);
+    const existing = await this.store.get(key);
+    const seen: Record<string, SeenRecord> = { ...existing?.seen };
+    const delta: SyncDelta = {
+      newRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      changed: [],
+    };
+
+    for (const record of records) {
+      const identity = getRecordIdentity(record);
+      const fingerprint = getRecordFingerprint(record);
+      const previous = seen[identity];
+
+      if (!previous) {
+        delta.newRecords++;
+        delta.changed.push(record);
+      } else if (previous.fingerprint !== fingerprint) {
+        delta.updatedRecords++;
+        delta.changed.push(record);
+      } else {
+        delta.unchangedRecords++;
+      }
+
+      seen[identity] = { fingerprint, timestamp: record.timestamp };
+    }
+
+    // Forget records too old to be fetched again
+    const cutoff = this.clock.now() - this.seenRetention;
+    for (const [identity, entry] of Object.entries(seen)) {
+      if (Date.parse(entry.timestamp) < cutoff) {
+        delete seen[identity];
+      }
+    }
+
+    let highWaterMark = existing?.highWaterMark ?? window.endDate;
+    if (
+      existing &&
+      Date.parse(window.startDate) <= Date.parse(existing.highWaterMark) &&
+      Date.parse(window.endDate) > Date.parse(existing.highWaterMark)
+    ) {
+      highWaterMark = window.endDate;
+    }
+
+    const cursor: SyncCursor = {
+      source,
+      dataType,
+      highWaterMark,
+      lastSyncedAt: new Date(this.clock.now()).toISOString(),
+      seen,
+    };
+
+    if (accountId !== undefined) {
+      cursor.accountId = accountId;
+    }
+
+    await this.store.set(key, cursor);
+
+    this.log(
+      LogLevel.DEBUG,
+      `Committed ${key}: ${delta.newRecords} new, ${delta.updatedRecords} updated (HWM: ${highWaterMark})`
+    );
+
+    return delta;
+  }
+
+  /**
+   * Reset stored cursors
+   *
+   * Without arguments all cursors are removed; otherwise only cursors
+   * matching the given source, data type and/or account.
+   *
+   * @param {HealthSource} [source] - Source to reset
+   * @param {DataType} [dataType] - Data type to reset
+   * @param {string} [accountId] - Account to reset
+   * @returns {Promise<number>} Number of cursors removed
+   */
+  async reset(source?: HealthSource, dataType?: DataType, accountId?: string): Promise<number> {
+    if (source === undefined && dataType === undefined && accountId === undefined) {
+      const count = (await this.store.keys()).length;
+      await this.store.clear();
+      this.log(LogLevel.INFO, `Reset ${count} sync cursors`);
+      return count;
+    }
+
+    let count = 0;
+    for (const key of await this.store.keys()) {
+      const cursor = await this.store.get(key);
+      if (!cursor) {
+        continue;
+      }
+      if (source !== undefined && cursor.source !== source) {
+        continue;
+      }
+      if (dataType !== undefined && cursor.dataType !== dataType) {
+        continue;
+      }
+      if (accountId !== undefined && cursor.accountId !== accountId) {
+        continue;
+      }
+      if (await this.store.delete(key)) {
+        count++;
+      }
+    }
+
+    this.log(LogLevel.INFO, `Reset ${count} sync cursors`);
+    return count;
+  }
+
+  /**
+   * Log message
+   *
+   * @param {LogLevel} level - Log level
+   * @param {string} message - Log message
+   * @private
+   */
+  private log(level: LogLevel, message: string): void {
+    if (!this.logger) {
+      return;
+    }
+
+    const msg = `[SyncState] ${message}`;
+
+    switch (level) {
+      case LogLevel.DEBUG:
+        this.logger.debug(msg);
+        break;
+      case LogLevel.INFO:
+        this.logger.info(msg);
+        break;
+      case LogLevel.WARN:
+        this.logger.warn(msg);
+        break;
+      case LogLevel.ERROR:
+        this.logger.error(msg);
+        break;
+    }
+  }
+}
+
+/**
+ * Get a stable identity for a record
+ *
+ * Prefers the source platform's record ID; records without one are
+ * identified by their type and time range.
+ *
+ * @param {UnifiedHealthData} record - Health record
+ * @returns {string} Record identity
+ */
+export function getRecordIdentity(record: UnifiedHealthData): string {
+  if (record.metadata.sourceId !== undefined) {
+    return record.metadata.sourceId;
+  }
+
+  return `${record.dataType}@${record.timestamp}/${record.endTimestamp ?? ''}`;
+}
+
+/**
+ * Fingerprint a record's content
+ *
+ * Ignores fields that change on every sync (SDK-generated ID, sync time and
+ * freshness-dependent quality) so that only real content changes differ.
+ *
+ * @param {UnifiedHealthData} record - Health record
+ * @returns {string} Content fingerprint
+ */
+export function getRecordFingerprint(record: UnifiedHealthData): string {
+  const { id: _id, metadata, ...content } = record;
+  const { syncedAt: _syncedAt, quality: _quality, ...stableMetadata } = metadata;
+
+  return hashString(stableStringify({ ...content, metadata: stableMetadata }));
+}
+
+/**
+ * Serialize a value with sorted object keys
+ *
+ * @param {unknown} value - Value to serialize
+ * @returns {string} Deterministic JSON string
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * 32-bit FNV-1a hash
+ *
+ * @param {string} input - String to hash
+ * @returns {string} Hex-encoded hash
+ */
+function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
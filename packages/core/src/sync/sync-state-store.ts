@@ -0,0 +1,115 @@
+/**
+ * Sync State Store Interface
+ *
+ * Abstract interface for persisting incremental sync cursors.
+ * Implementations can use different storage mechanisms (memory, AsyncStorage, SQLite, etc.)
+ *
+ * @module sync/sync-state-store
+ */
+
+import { DataType, HealthSource } from '../models/unified-data';
+
+/**
+ * Record previously seen by a sync run
+ *
+ * @interface SeenRecord
+ */
+export interface SeenRecord {
+  /** Content fingerprint used to detect updated records */
+  fingerprint: string;
+
+  /** Measurement timestamp of the record (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Sync cursor for a single source (account) × data type pair
+ *
+ * Cursors are plain JSON so any key-value storage can persist them.
+ *
+ * @interface SyncCursor
+ */
+export interface SyncCursor {
+  /** Data source */
+  source: HealthSource;
+
+  /** Account of the source (omitted for single-account sources) */
+  accountId?: string;
+
+  /** Type of health data */
+  dataType: DataType;
+
+  /** End of the last successfully synced window (ISO 8601) */
+  highWaterMark: string;
+
+  /** When the last successful sync completed (ISO 8601) */
+  lastSyncedAt: string;
+
+  /** Records seen by previous syncs, keyed by record identity */
+  seen: Record<string, SeenRecord>;
+}
+
+/**
+ * Sync state store interface
+ *
+ * Defines the contract for sync cursor storage backends.
+ *
+ * @interface ISyncStateStore
+ */
+export interface ISyncStateStore {
+  /**
+   * Get a sync cursor by key
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<SyncCursor | null>} Stored cursor or null if not found
+   */
+  get(key: string): Promise<SyncCursor | null>;
+
+  /**
+   * Store a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @param {SyncCursor} cursor - Cursor to store
+   * @returns {Promise<void>}
+   */
+  set(key: string, cursor: SyncCursor): Promise<void>;
+
+  /**
+   * Delete a sync cursor
+   *
+   * @param {string} key - Sync state key
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Get all keys in the store
+   *
+   * @returns {Promise<string[]>} Array of sync state keys
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Clear all sync cursors
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Generate sync state key for a source (account) × data type pair
+ *
+ * @param {HealthSource} source - Data source
+ * @param {DataType} dataType - Type of health data
+ * @param {string} [accountId] - Account of the source
+ * @returns {string} Serialized sync state key
+ */
+export function generateSyncStateKey(
+  source: HealthSource,
+  dataType: DataType,
+  accountId?: string
+): string {
+  const owner = accountId !== undefined ? `${source}@${encodeURIComponent(accountId)}` : source;
+  return `${owner}:${dataType}`;
+}
@@ -8,7 +8,16 @@
  */
 
 import { DataType, HealthSource } from '../models/unified-data';
-import { IHealthDataPlugin } from '../plugins/plugin-interface';
+import { IHealthDataPlugin, PluginConfig } from '../plugins/plugin-interface';
+import { PluginMiddleware } from '../plugins/plugin-middleware';
+import { PluginManifest } from '../plugins/plugin-loader';
+import { CompatibilityIssue } from '../plugins/plugin-compatibility';
+import { ISyncStateStore } from '../sync/sync-state-store';
+import { IOfflineQueueStore } from '../sync/offline-queue-store';
+import { Clock } from '../utils/clock';
+import { IKeyValueStorage } from '../cache/storage-adapter';
+import { FetchLike } from '../cache/cloud-cache';
+import { getSystemTimeZone } from '../utils/timezone';
 
 /**
  * Log level enumeration
@@ -51,6 +60,22 @@ export enum CacheLayer {
   ALL = 'all',
 }
 
+/**
+ * Memory cache eviction policy
+ *
+ * @enum {string}
+ */
+export enum EvictionPolicy {
+  /** Evict the least recently used entry */
+  LRU = 'lru',
+
+  /** Evict the least frequently used entry (least recently used on ties) */
+  LFU = 'lfu',
+
+  /** Evict expired entries first, then the entry expiring soonest */
+  TTL_FIRST = 'ttl_first',
+}
+
 /**
  * Cache configuration options
  *
@@ -66,16 +91,31 @@ export interface CacheConfig {
   /** Default cache duration in milliseconds */
   defaultTTL: number;
 
-  /** Maximum cache size in MB */
+  /** Maximum memory cache size in MB (approximate serialized size of the entries) */
   maxSize?: number;
 
   /** Custom TTL per data type (in milliseconds) */
   ttlByDataType?: Partial<Record<DataType, number>>;
 
-  /** Whether to use LRU eviction for memory cache */
+  /**
+   * Whether to use LRU eviction for memory cache; `false` selects
+   * `EvictionPolicy.TTL_FIRST` unless `evictionPolicy` is set
+   */
   useLRU?: boolean;
 
-  /** Cloud cache endpoint (if using cloud layer) */
+  /** Memory cache eviction policy (overrides `useLRU`) */
+  evictionPolicy?: EvictionPolicy;
+
+  /**
+   * Storage backing the `LOCAL_DB` layer (e.g. `FileStorageAdapter`,
+   * `AsyncStorageAdapter`); the layer is skipped without it
+   */
+  storage?: IKeyValueStorage;
+
+  /**
+   * Cloud cache endpoint (if using cloud layer); see `CloudCacheProvider`
+   * for the protocol it must implement
+   */
   cloudEndpoint?: string;
 
   /** Cloud cache authentication */
@@ -84,6 +124,9 @@ export interface CacheConfig {
     token?: string;
     headers?: Record<string, string>;
   };
+
+  /** HTTP client for the cloud layer (defaults to the global `fetch`) */
+  cloudFetch?: FetchLike;
 }
 
 /**
@@ -92,7 +135,7 @@ export interface CacheConfig {
  * @interface RetryConfig
  */
 export interface RetryConfig {
-  /** Maximum number of retry attempts */
+  /** Maximum number of attempts per plugin call, including the first */
   maxAttempts: number;
 
   /** Initial delay in milliseconds */
@@ -111,6 +154,63 @@ export interface RetryConfig {
   timeout: number;
 }
 
+/**
+ * Per-plugin circuit breaker configuration
+ *
+ * @interface CircuitBreakerConfig
+ */
+export interface CircuitBreakerConfig {
+  /** Whether failing plugins are short-circuited */
+  enabled: boolean;
+
+  /** Consecutive fetch/network failures that open the circuit */
+  failureThreshold: number;
+
+  /** Time the circuit stays open before a probe call is let through, in milliseconds */
+  resetTimeout: number;
+}
+
+/**
+ * Strategy for resolving records reported by more than one source
+ *
+ * @enum {string}
+ */
+export enum ConflictStrategy {
+  /** Keep the record from the source listed first in `sourcePriority` */
+  PREFER_SOURCE = 'prefer_source',
+
+  /** Keep the record with the highest quality score */
+  HIGHEST_QUALITY = 'highest_quality',
+
+  /** Keep the most recently recorded record */
+  NEWEST = 'newest',
+
+  /** Keep the highest-quality record, filling its missing fields from the others */
+  MERGE = 'merge',
+}
+
+/**
+ * Cross-source conflict resolution configuration
+ *
+ * @interface ConflictResolutionConfig
+ */
+export interface ConflictResolutionConfig {
+  /** Whether to deduplicate records across sources */
+  enabled: boolean;
+
+  /** Resolution strategy */
+  strategy: ConflictStrategy;
+
+  /** Source priority, highest first (used by PREFER_SOURCE and as a tie-breaker) */
+  sourcePriority: HealthSource[];
+
+  /** Maximum start and end time difference of the same measurement, in milliseconds */
+  timeTolerance: number;
+
+  /** Maximum relative difference for values to be considered similar (0-1) */
+  valueTolerance: number;
+}
+
 /**
  * Main SDK configuration
  *
@@ -135,6 +235,12 @@ export interface SDKConfig {
   /** Retry configuration */
   retry?: Partial<RetryConfig>;
 
+  /** Per-plugin circuit breaker configuration */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+
+  /** Cross-source conflict resolution configuration */
+  conflictResolution?: Partial<ConflictResolutionConfig>;
+
   /** Log level for SDK operations */
   logLevel?: LogLevel;
 
@@ -144,6 +250,29 @@ export interface SDKConfig {
   /** Plugins to register on initialization */
   plugins?: IHealthDataPlugin[];
 
+  /**
+   * Manifests of plugins to load on first use (see
+   * `HealthSyncSDK.registerPluginManifest()`)
+   */
+  pluginManifests?: PluginManifest[];
+
+  /**
+   * Configuration passed to every plugin's `initialize()`, on top of the
+   * SDK-level `apiBaseUrl`, `clientId`, `clientSecret`, retry timeout and
+   * logger (`custom.logger`)
+   */
+  pluginDefaults?: PluginConfig;
+
+  /**
+   * Per-plugin configuration keyed by plugin ID, or `id:instanceKey` for a
+   * single instance; merged over `pluginDefaults` (see
+   * `HealthSyncSDK.reconfigurePlugin()`)
+   */
+  pluginConfig?: Record<string, PluginConfig>;
+
+  /** Middleware run around every plugin call, in order (see `HealthSyncSDK.use()`) */
+  middleware?: PluginMiddleware[];
+
   /** Default data types to sync */
   defaultDataTypes?: DataType[];
 
@@ -153,12 +282,46 @@ export interface SDKConfig {
   /** Interval for background sync in milliseconds (0 = disabled) */
   syncInterval?: number;
 
-  /** Maximum age of data to fetch in days */
+  /** Maximum age of data to fetch in days (bounds the initial sync window) */
   maxDataAge?: number;
 
+  /**
+   * How far before the last synced point incremental syncs start, in
+   * milliseconds, to catch records uploaded late (default: 24 hours)
+   */
+  syncLookback?: number;
+
+  /**
+   * User's IANA time zone (e.g. `Europe/Berlin`), used for calendar day and
+   * week boundaries in queries, sync windows and aggregation
+   * (defaults to the host time zone)
+   */
+  timezone?: string;
+
   /** Whether to enable real-time updates */
   enableRealtimeUpdates?: boolean;
 
+  /**
+   * Storage for incremental sync cursors (defaults to in-memory; see
+   * `StorageSyncStateStore` to keep them across restarts)
+   */
+  syncStateStore?: ISyncStateStore;
+
+  /**
+   * Storage for fetch and sync jobs deferred by plugins (defaults to in-memory;
+   * see `StorageOfflineQueueStore` to keep them across restarts)
+   */
+  offlineQueueStore?: IOfflineQueueStore;
+
+  /**
+   * Maximum concurrent sync jobs per source
+   * (defaults to 1 for cloud-based plugins, unlimited for local ones)
+   */
+  sourceConcurrency?: Partial<Record<HealthSource, number>>;
+
+  /** Clock driving background sync timers (defaults to the system clock) */
+  clock?: Clock;
+
   /** Custom user identifier */
   userId?: string;
 
@@ -185,6 +348,19 @@ export interface Logger {
   error(message: string, error?: Error, ...args: unknown[]): void;
 }
 
+/**
+ * Options for connecting to or disconnecting from a health source
+ *
+ * @interface ConnectOptions
+ */
+export interface ConnectOptions {
+  /**
+   * Account to connect (the `instanceKey` of one of the source's plugins);
+   * defaults to the source's primary plugin
+   */
+  accountId?: string;
+}
+
 /**
  * Sync options for data synchronization
  *
@@ -197,13 +373,13 @@ export interface SyncOptions {
   /** Data types to sync (if not specified, sync all supported types) */
   dataTypes?: DataType[];
 
-  /** Start date for data sync (ISO 8601 format) */
+  /** Start date for data sync (ISO 8601, or `YYYY-MM-DD` for a day in the SDK time zone) */
   startDate?: string;
 
-  /** End date for data sync (ISO 8601 format) */
+  /** End date for data sync (ISO 8601, or `YYYY-MM-DD` for a day in the SDK time zone) */
   endDate?: string;
 
-  /** Whether to force a full sync (ignore cache) */
+  /** Whether to force a full sync (ignore stored sync cursors and cache) */
   forceFull?: boolean;
 
   /** Whether to sync in the background */
@@ -223,6 +399,9 @@ export interface SyncOptions {
 
   /** Priority level (higher = sync first) */
   priority?: number;
+
+  /** Signal to cancel the sync; queued jobs are dropped, running jobs finish */
+  signal?: AbortSignal;
 }
 
 /**
@@ -234,6 +413,9 @@ export interface SyncProgress {
   /** Current source being synced */
   currentSource: HealthSource;
 
+  /** Account of the current source (omitted for single-account sources) */
+  currentAccountId?: string;
+
   /** Current data type being synced */
   currentDataType: DataType;
 
@@ -243,10 +425,10 @@ export interface SyncProgress {
   /** Number of sources completed */
   completedSources: number;
 
-  /** Total number of data types to sync */
+  /** Total number of source × data type units to sync */
   totalDataTypes: number;
 
-  /** Number of data types completed */
+  /** Number of source × data type units completed */
   completedDataTypes: number;
 
   /** Total records synced so far */
@@ -305,6 +487,9 @@ export interface SourceSyncResult {
   /** Health source */
   source: HealthSource;
 
+  /** Account of the source (omitted for single-account sources) */
+  accountId?: string;
+
   /** Whether this source sync succeeded */
   success: boolean;
 
@@ -333,6 +518,9 @@ export interface DataTypeSyncResult {
   /** Number of records synced for this type */
   recordCount: number;
 
+  /** Whether the source does not provide this type (nothing was fetched) */
+  skipped?: boolean;
+
   /** Error if sync failed */
   error?: Error;
 }
@@ -549,6 +737,31 @@ export class PluginError extends SDKError {
   }
 }
 
+/**
+ * Plugin compatibility error
+ *
+ * Thrown when registering a plugin whose core or peer version requirements
+ * are not met, or whose registration would break another plugin's.
+ *
+ * @class PluginCompatibilityError
+ * @extends {PluginError}
+ */
+export class PluginCompatibilityError extends PluginError {
+  /** Unmet requirements */
+  public readonly issues: CompatibilityIssue[];
+
+  constructor(pluginId: string, issues: CompatibilityIssue[]) {
+    super(
+      `Plugin '${pluginId}' is incompatible: ${issues.map((issue) => issue.message).join('; ')}`,
+      pluginId,
+      409,
+      { issues }
+    );
+    this.name = 'PluginCompatibilityError';
+    this.issues = issues;
+  }
+}
+
 /**
  * Cache error
  *
@@ -601,6 +814,19 @@ export class SyncError extends SDKError {
   }
 }
 
+/**
+ * Sync cancelled error
+ *
+ * @class SyncCancelledError
+ * @extends {SDKError}
+ */
+export class SyncCancelledError extends SDKError {
+  constructor(message: string = 'Sync was cancelled', details?: Record<string, unknown>) {
+    super(message, 'SYNC_CANCELLED', undefined, details);
+    this.name = 'SyncCancelledError';
+  }
+}
+
 /**
  * Network error
  *
@@ -623,11 +849,106 @@ export class NetworkError extends SDKError {
   }
 }
 
+/**
+ * Operation deferred error
+ *
+ * Thrown when a plugin asks for a failed call to be queued for later
+ * (`ErrorAction.QUEUE`), e.g. while rate limited or offline.
+ *
+ * @class OperationDeferredError
+ * @extends {SDKError}
+ */
+export class OperationDeferredError extends SDKError {
+  /** Earliest time the operation should be retried (ISO 8601), if known */
+  public readonly retryAt?: string;
+
+  constructor(message: string, retryAt?: string, originalError?: Error) {
+    super(
+      message,
+      'OPERATION_DEFERRED',
+      undefined,
+      retryAt !== undefined ? { retryAt } : undefined,
+      originalError
+    );
+    this.name = 'OperationDeferredError';
+    if (retryAt !== undefined) {
+      this.retryAt = retryAt;
+    }
+  }
+}
+
+/**
+ * Circuit open error
+ *
+ * Thrown instead of calling a plugin whose circuit breaker is open.
+ *
+ * @class CircuitOpenError
+ * @extends {SDKError}
+ */
+export class CircuitOpenError extends SDKError {
+  /** Plugin whose circuit is open */
+  public readonly pluginId: string;
+
+  /** When a probe call will be let through (ISO 8601) */
+  public readonly retryAt: string;
+
+  constructor(pluginId: string, retryAt: string) {
+    super(`Circuit open for plugin ${pluginId} until ${retryAt}`, 'CIRCUIT_OPEN', 503, {
+      pluginId,
+      retryAt,
+    });
+    this.name = 'CircuitOpenError';
+    this.pluginId = pluginId;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Unsupported capability error
+ *
+ * Thrown before calling a plugin when its declared capabilities cannot
+ * serve a request (unsupported data type, range beyond its history, bucket
+ * finer than its granularity).
+ *
+ * @class UnsupportedCapabilityError
+ * @extends {SDKError}
+ */
+export class UnsupportedCapabilityError extends SDKError {
+  /** Source that cannot serve the request */
+  public readonly source: HealthSource;
+
+  /** Requested data type */
+  public readonly dataType: DataType;
+
+  constructor(
+    message: string,
+    source: HealthSource,
+    dataType: DataType,
+    details?: Record<string, unknown>
+  ) {
+    super(message, 'UNSUPPORTED_CAPABILITY', 400, { ...details, source, dataType });
+    this.name = 'UnsupportedCapabilityError';
+    this.source = source;
+    this.dataType = dataType;
+  }
+}
+
 /**
  * Default SDK configuration values
  */
 export const DEFAULT_SDK_CONFIG: Required<
-  Omit<SDKConfig, 'apiBaseUrl' | 'clientId' | 'clientSecret' | 'logger' | 'userId' | 'custom'>
+  Omit<
+    SDKConfig,
+    | 'apiBaseUrl'
+    | 'clientId'
+    | 'clientSecret'
+    | 'logger'
+    | 'userId'
+    | 'custom'
+    | 'syncStateStore'
+    | 'offlineQueueStore'
+    | 'clock'
+  >
 > = {
   environment: 'production',
   cache: {
@@ -645,13 +966,32 @@ export const DEFAULT_SDK_CONFIG: Required<
     useJitter: true,
     timeout: 30000,
   },
+  circuitBreaker: {
+    enabled: true,
+    failureThreshold: 5,
+    resetTimeout: 30000,
+  },
+  conflictResolution: {
+    enabled: true,
+    strategy: ConflictStrategy.HIGHEST_QUALITY,
+    sourcePriority: [],
+    timeTolerance: 60 * 1000, // 1 minute
+    valueTolerance: 0.1, // 10%
+  },
   logLevel: LogLevel.WARN,
   plugins: [],
+  pluginManifests: [],
+  pluginDefaults: {},
+  pluginConfig: {},
+  middleware: [],
   defaultDataTypes: [DataType.STEPS, DataType.HEART_RATE, DataType.SLEEP, DataType.ACTIVITY],
   autoSync: false,
   syncInterval: 0,
   maxDataAge: 90, // 90 days
+  syncLookback: 24 * 60 * 60 * 1000, // 24 hours
+  timezone: getSystemTimeZone(),
   enableRealtimeUpdates: false,
+  sourceConcurrency: {},
 };
 
 /**
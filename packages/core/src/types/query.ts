@@ -7,7 +7,8 @@
  */
 
 import { DataType, HealthSource, UnifiedHealthData, AnyHealthData } from '../models/unified-data';
-import { SyncError } from './config';
+import { ConflictStrategy, SyncError } from './config';
+import { CalendarUnit } from '../utils/timezone';
 
 /**
  * Health data query request
@@ -18,15 +19,21 @@ export interface HealthDataQuery {
   /** Type of data to query */
   dataType: DataType;
 
-  /** Start date for query range (ISO 8601 format) */
+  /** Start date for query range (ISO 8601, or `YYYY-MM-DD` for the start of a local day) */
   startDate: string;
 
-  /** End date for query range (ISO 8601 format) */
+  /** End date for query range (ISO 8601, or `YYYY-MM-DD` for the end of a local day) */
   endDate: string;
 
+  /** IANA time zone for date-only boundaries (default: SDK `timezone`) */
+  timezone?: string;
+
   /** Specific health sources to query (if not specified, query all connected sources) */
   sources?: HealthSource[];
 
+  /** Account to query (if not specified, every connected account of each source is queried) */
+  accountId?: string;
+
   /** Maximum number of records to return */
   limit?: number;
 
@@ -47,6 +54,9 @@ export interface HealthDataQuery {
 
   /** Additional filters */
   filters?: QueryFilters;
+
+  /** Whether to deduplicate records reported by several sources (default: per SDK config) */
+  deduplicate?: boolean;
 }
 
 /**
@@ -126,10 +136,157 @@ export interface QueryMetadata {
   /** Cache hit ratio (0-1) */
   cacheHitRatio?: number;
 
+  /** Cross-source conflicts detected and resolved */
+  conflicts?: DataConflict[];
+
   /** Additional metadata */
   custom?: Record<string, unknown>;
 }
 
+/**
+ * Records from different sources describing the same measurement
+ *
+ * @interface DataConflict
+ */
+export interface DataConflict {
+  /** Data type of the conflicting records */
+  dataType: DataType;
+
+  /** Start of the overlapping period (ISO 8601) */
+  timestamp: string;
+
+  /** End of the overlapping period (ISO 8601) */
+  endTimestamp?: string;
+
+  /** Sources that reported the measurement */
+  sources: HealthSource[];
+
+  /** IDs of all conflicting records */
+  recordIds: string[];
+
+  /** ID of the record returned in the results */
+  resolvedRecordId: string;
+
+  /** Strategy used to resolve the conflict */
+  strategy: ConflictStrategy;
+}
+
+/**
+ * Aggregation bucket size
+ */
+export type AggregationBucket = CalendarUnit;
+
+/**
+ * Aggregation function
+ */
+export type AggregationFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+/**
+ * Aggregate query request
+ *
+ * @interface AggregateQuery
+ */
+export interface AggregateQuery {
+  /** Type of data to aggregate */
+  dataType: DataType;
+
+  /** Start date for query range (ISO 8601, or `YYYY-MM-DD` for the start of a local day) */
+  startDate: string;
+
+  /** End date for query range (ISO 8601, or `YYYY-MM-DD` for the end of a local day) */
+  endDate: string;
+
+  /** Bucket size */
+  bucket: AggregationBucket;
+
+  /** Aggregation function (defaults to the data type's natural function) */
+  fn?: AggregationFunction;
+
+  /** IANA time zone for bucket boundaries (default: SDK `timezone`) */
+  timezone?: string;
+
+  /** Specific health sources to aggregate (if not specified, all connected sources) */
+  sources?: HealthSource[];
+
+  /** Account to aggregate (if not specified, every connected account of each source is used) */
+  accountId?: string;
+
+  /** Whether to let a single queried source compute the aggregate natively (default: true) */
+  pushDown?: boolean;
+}
+
+/**
+ * Single aggregation bucket
+ *
+ * @interface AggregateBucket
+ */
+export interface AggregateBucket {
+  /** Bucket start (ISO 8601 with the zone's offset) */
+  start: string;
+
+  /** Bucket end, exclusive (ISO 8601 with the zone's offset) */
+  end: string;
+
+  /** Aggregated value (null if the bucket has no data) */
+  value: number | null;
+
+  /** Number of records aggregated (omitted when computed by the source) */
+  count?: number;
+}
+
+/**
+ * Aggregate query response
+ *
+ * @interface AggregateResponse
+ */
+export interface AggregateResponse {
+  /** Whether the query was successful */
+  success: boolean;
+
+  /** Aggregated data type */
+  dataType: DataType;
+
+  /** Bucket size */
+  bucket: AggregationBucket;
+
+  /** Aggregation function applied */
+  fn: AggregationFunction;
+
+  /** Time zone of bucket boundaries */
+  timezone: string;
+
+  /** Buckets covering the requested range, in chronological order */
+  buckets: AggregateBucket[];
+
+  /** Query metadata */
+  metadata: AggregateMetadata;
+
+  /** Errors encountered during query (if any) */
+  errors?: SyncError[];
+}
+
+/**
+ * Aggregate query execution metadata
+ *
+ * @interface AggregateMetadata
+ */
+export interface AggregateMetadata {
+  /** Timestamp when query was executed (ISO 8601) */
+  executedAt: string;
+
+  /** Query execution duration in milliseconds */
+  duration: number;
+
+  /** Sources that were queried */
+  sourcesQueried: HealthSource[];
+
+  /** Sources that computed the aggregate natively */
+  pushedDown: HealthSource[];
+
+  /** Sources that failed to respond */
+  sourcesFailed?: HealthSource[];
+}
+
 /**
  * Data update callback type
  *
@@ -166,6 +323,9 @@ export enum SDKEvent {
   /** Sync started */
   SYNC_STARTED = 'sync_started',
 
+  /** Sync progressed (one source × data type completed) */
+  SYNC_PROGRESS = 'sync_progress',
+
   /** Sync completed */
   SYNC_COMPLETED = 'sync_completed',
 
@@ -0,0 +1,51 @@
+/**
+ * Clock
+ *
+ * Abstraction over time and timers so time-driven components can be
+ * tested with fake clocks.
+ *
+ * @module utils/clock
+ */
+
+/**
+ * Opaque timer handle returned by a clock
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Clock interface
+ *
+ * @interface Clock
+ */
+export interface Clock {
+  /** Current time in epoch milliseconds */
+  now(): number;
+
+  /** Schedule a callback after a delay in milliseconds */
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+
+  /** Cancel a scheduled callback */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by the global timer functions
+ *
+ * Timers are unref'd where supported so they do not keep the process alive.
+ */
+export const systemClock: Clock = {
+  now: (): number => Date.now(),
+  setTimeout: (callback: () => void, delay: number): TimerHandle => {
+    const handle = setTimeout(callback, delay);
+
+    // Prevent timer from keeping process alive
+    if (handle.unref) {
+      handle.unref();
+    }
+
+    return handle;
+  },
+  clearTimeout: (handle: TimerHandle): void => {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  },
+};
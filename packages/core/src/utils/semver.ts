@@ -0,0 +1,268 @@
+/**
+ * Semantic Versioning
+ *
+ * Minimal semver parsing and range matching for plugin compatibility
+ * checks. Ranges support `*`, exact and partial versions (`1.2.3`, `1.x`,
+ * `1.2`), comparators (`>=`, `>`, `<=`, `<`, `=`), caret and tilde ranges,
+ * space-separated intersections and `||` unions. Prerelease tags order
+ * before their release but are otherwise not treated specially.
+ *
+ * @module utils/semver
+ */
+
+/**
+ * Parsed version
+ *
+ * @interface SemVer
+ */
+export interface SemVer {
+  /** Major version */
+  major: number;
+
+  /** Minor version */
+  minor: number;
+
+  /** Patch version */
+  patch: number;
+
+  /** Dot-separated prerelease identifiers (empty for releases) */
+  prerelease: string[];
+}
+
+/**
+ * Comparison operator of a primitive comparator
+ */
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * Primitive comparator (`>=1.2.0`)
+ */
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const PARTIAL_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.*)$/;
+
+/**
+ * Parse a version string
+ *
+ * @param {string} version - Version (`1.2.3`, `1.2.3-beta.1`, optional `v` prefix)
+ * @returns {SemVer | null} Parsed version, or null if invalid
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two versions
+ *
+ * @param {SemVer} a - First version
+ * @param {SemVer} b - Second version
+ * @returns {number} Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+
+  // A release ranks above its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+
+    if (x === undefined || y === undefined) {
+      return x === undefined ? -1 : 1;
+    }
+    if (x === y) {
+      continue;
+    }
+
+    const numeric = /^\d+$/.test(x) && /^\d+$/.test(y);
+    return numeric ? Number(x) - Number(y) : x < y ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Check whether a range is valid
+ *
+ * @param {string} range - Version range
+ * @returns {boolean} True if the range can be parsed
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check whether a version satisfies a range
+ *
+ * @param {string} version - Version
+ * @param {string} range - Version range (e.g. `^1.2.0`, `>=1.0.0 <3.0.0 || 4.x`)
+ * @returns {boolean} True if the version is valid and within the range
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+
+  if (!parsed || !sets) {
+    return false;
+  }
+
+  return sets.some((set) => set.every((comparator) => test(parsed, comparator)));
+}
+
+/**
+ * Parse a range into a union of comparator intersections
+ *
+ * @param {string} range - Version range
+ * @returns {Comparator[][] | null} Comparator sets, or null if invalid
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    // Attach operators separated from their version by whitespace (`>= 1.0.0`)
+    const tokens = part
+      .trim()
+      .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter((token) => token.length > 0);
+    const set: Comparator[] = [];
+
+    for (const token of tokens.length > 0 ? tokens : ['*']) {
+      const comparators = parseComparator(token);
+      if (!comparators) {
+        return null;
+      }
+      set.push(...comparators);
+    }
+
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+/**
+ * Expand a single range token into primitive comparators
+ *
+ * @param {string} token - Range token (e.g. `^1.2`, `>=1.0.0`, `1.x`)
+ * @returns {Comparator[] | null} Comparators (empty = any version), or null if invalid
+ */
+function parseComparator(token: string): Comparator[] | null {
+  const [, prefix = '', rest = ''] = COMPARATOR_PATTERN.exec(token) ?? [];
+  const match = PARTIAL_PATTERN.exec(rest);
+  if (!match) {
+    return null;
+  }
+
+  const wildcard = (value: string | undefined): boolean =>
+    value === undefined || /^[xX*]$/.test(value);
+
+  // Number of leading components given (0 = `*`)
+  const given = wildcard(match[1]) ? 0 : wildcard(match[2]) ? 1 : wildcard(match[3]) ? 2 : 3;
+  const major = given > 0 ? Number(match[1]) : 0;
+  const minor = given > 1 ? Number(match[2]) : 0;
+  const patch = given > 2 ? Number(match[3]) : 0;
+  const prerelease = given === 3 && match[4] ? match[4].split('.') : [];
+
+  const version = (ma: number, mi: number, pa: number, pre: string[] = []): SemVer => ({
+    major: ma,
+    minor: mi,
+    patch: pa,
+    prerelease: pre,
+  });
+  const lower = version(major, minor, patch, prerelease);
+
+  // Exclusive upper bound of the given components (`1.2` -> `1.3.0`)
+  const bump = (): SemVer =>
+    given === 1 ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+
+  if (given === 0) {
+    return prefix === '<' || prefix === '>' ? null : [];
+  }
+
+  switch (prefix) {
+    case '^': {
+      const upper =
+        major > 0 || given === 1
+          ? version(major + 1, 0, 0)
+          : minor > 0 || given === 2
+            ? version(0, minor + 1, 0)
+            : version(0, 0, patch + 1);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: bump() },
+      ];
+    case '>':
+      return [
+        given === 3 ? { operator: '>', version: lower } : { operator: '>=', version: bump() },
+      ];
+    case '<=':
+      return [
+        given === 3 ? { operator: '<=', version: lower } : { operator: '<', version: bump() },
+      ];
+    case '>=':
+    case '<':
+      return [{ operator: prefix, version: lower }];
+    default:
+      return given === 3
+        ? [{ operator: '=', version: lower }]
+        : [
+            { operator: '>=', version: lower },
+            { operator: '<', version: bump() },
+          ];
+  }
+}
+
+/**
+ * Test a version against a primitive comparator
+ *
+ * @param {SemVer} version - Version
+ * @param {Comparator} comparator - Comparator
+ * @returns {boolean} True if satisfied
+ */
+function test(version: SemVer, comparator: Comparator): boolean {
+  const order = compareVersions(version, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '=':
+      return order === 0;
+  }
+}
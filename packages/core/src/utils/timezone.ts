@@ -0,0 +1,402 @@
+/**
+ * Time Zone Utilities
+ *
+ * Calendar arithmetic in IANA time zones using `Intl.DateTimeFormat`, so
+ * hour/day/week/month boundaries follow the wall clock of the zone,
+ * including DST transitions, plus parsing of local dates and date-times.
+ *
+ * @module utils/timezone
+ */
+
+/**
+ * Calendar unit for period boundaries
+ */
+export type CalendarUnit = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Wall-clock date and time in a time zone
+ *
+ * @interface ZonedDateTime
+ */
+export interface ZonedDateTime {
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  /** Day of month (1-31) */
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * Formatters by time zone (construction is expensive)
+ */
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Get a formatter producing numeric wall-clock parts for a zone
+ *
+ * @param {string} timeZone - IANA time zone
+ * @returns {Intl.DateTimeFormat} Formatter
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Check whether a string is a valid IANA time zone
+ *
+ * @param {string} timeZone - Time zone to check
+ * @returns {boolean} True if valid
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a zone
+ *
+ * @param {number} instant - Epoch milliseconds
+ * @param {string} timeZone - IANA time zone
+ * @returns {ZonedDateTime} Wall-clock parts
+ */
+export function toZonedDateTime(instant: number, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts['year'] ?? 1970,
+    month: parts['month'] ?? 1,
+    day: parts['day'] ?? 1,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    second: parts['second'] ?? 0,
+    millisecond: ((instant % 1000) + 1000) % 1000,
+  };
+}
+
+/**
+ * Get the UTC offset of a zone at an instant
+ *
+ * @param {number} instant - Epoch milliseconds
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Offset in minutes (positive east of UTC)
+ */
+export function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const local = toZonedDateTime(instant, timeZone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+    local.millisecond
+  );
+
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a zone to an instant
+ *
+ * Wall-clock times skipped by a DST transition resolve to the instant after
+ * the gap; repeated times resolve to the earlier instant.
+ *
+ * @param {ZonedDateTime} local - Wall-clock parts (out-of-range values roll over)
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Epoch milliseconds
+ */
+export function fromZonedDateTime(local: ZonedDateTime, timeZone: string): number {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+    local.millisecond
+  );
+
+  // Offsets before and after the candidate instants disambiguate DST edges
+  const before = getTimeZoneOffset(asUtc - 24 * 60 * 60 * 1000, timeZone);
+  const after = getTimeZoneOffset(asUtc + 24 * 60 * 60 * 1000, timeZone);
+
+  const earlier = asUtc - Math.max(before, after) * 60000;
+  if (getTimeZoneOffset(earlier, timeZone) === Math.max(before, after)) {
+    return earlier;
+  }
+
+  return asUtc - Math.min(before, after) * 60000;
+}
+
+/**
+ * Get the start of the calendar period containing an instant
+ *
+ * Weeks start on Monday.
+ *
+ * @param {number} instant - Epoch milliseconds
+ * @param {CalendarUnit} unit - Calendar unit
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Period start in epoch milliseconds
+ */
+export function startOfPeriod(instant: number, unit: CalendarUnit, timeZone: string): number {
+  const local = toZonedDateTime(instant, timeZone);
+  const start: ZonedDateTime = { ...local, minute: 0, second: 0, millisecond: 0 };
+
+  switch (unit) {
+    case 'hour':
+      break;
+    case 'day':
+      start.hour = 0;
+      break;
+    case 'week': {
+      const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+      start.hour = 0;
+      start.day -= (weekday + 6) % 7;
+      break;
+    }
+    case 'month':
+      start.hour = 0;
+      start.day = 1;
+      break;
+  }
+
+  if (unit === 'hour') {
+    // Hours are fixed-length; avoid ambiguity of repeated wall-clock hours
+    return instant - (local.minute * 60 + local.second) * 1000 - local.millisecond;
+  }
+
+  return fromZonedDateTime(start, timeZone);
+}
+
+/**
+ * Get the start of the calendar period following the one starting at `start`
+ *
+ * @param {number} start - Period start in epoch milliseconds
+ * @param {CalendarUnit} unit - Calendar unit
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Next period start in epoch milliseconds
+ */
+export function nextPeriod(start: number, unit: CalendarUnit, timeZone: string): number {
+  if (unit === 'hour') {
+    return start + 60 * 60 * 1000;
+  }
+
+  const local = toZonedDateTime(start, timeZone);
+  const next: ZonedDateTime = { ...local };
+
+  switch (unit) {
+    case 'day':
+      next.day += 1;
+      break;
+    case 'week':
+      next.day += 7;
+      break;
+    case 'month':
+      next.month += 1;
+      break;
+  }
+
+  return fromZonedDateTime(next, timeZone);
+}
+
+/**
+ * Format an instant as an ISO 8601 string with the zone's UTC offset
+ *
+ * @param {number} instant - Epoch milliseconds
+ * @param {string} timeZone - IANA time zone
+ * @returns {string} e.g. `2024-03-10T00:00:00.000-05:00`
+ */
+export function formatInTimeZone(instant: number, timeZone: string): string {
+  const local = toZonedDateTime(instant, timeZone);
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+
+  return (
+    `${pad(local.year, 4)}-${pad(local.month)}-${pad(local.day)}` +
+    `T${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}.${pad(local.millisecond, 3)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+}
+
+/**
+ * Calendar date without a time (`YYYY-MM-DD`)
+ */
+const LOCAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Wall-clock date-time without a UTC offset (`YYYY-MM-DDTHH:mm[:ss[.SSS]]`)
+ */
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+/**
+ * Numeric UTC offset suffix of an ISO 8601 date-time
+ */
+const OFFSET_PATTERN = /T.*([+-])(\d{2}):?(\d{2})$/;
+
+/**
+ * Get the time zone of the host environment
+ *
+ * @returns {string} IANA time zone (`UTC` if it cannot be determined)
+ */
+export function getSystemTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Format the calendar date of an instant in a zone
+ *
+ * @param {number} instant - Epoch milliseconds
+ * @param {string} timeZone - IANA time zone
+ * @returns {string} Date as `YYYY-MM-DD`
+ */
+export function formatLocalDate(instant: number, timeZone: string): string {
+  const local = toZonedDateTime(instant, timeZone);
+  return (
+    `${String(local.year).padStart(4, '0')}-` +
+    `${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`
+  );
+}
+
+/**
+ * Get the instant a calendar date starts in a zone
+ *
+ * @param {string} date - Date as `YYYY-MM-DD`
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Local midnight in epoch milliseconds (NaN if malformed)
+ */
+export function parseLocalDate(date: string, timeZone: string): number {
+  const match = LOCAL_DATE_PATTERN.exec(date);
+  if (!match) {
+    return NaN;
+  }
+
+  return fromZonedDateTime(
+    {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    },
+    timeZone
+  );
+}
+
+/**
+ * Parse a date-time, interpreting values without a UTC offset in a zone
+ *
+ * Date-time strings with `Z` or an explicit offset are parsed as-is;
+ * date-only strings resolve to local midnight.
+ *
+ * @param {string} value - ISO 8601 date or date-time
+ * @param {string} timeZone - IANA time zone for offset-less values
+ * @returns {number} Epoch milliseconds (NaN if malformed)
+ */
+export function parseLocalDateTime(value: string, timeZone: string): number {
+  if (LOCAL_DATE_PATTERN.test(value)) {
+    return parseLocalDate(value, timeZone);
+  }
+
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+  if (!match) {
+    return Date.parse(value);
+  }
+
+  return fromZonedDateTime(
+    {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: Number(match[4]),
+      minute: Number(match[5]),
+      second: Number(match[6] ?? 0),
+      millisecond: Number((match[7] ?? '0').padEnd(3, '0')),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Get the numeric UTC offset (`±HH:MM`) written in an ISO 8601 date-time
+ *
+ * `Z` is not reported: it marks a UTC serialization rather than the zone
+ * the value was captured in.
+ *
+ * @param {string} value - ISO 8601 date-time
+ * @returns {number | undefined} Offset in minutes (positive east), or undefined if absent
+ */
+export function parseOffset(value: string): number | undefined {
+  const match = OFFSET_PATTERN.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Resolve one end of a date range to an ISO 8601 instant
+ *
+ * Date-only values (`YYYY-MM-DD`) cover the whole calendar day in the zone:
+ * a range start resolves to local midnight and a range end to the last
+ * millisecond of that day. Other values are returned unchanged.
+ *
+ * @param {string} value - ISO 8601 date or date-time
+ * @param {'start' | 'end'} edge - Which end of the range the value is
+ * @param {string} timeZone - IANA time zone
+ * @returns {string} ISO 8601 date-time
+ */
+export function resolveRangeBoundary(
+  value: string,
+  edge: 'start' | 'end',
+  timeZone: string
+): string {
+  if (!LOCAL_DATE_PATTERN.test(value)) {
+    return value;
+  }
+
+  const start = parseLocalDate(value, timeZone);
+  const instant = edge === 'start' ? start : nextPeriod(start, 'day', timeZone) - 1;
+
+  return new Date(instant).toISOString();
+}
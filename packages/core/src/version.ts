@@ -0,0 +1,13 @@
+/**
+ * Version
+ *
+ * Kept in its own module so SDK internals (e.g. plugin compatibility
+ * checks) can read it without importing the package entry point.
+ *
+ * @module version
+ */
+
+/**
+ * Current SDK version
+ */
+export const VERSION = '1.0.0';
@@ -5,7 +5,8 @@
  */
 
 import { CacheManager } from '../../src/cache/cache-manager';
-import { CacheKey } from '../../src/cache/cache-provider';
+import { CacheKey, generateCacheKey } from '../../src/cache/cache-provider';
+import { MemoryCacheProvider } from '../../src/cache/memory-cache';
 import { HealthSource, DataType, StepsData } from '../../src/models/unified-data';
 import { LogLevel } from '../../src/types/config';
 
@@ -265,6 +266,55 @@ describe('CacheManager', () => {
       expect(await cacheManager.get(cacheKey1)).toBeNull();
       expect(await cacheManager.get(cacheKey2)).not.toBeNull();
     });
+
+    it('should invalidate by data type', async () => {
+      const stepsKey: CacheKey = {
+        source: HealthSource.FITBIT,
+        dataType: DataType.STEPS,
+        startDate: '2024-01-01',
+        endDate: '2024-01-02',
+      };
+
+      const heartRateKey: CacheKey = {
+        source: HealthSource.GARMIN,
+        dataType: DataType.HEART_RATE,
+        startDate: '2024-01-01',
+        endDate: '2024-01-02',
+      };
+
+      await cacheManager.set(stepsKey, []);
+      await cacheManager.set(heartRateKey, []);
+
+      const count = await cacheManager.invalidateByDataType(DataType.STEPS);
+
+      expect(count).toBe(1);
+      expect(await cacheManager.get(stepsKey)).toBeNull();
+      expect(await cacheManager.get(heartRateKey)).not.toBeNull();
+    });
+
+    it('should invalidate the series days of changed records', async () => {
+      const seriesKey = {
+        source: HealthSource.FITBIT,
+        accountId: 'parent',
+        dataType: DataType.STEPS,
+      };
+      const range = { startDate: '2024-01-01T00:00:00.000Z', endDate: '2024-01-02T23:59:59.999Z' };
+      const record = {
+        source: HealthSource.FITBIT,
+        dataType: DataType.STEPS,
+        timestamp: '2024-01-02T08:00:00.000Z',
+      } as StepsData;
+
+      await cacheManager.setRange(seriesKey, [range], []);
+
+      expect(await cacheManager.invalidateForRecords([record])).toBe(0);
+      expect(await cacheManager.invalidateForRecords([{ ...record, accountId: 'child' }])).toBe(0);
+      expect(
+        await cacheManager.invalidateForRecords([{ ...record, timestamp: '2024-01-03T08:00:00Z' }])
+      ).toBe(0);
+      expect(await cacheManager.invalidateForRecords([{ ...record, accountId: 'parent' }])).toBe(1);
+      expect((await cacheManager.getRange(seriesKey, range)).gaps).toEqual([range]);
+    });
   });
 
   describe('Cleanup', () => {
@@ -417,4 +467,34 @@ describe('CacheManager', () => {
       expect((result2![0] as StepsData).count).toBe(20);
     });
   });
+
+  describe('External Layers', () => {
+    it('should promote hits to the layers checked before', async () => {
+      const local = new MemoryCacheProvider();
+      const cloud = new MemoryCacheProvider();
+      const layered = new CacheManager({
+        autoCleanup: false,
+        externalProvider: local,
+        externalProviders: [cloud],
+      });
+      const cacheKey: CacheKey = {
+        source: HealthSource.FITBIT,
+        dataType: DataType.STEPS,
+        startDate: '2024-01-01',
+        endDate: '2024-01-02',
+      };
+
+      await layered.set(cacheKey, [{ count: 10 } as StepsData]);
+      await layered.dispose();
+      await local.clear();
+
+      expect(await layered.get(cacheKey)).toHaveLength(1);
+      expect(await local.has(generateCacheKey(cacheKey))).toBe(true);
+
+      const stats = await layered.stats();
+
+      expect(stats.external).toBe(stats.externalLayers[0]);
+      expect(stats.externalLayers.map((layer) => layer.entries)).toEqual([1, 1]);
+    });
+  });
 });
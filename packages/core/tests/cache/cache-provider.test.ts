@@ -41,6 +41,21 @@ describe('Cache Provider Utilities', () => {
       expect(result).toContain('offset=0');
     });
 
+    it('should qualify the source with the account', () => {
+      const key: CacheKey = {
+        source: HealthSource.FITBIT,
+        accountId: 'parent 1',
+        dataType: DataType.STEPS,
+        startDate: '2024-01-01',
+        endDate: '2024-01-02',
+      };
+
+      const result = generateCacheKey(key);
+
+      expect(result).toBe('fitbit@parent%201:steps:2024-01-01:2024-01-02');
+      expect(parseCacheKey(result)).toEqual(key);
+    });
+
     it('should generate consistent keys for same params in different order', () => {
       const key1: CacheKey = {
         source: HealthSource.FITBIT,
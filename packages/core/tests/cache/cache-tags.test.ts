@@ -0,0 +1,43 @@
+/**
+ * Cache Tags Tests
+ *
+ * Tests for automatic cache tag derivation
+ */
+
+import { deriveCacheTags, deriveRecordTags } from '../../src/cache/cache-tags';
+import { HealthSource, DataType, StepsData } from '../../src/models/unified-data';
+
+describe('cache tags', () => {
+  it('should tag entries with source, account, data type and covered days', () => {
+    const tags = deriveCacheTags(
+      { source: HealthSource.FITBIT, accountId: 'parent', dataType: DataType.STEPS },
+      [
+        { startDate: '2024-01-01T22:00:00.000Z', endDate: '2024-01-02T01:00:00.000Z' },
+        { startDate: '2024-01-02T05:00:00.000Z', endDate: '2024-01-02T06:00:00.000Z' },
+        { startDate: '2024-01-01', endDate: 'not a date' },
+      ]
+    );
+
+    expect(tags).toEqual([
+      'source:fitbit',
+      'dataType:steps',
+      'account:fitbit@parent',
+      'day:fitbit@parent:steps:2024-01-01',
+      'day:fitbit@parent:steps:2024-01-02',
+    ]);
+  });
+
+  it('should derive the day tags of records', () => {
+    const record = (timestamp: string): StepsData =>
+      ({ source: HealthSource.GARMIN, dataType: DataType.STEPS, timestamp }) as StepsData;
+
+    expect(
+      deriveRecordTags([
+        record('2024-01-01T08:00:00.000Z'),
+        record('2024-01-01T09:00:00.000Z'),
+        record('2024-01-02T00:30:00+01:00'),
+        record('invalid'),
+      ])
+    ).toEqual(['day:garmin:steps:2024-01-01']);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Cloud Cache Tests
+ *
+ * Tests for the cloud cache provider against the reference server
+ */
+
+import { CloudCacheProvider } from '../../src/cache/cloud-cache';
+import { CloudCacheReferenceServer } from '../../src/cache/cloud-cache-server';
+import { CacheEntry } from '../../src/cache/cache-provider';
+import { HealthSource, DataType } from '../../src/models/unified-data';
+import { Clock, TimerHandle } from '../../src/utils/clock';
+
+/**
+ * Clock whose time only moves when advanced
+ */
+class FakeClock implements Clock {
+  private time = Date.parse('2024-01-01T00:00:00.000Z');
+  private nextId = 1;
+  private timers: Map<number, { at: number; callback: () => void }> = new Map();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      await flush();
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+
+    this.time = target;
+    await flush();
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('CloudCacheProvider', () => {
+  let clock: FakeClock;
+  let server: CloudCacheReferenceServer;
+  let cache: CloudCacheProvider;
+
+  const createEntry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+    data: [{ value: 100 }],
+    cachedAt: clock.now(),
+    expiresAt: clock.now() + 60000,
+    source: HealthSource.FITBIT,
+    dataType: DataType.STEPS,
+    ...overrides,
+  });
+
+  const batches = (): number =>
+    server.requests.filter((request) => request.path.endsWith('/batch')).length;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    server = new CloudCacheReferenceServer({ apiKey: 'key', token: 'token', clock });
+    cache = new CloudCacheProvider({
+      endpoint: 'https://cache.example.test/v1/',
+      auth: { apiKey: 'key', token: 'token', headers: { 'X-Tenant': 'clinic' } },
+      fetch: server.fetch,
+      batchSize: 2,
+      flushInterval: 1000,
+      clock,
+    });
+  });
+
+  it('should send writes in batches with auth headers', async () => {
+    await cache.set('a', createEntry());
+    expect(batches()).toBe(0);
+
+    const entry = createEntry();
+    await cache.set('b', entry);
+    await cache.set('c', entry);
+    expect(batches()).toBe(1);
+
+    await clock.advance(1000);
+
+    expect(batches()).toBe(2);
+    expect(server.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/v1/batch',
+      headers: { Authorization: 'Bearer token', 'X-API-Key': 'key', 'X-Tenant': 'clinic' },
+    });
+
+    const restarted = new CloudCacheProvider({
+      endpoint: 'https://cache.example.test/v1',
+      auth: { apiKey: 'key', token: 'token' },
+      fetch: server.fetch,
+      clock,
+    });
+
+    expect(await restarted.get('c')).toEqual(entry);
+    expect((await restarted.keys()).sort()).toEqual(['a', 'b', 'c']);
+    expect(await restarted.stats()).toMatchObject({ entries: 3, hits: 1, misses: 0 });
+  });
+
+  it('should keep changes while offline and send them once reachable', async () => {
+    await cache.set('a', createEntry());
+    await cache.dispose();
+
+    server.online = false;
+
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.delete('a')).toBe(false);
+
+    await cache.set('b', createEntry({ tags: ['daily'] }));
+    await cache.set('c', createEntry({ tags: ['nightly'] }));
+
+    expect(await cache.get('b')).not.toBeNull();
+    expect(await cache.invalidateByTags(['nightly'])).toBe(1);
+    expect(await cache.keys()).toEqual(['b']);
+
+    server.online = true;
+    await clock.advance(1000);
+
+    expect(await cache.keys()).toEqual(['b']);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('should send clears and invalidations made while offline with the next flush', async () => {
+    await cache.set('daily', createEntry({ tags: ['daily'] }));
+    await cache.set('nightly', createEntry({ tags: ['nightly'] }));
+    await cache.flush();
+
+    server.online = false;
+    expect(await cache.invalidateByTags(['daily'])).toBe(0);
+    server.online = true;
+    await clock.advance(1000);
+
+    expect((await cache.keys()).sort()).toEqual(['nightly']);
+
+    server.online = false;
+    await cache.clear();
+    await cache.set('next', createEntry());
+    server.online = true;
+
+    expect(await cache.get('nightly')).toBeNull();
+
+    await clock.advance(1000);
+
+    expect((await cache.keys()).sort()).toEqual(['next']);
+  });
+
+  it('should skip requests outside flushes for a backoff after a failure', async () => {
+    const fetch = jest.fn(server.fetch);
+    const backingOff = new CloudCacheProvider({
+      endpoint: 'https://cache.example.test/v1',
+      auth: { apiKey: 'key', token: 'token' },
+      fetch,
+      offlineBackoff: 5000,
+      clock,
+    });
+    await cache.set('a', createEntry({ expiresAt: clock.now() + 3600000 }));
+    await cache.flush();
+
+    server.online = false;
+    expect(await backingOff.get('a')).toBeNull();
+    server.online = true;
+    expect(await backingOff.get('a')).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await clock.advance(5000);
+
+    expect(await backingOff.get('a')).not.toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate remote entries by source and expiry', async () => {
+    await cache.set('parent', createEntry({ accountId: 'parent' }));
+    await cache.set('child', createEntry({ accountId: 'child' }));
+    await cache.set('garmin', createEntry({ source: HealthSource.GARMIN, expiresAt: clock.now() }));
+    await cache.flush();
+
+    expect(await cache.invalidateBySource(HealthSource.FITBIT, 'parent')).toBe(1);
+
+    await clock.advance(1);
+
+    expect(await cache.cleanup()).toBe(1);
+    expect(await cache.keys()).toEqual(['child']);
+  });
+
+  it('should treat rejected credentials as unavailable', async () => {
+    const warn = jest.fn();
+    const unauthorized = new CloudCacheProvider({
+      endpoint: 'https://cache.example.test/v1',
+      auth: { apiKey: 'wrong' },
+      fetch: server.fetch,
+      clock,
+      logger: { debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() },
+    });
+
+    await cache.set('a', createEntry());
+    await cache.flush();
+
+    expect(await unauthorized.get('a')).toBeNull();
+    expect(await unauthorized.get('a')).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('status 401');
+  });
+});
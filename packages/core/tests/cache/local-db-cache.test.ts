@@ -0,0 +1,134 @@
+/**
+ * Local Database Cache Tests
+ *
+ * Tests for the persistent cache provider and its storage adapters
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalDBCacheProvider } from '../../src/cache/local-db-cache';
+import {
+  AsyncStorageAdapter,
+  AsyncStorageLike,
+  FileStorageAdapter,
+  MemoryStorageAdapter,
+} from '../../src/cache/storage-adapter';
+import { CacheEntry, generateCacheKey } from '../../src/cache/cache-provider';
+import { HealthSource, DataType } from '../../src/models/unified-data';
+
+const createEntry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+  data: [{ value: 100 }],
+  cachedAt: Date.now(),
+  expiresAt: Date.now() + 60000,
+  source: HealthSource.FITBIT,
+  dataType: DataType.STEPS,
+  ...overrides,
+});
+
+const fitbitKey = generateCacheKey({
+  source: HealthSource.FITBIT,
+  accountId: 'parent',
+  dataType: DataType.STEPS,
+  startDate: '2024-01-01T00:00:00.000Z',
+  endDate: '2024-01-02T00:00:00.000Z',
+});
+
+const garminKey = generateCacheKey({
+  source: HealthSource.GARMIN,
+  dataType: DataType.SLEEP,
+  startDate: '2024-01-01T00:00:00.000Z',
+  endDate: '2024-01-02T00:00:00.000Z',
+});
+
+describe('LocalDBCacheProvider', () => {
+  let storage: MemoryStorageAdapter;
+  let cache: LocalDBCacheProvider;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    cache = new LocalDBCacheProvider(storage);
+  });
+
+  it('should keep entries across provider instances', async () => {
+    const entry = createEntry({ tags: ['daily'] });
+    await cache.set(fitbitKey, entry);
+
+    const restarted = new LocalDBCacheProvider(storage);
+
+    expect(await restarted.get(fitbitKey)).toEqual(entry);
+    expect(await restarted.keys()).toEqual([fitbitKey]);
+    expect(await restarted.stats()).toMatchObject({ entries: 1, hits: 1, misses: 0 });
+  });
+
+  it('should drop expired and unreadable entries', async () => {
+    await cache.set(fitbitKey, createEntry({ expiresAt: Date.now() - 1 }));
+    await cache.set(garminKey, createEntry());
+    await storage.setItem('corrupt', '{');
+
+    expect(await cache.get(fitbitKey)).toBeNull();
+    expect(await cache.cleanup()).toBe(1);
+    expect(await cache.keys()).toEqual([garminKey]);
+  });
+
+  it('should invalidate by tags and by source account', async () => {
+    await cache.set(fitbitKey, createEntry({ tags: ['daily'] }));
+    await cache.set(garminKey, createEntry({ source: HealthSource.GARMIN, tags: ['nightly'] }));
+
+    expect(await cache.invalidateBySource(HealthSource.FITBIT, 'child')).toBe(0);
+    expect(await cache.invalidateBySource(HealthSource.FITBIT, 'parent')).toBe(1);
+    expect(await cache.invalidateByTags(['nightly'])).toBe(1);
+    expect(await cache.delete(garminKey)).toBe(false);
+    expect(await cache.keys()).toEqual([]);
+  });
+});
+
+describe('storage adapters', () => {
+  it('should scope AsyncStorage keys by prefix', async () => {
+    const items = new Map<string, string>([['other-app', 'keep']]);
+    const asyncStorage: AsyncStorageLike = {
+      getItem: async (key) => items.get(key) ?? null,
+      setItem: async (key, value) => {
+        items.set(key, value);
+      },
+      removeItem: async (key) => {
+        items.delete(key);
+      },
+      getAllKeys: async () => Array.from(items.keys()),
+    };
+    const adapter = new AsyncStorageAdapter(asyncStorage);
+
+    await adapter.setItem(fitbitKey, 'value');
+
+    expect(items.get(`healthsync:cache:${fitbitKey}`)).toBe('value');
+    expect(await adapter.getAllKeys()).toEqual([fitbitKey]);
+
+    await adapter.clear();
+
+    expect(Array.from(items.keys())).toEqual(['other-app']);
+  });
+
+  it('should store each key in its own file', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'healthsync-cache-'));
+    const adapter = new FileStorageAdapter(fs, join(directory, 'cache'));
+
+    try {
+      expect(await adapter.getAllKeys()).toEqual([]);
+      expect(await adapter.getItem(fitbitKey)).toBeNull();
+
+      await adapter.setItem(fitbitKey, 'value');
+      await adapter.setItem(garminKey, 'other');
+      await adapter.removeItem(garminKey);
+      await adapter.removeItem(garminKey);
+
+      expect(await adapter.getItem(fitbitKey)).toBe('value');
+      expect(await adapter.getAllKeys()).toEqual([fitbitKey]);
+
+      await adapter.clear();
+
+      expect(await fs.readdir(join(directory, 'cache'))).toEqual([]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
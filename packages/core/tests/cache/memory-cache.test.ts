@@ -5,8 +5,9 @@
  */
 
 import { MemoryCacheProvider } from '../../src/cache/memory-cache';
-import { CacheEntry } from '../../src/cache/cache-provider';
+import { CacheEntry, estimateEntrySize } from '../../src/cache/cache-provider';
 import { HealthSource, DataType } from '../../src/models/unified-data';
+import { EvictionPolicy } from '../../src/types/config';
 
 describe('MemoryCacheProvider', () => {
   let cache: MemoryCacheProvider;
@@ -232,6 +233,85 @@ describe('MemoryCacheProvider', () => {
     });
   });
 
+  describe('Size-based Eviction', () => {
+    const now = Date.now();
+    const entry = (data: unknown, expiresAt = now + 60000): CacheEntry => ({
+      data,
+      cachedAt: now,
+      expiresAt,
+      source: HealthSource.FITBIT,
+      dataType: DataType.STEPS,
+    });
+    const size = estimateEntrySize(entry({ test: 'data' }));
+
+    it('should evict entries when the byte budget is exceeded', async () => {
+      cache = new MemoryCacheProvider({ maxEntries: 100, maxBytes: size * 2.5 });
+
+      await cache.set('key1', entry({ test: 'data' }));
+      await cache.set('key2', entry({ test: 'data' }));
+      await cache.set('key3', entry({ test: 'data' }));
+
+      expect(await cache.keys()).toEqual(['key2', 'key3']);
+      expect(await cache.stats()).toMatchObject({
+        entries: 2,
+        sizeBytes: size * 2,
+        maxSizeBytes: size * 2.5,
+        evictions: 1,
+      });
+    });
+
+    it('should track the byte size of updated and deleted entries', async () => {
+      const large = entry({ test: 'data', values: [1, 2, 3, 4, 5] });
+
+      await cache.set('key1', entry({ test: 'data' }));
+      await cache.set('key2', entry({ test: 'data' }));
+      await cache.set('key1', large);
+      await cache.delete('key2');
+
+      const stats = await cache.stats();
+      expect(stats.sizeBytes).toBe(estimateEntrySize(large));
+      expect(stats.maxSizeBytes).toBeUndefined();
+    });
+
+    it('should not cache entries larger than the byte budget', async () => {
+      cache = new MemoryCacheProvider({ maxBytes: size * 2 });
+
+      await cache.set('key1', entry({ test: 'data' }));
+      await cache.set('key2', entry({ test: 'data' }));
+      await cache.set('key2', entry({ test: 'data'.repeat(size) }));
+
+      expect(await cache.keys()).toEqual(['key1']);
+      expect((await cache.stats()).evictions).toBe(0);
+    });
+
+    it('should evict the least frequently used entry with LFU', async () => {
+      cache = new MemoryCacheProvider({ maxEntries: 2, evictionPolicy: EvictionPolicy.LFU });
+
+      await cache.set('key1', entry({ test: 'data' }));
+      await cache.set('key2', entry({ test: 'data' }));
+      await cache.get('key1');
+      await cache.get('key1');
+      await cache.get('key2');
+      await cache.set('key3', entry({ test: 'data' }));
+
+      expect(await cache.has('key1')).toBe(true);
+      expect(await cache.has('key2')).toBe(false);
+    });
+
+    it('should evict the soonest expiring entry with TTL-first', async () => {
+      cache = new MemoryCacheProvider({ maxEntries: 2, evictionPolicy: EvictionPolicy.TTL_FIRST });
+
+      await cache.set('key1', entry({ test: 'data' }, now + 1000));
+      await cache.set('key2', entry({ test: 'data' }, now + 60000));
+      await cache.get('key2');
+      await cache.set('key3', entry({ test: 'data' }, now + 30000));
+
+      expect(await cache.has('key1')).toBe(false);
+      expect(await cache.has('key2')).toBe(true);
+      expect(await cache.has('key3')).toBe(true);
+    });
+  });
+
   describe('Invalidation', () => {
     it('should invalidate entries by tags', async () => {
       const entry1: CacheEntry = {
@@ -299,6 +379,25 @@ describe('MemoryCacheProvider', () => {
       expect(await cache.has(`${HealthSource.FITBIT}:${DataType.STEPS}:2024-01-01:2024-01-02`)).toBe(false);
       expect(await cache.has(`${HealthSource.GARMIN}:${DataType.STEPS}:2024-01-01:2024-01-02`)).toBe(true);
     });
+
+    it('should invalidate entries of a single account', async () => {
+      const entry: CacheEntry = {
+        data: { test: 'fitbit' },
+        cachedAt: Date.now(),
+        expiresAt: Date.now() + 60000,
+        source: HealthSource.FITBIT,
+        dataType: DataType.STEPS,
+      };
+
+      await cache.set('fitbit@parent:steps:2024-01-01:2024-01-02', entry);
+      await cache.set('fitbit@child:steps:2024-01-01:2024-01-02', entry);
+
+      const invalidated = await cache.invalidateBySource(HealthSource.FITBIT, 'parent');
+
+      expect(invalidated).toBe(1);
+      expect(await cache.has('fitbit@parent:steps:2024-01-01:2024-01-02')).toBe(false);
+      expect(await cache.has('fitbit@child:steps:2024-01-01:2024-01-02')).toBe(true);
+    });
   });
 
   describe('Statistics', () => {
@@ -0,0 +1,119 @@
+/**
+ * Range Cache Tests
+ *
+ * Tests for the time-range index of cached series
+ */
+
+import {
+  CachedSegment,
+  clipRanges,
+  getSeriesCacheKey,
+  lookupRange,
+  storeRanges,
+} from '../../src/cache/range-cache';
+import { parseCacheKey } from '../../src/cache/cache-provider';
+import { HealthSource, DataType, StepsData } from '../../src/models/unified-data';
+
+const day = (date: number): string => `2024-01-${String(date).padStart(2, '0')}T00:00:00.000Z`;
+const endOfDay = (date: number): string => `2024-01-${String(date).padStart(2, '0')}T23:59:59.999Z`;
+
+const record = (id: string, timestamp: string): StepsData =>
+  ({ id, timestamp, type: DataType.STEPS, count: 100 }) as StepsData;
+
+const now = Date.parse(day(20));
+
+describe('range cache', () => {
+  let segments: CachedSegment[];
+
+  beforeEach(() => {
+    // Monday to Sunday
+    segments = storeRanges(
+      [],
+      [{ startDate: day(1), endDate: endOfDay(7) }],
+      [record('mon', '2024-01-01T08:00:00.000Z'), record('sat', '2024-01-06T08:00:00.000Z')],
+      now,
+      now + 1000
+    );
+  });
+
+  it('should answer sub-ranges from cached segments', () => {
+    const lookup = lookupRange(segments, { startDate: day(1), endDate: endOfDay(5) }, now);
+
+    expect(lookup.data.map((r) => r.id)).toEqual(['mon']);
+    expect(lookup.gaps).toEqual([]);
+    expect(lookup.hitRatio).toBe(1);
+  });
+
+  it('should report only the uncovered gaps', () => {
+    segments = storeRanges(segments, [{ startDate: day(10), endDate: endOfDay(10) }], [], now, now);
+
+    const lookup = lookupRange(segments, { startDate: day(6), endDate: endOfDay(11) }, now);
+
+    expect(lookup.data.map((r) => r.id)).toEqual(['sat']);
+    expect(lookup.gaps).toEqual([
+      { startDate: day(8), endDate: endOfDay(9) },
+      { startDate: day(11), endDate: endOfDay(11) },
+    ]);
+    expect(lookup.hitRatio).toBeCloseTo(3 / 6);
+    expect(lookupRange(segments, { startDate: day(10), endDate: endOfDay(10) }, now + 1)).toEqual({
+      data: [],
+      gaps: [{ startDate: day(10), endDate: endOfDay(10) }],
+      hitRatio: 0,
+    });
+  });
+
+  it('should replace the coverage of refetched ranges', () => {
+    segments = storeRanges(
+      segments,
+      [{ startDate: day(6), endDate: endOfDay(8) }],
+      [record('sat-2', '2024-01-06T09:00:00.000Z'), record('mon-2', '2024-01-08T08:00:00.000Z')],
+      now,
+      now + 1000
+    );
+
+    expect(segments.map((s) => [s.start, s.end])).toEqual([
+      [Date.parse(day(1)), Date.parse(endOfDay(5))],
+      [Date.parse(day(6)), Date.parse(endOfDay(8))],
+    ]);
+    expect(
+      lookupRange(segments, { startDate: day(1), endDate: endOfDay(8) }, now).data.map((r) => r.id)
+    ).toEqual(['mon', 'sat-2', 'mon-2']);
+  });
+
+  it('should not cover time after now', () => {
+    segments = storeRanges(
+      [],
+      [{ startDate: day(19), endDate: endOfDay(20) }],
+      [],
+      now,
+      now + 1000
+    );
+    segments = storeRanges(segments, [{ startDate: day(21), endDate: endOfDay(21) }], [], now, now);
+
+    expect(lookupRange(segments, { startDate: day(19), endDate: endOfDay(20) }, now).gaps).toEqual([
+      { startDate: '2024-01-20T00:00:00.001Z', endDate: endOfDay(20) },
+    ]);
+  });
+
+  it('should clip planned chunks to gaps', () => {
+    const chunks = [
+      { startDate: day(1), endDate: endOfDay(4) },
+      { startDate: day(5), endDate: endOfDay(8) },
+    ];
+
+    expect(clipRanges(chunks, [{ startDate: day(3), endDate: endOfDay(6) }])).toEqual([
+      { startDate: day(3), endDate: endOfDay(4) },
+      { startDate: day(5), endDate: endOfDay(6) },
+    ]);
+  });
+
+  it('should generate parseable series keys', () => {
+    const key = getSeriesCacheKey({
+      source: HealthSource.FITBIT,
+      accountId: 'parent',
+      dataType: DataType.STEPS,
+    });
+
+    expect(parseCacheKey(key)).toMatchObject({ source: HealthSource.FITBIT, accountId: 'parent' });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Circuit Breaker Tests
+ *
+ * Tests for circuit state transitions and registry-level short-circuiting
+ */
+
+import { CircuitBreaker, CircuitState } from '../../src/plugins/circuit-breaker';
+import { PluginRegistry } from '../../src/plugins/plugin-registry';
+import { IHealthDataPlugin } from '../../src/plugins/plugin-interface';
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  DataFetchError,
+  NetworkError,
+} from '../../src/types/config';
+import { DataType, HealthSource } from '../../src/models/unified-data';
+import { Clock, TimerHandle } from '../../src/utils/clock';
+
+/**
+ * Clock whose time is set by the test
+ */
+class ManualClock implements Clock {
+  time = 0;
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(): TimerHandle {
+    return 0;
+  }
+
+  clearTimeout(): void {}
+}
+
+const fetchError = (): DataFetchError =>
+  new DataFetchError('Fitbit is down', HealthSource.FITBIT, DataType.STEPS, 503);
+
+describe('CircuitBreaker', () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    clock = new ManualClock();
+  });
+
+  it('should open after consecutive fetch and network failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, clock);
+
+    breaker.recordFailure(fetchError());
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure(new NetworkError('timeout', 408));
+
+    expect(breaker.getSnapshot()).toEqual({
+      state: CircuitState.OPEN,
+      consecutiveFailures: 2,
+      openedAt: new Date(0).toISOString(),
+      retryAt: new Date(1000).toISOString(),
+    });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should ignore failures that do not indicate an outage', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 }, clock);
+
+    breaker.recordFailure(new AuthenticationError('401', 401));
+    breaker.recordFailure(new Error('unexpected'));
+
+    expect(breaker.getSnapshot().state).toBe(CircuitState.CLOSED);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 }, clock);
+
+    breaker.recordFailure(fetchError());
+    breaker.recordSuccess();
+    breaker.recordFailure(fetchError());
+
+    expect(breaker.getSnapshot().state).toBe(CircuitState.CLOSED);
+  });
+
+  it('should let a single probe through once the reset timeout elapses', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, clock);
+    breaker.recordFailure(fetchError());
+
+    clock.time = 1000;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close when the probe succeeds and re-open when it fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 }, clock);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(fetchError());
+    }
+
+    clock.time = 1000;
+    breaker.tryAcquire();
+    breaker.recordFailure(fetchError());
+
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.OPEN,
+      retryAt: new Date(2000).toISOString(),
+    });
+
+    clock.time = 2000;
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getSnapshot()).toEqual({ state: CircuitState.CLOSED, consecutiveFailures: 0 });
+  });
+
+  it('should never open when disabled', () => {
+    const breaker = new CircuitBreaker({ enabled: false, failureThreshold: 1 }, clock);
+
+    breaker.recordFailure(fetchError());
+
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
+
+describe('PluginRegistry circuit breaking', () => {
+  const plugin = {
+    id: 'fitbit',
+    name: 'Fitbit',
+    version: '1.0.0',
+  } as unknown as IHealthDataPlugin;
+
+  it('should short-circuit calls while the circuit is open and record health', async () => {
+    const clock = new ManualClock();
+    const registry = new PluginRegistry({
+      circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 },
+      clock,
+    });
+    registry.register(plugin);
+
+    await expect(registry.execute('fitbit', async () => 'ok')).resolves.toBe('ok');
+    await expect(
+      registry.execute('fitbit', () => Promise.reject(fetchError()))
+    ).rejects.toBeInstanceOf(DataFetchError);
+
+    const call = jest.fn(async () => 'ok');
+    await expect(registry.execute('fitbit', call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+
+    expect(registry.getHealth('fitbit')).toMatchObject({
+      pluginId: 'fitbit',
+      source: HealthSource.FITBIT,
+      lastSuccessAt: new Date(0).toISOString(),
+      lastError: { message: 'Fitbit is down', code: 'DATA_FETCH_ERROR' },
+      circuit: { state: CircuitState.OPEN },
+    });
+
+    await registry.clear();
+  });
+});
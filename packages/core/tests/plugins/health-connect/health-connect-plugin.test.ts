@@ -88,6 +88,32 @@ describe('HealthConnectPlugin', () => {
       expect(info.requiresAuthentication).toBe(false);
       expect(info.isCloudBased).toBe(false);
     });
+
+    it('should describe sample-level capabilities', () => {
+      const capabilities = plugin.getCapabilities();
+
+      expect(Object.keys(capabilities.dataTypes)).toHaveLength(13);
+      expect(capabilities.dataTypes[DataType.STEPS]).toEqual({
+        granularity: 'sample',
+        paging: 'none',
+        write: false,
+      });
+      expect(capabilities.realtimeUpdates).toBe(true);
+    });
+
+    it('should declare native aggregates when the bridge supports them', () => {
+      plugin.setPlatformBridge({ ...mockBridge, aggregateRecords: jest.fn() });
+
+      const capabilities = plugin.getCapabilities();
+
+      expect(capabilities.dataTypes[DataType.HEART_RATE]?.aggregation?.functions).toEqual([
+        'avg',
+        'min',
+        'max',
+        'count',
+      ]);
+      expect(capabilities.dataTypes[DataType.BLOOD_PRESSURE]?.aggregation).toBeUndefined();
+    });
   });
 
   // ============================================================================
@@ -0,0 +1,47 @@
+/**
+ * Plugin Configuration Tests
+ *
+ * Tests for configuration merging and schema validation
+ */
+
+import { mergePluginConfig, validatePluginConfig } from '../../src/plugins/plugin-config';
+
+describe('plugin configuration', () => {
+  it('should merge later configurations over earlier ones', () => {
+    const config = mergePluginConfig(
+      { timeout: 30000, customHeaders: { 'x-app': 'demo' }, custom: { region: 'eu' } },
+      undefined,
+      { timeout: 5000, customHeaders: { 'x-user': '42' } },
+      { custom: { scopes: ['activity'] } }
+    );
+
+    expect(config).toEqual({
+      timeout: 5000,
+      customHeaders: { 'x-app': 'demo', 'x-user': '42' },
+      custom: { region: 'eu', scopes: ['activity'] },
+    });
+  });
+
+  it('should report every value that breaks the schema', () => {
+    const errors = validatePluginConfig(
+      { timeout: 10, custom: { region: 'us', scopes: 'activity' } },
+      {
+        fields: {
+          clientId: { type: 'string', required: true },
+          timeout: { type: 'number', min: 1000 },
+        },
+        custom: {
+          region: { type: 'string', enum: ['eu', 'apac'] },
+          scopes: { type: 'array' },
+        },
+      }
+    );
+
+    expect(errors).toEqual([
+      'clientId is required',
+      'timeout must be at least 1000',
+      'custom.region must be one of eu, apac',
+      'custom.scopes must be of type array (got string)',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Plugin Middleware Tests
+ *
+ * Tests for hook ordering, transformation and short-circuiting
+ */
+
+import { MiddlewareContext, MiddlewarePipeline } from '../../src/plugins/plugin-middleware';
+import { DataQuery, IHealthDataPlugin, RawHealthData } from '../../src/plugins/plugin-interface';
+import { DataType, HealthSource } from '../../src/models/unified-data';
+
+const context: MiddlewareContext = {
+  operation: 'fetchData',
+  plugin: { id: 'fitbit' } as IHealthDataPlugin,
+  source: HealthSource.FITBIT,
+};
+
+const query: DataQuery = {
+  dataType: DataType.STEPS,
+  startDate: '2024-01-01T00:00:00.000Z',
+  endDate: '2024-01-02T00:00:00.000Z',
+};
+
+const record = (sourceId: string): RawHealthData => ({
+  sourceDataType: DataType.STEPS,
+  timestamp: '2024-01-01T12:00:00.000Z',
+  raw: { count: 100 },
+  source: HealthSource.FITBIT,
+  sourceId,
+});
+
+describe('MiddlewarePipeline', () => {
+  it('should pass each hook the output of the previous one', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { afterFetch: (data) => [...data, record('first')] },
+      { afterFetch: () => undefined },
+      { afterFetch: async (data) => [...data, record('second')] },
+    ]);
+
+    const data = await pipeline.afterFetch([], query, context);
+
+    expect(data.map((r) => r.sourceId)).toEqual(['first', 'second']);
+  });
+
+  it('should replace the query or short-circuit the fetch', async () => {
+    const skipped = jest.fn();
+    const pipeline = new MiddlewarePipeline([
+      { beforeFetch: (q) => ({ ...q, limit: 10 }) },
+      { beforeFetch: (q) => (q.limit === 10 ? [record('cached')] : undefined) },
+      { beforeFetch: skipped },
+    ]);
+
+    const result = await pipeline.beforeFetch(query, context);
+
+    expect(result.query.limit).toBe(10);
+    expect(result.data?.map((r) => r.sourceId)).toEqual(['cached']);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should stop removed middleware from running', async () => {
+    const pipeline = new MiddlewarePipeline();
+    const remove = pipeline.use({ beforeConnect: () => ({ success: true, message: 'stubbed' }) });
+
+    expect(await pipeline.beforeConnect({ ...context, operation: 'connect' })).toMatchObject({
+      message: 'stubbed',
+    });
+
+    remove();
+
+    expect(pipeline.count()).toBe(0);
+    expect(await pipeline.beforeConnect({ ...context, operation: 'connect' })).toBeUndefined();
+  });
+
+  it('should keep reporting the error when an onError hook fails', async () => {
+    const pipeline = new MiddlewarePipeline([
+      {
+        onError: () => {
+          throw new Error('hook failed');
+        },
+      },
+      { onError: (error) => new Error(`wrapped: ${error.message}`) },
+    ]);
+
+    const error = await pipeline.onError(new Error('fetch failed'), context);
+
+    expect(error.message).toBe('wrapped: fetch failed');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Plugin Registry Tests
+ *
+ * Tests for source resolution, keyed plugin instances, custom sources and
+ * version compatibility
+ */
+
+import { PluginRegistry, getPluginKey } from '../../src/plugins/plugin-registry';
+import { IHealthDataPlugin, PluginRequirements } from '../../src/plugins/plugin-interface';
+import {
+  registerHealthSource,
+  unregisterHealthSource,
+  isHealthSource,
+} from '../../src/models/source-registry';
+import { DataType, HealthSource } from '../../src/models/unified-data';
+import { ConfigurationError, PluginCompatibilityError, PluginError } from '../../src/types/config';
+import { QualityScorer } from '../../src/normalizer/quality-scorer';
+
+const createPlugin = (id: string, source?: HealthSource, instanceKey?: string): IHealthDataPlugin =>
+  ({
+    id,
+    name: id,
+    version: '1.0.0',
+    source,
+    instanceKey,
+    supportedDataTypes: [],
+  }) as unknown as IHealthDataPlugin;
+
+const createVersionedPlugin = (
+  id: string,
+  version: string,
+  requirements?: PluginRequirements
+): IHealthDataPlugin =>
+  ({
+    ...createPlugin(id, HealthSource.FITBIT, id),
+    version,
+    requirements,
+  }) as IHealthDataPlugin;
+
+describe('PluginRegistry', () => {
+  let registry: PluginRegistry;
+
+  beforeEach(() => {
+    registry = new PluginRegistry();
+  });
+
+  afterEach(async () => {
+    await registry.clear();
+  });
+
+  describe('source resolution', () => {
+    it('should use the source a plugin declares', () => {
+      registry.register(createPlugin('acme-fitbit-bridge', HealthSource.FITBIT));
+
+      expect(registry.getPluginBySource(HealthSource.FITBIT)?.id).toBe('acme-fitbit-bridge');
+      expect(registry.getPluginSource('acme-fitbit-bridge')).toBe(HealthSource.FITBIT);
+    });
+
+    it('should fall back to built-in plugin IDs', () => {
+      registry.register(createPlugin('healthkit'));
+
+      expect(registry.getPluginBySource(HealthSource.APPLE_HEALTH)?.id).toBe('healthkit');
+    });
+
+    it('should reject plugins without a resolvable source', () => {
+      expect(() => registry.register(createPlugin('mystery'))).toThrow(ConfigurationError);
+      expect(() => registry.register(createPlugin('polar', 'polar' as HealthSource))).toThrow(
+        /registerHealthSource/
+      );
+      expect(registry.count()).toBe(0);
+    });
+  });
+
+  describe('instances', () => {
+    it('should register several plugins of a source under instance keys', async () => {
+      const primary = createPlugin('fitbit', HealthSource.FITBIT);
+      const parent = createPlugin('fitbit', HealthSource.FITBIT, 'parent');
+
+      registry.register(primary);
+      registry.register(parent);
+
+      expect(getPluginKey(parent)).toBe('fitbit:parent');
+      expect(registry.getPluginsBySource(HealthSource.FITBIT)).toEqual([primary, parent]);
+      expect(registry.getPluginBySource(HealthSource.FITBIT)).toBe(primary);
+      expect(registry.getPluginBySource(HealthSource.FITBIT, 'parent')).toBe(parent);
+      expect(registry.getHealth('fitbit:parent')).toMatchObject({
+        pluginId: 'fitbit',
+        instanceKey: 'parent',
+        source: HealthSource.FITBIT,
+      });
+
+      await registry.unregister('fitbit');
+      expect(registry.getPluginBySource(HealthSource.FITBIT)).toBe(parent);
+      expect(registry.getSources()).toEqual([HealthSource.FITBIT]);
+    });
+
+    it('should reject a duplicate instance key', () => {
+      registry.register(createPlugin('fitbit', HealthSource.FITBIT, 'child'));
+
+      expect(() => registry.register(createPlugin('fitbit', HealthSource.FITBIT, 'child'))).toThrow(
+        PluginError
+      );
+    });
+
+    it('should describe the source and instance key of each plugin', async () => {
+      registry.register(createPlugin('garmin', HealthSource.GARMIN, 'coach'));
+
+      const [info] = await registry.getPluginInfo();
+
+      expect(info).toMatchObject({
+        id: 'garmin',
+        source: HealthSource.GARMIN,
+        instanceKey: 'coach',
+      });
+    });
+  });
+
+  describe('custom sources', () => {
+    afterEach(() => {
+      unregisterHealthSource('polar');
+    });
+
+    it('should accept plugins of registered custom sources', () => {
+      const polar = registerHealthSource({ id: 'polar', name: 'Polar Flow', reliability: 0.8 });
+
+      registry.register(createPlugin('polar-flow', polar));
+
+      expect(isHealthSource('polar')).toBe(true);
+      expect(registry.getPluginBySource(polar)?.id).toBe('polar-flow');
+      expect(
+        QualityScorer.calculateQualityScore({ source: polar, dataType: DataType.STEPS }).factors
+          .sourceReliability
+      ).toBe(0.8);
+    });
+
+    it('should reject invalid or built-in identifiers', () => {
+      expect(() => registerHealthSource({ id: 'Polar Flow' })).toThrow(ConfigurationError);
+      expect(() => registerHealthSource({ id: HealthSource.FITBIT })).toThrow(ConfigurationError);
+      expect(() => registerHealthSource({ id: 'polar', reliability: 2 })).toThrow(
+        ConfigurationError
+      );
+      expect(isHealthSource('polar')).toBe(false);
+    });
+  });
+
+  describe('compatibility', () => {
+    beforeEach(() => {
+      registry = new PluginRegistry({ coreVersion: '1.4.0' });
+    });
+
+    it('should reject plugins requiring another core version', () => {
+      const plugin = createVersionedPlugin('future', '1.0.0', { core: '^2.0.0' });
+
+      expect(() => registry.register(plugin)).toThrow(PluginCompatibilityError);
+
+      try {
+        registry.register(plugin);
+      } catch (error) {
+        expect((error as PluginCompatibilityError).issues).toEqual([
+          expect.objectContaining({
+            type: 'core-version',
+            pluginId: 'future',
+            required: '^2.0.0',
+            actual: '1.4.0',
+          }),
+        ]);
+      }
+      expect(registry.count()).toBe(0);
+    });
+
+    it('should reject plugins declaring invalid ranges', () => {
+      expect(() =>
+        registry.register(createVersionedPlugin('broken', '1.0.0', { core: 'latest' }))
+      ).toThrow(/invalid core version range/);
+    });
+
+    it('should check peer versions in both registration orders', () => {
+      registry.register(createVersionedPlugin('base', '1.0.0'));
+
+      expect(() =>
+        registry.register(
+          createVersionedPlugin('addon', '1.0.0', { peers: [{ id: 'base', version: '^2.0.0' }] })
+        )
+      ).toThrow(PluginCompatibilityError);
+
+      registry.register(
+        createVersionedPlugin('extra', '1.0.0', { peers: [{ id: 'other', version: '^1.0.0' }] })
+      );
+
+      expect(() => registry.register(createVersionedPlugin('other', '2.0.0'))).toThrow(
+        /'extra' requires 'other' \^1\.0\.0 but 2\.0\.0/
+      );
+      expect(registry.count()).toBe(2);
+    });
+
+    it('should report missing peers without rejecting the plugin', () => {
+      registry.register(
+        createVersionedPlugin('addon', '1.0.0', {
+          core: '>=1.0.0',
+          peers: [{ id: 'base' }, { id: 'extras', optional: true }],
+        })
+      );
+
+      let report = registry.getCompatibilityReport();
+      expect(report.compatible).toBe(false);
+      expect(report.coreVersion).toBe('1.4.0');
+      expect(report.plugins[0]).toMatchObject({
+        pluginId: 'addon',
+        instanceKey: 'addon',
+        compatible: false,
+        issues: [{ type: 'peer-missing', peerId: 'base' }],
+      });
+
+      registry.register(createVersionedPlugin('base', '1.0.0'));
+
+      report = registry.getCompatibilityReport();
+      expect(report.compatible).toBe(true);
+      expect(report.plugins.map((plugin) => plugin.issues)).toEqual([[], []]);
+    });
+  });
+});
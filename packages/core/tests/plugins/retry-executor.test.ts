@@ -0,0 +1,235 @@
+/**
+ * Retry Executor Tests
+ *
+ * Tests for backoff, re-authentication, deferral and timeouts using a
+ * manually advanced clock
+ */
+
+import { RetryExecutor } from '../../src/plugins/retry-executor';
+import { ErrorAction, IHealthDataPlugin } from '../../src/plugins/plugin-interface';
+import {
+  AuthenticationError,
+  NetworkError,
+  OperationDeferredError,
+  RateLimitError,
+} from '../../src/types/config';
+import { Clock, TimerHandle } from '../../src/utils/clock';
+
+/**
+ * Clock whose time only moves when advanced
+ */
+class FakeClock implements Clock {
+  private time = 0;
+  private nextId = 1;
+  private timers: Map<number, { at: number; callback: () => void }> = new Map();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  pending(): number {
+    return this.timers.size;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      await flush();
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+
+    this.time = target;
+    await flush();
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Minimal plugin exposing only error handling
+ */
+function createPlugin(
+  action: ErrorAction,
+  refreshAuth?: () => Promise<boolean>
+): IHealthDataPlugin {
+  const plugin = {
+    id: 'test-plugin',
+    handleError: jest.fn(() => action),
+  } as unknown as IHealthDataPlugin;
+
+  if (refreshAuth) {
+    plugin.refreshAuth = refreshAuth;
+  }
+
+  return plugin;
+}
+
+const context = { operation: 'fetchData' };
+
+describe('RetryExecutor', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+  });
+
+  it('should return the result of a successful call', async () => {
+    const executor = new RetryExecutor({ clock });
+
+    await expect(
+      executor.execute(createPlugin(ErrorAction.FAIL), async () => 42, context)
+    ).resolves.toBe(42);
+    expect(clock.pending()).toBe(0);
+  });
+
+  it('should retry with exponential backoff until the call succeeds', async () => {
+    const executor = new RetryExecutor({
+      clock,
+      maxAttempts: 3,
+      initialDelay: 100,
+      backoffMultiplier: 2,
+      useJitter: false,
+    });
+    const call = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue('ok');
+
+    const result = executor.execute(createPlugin(ErrorAction.RETRY), call, context);
+
+    await clock.advance(99);
+    expect(call).toHaveBeenCalledTimes(1);
+    await clock.advance(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await clock.advance(200);
+
+    await expect(result).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw the last error once attempts are exhausted', async () => {
+    const executor = new RetryExecutor({ clock, maxAttempts: 2, initialDelay: 10 });
+    const call = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('network down'));
+
+    const result = executor.execute(createPlugin(ErrorAction.RETRY), call, context);
+    const assertion = expect(result).rejects.toThrow('network down');
+    await clock.advance(10);
+
+    await assertion;
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap and jitter delays', () => {
+    const executor = new RetryExecutor({
+      initialDelay: 1000,
+      maxDelay: 5000,
+      backoffMultiplier: 10,
+      random: () => 0.5,
+    });
+
+    expect(executor.getDelay(1)).toBe(750);
+    expect(executor.getDelay(3)).toBe(3750);
+  });
+
+  it('should not retry errors the plugin classifies as fatal', async () => {
+    const executor = new RetryExecutor({ clock });
+    const call = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('404'));
+
+    await expect(executor.execute(createPlugin(ErrorAction.FAIL), call, context)).rejects.toThrow(
+      '404'
+    );
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the fallback result for ignored errors', async () => {
+    const executor = new RetryExecutor({ clock });
+
+    await expect(
+      executor.execute(
+        createPlugin(ErrorAction.IGNORE),
+        () => Promise.reject(new Error('x')),
+        context,
+        []
+      )
+    ).resolves.toEqual([]);
+  });
+
+  it('should refresh credentials once and retry on REAUTH', async () => {
+    const executor = new RetryExecutor({ clock });
+    const refreshAuth = jest.fn(async () => true);
+    const call = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('401'))
+      .mockResolvedValue('ok');
+
+    await expect(
+      executor.execute(createPlugin(ErrorAction.REAUTH, refreshAuth), call, context)
+    ).resolves.toBe('ok');
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw AuthenticationError when re-authentication does not help', async () => {
+    const executor = new RetryExecutor({ clock });
+    const refreshAuth = jest.fn(async () => true);
+    const call = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('401'));
+
+    await expect(
+      executor.execute(createPlugin(ErrorAction.REAUTH, refreshAuth), call, context)
+    ).rejects.toBeInstanceOf(AuthenticationError);
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should defer queued calls with the rate limit reset time', async () => {
+    const onDefer = jest.fn();
+    const executor = new RetryExecutor({ clock, onDefer });
+    const error = new RateLimitError('429', '2024-01-01T01:00:00.000Z', 60);
+
+    const result = executor.execute(
+      createPlugin(ErrorAction.QUEUE),
+      () => Promise.reject(error),
+      context
+    );
+
+    await expect(result).rejects.toBeInstanceOf(OperationDeferredError);
+    await expect(result).rejects.toMatchObject({ retryAt: '2024-01-01T01:00:00.000Z' });
+    expect(onDefer).toHaveBeenCalledWith(context, error);
+  });
+
+  it('should time out calls that do not settle', async () => {
+    const executor = new RetryExecutor({ clock, maxAttempts: 1, timeout: 500 });
+
+    const result = executor.execute(
+      createPlugin(ErrorAction.RETRY),
+      () => new Promise<never>(() => undefined),
+      context
+    );
+    const assertion = expect(result).rejects.toBeInstanceOf(NetworkError);
+    await clock.advance(500);
+
+    await assertion;
+    await expect(result).rejects.toThrow('timeout');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Aggregator Tests
+ *
+ * Tests for calendar bucketing and per-type aggregation semantics
+ */
+
+import { Aggregator } from '../../src/query/aggregator';
+import {
+  HealthSource,
+  DataType,
+  DataQuality,
+  StepsData,
+  HeartRateData,
+  HeartRateContext,
+} from '../../src/models/unified-data';
+
+const metadata = {
+  quality: DataQuality.MEDIUM,
+  isManualEntry: false,
+  recordedAt: '2024-01-01T00:00:00.000Z',
+  syncedAt: '2024-01-01T00:00:00.000Z',
+};
+
+function createSteps(count: number, timestamp: string, endTimestamp?: string): StepsData {
+  const record: StepsData = {
+    id: `steps-${timestamp}`,
+    source: HealthSource.FITBIT,
+    dataType: DataType.STEPS,
+    timestamp,
+    metadata,
+    count,
+  };
+
+  if (endTimestamp !== undefined) {
+    record.endTimestamp = endTimestamp;
+  }
+
+  return record;
+}
+
+function createHeartRate(bpm: number, timestamp: string): HeartRateData {
+  return {
+    id: `hr-${timestamp}`,
+    source: HealthSource.FITBIT,
+    dataType: DataType.HEART_RATE,
+    timestamp,
+    metadata,
+    bpm,
+    context: HeartRateContext.RESTING,
+  };
+}
+
+const range = (start: string, end: string): { start: number; end: number } => ({
+  start: Date.parse(start),
+  end: Date.parse(end),
+});
+
+describe('Aggregator', () => {
+  const aggregator = new Aggregator();
+
+  describe('createBuckets', () => {
+    it('should follow local midnight across a DST transition', () => {
+      const { start, end } = range('2024-03-09T05:00:00.000Z', '2024-03-12T04:00:00.000Z');
+
+      const buckets = aggregator.createBuckets(start, end, 'day', 'America/New_York');
+
+      expect(buckets.map((b) => (b.end - b.start) / 3600000)).toEqual([24, 23, 24]);
+    });
+
+    it('should start weeks on Monday', () => {
+      const { start, end } = range('2024-01-03T00:00:00.000Z', '2024-01-10T00:00:00.000Z');
+
+      const buckets = aggregator.createBuckets(start, end, 'week', 'UTC');
+
+      expect(new Date(buckets[0]?.start ?? 0).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(buckets).toHaveLength(2);
+    });
+  });
+
+  describe('aggregate', () => {
+    const hours = range('2024-01-01T08:00:00.000Z', '2024-01-01T10:00:00.000Z');
+    const buckets = aggregator.createBuckets(hours.start, hours.end, 'hour', 'UTC');
+
+    it('should split interval records across the buckets they overlap', () => {
+      const steps = createSteps(900, '2024-01-01T08:30:00.000Z', '2024-01-01T09:00:00.000Z');
+      const spanning = createSteps(600, '2024-01-01T08:50:00.000Z', '2024-01-01T09:20:00.000Z');
+
+      const result = aggregator.aggregate([steps, spanning], buckets, hours, 'sum', 'UTC');
+
+      expect(result.map((b) => b.value)).toEqual([1100, 400]);
+      expect(result[0]?.start).toBe('2024-01-01T08:00:00.000+00:00');
+    });
+
+    it('should clip interval records to the requested range', () => {
+      const steps = createSteps(1000, '2024-01-01T07:30:00.000Z', '2024-01-01T08:30:00.000Z');
+
+      const result = aggregator.aggregate([steps], buckets, hours, 'sum', 'UTC');
+
+      expect(result.map((b) => b.value)).toEqual([500, null]);
+    });
+
+    it('should average, count and bound point measurements', () => {
+      const records = [
+        createHeartRate(60, '2024-01-01T08:10:00.000Z'),
+        createHeartRate(80, '2024-01-01T08:40:00.000Z'),
+      ];
+
+      expect(aggregator.aggregate(records, buckets, hours, 'avg', 'UTC')[0]?.value).toBe(70);
+      expect(aggregator.aggregate(records, buckets, hours, 'max', 'UTC')[0]?.value).toBe(80);
+      expect(
+        aggregator.aggregate(records, buckets, hours, 'count', 'UTC').map((b) => b.value)
+      ).toEqual([2, 0]);
+    });
+
+    it('should bound buckets with more values than fit in a call', () => {
+      const start = Date.parse('2024-01-01T08:00:00.000Z');
+      const records = Array.from({ length: 300000 }, (_, i) =>
+        createHeartRate(60 + (i % 100), new Date(start + (i % 3600000)).toISOString())
+      );
+
+      expect(aggregator.aggregate(records, buckets, hours, 'min', 'UTC')[0]?.value).toBe(60);
+      expect(aggregator.aggregate(records, buckets, hours, 'max', 'UTC')[0]?.value).toBe(159);
+    });
+  });
+
+  describe('fromDataPoints', () => {
+    it('should combine daily points into weekly buckets', () => {
+      const week = range('2024-01-01T00:00:00.000Z', '2024-01-08T00:00:00.000Z');
+      const buckets = aggregator.createBuckets(week.start, week.end, 'week', 'UTC');
+      const points = [
+        { start: '2024-01-01T00:00:00.000Z', value: 60, count: 1 },
+        { start: '2024-01-02T00:00:00.000Z', value: 90, count: 3 },
+      ];
+
+      expect(aggregator.fromDataPoints(points, buckets, 'sum', 'UTC')[0]?.value).toBe(150);
+      expect(aggregator.fromDataPoints(points, buckets, 'avg', 'UTC')[0]?.value).toBe(82.5);
+    });
+  });
+
+  describe('semantics', () => {
+    it('should choose the natural function per data type', () => {
+      expect(Aggregator.getDefaultFunction(DataType.STEPS)).toBe('sum');
+      expect(Aggregator.getDefaultFunction(DataType.HEART_RATE)).toBe('avg');
+      expect(Aggregator.supports(DataType.NUTRITION, 'sum')).toBe(false);
+      expect(Aggregator.supports(DataType.NUTRITION, 'count')).toBe(true);
+    });
+  });
+});
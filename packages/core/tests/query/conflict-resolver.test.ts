@@ -0,0 +1,227 @@
+/**
+ * Conflict Resolver Tests
+ *
+ * Tests for cross-source duplicate detection and resolution strategies
+ */
+
+import { ConflictResolver } from '../../src/query/conflict-resolver';
+import {
+  HealthSource,
+  DataType,
+  DataQuality,
+  StepsData,
+  HeartRateData,
+  HeartRateContext,
+} from '../../src/models/unified-data';
+import { ConflictStrategy } from '../../src/types/config';
+
+function createSteps(
+  id: string,
+  source: HealthSource,
+  count: number,
+  timestamp: string,
+  endTimestamp: string,
+  recordedAt: string = timestamp
+): StepsData {
+  return {
+    id,
+    source,
+    dataType: DataType.STEPS,
+    timestamp,
+    endTimestamp,
+    metadata: {
+      quality: DataQuality.MEDIUM,
+      isManualEntry: false,
+      recordedAt,
+      syncedAt: recordedAt,
+    },
+    count,
+  };
+}
+
+function createHeartRate(id: string, source: HealthSource, bpm: number): HeartRateData {
+  return {
+    id,
+    source,
+    dataType: DataType.HEART_RATE,
+    timestamp: '2024-01-01T10:00:00.000Z',
+    metadata: {
+      quality: DataQuality.MEDIUM,
+      isManualEntry: false,
+      recordedAt: '2024-01-01T10:00:00.000Z',
+      syncedAt: '2024-01-01T10:00:00.000Z',
+    },
+    bpm,
+    context: HeartRateContext.RESTING,
+  };
+}
+
+const hour = (h: number): string => `2024-01-01T${String(h).padStart(2, '0')}:00:00.000Z`;
+
+describe('ConflictResolver', () => {
+  describe('detection', () => {
+    it('should group overlapping, similar records from different sources', () => {
+      const resolver = new ConflictResolver();
+      const hc = createSteps('hc', HealthSource.HEALTH_CONNECT, 1000, hour(8), hour(9));
+      const fitbit = createSteps('fb', HealthSource.FITBIT, 1040, hour(8), hour(9));
+      const other = createSteps('hc-2', HealthSource.HEALTH_CONNECT, 500, hour(9), hour(10));
+
+      expect(resolver.detect([hc, other, fitbit])).toEqual([[hc, fitbit]]);
+    });
+
+    it('should not group records from the same source', () => {
+      const resolver = new ConflictResolver();
+      const a = createSteps('a', HealthSource.FITBIT, 1000, hour(8), hour(9));
+      const b = createSteps('b', HealthSource.FITBIT, 1000, hour(8), hour(9));
+
+      expect(resolver.detect([a, b])).toEqual([]);
+    });
+
+    it('should not group records whose values differ beyond the tolerance', () => {
+      const resolver = new ConflictResolver({ valueTolerance: 0.1 });
+      const a = createHeartRate('a', HealthSource.FITBIT, 60);
+      const b = createHeartRate('b', HealthSource.HEALTH_CONNECT, 75);
+
+      expect(resolver.detect([a, b])).toEqual([]);
+    });
+
+    it('should not group records outside the time tolerance', () => {
+      const resolver = new ConflictResolver({ timeTolerance: 60 * 1000 });
+      const a = createSteps('a', HealthSource.FITBIT, 1000, hour(8), hour(9));
+      const b = createSteps('b', HealthSource.HEALTH_CONNECT, 1000, hour(8), hour(10));
+
+      expect(resolver.detect([a, b])).toEqual([]);
+    });
+
+    it('should group records of different granularity covering the same period', () => {
+      const resolver = new ConflictResolver();
+      const total = createSteps('total', HealthSource.FITBIT, 310, hour(0), hour(3));
+      const morning = createSteps('morning', HealthSource.FITBIT, 100, hour(0), hour(6));
+      const hourly = [0, 1, 2].map((h) =>
+        createSteps(`hc-${h}`, HealthSource.HEALTH_CONNECT, 100, hour(h), hour(h + 1))
+      );
+
+      expect(resolver.detect([total, ...hourly])).toEqual([]);
+      expect(resolver.detectOverlaps([total, ...hourly])).toEqual([[total, ...hourly]]);
+      expect(resolver.detectOverlaps([morning, ...hourly])).toEqual([]);
+    });
+  });
+
+  describe('resolution', () => {
+    const hc = createSteps(
+      'hc',
+      HealthSource.HEALTH_CONNECT,
+      1000,
+      hour(8),
+      hour(9),
+      '2024-01-01T09:05:00.000Z'
+    );
+    const fitbit = createSteps(
+      'fb',
+      HealthSource.FITBIT,
+      1010,
+      hour(8),
+      hour(9),
+      '2024-01-01T09:30:00.000Z'
+    );
+
+    it('should keep the record with the highest quality score by default', () => {
+      const resolver = new ConflictResolver();
+
+      const result = resolver.resolve([fitbit, hc]);
+
+      // Health Connect is rated more reliable than Fitbit
+      expect(result.data).toEqual([hc]);
+      expect(result.conflicts).toEqual([
+        {
+          dataType: DataType.STEPS,
+          timestamp: hour(8),
+          endTimestamp: hour(9),
+          sources: [HealthSource.FITBIT, HealthSource.HEALTH_CONNECT],
+          recordIds: ['fb', 'hc'],
+          resolvedRecordId: 'hc',
+          strategy: ConflictStrategy.HIGHEST_QUALITY,
+        },
+      ]);
+    });
+
+    it('should keep the record from the preferred source', () => {
+      const resolver = new ConflictResolver({
+        strategy: ConflictStrategy.PREFER_SOURCE,
+        sourcePriority: [HealthSource.FITBIT],
+      });
+
+      expect(resolver.resolve([hc, fitbit]).data).toEqual([fitbit]);
+    });
+
+    it('should keep the newest record', () => {
+      const resolver = new ConflictResolver({ strategy: ConflictStrategy.NEWEST });
+
+      expect(resolver.resolve([hc, fitbit]).data).toEqual([fitbit]);
+    });
+
+    it('should merge missing fields into the best record', () => {
+      const resolver = new ConflictResolver({ strategy: ConflictStrategy.MERGE });
+      const withDistance: StepsData = { ...fitbit, distance: 800 };
+
+      const [merged] = resolver.resolve([hc, withDistance]).data;
+
+      expect(merged).toMatchObject({ id: 'hc', count: 1000, distance: 800 });
+      expect(merged?.metadata.custom?.['mergedFrom']).toEqual(['hc', 'fb']);
+    });
+
+    it('should keep one source of hourly and daily steps for the same day', () => {
+      const daily = createSteps(
+        'fb-day',
+        HealthSource.FITBIT,
+        9800,
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-02T00:00:00.000Z'
+      );
+      const hourly = [8, 12, 18].map((h) =>
+        createSteps(`hc-${h}`, HealthSource.HEALTH_CONNECT, 3300, hour(h), hour(h + 1))
+      );
+      const nextDay = createSteps(
+        'hc-next',
+        HealthSource.HEALTH_CONNECT,
+        500,
+        '2024-01-02T08:00:00.000Z',
+        '2024-01-02T09:00:00.000Z'
+      );
+
+      const byQuality = new ConflictResolver().resolve([daily, ...hourly, nextDay]);
+      const bySource = new ConflictResolver({
+        strategy: ConflictStrategy.PREFER_SOURCE,
+        sourcePriority: [HealthSource.FITBIT],
+      }).resolve([daily, ...hourly, nextDay]);
+
+      expect(byQuality.data.map((r) => r.id)).toEqual(['hc-8', 'hc-12', 'hc-18', 'hc-next']);
+      expect(byQuality.conflicts).toEqual([
+        {
+          dataType: DataType.STEPS,
+          timestamp: hour(0),
+          endTimestamp: '2024-01-02T00:00:00.000Z',
+          sources: [
+            HealthSource.FITBIT,
+            HealthSource.HEALTH_CONNECT,
+            HealthSource.HEALTH_CONNECT,
+            HealthSource.HEALTH_CONNECT,
+          ],
+          recordIds: ['fb-day', 'hc-8', 'hc-12', 'hc-18'],
+          resolvedRecordId: 'hc-8',
+          strategy: ConflictStrategy.HIGHEST_QUALITY,
+        },
+      ]);
+      expect(bySource.data.map((r) => r.id)).toEqual(['fb-day', 'hc-next']);
+    });
+
+    it('should leave unrelated records in place', () => {
+      const resolver = new ConflictResolver();
+      const later = createSteps('later', HealthSource.FITBIT, 300, hour(12), hour(13));
+
+      const result = resolver.resolve([hc, later, fitbit]);
+
+      expect(result.data.map((r) => r.id)).toEqual(['hc', 'later']);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Query Planner Tests
+ *
+ * Tests for capability-based source selection, history clipping and range splitting
+ */
+
+import { QueryPlanner } from '../../src/query/query-planner';
+import { DataType, HealthSource } from '../../src/models/unified-data';
+import { PluginCapabilities } from '../../src/plugins/plugin-interface';
+import { UnsupportedCapabilityError } from '../../src/types/config';
+import { Clock } from '../../src/utils/clock';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const clock: Clock = {
+  now: () => Date.parse('2024-03-31T00:00:00.000Z'),
+  setTimeout: () => undefined,
+  clearTimeout: () => undefined,
+};
+
+const capabilities: PluginCapabilities = {
+  dataTypes: {
+    [DataType.STEPS]: {
+      granularity: 'day',
+      maxRangePerRequest: 7 * DAY,
+      paging: 'none',
+      write: false,
+      aggregation: { functions: ['sum'], buckets: ['day', 'week'] },
+    },
+    [DataType.HEART_RATE]: {
+      granularity: 'sample',
+      paging: 'token',
+      write: false,
+      historicalLimit: 30,
+    },
+  },
+  realtimeUpdates: false,
+  changeTokens: false,
+};
+
+const candidate = { source: HealthSource.FITBIT, capabilities };
+
+describe('QueryPlanner', () => {
+  let planner: QueryPlanner;
+
+  beforeEach(() => {
+    planner = new QueryPlanner({ clock });
+  });
+
+  describe('planSource', () => {
+    it('should fetch short ranges in a single request', () => {
+      const plan = planner.planSource(
+        {
+          dataType: DataType.HEART_RATE,
+          startDate: '2024-03-20T00:00:00.000Z',
+          endDate: '2024-03-30T23:59:59.999Z',
+          timezone: 'UTC',
+        },
+        candidate
+      );
+
+      expect(plan.ranges).toEqual([
+        { startDate: '2024-03-20T00:00:00.000Z', endDate: '2024-03-30T23:59:59.999Z' },
+      ]);
+    });
+
+    it('should split long ranges at local period boundaries', () => {
+      const plan = planner.planSource(
+        {
+          dataType: DataType.STEPS,
+          startDate: '2024-03-01T05:00:00.000Z',
+          endDate: '2024-03-16T03:59:59.999Z',
+          timezone: 'America/New_York',
+        },
+        candidate
+      );
+
+      // DST starts on March 10th in New York
+      expect(plan.ranges).toEqual([
+        { startDate: '2024-03-01T05:00:00.000Z', endDate: '2024-03-08T04:59:59.999Z' },
+        { startDate: '2024-03-08T05:00:00.000Z', endDate: '2024-03-15T03:59:59.999Z' },
+        { startDate: '2024-03-15T04:00:00.000Z', endDate: '2024-03-16T03:59:59.999Z' },
+      ]);
+    });
+
+    it('should clip ranges to the historical limit', () => {
+      const plan = planner.planSource(
+        {
+          dataType: DataType.HEART_RATE,
+          startDate: '2024-01-01T00:00:00.000Z',
+          endDate: '2024-03-30T00:00:00.000Z',
+          timezone: 'UTC',
+        },
+        candidate
+      );
+
+      expect(plan.ranges[0]?.startDate).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('should reject ranges entirely beyond the historical limit', () => {
+      expect(() =>
+        planner.planSource(
+          {
+            dataType: DataType.HEART_RATE,
+            startDate: '2024-01-01T00:00:00.000Z',
+            endDate: '2024-01-31T00:00:00.000Z',
+            timezone: 'UTC',
+          },
+          candidate
+        )
+      ).toThrow(/30 days/);
+    });
+
+    it('should reject buckets finer than the granularity', () => {
+      expect(() =>
+        planner.planSource(
+          {
+            dataType: DataType.STEPS,
+            startDate: '2024-03-01T00:00:00.000Z',
+            endDate: '2024-03-02T00:00:00.000Z',
+            timezone: 'UTC',
+            bucket: 'hour',
+          },
+          candidate
+        )
+      ).toThrow(UnsupportedCapabilityError);
+    });
+  });
+
+  describe('plan', () => {
+    it('should separate usable and rejected sources', () => {
+      const plan = planner.plan(
+        {
+          dataType: DataType.SLEEP,
+          startDate: '2024-03-01T00:00:00.000Z',
+          endDate: '2024-03-02T00:00:00.000Z',
+          timezone: 'UTC',
+        },
+        [
+          candidate,
+          {
+            source: HealthSource.HEALTH_CONNECT,
+            capabilities: {
+              ...capabilities,
+              dataTypes: {
+                [DataType.SLEEP]: { granularity: 'sample', paging: 'none', write: false },
+              },
+            },
+          },
+        ]
+      );
+
+      expect(plan.sources.map((p) => p.source)).toEqual([HealthSource.HEALTH_CONNECT]);
+      expect(plan.rejected).toHaveLength(1);
+      expect(plan.rejected[0]?.details).toMatchObject({
+        source: HealthSource.FITBIT,
+        dataType: DataType.SLEEP,
+        reason: 'dataType',
+      });
+    });
+  });
+
+  describe('canAggregate', () => {
+    it('should require both the function and the bucket', () => {
+      expect(QueryPlanner.canAggregate(capabilities, DataType.STEPS, 'sum', 'week')).toBe(true);
+      expect(QueryPlanner.canAggregate(capabilities, DataType.STEPS, 'avg', 'week')).toBe(false);
+      expect(QueryPlanner.canAggregate(capabilities, DataType.STEPS, 'sum', 'month')).toBe(false);
+      expect(QueryPlanner.canAggregate(capabilities, DataType.HEART_RATE, 'avg', 'day')).toBe(
+        false
+      );
+    });
+  });
+});
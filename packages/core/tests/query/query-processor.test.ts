@@ -0,0 +1,165 @@
+/**
+ * Query Processor Tests
+ *
+ * Tests for filtering, sorting and pagination of merged query results
+ */
+
+import { QueryProcessor } from '../../src/query/query-processor';
+import {
+  HealthSource,
+  DataType,
+  DataQuality,
+  UnifiedHealthData,
+} from '../../src/models/unified-data';
+
+function createRecord(
+  id: string,
+  timestamp: string,
+  overrides: {
+    source?: HealthSource;
+    quality?: DataQuality;
+    isManualEntry?: boolean;
+    manufacturer?: string;
+    model?: string;
+    custom?: Record<string, unknown>;
+  } = {}
+): UnifiedHealthData {
+  const record: UnifiedHealthData = {
+    id,
+    source: overrides.source ?? HealthSource.FITBIT,
+    dataType: DataType.STEPS,
+    timestamp,
+    metadata: {
+      quality: overrides.quality ?? DataQuality.MEDIUM,
+      isManualEntry: overrides.isManualEntry ?? false,
+      recordedAt: timestamp,
+      syncedAt: timestamp,
+    },
+  };
+
+  if (overrides.manufacturer !== undefined) {
+    record.metadata.manufacturer = overrides.manufacturer;
+  }
+  if (overrides.model !== undefined) {
+    record.metadata.model = overrides.model;
+  }
+  if (overrides.custom !== undefined) {
+    record.metadata.custom = overrides.custom;
+  }
+
+  return record;
+}
+
+const ids = (records: UnifiedHealthData[]): string[] => records.map((r) => r.id);
+
+describe('QueryProcessor', () => {
+  let processor: QueryProcessor;
+
+  beforeEach(() => {
+    processor = new QueryProcessor();
+  });
+
+  describe('filter', () => {
+    it('should keep records at or above the minimum quality', () => {
+      const records = [
+        createRecord('high', '2024-01-01T00:00:00Z', { quality: DataQuality.HIGH }),
+        createRecord('medium', '2024-01-01T00:00:00Z', { quality: DataQuality.MEDIUM }),
+        createRecord('low', '2024-01-01T00:00:00Z', { quality: DataQuality.LOW }),
+        createRecord('unknown', '2024-01-01T00:00:00Z', { quality: DataQuality.UNKNOWN }),
+      ];
+
+      expect(ids(processor.filter(records, { minQuality: 'medium' }))).toEqual(['high', 'medium']);
+    });
+
+    it('should filter manual and automatic entries', () => {
+      const records = [
+        createRecord('manual', '2024-01-01T00:00:00Z', { isManualEntry: true }),
+        createRecord('auto', '2024-01-01T00:00:00Z'),
+      ];
+
+      expect(ids(processor.filter(records, { manualOnly: true }))).toEqual(['manual']);
+      expect(ids(processor.filter(records, { automaticOnly: true }))).toEqual(['auto']);
+    });
+
+    it('should match manufacturer and model case-insensitively', () => {
+      const records = [
+        createRecord('a', '2024-01-01T00:00:00Z', { manufacturer: 'Fitbit', model: 'Charge 6' }),
+        createRecord('b', '2024-01-01T00:00:00Z', { manufacturer: 'Fitbit', model: 'Sense' }),
+        createRecord('c', '2024-01-01T00:00:00Z'),
+      ];
+
+      expect(ids(processor.filter(records, { manufacturer: 'fitbit' }))).toEqual(['a', 'b']);
+      expect(ids(processor.filter(records, { model: 'charge 6' }))).toEqual(['a']);
+    });
+
+    it('should match custom metadata values', () => {
+      const records = [
+        createRecord('a', '2024-01-01T00:00:00Z', { custom: { activity: 'run' } }),
+        createRecord('b', '2024-01-01T00:00:00Z', { custom: { activity: 'walk' } }),
+        createRecord('c', '2024-01-01T00:00:00Z'),
+      ];
+
+      expect(ids(processor.filter(records, { custom: { activity: 'run' } }))).toEqual(['a']);
+    });
+  });
+
+  describe('sort', () => {
+    const records = [
+      createRecord('b', '2024-01-02T00:00:00Z', {
+        source: HealthSource.HEALTH_CONNECT,
+        quality: DataQuality.LOW,
+      }),
+      createRecord('a', '2024-01-01T00:00:00Z', {
+        source: HealthSource.FITBIT,
+        quality: DataQuality.HIGH,
+      }),
+      createRecord('c', '2024-01-03T00:00:00Z', {
+        source: HealthSource.FITBIT,
+        quality: DataQuality.LOW,
+      }),
+    ];
+
+    it('should sort by timestamp', () => {
+      expect(ids(processor.sort(records, 'timestamp', 'asc'))).toEqual(['a', 'b', 'c']);
+      expect(ids(processor.sort(records, 'timestamp', 'desc'))).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should sort by source, then timestamp', () => {
+      expect(ids(processor.sort(records, 'source', 'asc'))).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should sort by quality, then timestamp', () => {
+      expect(ids(processor.sort(records, 'quality', 'desc'))).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should not mutate the input', () => {
+      processor.sort(records, 'timestamp', 'asc');
+
+      expect(ids(records)).toEqual(['b', 'a', 'c']);
+    });
+  });
+
+  describe('process', () => {
+    it('should paginate the sorted, filtered set and report the total', () => {
+      const records = [
+        createRecord('d', '2024-01-04T00:00:00Z'),
+        createRecord('a', '2024-01-01T00:00:00Z'),
+        createRecord('manual', '2024-01-02T12:00:00Z', { isManualEntry: true }),
+        createRecord('c', '2024-01-03T00:00:00Z'),
+        createRecord('b', '2024-01-02T00:00:00Z'),
+      ];
+
+      const result = processor.process(records, {
+        dataType: DataType.STEPS,
+        startDate: '2024-01-01T00:00:00Z',
+        endDate: '2024-01-05T00:00:00Z',
+        filters: { automaticOnly: true },
+        limit: 2,
+        offset: 1,
+      });
+
+      expect(ids(result.data)).toEqual(['b', 'c']);
+      expect(result.totalCount).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,1632 @@
+/**
+ * HealthSync SDK Tests
+ *
+ * Tests for SDK-level sync orchestration using an in-memory plugin
+ */
+
+import { HealthSyncSDK } from '../src/sdk';
+import {
+  BasePlugin,
+  ConnectionResult,
+  DataQuery,
+  PluginConfig,
+  RawHealthData,
+  Subscription,
+  UpdateCallback,
+  ConnectionStatus,
+  AggregateDataQuery,
+  AggregateDataPoint,
+  ErrorAction,
+  RateLimitInfo,
+  PluginCapabilities,
+} from '../src/plugins/plugin-interface';
+import { CircuitState } from '../src/plugins/circuit-breaker';
+import { PluginManifest } from '../src/plugins/plugin-loader';
+import { PluginConfigSchema } from '../src/plugins/plugin-config';
+import { MemoryStorageAdapter } from '../src/cache/storage-adapter';
+import { CloudCacheReferenceServer } from '../src/cache/cloud-cache-server';
+import { StorageSyncStateStore } from '../src/sync/storage-sync-state-store';
+import { StorageOfflineQueueStore } from '../src/sync/storage-offline-queue-store';
+import { DataType, HealthSource, UnifiedHealthData } from '../src/models/unified-data';
+import { registerHealthSource, unregisterHealthSource } from '../src/models/source-registry';
+import {
+  LogLevel,
+  SyncCancelledError,
+  SyncProgress,
+  SyncError,
+  ValidationError,
+  ConfigurationError,
+  ConnectionError,
+  PluginError,
+  RateLimitError,
+  DataFetchError,
+  UnsupportedCapabilityError,
+  CacheConfig,
+  CacheLayer,
+} from '../src/types/config';
+import { HealthDataQuery, SDKEvent, SDKEventData } from '../src/types/query';
+import { systemClock } from '../src/utils/clock';
+
+/**
+ * In-memory plugin serving a fixed list of raw records
+ */
+class MockPlugin extends BasePlugin {
+  readonly name = 'Mock';
+  readonly version = '1.0.0';
+  readonly supportedDataTypes: readonly DataType[] = [DataType.STEPS, DataType.HEART_RATE];
+  readonly requiresAuthentication = false;
+  readonly isCloudBased = false;
+
+  records: RawHealthData[] = [];
+  failingTypes: Set<DataType> = new Set();
+  queries: DataQuery[] = [];
+  updateCallback: UpdateCallback | null = null;
+  aggregatePoints: AggregateDataPoint[] | null = null;
+  aggregateQueries: AggregateDataQuery[] = [];
+  /** Errors thrown by the next fetches, in order */
+  fetchErrors: Error[] = [];
+  errorAction: ErrorAction = ErrorAction.FAIL;
+  refreshed = 0;
+  /** Declared capabilities (derived from supportedDataTypes when null) */
+  capabilities: PluginCapabilities | null = null;
+  configSchema?: PluginConfigSchema;
+
+  readonly instanceKey?: string;
+
+  constructor(
+    readonly id: string,
+    readonly source: HealthSource,
+    instanceKey?: string
+  ) {
+    super();
+
+    if (instanceKey !== undefined) {
+      this.instanceKey = instanceKey;
+    }
+  }
+
+  async initialize(config: PluginConfig): Promise<void> {
+    this.config = config;
+  }
+
+  async dispose(): Promise<void> {
+    this.records = [];
+  }
+
+  async connect(): Promise<ConnectionResult> {
+    this.connectionStatus = ConnectionStatus.CONNECTED;
+    return { success: true, message: 'connected' };
+  }
+
+  async disconnect(): Promise<void> {
+    this.connectionStatus = ConnectionStatus.DISCONNECTED;
+  }
+
+  async fetchData(query: DataQuery): Promise<RawHealthData[]> {
+    this.queries.push(query);
+
+    const error = this.fetchErrors.shift();
+    if (error) {
+      throw error;
+    }
+
+    if (this.failingTypes.has(query.dataType)) {
+      throw new Error(`Cannot fetch ${query.dataType}`);
+    }
+
+    return this.records.filter(
+      (r) =>
+        r.sourceDataType === query.dataType &&
+        r.timestamp >= query.startDate &&
+        r.timestamp <= query.endDate
+    );
+  }
+
+  async fetchAggregate(query: AggregateDataQuery): Promise<AggregateDataPoint[] | null> {
+    this.aggregateQueries.push(query);
+
+    const error = this.fetchErrors.shift();
+    if (error) {
+      throw error;
+    }
+
+    return this.aggregatePoints;
+  }
+
+  override handleError(_error: Error): ErrorAction {
+    return this.errorAction;
+  }
+
+  override getCapabilities(): PluginCapabilities {
+    return this.capabilities ?? super.getCapabilities();
+  }
+
+  async getRateLimitStatus(): Promise<RateLimitInfo> {
+    return { limit: 150, remaining: 120, resetAt: '2024-01-01T01:00:00.000Z', resetInSeconds: 600 };
+  }
+
+  async refreshAuth(): Promise<boolean> {
+    this.refreshed++;
+    return true;
+  }
+
+  async subscribeToUpdates(callback: UpdateCallback): Promise<Subscription> {
+    this.updateCallback = callback;
+    return {
+      id: 'sub',
+      unsubscribe: async () => {
+        this.updateCallback = null;
+      },
+      isActive: () => this.updateCallback !== null,
+    };
+  }
+
+  addSteps(sourceId: string, count: number, timestamp: string): void {
+    this.records = this.records.filter((r) => r.sourceId !== sourceId);
+    this.records.push({
+      sourceDataType: DataType.STEPS,
+      timestamp,
+      raw: { count },
+      source: this.source,
+      sourceId,
+    });
+  }
+}
+
+const minutesAgo = (minutes: number): string =>
+  new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+describe('HealthSyncSDK', () => {
+  let sdk: HealthSyncSDK;
+  let plugin: MockPlugin;
+
+  beforeEach(async () => {
+    plugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+    sdk = await HealthSyncSDK.initialize({
+      logLevel: LogLevel.NONE,
+      plugins: [plugin],
+      defaultDataTypes: [DataType.STEPS],
+    });
+    await sdk.connect(HealthSource.HEALTH_CONNECT);
+  });
+
+  afterEach(async () => {
+    await sdk.dispose();
+  });
+
+  describe('sync', () => {
+    it('should differentiate new and updated records across syncs', async () => {
+      plugin.addSteps('a', 100, minutesAgo(30));
+      plugin.addSteps('b', 200, minutesAgo(20));
+
+      const first = await sdk.sync();
+      expect(first.newRecords).toBe(2);
+      expect(first.updatedRecords).toBe(0);
+
+      plugin.addSteps('b', 250, minutesAgo(20));
+      const second = await sdk.sync({ forceFull: true });
+
+      expect(second.newRecords).toBe(0);
+      expect(second.updatedRecords).toBe(1);
+      expect(second.totalRecords).toBe(2);
+    });
+
+    it('should resume from the stored cursor', async () => {
+      await sdk.sync();
+      const cursor = await sdk.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS);
+
+      await sdk.sync();
+
+      // Incremental windows reach back 24 hours for late uploads
+      expect(cursor).not.toBeNull();
+      expect(plugin.queries[1]?.startDate).toBe(
+        new Date(Date.parse(cursor?.highWaterMark ?? '') - 24 * 60 * 60 * 1000).toISOString()
+      );
+    });
+
+    it('should resume from a cursor stored by a previous session', async () => {
+      const storage = new MemoryStorageAdapter();
+      const start = (): Promise<HealthSyncSDK> =>
+        HealthSyncSDK.create({
+          logLevel: LogLevel.NONE,
+          plugins: [plugin],
+          defaultDataTypes: [DataType.STEPS],
+          syncStateStore: new StorageSyncStateStore(storage),
+        });
+      const timestamp = minutesAgo(30);
+      await sdk.dispose();
+      plugin.addSteps('a', 100, timestamp);
+
+      const before = await start();
+      await before.connect(HealthSource.HEALTH_CONNECT);
+      await before.sync();
+      await before.dispose();
+      plugin.addSteps('a', 100, timestamp);
+
+      const after = await start();
+      await after.connect(HealthSource.HEALTH_CONNECT);
+      const cursor = await after.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS);
+      const result = await after.sync();
+      await after.dispose();
+
+      expect(cursor?.seen).toEqual({
+        a: expect.objectContaining({ timestamp: expect.any(String) }),
+      });
+      expect(result.totalRecords).toBe(1);
+      expect(result.newRecords).toBe(0);
+    });
+
+    it('should report records uploaded late with earlier timestamps', async () => {
+      plugin.addSteps('a', 100, minutesAgo(30));
+      await sdk.sync();
+
+      plugin.addSteps('late', 200, minutesAgo(90));
+      const result = await sdk.sync();
+
+      expect(result.newRecords).toBe(1);
+      expect(result.updatedRecords).toBe(0);
+    });
+
+    it('should fetch records that arrived after the range was cached', async () => {
+      await sdk.query({
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+      plugin.addSteps('late', 100, minutesAgo(5));
+
+      const result = await sdk.sync({ dataTypes: [DataType.STEPS] });
+
+      expect(result.newRecords).toBe(1);
+      expect(
+        (await sdk.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS))?.seen
+      ).toHaveProperty('late');
+    });
+
+    it('should not advance the cursor when a data type fails', async () => {
+      plugin.failingTypes.add(DataType.STEPS);
+
+      const result = await sdk.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(await sdk.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS)).toBeNull();
+    });
+
+    it('should report progress after each source × data type', async () => {
+      const progress: SyncProgress[] = [];
+      const events: SDKEventData[] = [];
+      sdk.on(SDKEvent.SYNC_PROGRESS, (event) => {
+        events.push(event);
+      });
+
+      await sdk.sync({
+        dataTypes: [DataType.STEPS, DataType.HEART_RATE],
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(progress).toHaveLength(2);
+      expect(progress[1]).toMatchObject({
+        currentSource: HealthSource.HEALTH_CONNECT,
+        totalSources: 1,
+        completedSources: 1,
+        totalDataTypes: 2,
+        completedDataTypes: 2,
+        percentage: 100,
+        estimatedTimeRemaining: 0,
+      });
+      expect(events).toHaveLength(2);
+    });
+
+    it('should estimate the remaining time with the configured clock', async () => {
+      let now = Date.now();
+      const clocked = await HealthSyncSDK.create({
+        logLevel: LogLevel.NONE,
+        plugins: [new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT)],
+        clock: { ...systemClock, now: () => now },
+      });
+      await clocked.connect(HealthSource.HEALTH_CONNECT);
+      clocked.use({
+        beforeFetch: (query) => {
+          now += 60 * 1000;
+          return query;
+        },
+      });
+      const progress: SyncProgress[] = [];
+
+      await clocked.sync({
+        dataTypes: [DataType.STEPS, DataType.HEART_RATE],
+        onProgress: (p) => progress.push(p),
+      });
+      await clocked.dispose();
+
+      expect(progress[0]?.estimatedTimeRemaining).toBeGreaterThanOrEqual(60 * 1000);
+    });
+
+    it('should call onError for each failed data type', async () => {
+      plugin.failingTypes.add(DataType.HEART_RATE);
+      const errors: SyncError[] = [];
+
+      await sdk.sync({
+        dataTypes: [DataType.STEPS, DataType.HEART_RATE],
+        onError: (error) => errors.push(error),
+      });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.dataType).toBe(DataType.HEART_RATE);
+    });
+
+    it('should not fail the sync when a progress callback throws', async () => {
+      const result = await sdk.sync({
+        onProgress: () => {
+          throw new Error('UI error');
+        },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should publish only new and updated records as data updates', async () => {
+      const updates: UnifiedHealthData[][] = [];
+      sdk.subscribe((data) => updates.push(data));
+
+      plugin.addSteps('a', 100, minutesAgo(30));
+      plugin.addSteps('b', 200, minutesAgo(20));
+      await sdk.sync();
+
+      plugin.addSteps('b', 250, minutesAgo(20));
+      await sdk.sync({ forceFull: true });
+      await sdk.sync({ forceFull: true });
+
+      expect(updates).toHaveLength(2);
+      expect(updates[0]).toHaveLength(2);
+      expect(updates[1]?.map((r) => r.metadata.sourceId)).toEqual(['b']);
+    });
+
+    it('should emit SYNC_FAILED with the aggregated errors', async () => {
+      plugin.failingTypes.add(DataType.STEPS);
+      plugin.failingTypes.add(DataType.HEART_RATE);
+      const events: SDKEventData[] = [];
+      sdk.on(SDKEvent.SYNC_FAILED, (event) => {
+        events.push(event);
+      });
+
+      await sdk.sync({ dataTypes: [DataType.STEPS, DataType.HEART_RATE] });
+
+      expect(events).toHaveLength(1);
+      expect((events[0]?.data as { errors: SyncError[] }).errors).toHaveLength(2);
+      expect(events[0]?.error).toBeInstanceOf(SyncError);
+    });
+
+    it('should reject with SyncCancelledError when aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(sdk.sync({ signal: controller.signal })).rejects.toBeInstanceOf(
+        SyncCancelledError
+      );
+    });
+  });
+
+  describe('query', () => {
+    let other: MockPlugin;
+
+    beforeEach(async () => {
+      other = new MockPlugin('apple-health', HealthSource.APPLE_HEALTH);
+      sdk.registerPlugin(other);
+      await sdk.connect(HealthSource.APPLE_HEALTH);
+    });
+
+    const stepsQuery = (): { dataType: DataType; startDate: string; endDate: string } => ({
+      dataType: DataType.STEPS,
+      startDate: minutesAgo(120),
+      endDate: new Date().toISOString(),
+    });
+
+    it('should sort and paginate the merged results of all sources', async () => {
+      plugin.addSteps('hc-1', 1, minutesAgo(50));
+      plugin.addSteps('hc-2', 2, minutesAgo(10));
+      other.addSteps('ah-1', 3, minutesAgo(40));
+      other.addSteps('ah-2', 4, minutesAgo(30));
+
+      const response = await sdk.query({ ...stepsQuery(), sortOrder: 'desc', limit: 2, offset: 1 });
+
+      expect(response.data.map((r) => r.metadata.sourceId)).toEqual(['ah-2', 'ah-1']);
+      expect(response.totalCount).toBe(4);
+      expect(response.count).toBe(2);
+      expect(plugin.queries[0]?.limit).toBeUndefined();
+    });
+
+    it('should serve repeated queries from cache unless forceFresh is set', async () => {
+      plugin.addSteps('hc-1', 1, minutesAgo(50));
+      const query = { ...stepsQuery(), sources: [HealthSource.HEALTH_CONNECT] };
+
+      await sdk.query(query);
+      const cached = await sdk.query(query);
+      plugin.addSteps('hc-1', 5, minutesAgo(50));
+      const fresh = await sdk.query({ ...query, forceFresh: true });
+      const refreshed = await sdk.query(query);
+
+      expect(cached.metadata.fromCache).toBe(true);
+      expect(plugin.queries).toHaveLength(2);
+      expect(fresh.metadata.fromCache).toBe(false);
+      expect(refreshed.data[0]).toMatchObject({ count: 5 });
+    });
+
+    it('should answer sub-ranges from cache and fetch only uncovered gaps', async () => {
+      plugin.addSteps('hc-1', 1, minutesAgo(100));
+      plugin.addSteps('hc-2', 2, minutesAgo(50));
+      plugin.addSteps('hc-3', 3, minutesAgo(10));
+      const now = new Date().toISOString();
+      const cachedStart = minutesAgo(60);
+      const query = (startDate: string, endDate: string): HealthDataQuery => ({
+        dataType: DataType.STEPS,
+        sources: [HealthSource.HEALTH_CONNECT],
+        startDate,
+        endDate,
+      });
+
+      await sdk.query(query(cachedStart, now));
+      const subRange = await sdk.query(query(minutesAgo(55), minutesAgo(5)));
+      const overlapping = await sdk.query(query(minutesAgo(120), now));
+
+      expect(subRange.metadata.cacheHitRatio).toBe(1);
+      expect(subRange.data.map((r) => r.metadata.sourceId)).toEqual(['hc-2', 'hc-3']);
+      expect(plugin.queries).toHaveLength(2);
+      expect(plugin.queries[1]?.endDate).toBe(new Date(Date.parse(cachedStart) - 1).toISOString());
+      expect(overlapping.metadata.cacheHitRatio).toBeCloseTo(0.5, 2);
+      expect(overlapping.data.map((r) => r.metadata.sourceId).sort()).toEqual([
+        'hc-1',
+        'hc-2',
+        'hc-3',
+      ]);
+    });
+
+    it('should deduplicate records reported by several sources', async () => {
+      const timestamp = minutesAgo(30);
+      plugin.addSteps('hc-1', 1000, timestamp);
+      other.addSteps('ah-1', 1000, timestamp);
+
+      const response = await sdk.query(stepsQuery());
+      const raw = await sdk.query({ ...stepsQuery(), deduplicate: false });
+
+      expect(response.data).toHaveLength(1);
+      expect(response.metadata.conflicts).toHaveLength(1);
+      expect(response.metadata.conflicts?.[0]?.sources).toEqual(
+        expect.arrayContaining([HealthSource.HEALTH_CONNECT, HealthSource.APPLE_HEALTH])
+      );
+      expect(raw.data).toHaveLength(2);
+    });
+
+    it('should resolve date-only ranges to whole days in the query time zone', async () => {
+      plugin.addSteps('evening', 100, '2024-03-11T03:30:00.000Z'); // 23:30 on the 10th in New York
+      plugin.addSteps('next-day', 200, '2024-03-11T04:30:00.000Z');
+
+      const response = await sdk.query({
+        dataType: DataType.STEPS,
+        startDate: '2024-03-10',
+        endDate: '2024-03-10',
+        timezone: 'America/New_York',
+        sources: [HealthSource.HEALTH_CONNECT],
+      });
+
+      expect(plugin.queries[0]).toMatchObject({
+        startDate: '2024-03-10T05:00:00.000Z',
+        endDate: '2024-03-11T03:59:59.999Z',
+        timezone: 'America/New_York',
+      });
+      expect(response.data.map((r) => r.metadata.sourceId)).toEqual(['evening']);
+    });
+
+    it('should keep the zone offset of source timestamps', async () => {
+      plugin.addSteps('offset', 100, '2024-03-10T08:00:00.000-05:00');
+
+      const response = await sdk.query({
+        dataType: DataType.STEPS,
+        startDate: '2024-03-10',
+        endDate: '2024-03-10',
+        timezone: 'UTC',
+        sources: [HealthSource.HEALTH_CONNECT],
+      });
+
+      expect(response.data[0]?.metadata.zoneOffset).toBe(-300);
+    });
+
+    it('should reject invalid query ranges before querying sources', async () => {
+      await expect(sdk.query({ ...stepsQuery(), startDate: 'garbage' })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(
+        sdk.query({ ...stepsQuery(), startDate: minutesAgo(10), endDate: minutesAgo(60) })
+      ).rejects.toThrow(ValidationError);
+      expect(plugin.queries).toHaveLength(0);
+    });
+
+    it('should reject an unknown configured time zone', async () => {
+      await expect(
+        HealthSyncSDK.initialize({ logLevel: LogLevel.NONE, timezone: 'Mars/Olympus' })
+      ).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should bypass the cache when includeCache is false', async () => {
+      plugin.addSteps('hc-1', 1, minutesAgo(50));
+      const query = { ...stepsQuery(), sources: [HealthSource.HEALTH_CONNECT] };
+
+      await sdk.query({ ...query, includeCache: false });
+      const response = await sdk.query(query);
+
+      expect(response.metadata.fromCache).toBe(false);
+      expect(plugin.queries).toHaveLength(2);
+    });
+
+    it('should include plugins of custom sources', async () => {
+      const polar = registerHealthSource({ id: 'polar' });
+      const custom = new MockPlugin('polar-flow', polar);
+      sdk.registerPlugin(custom);
+      await sdk.connect(polar);
+      custom.addSteps('p-1', 5, minutesAgo(30));
+
+      const response = await sdk.query(stepsQuery());
+
+      expect(response.metadata.sourcesQueried).toContain(polar);
+      expect(response.data.map((r) => r.source)).toContain('polar');
+      unregisterHealthSource('polar');
+    });
+  });
+
+  describe('persistent cache', () => {
+    const start = async (
+      source: MockPlugin,
+      cache: Partial<CacheConfig>
+    ): Promise<HealthSyncSDK> => {
+      const instance = await HealthSyncSDK.create({
+        logLevel: LogLevel.NONE,
+        plugins: [source],
+        cache,
+      });
+      await instance.connect(HealthSource.HEALTH_CONNECT);
+      return instance;
+    };
+    const expectRestoredFromCache = async (cache: Partial<CacheConfig>): Promise<void> => {
+      const query = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+      };
+      const first = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      first.addSteps('persisted-1', 100, minutesAgo(30));
+      const before = await start(first, cache);
+      await before.query(query);
+      await before.dispose();
+
+      const second = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      const after = await start(second, cache);
+
+      try {
+        const response = await after.query(query);
+
+        expect(response.metadata.fromCache).toBe(true);
+        expect(response.data.map((r) => r.metadata.sourceId)).toEqual(['persisted-1']);
+        expect(second.queries).toHaveLength(0);
+      } finally {
+        await after.dispose();
+      }
+    };
+
+    it('should serve cached data from the LOCAL_DB layer after a restart', async () => {
+      await expectRestoredFromCache({ storage: new MemoryStorageAdapter() });
+    });
+
+    it('should share cached data through the CLOUD layer', async () => {
+      const server = new CloudCacheReferenceServer({ token: 'token' });
+
+      await expectRestoredFromCache({
+        layers: [CacheLayer.MEMORY, CacheLayer.CLOUD],
+        cloudEndpoint: 'https://cache.example.test/v1',
+        cloudAuth: { token: 'token' },
+        cloudFetch: server.fetch,
+      });
+
+      expect(server.requests.filter((r) => r.path.endsWith('/batch'))).toHaveLength(1);
+    });
+  });
+
+  describe('retries', () => {
+    let retrying: HealthSyncSDK;
+
+    beforeEach(async () => {
+      await sdk.dispose();
+      plugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      retrying = await HealthSyncSDK.create({
+        logLevel: LogLevel.NONE,
+        plugins: [plugin],
+        retry: { maxAttempts: 3, initialDelay: 0, useJitter: false },
+      });
+      await retrying.connect(HealthSource.HEALTH_CONNECT);
+    });
+
+    afterEach(async () => {
+      await retrying.dispose();
+    });
+
+    const query = (): Parameters<HealthSyncSDK['query']>[0] => ({
+      dataType: DataType.STEPS,
+      startDate: minutesAgo(60),
+      endDate: new Date().toISOString(),
+    });
+
+    it('should retry failed fetches the plugin classifies as retryable', async () => {
+      plugin.errorAction = ErrorAction.RETRY;
+      plugin.fetchErrors = [new Error('503'), new Error('503')];
+      plugin.addSteps('hc-1', 10, minutesAgo(30));
+
+      const response = await retrying.query(query());
+
+      expect(plugin.queries).toHaveLength(3);
+      expect(response.data).toHaveLength(1);
+    });
+
+    it('should refresh credentials and retry on REAUTH', async () => {
+      plugin.errorAction = ErrorAction.REAUTH;
+      plugin.fetchErrors = [new Error('401')];
+      plugin.addSteps('hc-1', 10, minutesAgo(30));
+
+      const response = await retrying.query(query());
+
+      expect(plugin.refreshed).toBe(1);
+      expect(response.data).toHaveLength(1);
+    });
+
+    it('should not cache ranges whose fetch failure was ignored', async () => {
+      plugin.errorAction = ErrorAction.IGNORE;
+      plugin.fetchErrors = [new Error('500')];
+      plugin.addSteps('hc-1', 10, minutesAgo(30));
+      const request = query();
+
+      const first = await retrying.query(request);
+      const second = await retrying.query(request);
+
+      expect(first.data).toEqual([]);
+      expect(plugin.queries).toHaveLength(2);
+      expect(second.data).toHaveLength(1);
+    });
+
+    it('should report deferred fetches without retrying them', async () => {
+      plugin.errorAction = ErrorAction.QUEUE;
+      plugin.fetchErrors = [new Error('429')];
+
+      const response = await retrying.query(query());
+
+      expect(plugin.queries).toHaveLength(1);
+      expect(response.metadata.sourcesFailed).toEqual([HealthSource.HEALTH_CONNECT]);
+      expect(response.errors?.[0]?.details).toMatchObject({ deferred: true });
+    });
+
+    it('should queue deferred fetches until the rate limit resets', async () => {
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      plugin.errorAction = ErrorAction.QUEUE;
+      plugin.fetchErrors = [new RateLimitError('429', resetAt, 3600)];
+      const request = query();
+
+      await retrying.query(request);
+      await retrying.query(request);
+      // Waits for the replay started by the successful fetch
+      await retrying.drainQueue();
+
+      expect(await retrying.getQueuedJobs()).toEqual([
+        expect.objectContaining({
+          kind: 'fetch',
+          source: HealthSource.HEALTH_CONNECT,
+          dataType: DataType.STEPS,
+          notBefore: resetAt,
+        }),
+      ]);
+    });
+
+    it('should replay jobs queued by a previous session', async () => {
+      const storage = new MemoryStorageAdapter();
+      const start = async (): Promise<HealthSyncSDK> => {
+        const restarted = await HealthSyncSDK.create({
+          logLevel: LogLevel.NONE,
+          plugins: [plugin],
+          offlineQueueStore: new StorageOfflineQueueStore(storage),
+        });
+        await restarted.connect(HealthSource.HEALTH_CONNECT);
+        return restarted;
+      };
+      await retrying.dispose();
+      plugin.errorAction = ErrorAction.QUEUE;
+      plugin.fetchErrors = [new Error('offline')];
+
+      const before = await start();
+      await before.sync({ dataTypes: [DataType.STEPS] });
+      const queued = await before.getQueuedJobs();
+      await before.dispose();
+
+      // Connecting replays jobs deferred while offline; draining waits for it
+      retrying = await start();
+      await retrying.drainQueue();
+
+      expect(queued).toEqual([expect.objectContaining({ kind: 'sync', offline: true })]);
+      expect(await retrying.getQueuedJobs()).toEqual([]);
+      expect(
+        await retrying.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS)
+      ).not.toBeNull();
+    });
+
+    it('should replay queued jobs when drained', async () => {
+      plugin.errorAction = ErrorAction.QUEUE;
+      plugin.fetchErrors = [new Error('429')];
+      plugin.addSteps('hc-1', 10, minutesAgo(30));
+      await retrying.sync({ dataTypes: [DataType.STEPS] });
+      const updates: UnifiedHealthData[][] = [];
+      retrying.subscribe((data) => updates.push(data));
+
+      const result = await retrying.drainQueue({ force: true });
+
+      expect(result.completed).toEqual([expect.objectContaining({ kind: 'sync' })]);
+      expect(await retrying.getQueuedJobs()).toEqual([]);
+      expect(updates[0]).toHaveLength(1);
+      expect(
+        await retrying.getSyncCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS)
+      ).not.toBeNull();
+    });
+  });
+
+  describe('health', () => {
+    let guarded: HealthSyncSDK;
+
+    beforeEach(async () => {
+      await sdk.dispose();
+      plugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      guarded = await HealthSyncSDK.create({
+        logLevel: LogLevel.NONE,
+        plugins: [plugin],
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60 * 1000 },
+      });
+      await guarded.connect(HealthSource.HEALTH_CONNECT);
+    });
+
+    afterEach(async () => {
+      await guarded.dispose();
+    });
+
+    const query = (): Parameters<HealthSyncSDK['query']>[0] => ({
+      dataType: DataType.STEPS,
+      startDate: minutesAgo(60),
+      endDate: new Date().toISOString(),
+      forceFresh: true,
+    });
+
+    it('should stop calling a plugin after consecutive fetch failures', async () => {
+      const outage = (): DataFetchError =>
+        new DataFetchError('backend down', HealthSource.HEALTH_CONNECT, DataType.STEPS, 503);
+      plugin.fetchErrors = [outage(), outage(), outage()];
+
+      await guarded.query(query());
+      await guarded.query(query());
+      const response = await guarded.query(query());
+
+      expect(plugin.queries).toHaveLength(2);
+      expect(response.errors?.[0]?.details).toMatchObject({ circuitOpen: true });
+    });
+
+    it('should report circuit state, last success, last error and rate limits', async () => {
+      await guarded.query(query());
+      plugin.fetchErrors = [
+        new DataFetchError('backend down', HealthSource.HEALTH_CONNECT, DataType.STEPS, 503),
+      ];
+      await guarded.query(query());
+
+      const report = await guarded.getHealthReport();
+
+      expect(report.healthy).toBe(true);
+      expect(report.plugins).toEqual([
+        expect.objectContaining({
+          pluginId: 'health-connect',
+          source: HealthSource.HEALTH_CONNECT,
+          connectionStatus: ConnectionStatus.CONNECTED,
+          circuit: { state: CircuitState.CLOSED, consecutiveFailures: 1 },
+          lastSuccessAt: expect.any(String),
+          lastError: expect.objectContaining({ message: 'backend down' }),
+          rateLimit: expect.objectContaining({ remaining: 120 }),
+        }),
+      ]);
+    });
+  });
+
+  describe('capabilities', () => {
+    const dayOfSteps: PluginCapabilities = {
+      dataTypes: {
+        [DataType.STEPS]: {
+          granularity: 'day',
+          maxRangePerRequest: 24 * 60 * 60 * 1000,
+          paging: 'none',
+          write: false,
+        },
+      },
+      realtimeUpdates: false,
+      changeTokens: false,
+    };
+
+    it('should reject a data type the requested source does not support', async () => {
+      await expect(
+        sdk.query({
+          dataType: DataType.SLEEP,
+          startDate: minutesAgo(60),
+          endDate: new Date().toISOString(),
+          sources: [HealthSource.HEALTH_CONNECT],
+        })
+      ).rejects.toThrow(UnsupportedCapabilityError);
+      expect(plugin.queries).toHaveLength(0);
+    });
+
+    it('should skip unsupporting sources when none are requested', async () => {
+      const response = await sdk.query({
+        dataType: DataType.SLEEP,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+      });
+
+      expect(response.success).toBe(true);
+      expect(response.metadata.sourcesQueried).toEqual([]);
+      expect(plugin.queries).toHaveLength(0);
+    });
+
+    it('should split ranges longer than a source accepts per request', async () => {
+      plugin.capabilities = dayOfSteps;
+      plugin.addSteps('a', 100, '2024-03-09T12:00:00.000Z');
+      plugin.addSteps('b', 200, '2024-03-11T12:00:00.000Z');
+
+      const response = await sdk.query({
+        dataType: DataType.STEPS,
+        startDate: '2024-03-09',
+        endDate: '2024-03-11',
+        timezone: 'UTC',
+      });
+
+      expect(plugin.queries.map((q) => [q.startDate, q.endDate])).toEqual([
+        ['2024-03-09T00:00:00.000Z', '2024-03-09T23:59:59.999Z'],
+        ['2024-03-10T00:00:00.000Z', '2024-03-10T23:59:59.999Z'],
+        ['2024-03-11T00:00:00.000Z', '2024-03-11T23:59:59.999Z'],
+      ]);
+      expect(response.count).toBe(2);
+    });
+
+    it('should not cache the part of a range clipped to the history limit', async () => {
+      plugin.capabilities = {
+        ...dayOfSteps,
+        dataTypes: {
+          [DataType.STEPS]: {
+            granularity: 'sample',
+            paging: 'none',
+            write: false,
+            historicalLimit: 1,
+          },
+        },
+      };
+      plugin.addSteps('old', 100, minutesAgo(36 * 60));
+      const request = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(48 * 60),
+        endDate: new Date().toISOString(),
+      };
+
+      const clipped = await sdk.query(request);
+      plugin.capabilities = null;
+      const full = await sdk.query(request);
+
+      expect(clipped.count).toBe(0);
+      expect(full.count).toBe(1);
+    });
+
+    it('should skip sync of data types the source does not provide', async () => {
+      const result = await sdk.sync({ dataTypes: [DataType.STEPS, DataType.SLEEP] });
+
+      expect(result.success).toBe(true);
+      expect(result.sourceResults[0]?.dataTypeResults).toContainEqual({
+        dataType: DataType.SLEEP,
+        success: true,
+        recordCount: 0,
+        skipped: true,
+      });
+      expect(plugin.queries.map((q) => q.dataType)).toEqual([DataType.STEPS]);
+    });
+
+    it('should reject buckets finer than the source granularity', async () => {
+      plugin.capabilities = dayOfSteps;
+
+      await expect(
+        sdk.aggregate({
+          dataType: DataType.STEPS,
+          startDate: '2024-03-09T00:00:00.000Z',
+          endDate: '2024-03-10T00:00:00.000Z',
+          bucket: 'hour',
+          sources: [HealthSource.HEALTH_CONNECT],
+        })
+      ).rejects.toThrow(UnsupportedCapabilityError);
+    });
+
+    it('should only push aggregates down when declared', async () => {
+      plugin.capabilities = dayOfSteps;
+      plugin.aggregatePoints = [{ start: '2024-03-09T00:00:00.000Z', value: 1000 }];
+
+      const response = await sdk.aggregate({
+        dataType: DataType.STEPS,
+        startDate: '2024-03-09T00:00:00.000Z',
+        endDate: '2024-03-10T00:00:00.000Z',
+        bucket: 'day',
+        timezone: 'UTC',
+      });
+
+      expect(plugin.aggregateQueries).toHaveLength(0);
+      expect(response.metadata.pushedDown).toEqual([]);
+    });
+
+    it('should expose the capabilities of a source', () => {
+      plugin.capabilities = dayOfSteps;
+
+      expect(sdk.getCapabilities(HealthSource.HEALTH_CONNECT)).toBe(dayOfSteps);
+      expect(sdk.getCapabilities(HealthSource.FITBIT)).toBeNull();
+    });
+  });
+
+  describe('aggregate', () => {
+    const range = {
+      dataType: DataType.STEPS,
+      startDate: '2024-03-09T05:00:00.000Z',
+      endDate: '2024-03-12T04:00:00.000Z',
+      bucket: 'day' as const,
+      timezone: 'America/New_York',
+    };
+
+    it('should fold raw records into local calendar days', async () => {
+      plugin.addSteps('a', 100, '2024-03-09T12:00:00.000Z');
+      plugin.addSteps('b', 200, '2024-03-10T04:30:00.000Z'); // 23:30 on the 9th in New York
+      plugin.addSteps('c', 300, '2024-03-11T12:00:00.000Z');
+
+      const response = await sdk.aggregate(range);
+
+      expect(response.fn).toBe('sum');
+      expect(response.metadata.pushedDown).toEqual([]);
+      expect(response.buckets.map((b) => [b.start, b.value])).toEqual([
+        ['2024-03-09T00:00:00.000-05:00', 300],
+        ['2024-03-10T00:00:00.000-05:00', null],
+        ['2024-03-11T00:00:00.000-04:00', 300],
+      ]);
+    });
+
+    it('should push the aggregate down to a single capable source', async () => {
+      plugin.aggregatePoints = [
+        { start: '2024-03-09T05:00:00.000Z', value: 1000 },
+        { start: '2024-03-11T04:00:00.000Z', value: 500 },
+      ];
+
+      const response = await sdk.aggregate(range);
+
+      expect(plugin.aggregateQueries[0]).toMatchObject({ fn: 'sum', timezone: 'America/New_York' });
+      expect(plugin.queries).toHaveLength(0);
+      expect(response.metadata.pushedDown).toEqual([HealthSource.HEALTH_CONNECT]);
+      expect(response.buckets.map((b) => b.value)).toEqual([1000, null, 500]);
+    });
+
+    it('should run native aggregates through middleware and the retry policy', async () => {
+      const operations: string[] = [];
+      plugin.errorAction = ErrorAction.REAUTH;
+      plugin.fetchErrors = [new Error('401')];
+      plugin.aggregatePoints = [{ start: '2024-03-10T05:00:00.000Z', value: 700 }];
+      sdk.use({
+        beforeFetch: (query, context) => {
+          operations.push(context.operation);
+          return { ...query, startDate: '2024-03-10T05:00:00.000Z' };
+        },
+      });
+
+      const response = await sdk.aggregate(range);
+
+      expect(operations).toEqual(['fetchAggregate']);
+      expect(plugin.refreshed).toBe(1);
+      expect(plugin.aggregateQueries[1]?.startDate).toBe('2024-03-10T05:00:00.000Z');
+      expect(response.metadata.pushedDown).toEqual([HealthSource.HEALTH_CONNECT]);
+    });
+
+    it('should report failed native aggregates to onError and aggregate raw records', async () => {
+      const onError = jest.fn((error: Error) => error);
+      plugin.fetchErrors = [new Error('backend down')];
+      plugin.aggregatePoints = [{ start: '2024-03-09T05:00:00.000Z', value: 1000 }];
+      plugin.addSteps('a', 100, '2024-03-09T12:00:00.000Z');
+      sdk.use({ onError });
+
+      const response = await sdk.aggregate(range);
+
+      expect(onError.mock.calls[0]?.[1]).toMatchObject({ operation: 'fetchAggregate' });
+      expect(response.metadata.pushedDown).toEqual([]);
+      expect(response.buckets.map((b) => b.value)).toEqual([100, null, null]);
+    });
+
+    it('should reject invalid requests', async () => {
+      await expect(sdk.aggregate({ ...range, timezone: 'Mars/Olympus' })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(
+        sdk.aggregate({ ...range, startDate: range.endDate, endDate: range.startDate })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('instances', () => {
+    it('should create isolated instances alongside the shared one', async () => {
+      const userPlugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      const user = await HealthSyncSDK.create({ logLevel: LogLevel.NONE, plugins: [userPlugin] });
+      const events: SDKEventData[] = [];
+      user.on(SDKEvent.SYNC_COMPLETED, (event) => events.push(event));
+
+      try {
+        await user.connect(HealthSource.HEALTH_CONNECT);
+        userPlugin.addSteps('user-1', 100, minutesAgo(30));
+        plugin.addSteps('shared-1', 200, minutesAgo(30));
+
+        const userSteps = await user.query({
+          dataType: DataType.STEPS,
+          startDate: minutesAgo(60),
+          endDate: new Date().toISOString(),
+        });
+        await sdk.sync();
+
+        expect(userSteps.data.map((r) => r.metadata.sourceId)).toEqual(['user-1']);
+        expect(events).toHaveLength(0);
+        expect(HealthSyncSDK.getInstance()).toBe(sdk);
+      } finally {
+        await user.dispose();
+      }
+
+      expect(HealthSyncSDK.getInstance()).toBe(sdk);
+    });
+
+    it('should not share a plugin instance between SDK instances', async () => {
+      const other = await HealthSyncSDK.create({ logLevel: LogLevel.NONE });
+
+      try {
+        expect(() => other.registerPlugin(plugin)).toThrow(PluginError);
+
+        await sdk.unregisterPlugin(plugin.id);
+        expect(() => other.registerPlugin(plugin)).not.toThrow();
+      } finally {
+        await other.dispose();
+      }
+    });
+  });
+
+  describe('accounts', () => {
+    let parent: MockPlugin;
+    let child: MockPlugin;
+
+    beforeEach(() => {
+      parent = new MockPlugin('fitbit', HealthSource.FITBIT, 'parent');
+      child = new MockPlugin('fitbit', HealthSource.FITBIT, 'child');
+      sdk.registerPlugin(parent);
+      sdk.registerPlugin(child);
+    });
+
+    it('should connect accounts of a source separately', async () => {
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'child' });
+
+      expect(sdk.getAccounts(HealthSource.FITBIT)).toEqual(['parent', 'child']);
+      expect(sdk.getConnectionStatus(HealthSource.FITBIT, 'child')).toBe(
+        ConnectionStatus.CONNECTED
+      );
+      expect(sdk.getConnectionStatus(HealthSource.FITBIT, 'parent')).not.toBe(
+        ConnectionStatus.CONNECTED
+      );
+      await expect(sdk.connect(HealthSource.FITBIT, { accountId: 'grandparent' })).rejects.toThrow(
+        ConnectionError
+      );
+    });
+
+    it('should query, tag and cache data per account', async () => {
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'parent' });
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'child' });
+      parent.addSteps('parent-1', 9000, minutesAgo(30));
+      child.addSteps('child-1', 4000, minutesAgo(30));
+
+      const query = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+      };
+
+      const childSteps = await sdk.query({ ...query, accountId: 'child' });
+      const parentSteps = await sdk.query({ ...query, accountId: 'parent' });
+      const cachedChildSteps = await sdk.query({ ...query, accountId: 'child' });
+
+      expect(childSteps.metadata.sourcesQueried).toEqual([HealthSource.FITBIT]);
+      expect(childSteps.data.map((r) => [r.metadata.sourceId, r.accountId])).toEqual([
+        ['child-1', 'child'],
+      ]);
+      expect(parentSteps.data.map((r) => [r.metadata.sourceId, r.accountId])).toEqual([
+        ['parent-1', 'parent'],
+      ]);
+      expect(cachedChildSteps.metadata.fromCache).toBe(true);
+      expect(cachedChildSteps.data.map((r) => r.metadata.sourceId)).toEqual(['child-1']);
+      expect(child.queries).toHaveLength(1);
+    });
+
+    it('should only push aggregates down for a single account', async () => {
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'parent' });
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'child' });
+      parent.addSteps('parent-1', 9000, '2024-03-09T12:00:00.000Z');
+      child.addSteps('child-1', 4000, '2024-03-09T12:00:00.000Z');
+      parent.aggregatePoints = [{ start: '2024-03-09T00:00:00.000Z', value: 9000 }];
+      child.aggregatePoints = [{ start: '2024-03-09T00:00:00.000Z', value: 4000 }];
+      const request = {
+        dataType: DataType.STEPS,
+        startDate: '2024-03-09T00:00:00.000Z',
+        endDate: '2024-03-10T00:00:00.000Z',
+        bucket: 'day' as const,
+        timezone: 'UTC',
+        sources: [HealthSource.FITBIT],
+      };
+
+      const all = await sdk.aggregate(request);
+      const childOnly = await sdk.aggregate({ ...request, accountId: 'child' });
+
+      expect(all.metadata.pushedDown).toEqual([]);
+      expect(all.buckets.map((b) => b.value)).toEqual([13000]);
+      expect(childOnly.metadata.pushedDown).toEqual([HealthSource.FITBIT]);
+      expect(childOnly.buckets.map((b) => b.value)).toEqual([4000]);
+      expect(parent.aggregateQueries).toHaveLength(0);
+    });
+
+    it('should query every connected account when no account is given', async () => {
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'child' });
+      parent.addSteps('parent-1', 9000, minutesAgo(30));
+      child.addSteps('child-1', 4000, minutesAgo(30));
+
+      const query = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+        sources: [HealthSource.FITBIT],
+      };
+
+      const childOnly = await sdk.query(query);
+
+      expect(childOnly.data.map((r) => r.metadata.sourceId)).toEqual(['child-1']);
+      expect(childOnly.metadata.sourcesFailed).toBeUndefined();
+
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'parent' });
+      const both = await sdk.query(query);
+
+      expect(both.data.map((r) => [r.metadata.sourceId, r.accountId])).toEqual([
+        ['parent-1', 'parent'],
+        ['child-1', 'child'],
+      ]);
+      expect(both.metadata.sourcesWithData).toEqual([HealthSource.FITBIT]);
+    });
+
+    it('should sync each connected account with its own cursor', async () => {
+      const options = { sources: [HealthSource.FITBIT], dataTypes: [DataType.STEPS] };
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'child' });
+      child.addSteps('child-1', 4000, minutesAgo(30));
+
+      const first = await sdk.sync(options);
+
+      expect(first.success).toBe(true);
+      expect(first.sourceResults.map((r) => [r.accountId, r.recordCount])).toEqual([['child', 1]]);
+      expect(await sdk.getSyncCursor(HealthSource.FITBIT, DataType.STEPS, 'child')).not.toBeNull();
+      expect(await sdk.getSyncCursor(HealthSource.FITBIT, DataType.STEPS)).toBeNull();
+
+      await sdk.connect(HealthSource.FITBIT, { accountId: 'parent' });
+      parent.addSteps('parent-1', 9000, minutesAgo(20));
+      const progress: SyncProgress[] = [];
+
+      const second = await sdk.sync({ ...options, onProgress: (p) => progress.push(p) });
+
+      expect(second.newRecords).toBe(1);
+      expect(second.sourceResults.map((r) => [r.accountId, r.recordCount])).toEqual([
+        ['parent', 1],
+        ['child', 1],
+      ]);
+      expect(progress.map((p) => p.currentAccountId).sort()).toEqual(['child', 'parent']);
+      expect(
+        (await sdk.getSyncCursor(HealthSource.FITBIT, DataType.STEPS, 'parent'))?.seen
+      ).toHaveProperty('parent-1');
+    });
+  });
+
+  describe('plugin manifests', () => {
+    const manifest = (load: () => Promise<MockPlugin>, instanceKey?: string): PluginManifest => {
+      const entry: PluginManifest = {
+        id: 'garmin',
+        name: 'Garmin',
+        version: '1.0.0',
+        source: HealthSource.GARMIN,
+        capabilities: {
+          dataTypes: { [DataType.STEPS]: { granularity: 'day', paging: 'none', write: false } },
+          realtimeUpdates: false,
+          changeTokens: false,
+        },
+        load,
+      };
+
+      if (instanceKey !== undefined) {
+        entry.instanceKey = instanceKey;
+      }
+
+      return entry;
+    };
+
+    it('should list manifests and load each plugin once on first connect', async () => {
+      const garmin = new MockPlugin('garmin', HealthSource.GARMIN);
+      const initialize = jest.spyOn(garmin, 'initialize');
+      const load = jest.fn(async () => garmin);
+      sdk.registerPluginManifest(manifest(load));
+
+      expect(await sdk.getAvailablePlugins()).toEqual([
+        expect.objectContaining({ id: 'health-connect', loaded: true }),
+        expect.objectContaining({
+          id: 'garmin',
+          source: HealthSource.GARMIN,
+          supportedDataTypes: [DataType.STEPS],
+          loaded: false,
+        }),
+      ]);
+      expect(sdk.getCapabilities(HealthSource.GARMIN)?.dataTypes[DataType.STEPS]).toMatchObject({
+        granularity: 'day',
+      });
+      expect(load).not.toHaveBeenCalled();
+
+      await Promise.all([sdk.connect(HealthSource.GARMIN), sdk.connect(HealthSource.GARMIN)]);
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(initialize).toHaveBeenCalledTimes(1);
+      expect(sdk.getConnectionStatus(HealthSource.GARMIN)).toBe(ConnectionStatus.CONNECTED);
+      expect((await sdk.getAvailablePlugins()).map((info) => [info.id, info.loaded])).toEqual([
+        ['health-connect', true],
+        ['garmin', true],
+      ]);
+    });
+
+    it('should load plugins of queried sources and keep manifests whose load fails', async () => {
+      const garmin = new MockPlugin('garmin', HealthSource.GARMIN, 'coach');
+      const load = jest
+        .fn<Promise<MockPlugin>, []>()
+        .mockRejectedValueOnce(new Error('chunk failed'))
+        .mockResolvedValue(garmin);
+      sdk.registerPluginManifest(manifest(load, 'coach'));
+
+      expect(sdk.getAccounts(HealthSource.GARMIN)).toEqual(['coach']);
+      expect(() => sdk.registerPluginManifest(manifest(load, 'coach'))).toThrow(PluginError);
+
+      const query = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+        sources: [HealthSource.GARMIN],
+        accountId: 'coach',
+      };
+
+      const failed = await sdk.query(query);
+
+      expect(failed.success).toBe(false);
+      expect(failed.metadata.sourcesFailed).toEqual([HealthSource.GARMIN]);
+      expect(failed.errors?.[0]?.message).toMatch(/Failed to load plugin 'garmin:coach'/);
+
+      const response = await sdk.query(query);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(response.metadata.sourcesFailed).toEqual([HealthSource.GARMIN]);
+      expect(sdk.getAccounts(HealthSource.GARMIN)).toEqual(['coach']);
+      expect(sdk.getConnectionStatus(HealthSource.GARMIN, 'coach')).toBe(
+        ConnectionStatus.DISCONNECTED
+      );
+    });
+
+    it('should keep only the manifest of a plugin whose initialization fails', async () => {
+      const garmin = new MockPlugin('garmin', HealthSource.GARMIN);
+      jest.spyOn(garmin, 'initialize').mockRejectedValueOnce(new Error('bad config'));
+      const load = jest.fn(async () => garmin);
+      sdk.registerPluginManifest(manifest(load));
+
+      await expect(sdk.connect(HealthSource.GARMIN)).rejects.toThrow('bad config');
+
+      expect((await sdk.getAvailablePlugins()).map((info) => [info.id, info.loaded])).toEqual([
+        ['health-connect', true],
+        ['garmin', false],
+      ]);
+
+      await sdk.connect(HealthSource.GARMIN);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(sdk.getConnectionStatus(HealthSource.GARMIN)).toBe(ConnectionStatus.CONNECTED);
+    });
+
+    it('should report failed loads per source and query the other sources', async () => {
+      sdk.registerPluginManifest(manifest(() => Promise.reject(new Error('chunk failed'))));
+      await sdk.connect(HealthSource.HEALTH_CONNECT);
+      plugin.addSteps('hc-1', 100, minutesAgo(30));
+
+      const response = await sdk.query({
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+        sources: [HealthSource.HEALTH_CONNECT, HealthSource.GARMIN],
+      });
+
+      expect(response.data.map((r) => r.metadata.sourceId)).toEqual(['hc-1']);
+      expect(response.metadata.sourcesFailed).toEqual([HealthSource.GARMIN]);
+      expect(response.errors?.[0]).toMatchObject({ source: HealthSource.GARMIN });
+    });
+  });
+
+  describe('plugin configuration', () => {
+    let configured: HealthSyncSDK;
+    let garmin: MockPlugin;
+    let coach: MockPlugin;
+
+    beforeEach(async () => {
+      garmin = new MockPlugin('garmin', HealthSource.GARMIN);
+      coach = new MockPlugin('garmin', HealthSource.GARMIN, 'coach');
+      garmin.configSchema = coach.configSchema = {
+        fields: { timeout: { type: 'number', min: 1000 } },
+        custom: { units: { type: 'string', enum: ['metric', 'imperial'] } },
+      };
+
+      configured = await HealthSyncSDK.create({
+        logLevel: LogLevel.NONE,
+        clientId: 'app',
+        retry: { timeout: 20000 },
+        plugins: [garmin, coach],
+        pluginDefaults: { customHeaders: { 'x-app': 'demo' } },
+        pluginConfig: {
+          garmin: { timeout: 5000, custom: { units: 'metric' } },
+          'garmin:coach': { custom: { units: 'imperial' } },
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await configured.dispose();
+    });
+
+    it('should pass merged defaults and per-plugin configuration to initialize', async () => {
+      const initialize = jest.spyOn(coach, 'initialize');
+
+      await configured.connect(HealthSource.GARMIN, { accountId: 'coach' });
+
+      expect(initialize).toHaveBeenCalledWith(
+        expect.objectContaining({
+          clientId: 'app',
+          timeout: 5000,
+          customHeaders: { 'x-app': 'demo' },
+          custom: expect.objectContaining({ units: 'imperial', logger: expect.anything() }),
+        })
+      );
+    });
+
+    it('should validate and re-apply reconfigurations', async () => {
+      await configured.connect(HealthSource.GARMIN);
+      const initialize = jest.spyOn(garmin, 'initialize');
+
+      await expect(configured.reconfigurePlugin('garmin', { timeout: 10 })).rejects.toThrow(
+        ConfigurationError
+      );
+      await expect(configured.reconfigurePlugin('polar', { timeout: 2000 })).rejects.toThrow(
+        PluginError
+      );
+      expect(initialize).not.toHaveBeenCalled();
+
+      await configured.reconfigurePlugin('garmin', { timeout: 2000 });
+
+      expect(initialize).toHaveBeenCalledTimes(1);
+      expect(initialize).toHaveBeenCalledWith(
+        expect.objectContaining({
+          timeout: 2000,
+          custom: expect.objectContaining({ units: 'metric' }),
+        })
+      );
+      expect(configured.getConnectionStatus(HealthSource.GARMIN)).toBe(
+        ConnectionStatus.DISCONNECTED
+      );
+    });
+
+    it('should reconfigure plugins implementing reconfigure without reconnecting', async () => {
+      const reconfigure = jest.fn((_config: PluginConfig) => Promise.resolve());
+      Object.assign(coach, { reconfigure });
+      await configured.connect(HealthSource.GARMIN, { accountId: 'coach' });
+      const initialize = jest.spyOn(coach, 'initialize');
+
+      await configured.reconfigurePlugin('garmin:coach', { timeout: 2000 });
+
+      expect(initialize).not.toHaveBeenCalled();
+      expect(reconfigure).toHaveBeenCalledWith(expect.objectContaining({ timeout: 2000 }));
+      expect(configured.getConnectionStatus(HealthSource.GARMIN, 'coach')).toBe(
+        ConnectionStatus.CONNECTED
+      );
+    });
+  });
+
+  describe('middleware', () => {
+    const stepsQuery = (): { dataType: DataType; startDate: string; endDate: string } => ({
+      dataType: DataType.STEPS,
+      startDate: minutesAgo(60),
+      endDate: new Date().toISOString(),
+    });
+
+    it('should run fetch and normalize hooks in order', async () => {
+      const calls: string[] = [];
+      plugin.addSteps('public-1', 100, minutesAgo(30));
+      plugin.addSteps('private-1', 200, minutesAgo(20));
+
+      sdk.use({
+        beforeFetch: (query, context) => {
+          calls.push(`beforeFetch:${context.source}`);
+          return { ...query, limit: 50 };
+        },
+        afterFetch: (data) => data.filter((r) => !r.sourceId.startsWith('private')),
+      });
+      sdk.use({
+        afterNormalize: (data, context) => {
+          calls.push(`afterNormalize:${context.operation}`);
+          return data.map((r) => ({ ...r, metadata: { ...r.metadata, scrubbed: true } }));
+        },
+      });
+
+      const response = await sdk.query(stepsQuery());
+
+      expect(calls).toEqual(['beforeFetch:health_connect', 'afterNormalize:normalize']);
+      expect(plugin.queries[0]?.limit).toBe(50);
+      expect(response.data.map((r) => [r.metadata.sourceId, r.metadata['scrubbed']])).toEqual([
+        ['public-1', true],
+      ]);
+    });
+
+    it('should let middleware answer in place of the plugin', async () => {
+      const fitbit = new MockPlugin('fitbit', HealthSource.FITBIT);
+      const connect = jest.spyOn(fitbit, 'connect');
+      const fetchData = jest.spyOn(fitbit, 'fetchData');
+      sdk.registerPlugin(fitbit);
+
+      sdk.use({
+        beforeConnect: (context) =>
+          context.source === HealthSource.FITBIT
+            ? { success: true, message: 'stubbed' }
+            : undefined,
+        beforeFetch: (query, context) =>
+          context.source === HealthSource.FITBIT
+            ? [
+                {
+                  sourceDataType: DataType.STEPS,
+                  timestamp: query.startDate,
+                  raw: { count: 42 },
+                  source: HealthSource.FITBIT,
+                  sourceId: 'stubbed-1',
+                },
+              ]
+            : undefined,
+      });
+
+      const result = await sdk.connect(HealthSource.FITBIT);
+      const response = await sdk.query({ ...stepsQuery(), sources: [HealthSource.FITBIT] });
+
+      expect(result.message).toBe('stubbed');
+      expect(connect).not.toHaveBeenCalled();
+      expect(fetchData).not.toHaveBeenCalled();
+      expect(response.data.map((r) => r.metadata.sourceId)).toEqual(['stubbed-1']);
+    });
+
+    it('should report errors transformed by onError hooks', async () => {
+      plugin.failingTypes.add(DataType.STEPS);
+      const onError = jest.fn((error: Error) => new Error(`[scrubbed] ${error.message}`));
+      const remove = sdk.use({ onError });
+
+      const response = await sdk.query(stepsQuery());
+      remove();
+      await sdk.query({ ...stepsQuery(), forceFresh: true });
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0]?.[1]).toMatchObject({
+        operation: 'fetchData',
+        source: HealthSource.HEALTH_CONNECT,
+      });
+      expect(response.errors?.[0]?.message).toBe(
+        'Failed to query health_connect: [scrubbed] Cannot fetch steps'
+      );
+    });
+  });
+
+  describe('real-time updates', () => {
+    beforeEach(async () => {
+      await sdk.dispose();
+      plugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+      sdk = await HealthSyncSDK.initialize({
+        logLevel: LogLevel.NONE,
+        plugins: [plugin],
+        enableRealtimeUpdates: true,
+      });
+      await sdk.connect(HealthSource.HEALTH_CONNECT);
+    });
+
+    it('should route plugin updates to subscribers', async () => {
+      const updates: UnifiedHealthData[][] = [];
+      sdk.subscribe((data) => updates.push(data));
+      const record = { id: 'x' } as UnifiedHealthData;
+
+      await plugin.updateCallback?.([record]);
+
+      expect(updates).toEqual([[record]]);
+    });
+
+    it('should invalidate cached days of updated and written records', async () => {
+      const query = {
+        dataType: DataType.STEPS,
+        startDate: minutesAgo(60),
+        endDate: new Date().toISOString(),
+      };
+      const update = (sourceId: string, count: number): UnifiedHealthData => {
+        const timestamp = minutesAgo(10);
+        plugin.addSteps(sourceId, count, timestamp);
+        return {
+          id: sourceId,
+          source: HealthSource.HEALTH_CONNECT,
+          dataType: DataType.STEPS,
+          timestamp,
+        } as UnifiedHealthData;
+      };
+
+      await sdk.query(query);
+      await plugin.updateCallback?.([update('live-1', 10)]);
+      const afterUpdate = await sdk.query(query);
+      await sdk.notifyDataWritten([update('written-1', 20)]);
+      const afterWrite = await sdk.query(query);
+
+      expect(plugin.queries).toHaveLength(3);
+      expect(afterUpdate.data.map((r) => r.metadata.sourceId)).toEqual(['live-1']);
+      expect(afterWrite.data.map((r) => r.metadata.sourceId).sort()).toEqual([
+        'live-1',
+        'written-1',
+      ]);
+    });
+
+    it('should unsubscribe on disconnect', async () => {
+      await sdk.disconnect(HealthSource.HEALTH_CONNECT);
+
+      expect(plugin.updateCallback).toBeNull();
+    });
+  });
+
+  describe('auto-sync', () => {
+    it('should sync in the background on the configured interval', async () => {
+      jest.useFakeTimers();
+      try {
+        await sdk.dispose();
+        plugin = new MockPlugin('health-connect', HealthSource.HEALTH_CONNECT);
+        sdk = await HealthSyncSDK.initialize({
+          logLevel: LogLevel.NONE,
+          plugins: [plugin],
+          defaultDataTypes: [DataType.STEPS],
+          syncInterval: 60000,
+        });
+        await sdk.connect(HealthSource.HEALTH_CONNECT);
+
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(plugin.queries).toHaveLength(1);
+
+        sdk.pauseAutoSync();
+        await jest.advanceTimersByTimeAsync(120000);
+        expect(plugin.queries).toHaveLength(1);
+        expect(sdk.getAutoSyncState()?.paused).toBe(true);
+
+        await sdk.dispose();
+        await jest.advanceTimersByTimeAsync(120000);
+        expect(plugin.queries).toHaveLength(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should be disabled by default', () => {
+      expect(sdk.getAutoSyncState()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Auto-Sync Engine Tests
+ *
+ * Tests for interval scheduling, overlap skipping and per-source backoff
+ * using a manually advanced clock
+ */
+
+import { AutoSyncEngine } from '../../src/sync/auto-sync';
+import { HealthSource } from '../../src/models/unified-data';
+import { SyncResult } from '../../src/types/config';
+import { Clock, TimerHandle } from '../../src/utils/clock';
+
+/**
+ * Clock whose time only moves when advanced
+ */
+class FakeClock implements Clock {
+  private time = 0;
+  private nextId = 1;
+  private timers: Map<number, { at: number; callback: () => void }> = new Map();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  pending(): number {
+    return this.timers.size;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+      await flush();
+    }
+
+    this.time = target;
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+const result = (failed: HealthSource[] = []): SyncResult => ({
+  success: failed.length === 0,
+  totalRecords: 0,
+  newRecords: 0,
+  updatedRecords: 0,
+  failedRecords: 0,
+  sourceResults: [HealthSource.FITBIT, HealthSource.HEALTH_CONNECT].map((source) => ({
+    source,
+    success: !failed.includes(source),
+    recordCount: 0,
+    dataTypeResults: [],
+    duration: 0,
+  })),
+  duration: 0,
+  startedAt: '',
+  completedAt: '',
+});
+
+describe('AutoSyncEngine', () => {
+  let clock: FakeClock;
+  let runSync: jest.Mock<Promise<SyncResult>, [HealthSource[]]>;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    runSync = jest.fn(async () => result());
+  });
+
+  it('should run on every interval', async () => {
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+
+    await clock.advance(999);
+    expect(runSync).not.toHaveBeenCalled();
+
+    await clock.advance(2001);
+    expect(runSync).toHaveBeenCalledTimes(3);
+    expect(engine.getState().nextRunAt).toBe(4000);
+  });
+
+  it('should run immediately when runOnStart is set', async () => {
+    const engine = new AutoSyncEngine({ interval: 0, runOnStart: true, runSync, clock });
+    engine.start();
+
+    await clock.advance(0);
+
+    expect(runSync).toHaveBeenCalledTimes(1);
+    expect(clock.pending()).toBe(0);
+  });
+
+  it('should skip runs while a previous run is in progress', async () => {
+    let finish: () => void = () => undefined;
+    runSync.mockImplementation(
+      () =>
+        new Promise<SyncResult>((resolve) => {
+          finish = () => resolve(result());
+        })
+    );
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+
+    await clock.advance(3000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+    expect(engine.getState().inProgress).toBe(true);
+
+    finish();
+    await flush();
+    await clock.advance(1000);
+
+    expect(runSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should back off failing sources exponentially', async () => {
+    runSync.mockImplementation(async () => result([HealthSource.FITBIT]));
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+
+    await clock.advance(1000);
+    expect(engine.getState().backoff).toEqual([
+      { source: HealthSource.FITBIT, failures: 1, retryAt: 2000 },
+    ]);
+
+    // Retry is due exactly at the next tick
+    await clock.advance(1000);
+    expect(runSync).toHaveBeenLastCalledWith([]);
+    expect(engine.getState().backoff[0]).toMatchObject({ failures: 2, retryAt: 4000 });
+
+    await clock.advance(1000);
+    expect(runSync).toHaveBeenLastCalledWith([HealthSource.FITBIT]);
+  });
+
+  it('should clear backoff once a source succeeds', async () => {
+    runSync.mockImplementationOnce(async () => result([HealthSource.FITBIT]));
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+
+    await clock.advance(2000);
+
+    expect(engine.getState().backoff).toEqual([]);
+  });
+
+  it('should cap the backoff at maxBackoff', async () => {
+    runSync.mockImplementation(async () => result([HealthSource.FITBIT]));
+    const engine = new AutoSyncEngine({ interval: 1000, maxBackoff: 3000, runSync, clock });
+    engine.start();
+
+    await clock.advance(10000);
+
+    const [entry] = engine.getState().backoff;
+    expect(entry).toBeDefined();
+    expect((entry?.retryAt ?? 0) - (engine.getState().lastRunAt ?? 0)).toBeLessThanOrEqual(3000);
+  });
+
+  it('should keep the schedule when a run throws', async () => {
+    runSync.mockImplementationOnce(async () => {
+      throw new Error('boom');
+    });
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+
+    await clock.advance(2000);
+
+    expect(runSync).toHaveBeenCalledTimes(2);
+    expect(engine.getState().active).toBe(true);
+  });
+
+  it('should not run while paused', async () => {
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+    engine.pause();
+
+    await clock.advance(5000);
+    expect(runSync).not.toHaveBeenCalled();
+    expect(engine.getState().paused).toBe(true);
+
+    engine.resume();
+    await clock.advance(1000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel pending timers when stopped', async () => {
+    const engine = new AutoSyncEngine({ interval: 1000, runSync, clock });
+    engine.start();
+    engine.stop();
+
+    await clock.advance(5000);
+
+    expect(runSync).not.toHaveBeenCalled();
+    expect(clock.pending()).toBe(0);
+    expect(engine.getState().active).toBe(false);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Offline Queue Tests
+ *
+ * Tests for merging, replay, backoff and persistence of deferred jobs
+ * using a manually advanced clock
+ */
+
+import { OfflineQueue, QueuedJobInput } from '../../src/sync/offline-queue';
+import { MemoryOfflineQueueStore } from '../../src/sync/memory-offline-queue-store';
+import { QueuedJob } from '../../src/sync/offline-queue-store';
+import { DataType, HealthSource } from '../../src/models/unified-data';
+import { OperationDeferredError } from '../../src/types/config';
+import { Clock, TimerHandle } from '../../src/utils/clock';
+
+/**
+ * Clock whose time only moves when advanced
+ */
+class FakeClock implements Clock {
+  private time = Date.parse('2024-01-01T00:00:00.000Z');
+  private nextId = 1;
+  private timers: Map<number, { at: number; callback: () => void }> = new Map();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      await flush();
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+
+    this.time = target;
+    await flush();
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+const hour = (h: number): string => `2024-01-01T${String(h).padStart(2, '0')}:00:00.000Z`;
+
+const stepsJob = (startDate: string, endDate: string, notBefore?: string): QueuedJobInput => {
+  const job: QueuedJobInput = {
+    kind: 'fetch',
+    source: HealthSource.FITBIT,
+    dataType: DataType.STEPS,
+    startDate,
+    endDate,
+  };
+
+  if (notBefore !== undefined) {
+    job.notBefore = notBefore;
+  }
+
+  return job;
+};
+
+describe('OfflineQueue', () => {
+  let clock: FakeClock;
+  let replayed: QueuedJob[];
+  let runJob: jest.Mock<Promise<void>, [QueuedJob]>;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    replayed = [];
+    runJob = jest.fn(async (job: QueuedJob) => {
+      replayed.push(job);
+    });
+  });
+
+  it('should merge overlapping ranges of the same source and data type', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+
+    await queue.enqueue(stepsJob(hour(0), hour(2), hour(1)));
+    await queue.enqueue(stepsJob(hour(1), hour(4), hour(3)));
+    await queue.enqueue({ ...stepsJob(hour(1), hour(4)), dataType: DataType.HEART_RATE });
+    await queue.enqueue(stepsJob(hour(6), hour(8)));
+
+    const jobs = await queue.list();
+
+    expect(jobs).toHaveLength(3);
+    expect(jobs[0]).toMatchObject({ startDate: hour(0), endDate: hour(4), notBefore: hour(3) });
+  });
+
+  it('should let a sync job absorb an overlapping fetch job', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+
+    await queue.enqueue(stepsJob(hour(0), hour(2)));
+    await queue.enqueue({ ...stepsJob(hour(2), hour(3)), kind: 'sync' });
+
+    expect(await queue.list()).toEqual([
+      expect.objectContaining({ kind: 'sync', startDate: hour(0), endDate: hour(3) }),
+    ]);
+  });
+
+  it('should keep jobs of different accounts apart', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+
+    await queue.enqueue({ ...stepsJob(hour(0), hour(2)), accountId: 'parent' });
+    await queue.enqueue({ ...stepsJob(hour(1), hour(3)), accountId: 'child' });
+    await queue.enqueue({ ...stepsJob(hour(2), hour(4)), accountId: 'parent' });
+
+    const jobs = await queue.list();
+
+    expect(jobs).toHaveLength(2);
+    expect(jobs).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ accountId: 'parent', startDate: hour(0), endDate: hour(4) }),
+        expect.objectContaining({ accountId: 'child', startDate: hour(1), endDate: hour(3) }),
+      ])
+    );
+  });
+
+  it('should replay jobs once their notBefore time passes', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+    await queue.start();
+
+    await queue.enqueue(stepsJob(hour(0), hour(1), hour(1)));
+    await clock.advance(30 * 60 * 1000);
+    expect(runJob).not.toHaveBeenCalled();
+
+    await clock.advance(30 * 60 * 1000);
+
+    expect(replayed).toHaveLength(1);
+    expect(await queue.list()).toEqual([]);
+    queue.stop();
+  });
+
+  it('should only replay due jobs unless forced', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+    await queue.enqueue(stepsJob(hour(0), hour(1), hour(0)));
+    await queue.enqueue({ ...stepsJob(hour(0), hour(1), hour(5)), source: HealthSource.GARMIN });
+
+    const first = await queue.drain();
+    const second = await queue.drain({ force: true });
+
+    expect(first.completed.map((job) => job.source)).toEqual([HealthSource.FITBIT]);
+    expect(first.remaining).toBe(1);
+    expect(second.completed.map((job) => job.source)).toEqual([HealthSource.GARMIN]);
+  });
+
+  it('should replay jobs deferred while offline early only when asked to', async () => {
+    runJob.mockRejectedValueOnce(new OperationDeferredError('not connected'));
+    const queue = new OfflineQueue({ runJob, clock });
+    await queue.enqueue(stepsJob(hour(0), hour(1), hour(5)));
+    await queue.enqueue({ ...stepsJob(hour(0), hour(1)), source: HealthSource.GARMIN });
+    await queue.enqueue({ ...stepsJob(hour(0), hour(1), hour(0)), source: HealthSource.OURA });
+
+    const first = await queue.drain({ offline: true });
+    const second = await queue.drain({ offline: true });
+
+    expect(first.completed.map((job) => job.source)).toEqual([HealthSource.OURA]);
+    expect(first.deferred).toEqual([
+      expect.objectContaining({ source: HealthSource.GARMIN, attempts: 1, offline: true }),
+    ]);
+    expect(second.completed.map((job) => job.source)).toEqual([HealthSource.GARMIN]);
+    expect(second.remaining).toBe(1);
+  });
+
+  it('should take the new reset time when a replay is deferred again', async () => {
+    runJob.mockRejectedValue(new OperationDeferredError('rate limited', hour(6)));
+    const queue = new OfflineQueue({ runJob, clock });
+    await queue.enqueue(stepsJob(hour(0), hour(1), hour(0)));
+
+    const result = await queue.drain();
+
+    expect(result.deferred).toEqual([
+      expect.objectContaining({ attempts: 1, notBefore: hour(6), lastError: 'rate limited' }),
+    ]);
+  });
+
+  it('should back off failed replays and drop jobs after maxAttempts', async () => {
+    runJob.mockRejectedValue(new Error('offline'));
+    const queue = new OfflineQueue({ runJob, clock, maxAttempts: 2, retryDelay: 1000 });
+    await queue.enqueue(stepsJob(hour(0), hour(1), hour(0)));
+
+    const first = await queue.drain();
+    const second = await queue.drain({ force: true });
+
+    expect(first.deferred[0]?.notBefore).toBe(new Date(clock.now() + 1000).toISOString());
+    expect(second.dropped).toHaveLength(1);
+    expect(second.remaining).toBe(0);
+  });
+
+  it('should pick up jobs persisted by a previous session', async () => {
+    const store = new MemoryOfflineQueueStore();
+    await new OfflineQueue({ runJob, clock, store }).enqueue(stepsJob(hour(0), hour(1), hour(0)));
+
+    const queue = new OfflineQueue({ runJob, clock, store });
+    await queue.start();
+    await clock.advance(0);
+
+    expect(replayed).toHaveLength(1);
+    queue.stop();
+  });
+
+  it('should clear jobs by source', async () => {
+    const queue = new OfflineQueue({ runJob, clock });
+    await queue.enqueue(stepsJob(hour(0), hour(1)));
+    await queue.enqueue({ ...stepsJob(hour(0), hour(1)), source: HealthSource.GARMIN });
+
+    expect(await queue.clear(HealthSource.FITBIT)).toBe(1);
+    expect((await queue.list()).map((job) => job.source)).toEqual([HealthSource.GARMIN]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Sync Progress Tracker Tests
+ *
+ * Tests for progress snapshots and time-remaining estimation
+ */
+
+import { SyncProgressTracker } from '../../src/sync/sync-progress';
+import { HealthSource, DataType } from '../../src/models/unified-data';
+
+describe('SyncProgressTracker', () => {
+  const fitbit = { source: HealthSource.FITBIT };
+  const healthConnect = { source: HealthSource.HEALTH_CONNECT };
+  let now: number;
+  let tracker: SyncProgressTracker;
+
+  beforeEach(() => {
+    now = 1000;
+    tracker = new SyncProgressTracker(
+      [fitbit, healthConnect],
+      [DataType.STEPS, DataType.SLEEP],
+      () => now
+    );
+  });
+
+  it('should count completed units and records', () => {
+    now += 100;
+    const progress = tracker.complete(fitbit, DataType.STEPS, 10);
+
+    expect(progress).toMatchObject({
+      currentSource: HealthSource.FITBIT,
+      currentDataType: DataType.STEPS,
+      totalSources: 2,
+      completedSources: 0,
+      totalDataTypes: 4,
+      completedDataTypes: 1,
+      totalRecords: 10,
+      percentage: 25,
+    });
+  });
+
+  it('should mark a source complete once all its data types finish', () => {
+    tracker.complete(fitbit, DataType.STEPS, 1);
+    const progress = tracker.complete(fitbit, DataType.SLEEP, 1);
+
+    expect(progress.completedSources).toBe(1);
+    expect(progress.percentage).toBe(50);
+  });
+
+  it('should estimate remaining time from observed throughput', () => {
+    now += 200;
+    tracker.complete(fitbit, DataType.STEPS, 0);
+    now += 200;
+    const progress = tracker.complete(fitbit, DataType.SLEEP, 0);
+
+    // 400ms for 2 units => 200ms per unit, 2 units remaining
+    expect(progress.estimatedTimeRemaining).toBe(400);
+  });
+
+  it('should report no remaining time when finished', () => {
+    tracker.complete(fitbit, DataType.STEPS, 0);
+    tracker.complete(fitbit, DataType.SLEEP, 0);
+    tracker.complete(healthConnect, DataType.STEPS, 0);
+    const progress = tracker.complete(healthConnect, DataType.SLEEP, 0);
+
+    expect(progress.percentage).toBe(100);
+    expect(progress.estimatedTimeRemaining).toBe(0);
+  });
+
+  it('should track the accounts of a source separately', () => {
+    tracker = new SyncProgressTracker(
+      [
+        { source: HealthSource.FITBIT, accountId: 'alice' },
+        { source: HealthSource.FITBIT, accountId: 'bob' },
+      ],
+      [DataType.STEPS],
+      () => now
+    );
+
+    const progress = tracker.complete(
+      { source: HealthSource.FITBIT, accountId: 'bob' },
+      DataType.STEPS,
+      1
+    );
+
+    expect(progress).toMatchObject({
+      currentAccountId: 'bob',
+      totalSources: 2,
+      completedSources: 1,
+    });
+  });
+
+  it('should leave the estimate undefined before any time has elapsed', () => {
+    const progress = tracker.complete(fitbit, DataType.STEPS, 0);
+
+    expect(progress.estimatedTimeRemaining).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Sync Scheduler Tests
+ *
+ * Tests for bounded concurrency, per-source limits, priority and cancellation
+ */
+
+import { SyncScheduler } from '../../src/sync/sync-scheduler';
+import { HealthSource } from '../../src/models/unified-data';
+import { SyncCancelledError } from '../../src/types/config';
+
+/**
+ * Create a job whose completion is controlled by the test
+ */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const flush = (): Promise<void> => new Promise((r) => setImmediate(r));
+
+describe('SyncScheduler', () => {
+  it('should limit concurrent jobs per group', async () => {
+    const scheduler = new SyncScheduler();
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let maxRunning = 0;
+
+    const jobs = gates.map((gate) =>
+      scheduler.schedule({
+        source: HealthSource.HEALTH_CONNECT,
+        group: 'a',
+        groupConcurrency: 2,
+        run: async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await gate.promise;
+          running--;
+        },
+      })
+    );
+
+    await flush();
+    expect(scheduler.runningCount()).toBe(2);
+    expect(scheduler.pendingCount()).toBe(1);
+
+    gates.forEach((gate) => gate.resolve());
+    await Promise.all(jobs);
+
+    expect(maxRunning).toBe(2);
+    expect(scheduler.runningCount()).toBe(0);
+  });
+
+  it('should limit concurrent jobs per source across groups', async () => {
+    const scheduler = new SyncScheduler({
+      sourceLimit: (source) => (source === HealthSource.FITBIT ? 1 : Infinity),
+    });
+    const gate = deferred();
+
+    const jobs = ['a', 'b'].map((group) =>
+      scheduler.schedule({
+        source: HealthSource.FITBIT,
+        group,
+        groupConcurrency: 3,
+        run: () => gate.promise,
+      })
+    );
+    const other = scheduler.schedule({
+      source: HealthSource.HEALTH_CONNECT,
+      group: 'a',
+      groupConcurrency: 3,
+      run: () => gate.promise,
+    });
+
+    await flush();
+    expect(scheduler.runningCount()).toBe(2);
+    expect(scheduler.pendingCount()).toBe(1);
+
+    gate.resolve();
+    await Promise.all([...jobs, other]);
+  });
+
+  it('should start queued jobs in priority order', async () => {
+    const scheduler = new SyncScheduler({ sourceLimit: () => 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    const blocker = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'blocker',
+      groupConcurrency: 1,
+      run: () => gate.promise,
+    });
+
+    const jobs = [
+      { group: 'low', priority: 1 },
+      { group: 'high', priority: 10 },
+      { group: 'medium', priority: 5 },
+    ].map(({ group, priority }) =>
+      scheduler.schedule({
+        source: HealthSource.FITBIT,
+        group,
+        groupConcurrency: 1,
+        priority,
+        run: async () => {
+          order.push(group);
+        },
+      })
+    );
+
+    gate.resolve();
+    await Promise.all([blocker, ...jobs]);
+
+    expect(order).toEqual(['high', 'medium', 'low']);
+  });
+
+  it('should reject queued jobs when their signal aborts', async () => {
+    const scheduler = new SyncScheduler({ sourceLimit: () => 1 });
+    const controller = new AbortController();
+    const gate = deferred();
+    const run = jest.fn(async () => undefined);
+
+    const running = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      signal: controller.signal,
+      run: () => gate.promise,
+    });
+    const queued = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      signal: controller.signal,
+      run,
+    });
+
+    controller.abort();
+    gate.resolve();
+
+    await expect(queued).rejects.toBeInstanceOf(SyncCancelledError);
+    await expect(running).resolves.toBeUndefined();
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should reject immediately if the signal is already aborted', async () => {
+    const scheduler = new SyncScheduler();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      scheduler.schedule({
+        source: HealthSource.FITBIT,
+        group: 'a',
+        groupConcurrency: 1,
+        signal: controller.signal,
+        run: async () => undefined,
+      })
+    ).rejects.toBeInstanceOf(SyncCancelledError);
+  });
+
+  it('should propagate job errors and release the slot', async () => {
+    const scheduler = new SyncScheduler({ sourceLimit: () => 1 });
+
+    const failing = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      run: () => Promise.reject(new Error('boom')),
+    });
+    const next = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      run: async () => 'ok',
+    });
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('should cancel all queued jobs on clear', async () => {
+    const scheduler = new SyncScheduler({ sourceLimit: () => 1 });
+    const gate = deferred();
+
+    const running = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      run: () => gate.promise,
+    });
+    const queued = scheduler.schedule({
+      source: HealthSource.FITBIT,
+      group: 'a',
+      groupConcurrency: 1,
+      run: async () => undefined,
+    });
+
+    scheduler.clear();
+    gate.resolve();
+
+    await expect(queued).rejects.toBeInstanceOf(SyncCancelledError);
+    await expect(running).resolves.toBeUndefined();
+  });
+});
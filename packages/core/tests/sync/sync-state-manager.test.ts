@@ -0,0 +1,256 @@
+/**
+ * Sync State Manager Tests
+ *
+ * Tests for incremental sync windows, cursors and new/updated classification
+ */
+
+import { SyncStateManager } from '../../src/sync/sync-state-manager';
+import { MemorySyncStateStore } from '../../src/sync/memory-sync-state-store';
+import { generateSyncStateKey } from '../../src/sync/sync-state-store';
+import { HealthSource, DataType, DataQuality, StepsData } from '../../src/models/unified-data';
+
+function createSteps(sourceId: string, count: number, timestamp: string): StepsData {
+  return {
+    id: `health_${Math.random()}`,
+    source: HealthSource.FITBIT,
+    dataType: DataType.STEPS,
+    timestamp,
+    metadata: {
+      quality: DataQuality.HIGH,
+      isManualEntry: false,
+      recordedAt: timestamp,
+      syncedAt: new Date().toISOString(),
+      sourceId,
+    },
+    count,
+  };
+}
+
+describe('SyncStateManager', () => {
+  let store: MemorySyncStateStore;
+  let manager: SyncStateManager;
+
+  beforeEach(() => {
+    store = new MemorySyncStateStore();
+    manager = new SyncStateManager({ store, initialWindow: 24 * 60 * 60 * 1000 });
+  });
+
+  describe('resolveWindow', () => {
+    it('should use the initial window when no cursor exists', async () => {
+      const window = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-10T00:00:00.000Z',
+      });
+
+      expect(window).toEqual({
+        startDate: '2024-01-09T00:00:00.000Z',
+        endDate: '2024-01-10T00:00:00.000Z',
+        incremental: false,
+      });
+    });
+
+    it('should start the initial window at local midnight when a time zone is set', async () => {
+      const zoned = new SyncStateManager({
+        store,
+        initialWindow: 24 * 60 * 60 * 1000,
+        timezone: 'America/New_York',
+      });
+
+      const window = await zoned.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-10T15:00:00.000Z',
+      });
+
+      expect(window.startDate).toBe('2024-01-09T05:00:00.000Z');
+    });
+
+    it('should resume from the stored high-water mark', async () => {
+      const first = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-10T00:00:00.000Z',
+      });
+      await manager.commit(HealthSource.FITBIT, DataType.STEPS, first, []);
+
+      const next = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-11T00:00:00.000Z',
+      });
+
+      // 24 hours of lookback by default
+      expect(next.startDate).toBe('2024-01-09T00:00:00.000Z');
+      expect(next.incremental).toBe(true);
+    });
+
+    it('should apply the configured lookback to incremental windows', async () => {
+      const noLookback = new SyncStateManager({ store, lookback: 0 });
+      const first = await noLookback.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-10T00:00:00.000Z',
+      });
+      await noLookback.commit(HealthSource.FITBIT, DataType.STEPS, first, []);
+
+      const next = await noLookback.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-11T00:00:00.000Z',
+      });
+
+      expect(next.startDate).toBe('2024-01-10T00:00:00.000Z');
+    });
+
+    it('should ignore the cursor when forceFull is set', async () => {
+      const first = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-10T00:00:00.000Z',
+      });
+      await manager.commit(HealthSource.FITBIT, DataType.STEPS, first, []);
+
+      const full = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        endDate: '2024-01-12T00:00:00.000Z',
+        forceFull: true,
+      });
+
+      expect(full.startDate).toBe('2024-01-11T00:00:00.000Z');
+      expect(full.incremental).toBe(false);
+    });
+
+    it('should prefer an explicit start date', async () => {
+      const window = await manager.resolveWindow(HealthSource.FITBIT, DataType.STEPS, {
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-01-10T00:00:00.000Z',
+      });
+
+      expect(window.startDate).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('commit', () => {
+    const window = {
+      startDate: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      endDate: new Date().toISOString(),
+      incremental: false,
+    };
+    const timestamp = new Date(Date.now() - 30 * 60 * 1000).toISOString();
+
+    it('should count unseen records as new', async () => {
+      const records = [createSteps('a', 100, timestamp), createSteps('b', 200, timestamp)];
+      const delta = await manager.commit(HealthSource.FITBIT, DataType.STEPS, window, records);
+
+      expect(delta).toEqual({
+        newRecords: 2,
+        updatedRecords: 0,
+        unchangedRecords: 0,
+        changed: records,
+      });
+    });
+
+    it('should distinguish updated from unchanged records', async () => {
+      await manager.commit(HealthSource.FITBIT, DataType.STEPS, window, [
+        createSteps('a', 100, timestamp),
+        createSteps('b', 200, timestamp),
+      ]);
+
+      const updated = createSteps('b', 250, timestamp);
+      const added = createSteps('c', 300, timestamp);
+      const delta = await manager.commit(HealthSource.FITBIT, DataType.STEPS, window, [
+        createSteps('a', 100, timestamp),
+        updated,
+        added,
+      ]);
+
+      expect(delta).toEqual({
+        newRecords: 1,
+        updatedRecords: 1,
+        unchangedRecords: 1,
+        changed: [updated, added],
+      });
+    });
+
+    it('should not advance the high-water mark across a gap', async () => {
+      await manager.commit(
+        HealthSource.FITBIT,
+        DataType.STEPS,
+        {
+          startDate: '2024-01-01T00:00:00.000Z',
+          endDate: '2024-01-02T00:00:00.000Z',
+          incremental: false,
+        },
+        []
+      );
+      await manager.commit(
+        HealthSource.FITBIT,
+        DataType.STEPS,
+        {
+          startDate: '2024-01-05T00:00:00.000Z',
+          endDate: '2024-01-06T00:00:00.000Z',
+          incremental: false,
+        },
+        []
+      );
+
+      const cursor = await manager.getCursor(HealthSource.FITBIT, DataType.STEPS);
+      expect(cursor?.highWaterMark).toBe('2024-01-02T00:00:00.000Z');
+    });
+
+    it('should forget records older than the retention period', async () => {
+      const now = Date.parse('2024-01-03T00:00:00.000Z');
+      const shortRetention = new SyncStateManager({
+        store,
+        seenRetention: 24 * 60 * 60 * 1000,
+        clock: { now: () => now, setTimeout: () => undefined, clearTimeout: () => undefined },
+      });
+
+      await shortRetention.commit(HealthSource.FITBIT, DataType.STEPS, window, [
+        createSteps('old', 100, '2024-01-01T12:00:00.000Z'),
+        createSteps('recent', 100, '2024-01-02T12:00:00.000Z'),
+      ]);
+
+      const cursor = await store.get(generateSyncStateKey(HealthSource.FITBIT, DataType.STEPS));
+      expect(Object.keys(cursor?.seen ?? {})).toEqual(['recent']);
+      expect(cursor?.lastSyncedAt).toBe('2024-01-03T00:00:00.000Z');
+    });
+  });
+
+  describe('reset', () => {
+    beforeEach(async () => {
+      const window = {
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-01-02T00:00:00.000Z',
+        incremental: false,
+      };
+      await manager.commit(HealthSource.FITBIT, DataType.STEPS, window, []);
+      await manager.commit(HealthSource.FITBIT, DataType.SLEEP, window, []);
+      await manager.commit(HealthSource.HEALTH_CONNECT, DataType.STEPS, window, []);
+    });
+
+    it('should reset cursors for a single source', async () => {
+      const removed = await manager.reset(HealthSource.FITBIT);
+
+      expect(removed).toBe(2);
+      expect(await manager.getCursor(HealthSource.HEALTH_CONNECT, DataType.STEPS)).not.toBeNull();
+    });
+
+    it('should reset cursors for a single data type', async () => {
+      const removed = await manager.reset(undefined, DataType.STEPS);
+
+      expect(removed).toBe(2);
+      expect(await manager.getCursor(HealthSource.FITBIT, DataType.SLEEP)).not.toBeNull();
+    });
+
+    it('should reset all cursors', async () => {
+      expect(await manager.reset()).toBe(3);
+      expect(await store.keys()).toEqual([]);
+    });
+
+    it('should keep and reset cursors per account', async () => {
+      const window = {
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-01-03T00:00:00.000Z',
+        incremental: false,
+      };
+      await manager.commit(HealthSource.FITBIT, DataType.STEPS, window, [], 'bob');
+
+      expect(await manager.getCursor(HealthSource.FITBIT, DataType.STEPS, 'bob')).toMatchObject({
+        accountId: 'bob',
+        highWaterMark: window.endDate,
+      });
+      expect((await manager.getCursor(HealthSource.FITBIT, DataType.STEPS))?.highWaterMark).toBe(
+        '2024-01-02T00:00:00.000Z'
+      );
+      expect(await manager.reset(undefined, undefined, 'bob')).toBe(1);
+      expect(await store.keys()).toHaveLength(3);
+    });
+  });
+});
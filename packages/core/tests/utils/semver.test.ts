@@ -0,0 +1,63 @@
+/**
+ * Semantic Versioning Tests
+ *
+ * Tests for version parsing, ordering and range matching
+ */
+
+import { compareVersions, isValidRange, parseVersion, satisfies } from '../../src/utils/semver';
+
+const order = (a: string, b: string): number => {
+  const x = parseVersion(a);
+  const y = parseVersion(b);
+  if (!x || !y) {
+    throw new Error(`Invalid version: ${a} or ${b}`);
+  }
+  return Math.sign(compareVersions(x, y));
+};
+
+describe('semver', () => {
+  it('should parse versions and reject malformed ones', () => {
+    expect(parseVersion('v1.2.3-beta.1+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', '1'],
+    });
+    expect(parseVersion('1.2')).toBeNull();
+    expect(parseVersion('1.2.x')).toBeNull();
+  });
+
+  it('should order prereleases before their release', () => {
+    expect(order('1.0.0-alpha', '1.0.0')).toBe(-1);
+    expect(order('1.0.0-alpha.2', '1.0.0-alpha.10')).toBe(-1);
+    expect(order('1.0.0-beta', '1.0.0-alpha.1')).toBe(1);
+    expect(order('1.10.0', '1.9.9')).toBe(1);
+  });
+
+  it.each([
+    ['1.4.2', '^1.2.0', true],
+    ['2.0.0', '^1.2.0', false],
+    ['0.2.5', '^0.2.1', true],
+    ['0.3.0', '^0.2.1', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.9.0', '1.x', true],
+    ['2.5.0', '>= 1.0.0 <3.0.0', true],
+    ['3.0.0', '>=1.0.0 <3.0.0', false],
+    ['4.1.0', '^2.0.0 || 4.x', true],
+    ['1.3.0', '>1.2', true],
+    ['1.2.7', '<=1.2', true],
+    ['5.0.0', '*', true],
+    ['1.0.0', '', true],
+  ])('should match %s against %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it('should reject invalid ranges and versions', () => {
+    expect(isValidRange('^1.0.0 || >=2')).toBe(true);
+    expect(isValidRange('~>1.0')).toBe(false);
+    expect(isValidRange('>*')).toBe(false);
+    expect(satisfies('1.0.0', 'latest')).toBe(false);
+    expect(satisfies('one', '*')).toBe(false);
+  });
+});
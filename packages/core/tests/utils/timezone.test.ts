@@ -0,0 +1,111 @@
+/**
+ * Time Zone Utilities Tests
+ *
+ * Tests for calendar arithmetic and local date parsing in IANA zones
+ */
+
+import {
+  isValidTimeZone,
+  getTimeZoneOffset,
+  fromZonedDateTime,
+  startOfPeriod,
+  nextPeriod,
+  formatInTimeZone,
+  formatLocalDate,
+  parseLocalDateTime,
+  parseOffset,
+  resolveRangeBoundary,
+} from '../../src/utils/timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('Time zone utilities', () => {
+  describe('offsets', () => {
+    it('should follow DST transitions', () => {
+      expect(getTimeZoneOffset(Date.parse('2024-01-15T12:00:00Z'), NEW_YORK)).toBe(-300);
+      expect(getTimeZoneOffset(Date.parse('2024-07-15T12:00:00Z'), NEW_YORK)).toBe(-240);
+      expect(getTimeZoneOffset(Date.parse('2024-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+
+    it('should reject unknown zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+
+    it('should read numeric offsets but not Z', () => {
+      expect(parseOffset('2024-03-10T08:00:00-05:00')).toBe(-300);
+      expect(parseOffset('2024-03-10T08:00:00+0530')).toBe(330);
+      expect(parseOffset('2024-03-10T08:00:00.000Z')).toBeUndefined();
+      expect(parseOffset('2024-03-10')).toBeUndefined();
+    });
+  });
+
+  describe('wall-clock conversion', () => {
+    const local = { year: 2024, month: 3, day: 10, minute: 30, second: 0, millisecond: 0 };
+
+    it('should resolve times skipped by DST to after the gap', () => {
+      const instant = fromZonedDateTime({ ...local, hour: 2 }, NEW_YORK);
+
+      expect(new Date(instant).toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    it('should resolve repeated times to the earlier instant', () => {
+      const instant = fromZonedDateTime({ ...local, month: 11, day: 3, hour: 1 }, NEW_YORK);
+
+      expect(new Date(instant).toISOString()).toBe('2024-11-03T05:30:00.000Z');
+    });
+  });
+
+  describe('periods', () => {
+    it('should find local day, week and month starts', () => {
+      const instant = Date.parse('2024-03-13T03:00:00Z'); // Tue 12 Mar, 23:00 in New York
+
+      expect(formatInTimeZone(startOfPeriod(instant, 'day', NEW_YORK), NEW_YORK)).toBe(
+        '2024-03-12T00:00:00.000-04:00'
+      );
+      expect(formatInTimeZone(startOfPeriod(instant, 'week', NEW_YORK), NEW_YORK)).toBe(
+        '2024-03-11T00:00:00.000-04:00'
+      );
+      expect(formatInTimeZone(startOfPeriod(instant, 'month', NEW_YORK), NEW_YORK)).toBe(
+        '2024-03-01T00:00:00.000-05:00'
+      );
+    });
+
+    it('should produce a 23-hour day when clocks spring forward', () => {
+      const start = Date.parse('2024-03-10T05:00:00Z');
+
+      expect(nextPeriod(start, 'day', NEW_YORK) - start).toBe(23 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('local dates', () => {
+    it('should format the calendar date in the zone', () => {
+      const instant = Date.parse('2024-03-13T03:00:00Z');
+
+      expect(formatLocalDate(instant, NEW_YORK)).toBe('2024-03-12');
+      expect(formatLocalDate(instant, 'UTC')).toBe('2024-03-13');
+    });
+
+    it('should parse offset-less values in the zone', () => {
+      expect(new Date(parseLocalDateTime('2024-03-12', NEW_YORK)).toISOString()).toBe(
+        '2024-03-12T04:00:00.000Z'
+      );
+      expect(new Date(parseLocalDateTime('2024-03-12T23:15', NEW_YORK)).toISOString()).toBe(
+        '2024-03-13T03:15:00.000Z'
+      );
+      expect(new Date(parseLocalDateTime('2024-03-12T23:15:00Z', NEW_YORK)).toISOString()).toBe(
+        '2024-03-12T23:15:00.000Z'
+      );
+    });
+
+    it('should expand date-only range boundaries to whole local days', () => {
+      expect(resolveRangeBoundary('2024-03-10', 'start', NEW_YORK)).toBe(
+        '2024-03-10T05:00:00.000Z'
+      );
+      expect(resolveRangeBoundary('2024-03-10', 'end', NEW_YORK)).toBe('2024-03-11T03:59:59.999Z');
+      expect(resolveRangeBoundary('2024-03-10T12:00:00Z', 'end', NEW_YORK)).toBe(
+        '2024-03-10T12:00:00Z'
+      );
+    });
+  });
+});
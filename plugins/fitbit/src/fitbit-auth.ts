@@ -15,11 +15,14 @@ import type {
 
 /**
  * Token storage interface - implement based on environment
+ *
+ * Tokens are scoped by account ID (undefined for single-account setups);
+ * a storage shared by several accounts must keep their tokens apart.
  */
 export interface TokenStorage {
-  saveTokens(credentials: FitbitCredentials): Promise<void>;
-  loadTokens(): Promise<FitbitCredentials | null>;
-  clearTokens(): Promise<void>;
+  saveTokens(credentials: FitbitCredentials, accountId?: string): Promise<void>;
+  loadTokens(accountId?: string): Promise<FitbitCredentials | null>;
+  clearTokens(accountId?: string): Promise<void>;
 }
 
 /**
@@ -27,18 +30,18 @@ export interface TokenStorage {
  * IMPORTANT: Use secure storage in production!
  */
 export class InMemoryTokenStorage implements TokenStorage {
-  private tokens: FitbitCredentials | null = null;
+  private tokens: Map<string, FitbitCredentials> = new Map();
 
-  async saveTokens(credentials: FitbitCredentials): Promise<void> {
-    this.tokens = credentials;
+  async saveTokens(credentials: FitbitCredentials, accountId?: string): Promise<void> {
+    this.tokens.set(accountId ?? '', credentials);
   }
 
-  async loadTokens(): Promise<FitbitCredentials | null> {
-    return this.tokens;
+  async loadTokens(accountId?: string): Promise<FitbitCredentials | null> {
+    return this.tokens.get(accountId ?? '') ?? null;
   }
 
-  async clearTokens(): Promise<void> {
-    this.tokens = null;
+  async clearTokens(accountId?: string): Promise<void> {
+    this.tokens.delete(accountId ?? '');
   }
 }
 
@@ -117,15 +120,22 @@ export class PKCEGenerator {
 export class FitbitAuth {
   private readonly config: Required<FitbitApiConfig>;
   private readonly storage: TokenStorage;
+  private readonly accountId: string | undefined;
   private readonly authBaseUrl = 'https://www.fitbit.com/oauth2';
   private readonly apiBaseUrl = 'https://api.fitbit.com/oauth2';
 
   // Store code verifier temporarily during OAuth flow
   private pendingVerifier: string | null = null;
 
+  /**
+   * @param config API configuration
+   * @param storage Token storage (default: in-memory)
+   * @param accountId Account whose tokens are stored (for multi-account setups)
+   */
   constructor(
     config: FitbitApiConfig,
-    storage?: TokenStorage
+    storage?: TokenStorage,
+    accountId?: string
   ) {
     this.config = {
       clientId: config.clientId,
@@ -137,6 +147,7 @@ export class FitbitAuth {
     };
 
     this.storage = storage || new InMemoryTokenStorage();
+    this.accountId = accountId;
   }
 
   /**
@@ -235,7 +246,7 @@ export class FitbitAuth {
       const credentials = this.convertTokenResponse(tokenResponse);
 
       // Save tokens
-      await this.storage.saveTokens(credentials);
+      await this.storage.saveTokens(credentials, this.accountId);
 
       // Clear pending verifier
       this.pendingVerifier = null;
@@ -264,7 +275,7 @@ export class FitbitAuth {
       // Load current tokens if refresh token not provided
       let tokenToRefresh = refreshToken;
       if (!tokenToRefresh) {
-        const stored = await this.storage.loadTokens();
+        const stored = await this.storage.loadTokens(this.accountId);
         if (!stored) {
           throw new AuthenticationError(
             'No refresh token available',
@@ -310,7 +321,7 @@ export class FitbitAuth {
       const credentials = this.convertTokenResponse(tokenResponse);
 
       // Save refreshed tokens
-      await this.storage.saveTokens(credentials);
+      await this.storage.saveTokens(credentials, this.accountId);
 
       return credentials;
     } catch (error) {
@@ -330,7 +341,7 @@ export class FitbitAuth {
    * Get valid access token (auto-refresh if expired)
    */
   async getValidAccessToken(): Promise<string> {
-    const credentials = await this.storage.loadTokens();
+    const credentials = await this.storage.loadTokens(this.accountId);
 
     if (!credentials) {
       throw new AuthenticationError(
@@ -388,7 +399,7 @@ export class FitbitAuth {
    */
   async revokeTokens(): Promise<void> {
     try {
-      const credentials = await this.storage.loadTokens();
+      const credentials = await this.storage.loadTokens(this.accountId);
       if (!credentials) {
         return; // Already logged out
       }
@@ -406,10 +417,10 @@ export class FitbitAuth {
       });
 
       // Clear stored tokens
-      await this.storage.clearTokens();
+      await this.storage.clearTokens(this.accountId);
     } catch (error) {
       // Still clear tokens even if revocation fails
-      await this.storage.clearTokens();
+      await this.storage.clearTokens(this.accountId);
 
       throw new AuthenticationError(
         `Failed to revoke tokens: ${(error as Error).message}`,
@@ -423,7 +434,7 @@ export class FitbitAuth {
    * Get current credentials
    */
   async getCredentials(): Promise<FitbitCredentials | null> {
-    return await this.storage.loadTokens();
+    return await this.storage.loadTokens(this.accountId);
   }
 
   // ============================================================================
@@ -18,7 +18,14 @@ import {
   type Subscription,
   type UpdateCallback,
   type RateLimitInfo,
+  type AggregateDataQuery,
+  type AggregateDataPoint,
+  type DataTypeCapabilities,
+  type PluginCapabilities,
   type Logger,
+  formatLocalDate,
+  parseLocalDate,
+  getTimeZoneOffset,
   ConnectionError,
   DataFetchError,
   AuthenticationError,
@@ -44,6 +51,13 @@ export interface FitbitConfig extends Partial<FitbitApiConfig> {
   /** Custom token storage (default: in-memory) */
   tokenStorage?: TokenStorage;
 
+  /**
+   * Account this plugin instance connects (for several Fitbit accounts,
+   * e.g. family members); used as the plugin's instance key and to scope
+   * stored tokens
+   */
+  accountId?: string;
+
   /** API request timeout in ms (default: 30000) */
   timeout?: number;
 
@@ -54,7 +68,7 @@ export interface FitbitConfig extends Partial<FitbitApiConfig> {
 /**
  * Default Fitbit Configuration
  */
-export const DEFAULT_FITBIT_CONFIG: Required<Omit<FitbitConfig, 'clientId' | 'clientSecret' | 'redirectUri'>> = {
+export const DEFAULT_FITBIT_CONFIG: Required<Omit<FitbitConfig, 'clientId' | 'clientSecret' | 'redirectUri' | 'accountId'>> = {
   scopes: [
     FitbitScope.ACTIVITY,
     FitbitScope.HEART_RATE,
@@ -68,6 +82,73 @@ export const DEFAULT_FITBIT_CONFIG: Required<Omit<FitbitConfig, 'clientId' | 'cl
   debug: false,
 };
 
+/**
+ * Activity time series resources used for native aggregates
+ */
+const FITBIT_AGGREGATE_RESOURCES: Partial<Record<DataType, 'steps' | 'calories'>> = {
+  [DataType.STEPS]: 'steps',
+  [DataType.CALORIES]: 'calories',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily summaries fetched one day per call
+ */
+const DAILY_SUMMARY: DataTypeCapabilities = { granularity: 'day', paging: 'none', write: false };
+
+/**
+ * Daily totals also available natively from the activity time series
+ */
+const DAILY_TOTAL: DataTypeCapabilities = {
+  ...DAILY_SUMMARY,
+  aggregation: { functions: ['sum'], buckets: ['day', 'week', 'month'] },
+};
+
+/**
+ * Capabilities of the Fitbit Web API endpoints used per data type
+ */
+const FITBIT_CAPABILITIES: PluginCapabilities = {
+  dataTypes: {
+    [DataType.STEPS]: DAILY_TOTAL,
+    [DataType.CALORIES]: DAILY_TOTAL,
+    [DataType.DISTANCE]: DAILY_SUMMARY,
+    [DataType.ACTIVE_MINUTES]: DAILY_SUMMARY,
+    // Intraday for a single day, daily time series (30-day period) otherwise
+    [DataType.HEART_RATE]: {
+      granularity: 'minute',
+      maxRangePerRequest: 30 * DAY_MS,
+      paging: 'none',
+      write: false,
+    },
+    [DataType.RESTING_HEART_RATE]: {
+      ...DAILY_SUMMARY,
+      maxRangePerRequest: 30 * DAY_MS,
+    },
+    [DataType.SLEEP]: {
+      granularity: 'sample',
+      maxRangePerRequest: 100 * DAY_MS,
+      paging: 'none',
+      write: false,
+    },
+    [DataType.ACTIVITY]: { granularity: 'sample', paging: 'offset', write: false },
+    [DataType.WEIGHT]: {
+      granularity: 'sample',
+      maxRangePerRequest: 30 * DAY_MS,
+      paging: 'none',
+      write: false,
+    },
+    [DataType.BLOOD_OXYGEN]: DAILY_SUMMARY,
+    [DataType.HEART_RATE_VARIABILITY]: DAILY_SUMMARY,
+    [DataType.VO2_MAX]: DAILY_SUMMARY,
+    [DataType.BODY_TEMPERATURE]: DAILY_SUMMARY,
+    [DataType.RESPIRATORY_RATE]: DAILY_SUMMARY,
+  },
+  // Webhooks are not implemented yet
+  realtimeUpdates: false,
+  changeTokens: false,
+};
+
 /**
  * Fitbit Plugin
  *
@@ -77,7 +158,10 @@ export class FitbitPlugin extends BasePlugin {
   // Required BasePlugin properties
   readonly id = 'fitbit';
   readonly name = 'Fitbit';
+  readonly source = HealthSource.FITBIT;
+  readonly instanceKey?: string;
   readonly version = '1.0.0';
+  readonly requirements = { core: '^1.0.0' };
   readonly supportedDataTypes: readonly DataType[] = [
     DataType.STEPS,
     DataType.HEART_RATE,
@@ -103,7 +187,9 @@ export class FitbitPlugin extends BasePlugin {
   private transformer: FitbitTransformer;
 
   // Configuration
+  private baseConfig: FitbitConfig;
   private fitbitConfig: FitbitConfig;
+  private tokenStorage: TokenStorage;
   private logger?: Logger;
 
   // Subscriptions
@@ -129,10 +215,18 @@ export class FitbitPlugin extends BasePlugin {
       throw new Error('Fitbit redirectUri is required');
     }
 
-    this.fitbitConfig = {
+    this.baseConfig = {
       ...DEFAULT_FITBIT_CONFIG,
       ...config,
     };
+    this.fitbitConfig = this.baseConfig;
+
+    // Kept across initialize() and reconfigure() so tokens survive them
+    this.tokenStorage = config.tokenStorage || new InMemoryTokenStorage();
+
+    if (config.accountId) {
+      this.instanceKey = config.accountId;
+    }
 
     this.transformer = new FitbitTransformer();
   }
@@ -143,32 +237,20 @@ export class FitbitPlugin extends BasePlugin {
 
   /**
    * Initialize the plugin
+   *
+   * SDK settings (`apiBaseUrl`, `clientId`, `clientSecret`, `redirectUri`,
+   * `timeout`) override the constructor configuration.
    */
   async initialize(config: PluginConfig): Promise<void> {
     this.config = config;
     this.logger = config.custom?.['logger'] as Logger;
+    this.fitbitConfig = this.resolveConfig(config);
 
     this.log('info', 'Initializing Fitbit plugin...');
 
     try {
-      // Initialize auth module
-      this.auth = new FitbitAuth(
-        {
-          clientId: this.fitbitConfig.clientId!,
-          clientSecret: this.fitbitConfig.clientSecret!,
-          redirectUri: this.fitbitConfig.redirectUri!,
-          scopes: this.fitbitConfig.scopes!,
-          baseUrl: this.fitbitConfig.baseUrl,
-          autoRefreshToken: this.fitbitConfig.autoRefreshToken,
-        },
-        this.fitbitConfig.tokenStorage || new InMemoryTokenStorage()
-      );
-
-      // Initialize API client
-      this.api = new FitbitAPI(this.auth, {
-        baseUrl: this.fitbitConfig.baseUrl,
-        timeout: this.fitbitConfig.timeout,
-      });
+      this.auth = this.createAuth();
+      this.api = this.createApi();
 
       this.log('info', 'Fitbit plugin initialized successfully');
     } catch (error) {
@@ -177,6 +259,39 @@ export class FitbitPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Apply changed SDK settings without losing the connection
+   *
+   * Stored tokens are kept. The OAuth client is only replaced when its
+   * credentials change, which abandons an authorization in progress.
+   */
+  async reconfigure(config: PluginConfig): Promise<void> {
+    const previous = this.fitbitConfig;
+
+    this.config = config;
+    this.logger = config.custom?.['logger'] as Logger;
+    this.fitbitConfig = this.resolveConfig(config);
+
+    const authChanged =
+      previous.clientId !== this.fitbitConfig.clientId ||
+      previous.clientSecret !== this.fitbitConfig.clientSecret ||
+      previous.redirectUri !== this.fitbitConfig.redirectUri;
+
+    if (authChanged) {
+      this.auth = this.createAuth();
+    }
+
+    if (
+      authChanged ||
+      previous.baseUrl !== this.fitbitConfig.baseUrl ||
+      previous.timeout !== this.fitbitConfig.timeout
+    ) {
+      this.api = this.createApi();
+    }
+
+    this.log('info', 'Fitbit plugin reconfigured');
+  }
+
   /**
    * Dispose plugin resources
    */
@@ -362,6 +477,9 @@ export class FitbitPlugin extends BasePlugin {
     this.log('info', `Fetching ${query.dataType} from ${query.startDate} to ${query.endDate}`);
 
     try {
+      // Fitbit addresses data by calendar day in the user's zone
+      const timeZone = query.timezone ?? 'UTC';
+
       // Parse dates
       const startDate = new Date(query.startDate);
       const endDate = new Date(query.endDate);
@@ -374,44 +492,44 @@ export class FitbitPlugin extends BasePlugin {
         case DataType.DISTANCE:
         case DataType.CALORIES:
         case DataType.ACTIVE_MINUTES:
-          rawData = await this.fetchActivityData(query, startDate, endDate);
+          rawData = await this.fetchActivityData(query, startDate, endDate, timeZone);
           break;
 
         case DataType.HEART_RATE:
         case DataType.RESTING_HEART_RATE:
-          rawData = await this.fetchHeartRateData(query, startDate, endDate);
+          rawData = await this.fetchHeartRateData(query, startDate, endDate, timeZone);
           break;
 
         case DataType.SLEEP:
-          rawData = await this.fetchSleepData(startDate, endDate);
+          rawData = await this.fetchSleepData(startDate, endDate, timeZone);
           break;
 
         case DataType.ACTIVITY:
-          rawData = await this.fetchActivityLogs(startDate, endDate, query.limit);
+          rawData = await this.fetchActivityLogs(startDate, endDate, timeZone, query.limit);
           break;
 
         case DataType.WEIGHT:
-          rawData = await this.fetchWeightData(startDate, endDate);
+          rawData = await this.fetchWeightData(startDate, endDate, timeZone);
           break;
 
         case DataType.BLOOD_OXYGEN:
-          rawData = await this.fetchSpO2Data(startDate, endDate);
+          rawData = await this.fetchSpO2Data(startDate, endDate, timeZone);
           break;
 
         case DataType.HEART_RATE_VARIABILITY:
-          rawData = await this.fetchHRVData(startDate, endDate);
+          rawData = await this.fetchHRVData(startDate, endDate, timeZone);
           break;
 
         case DataType.VO2_MAX:
-          rawData = await this.fetchVO2MaxData(startDate, endDate);
+          rawData = await this.fetchVO2MaxData(startDate, endDate, timeZone);
           break;
 
         case DataType.BODY_TEMPERATURE:
-          rawData = await this.fetchTemperatureData(startDate, endDate);
+          rawData = await this.fetchTemperatureData(startDate, endDate, timeZone);
           break;
 
         case DataType.RESPIRATORY_RATE:
-          rawData = await this.fetchBreathingRateData(startDate, endDate);
+          rawData = await this.fetchBreathingRateData(startDate, endDate, timeZone);
           break;
 
         default:
@@ -424,6 +542,14 @@ export class FitbitPlugin extends BasePlugin {
           );
       }
 
+      if (query.timezone !== undefined) {
+        for (const data of rawData) {
+          if (data.zoneOffset === undefined) {
+            data.zoneOffset = getTimeZoneOffset(Date.parse(data.timestamp), query.timezone);
+          }
+        }
+      }
+
       this.log('info', `Fetched ${rawData.length} ${query.dataType} records`);
       return rawData;
 
@@ -447,6 +573,55 @@ export class FitbitPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Fetch a natively computed aggregate
+   *
+   * Daily step and calorie totals come from the activity time series
+   * endpoint; the SDK combines them into weeks and months. Fitbit reports
+   * days in the user's profile time zone, which is assumed to be the
+   * requested one.
+   */
+  async fetchAggregate(query: AggregateDataQuery): Promise<AggregateDataPoint[] | null> {
+    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      throw new ConnectionError(
+        'Not connected to Fitbit',
+        HealthSource.FITBIT,
+        undefined,
+        { code: 'NOT_CONNECTED' }
+      );
+    }
+
+    const resource = FITBIT_AGGREGATE_RESOURCES[query.dataType];
+    if (!resource || query.fn !== 'sum' || query.bucket === 'hour') {
+      return null;
+    }
+
+    const startStr = formatLocalDate(Date.parse(query.startDate), query.timezone);
+    const endStr = formatLocalDate(Date.parse(query.endDate) - 1, query.timezone);
+
+    this.log('info', `Fetching daily ${resource} totals from ${startStr} to ${endStr}`);
+
+    try {
+      const response = await this.api.getActivityTimeSeries(resource, startStr, endStr);
+      const series = response[`activities-${resource}`] ?? [];
+
+      return series.map(entry => ({
+        start: new Date(parseLocalDate(entry.dateTime, query.timezone)).toISOString(),
+        value: Number(entry.value),
+      }));
+    } catch (error) {
+      this.log('error', `Failed to aggregate ${query.dataType}`, error as Error);
+
+      throw new DataFetchError(
+        `Failed to aggregate ${query.dataType}: ${(error as Error).message}`,
+        HealthSource.FITBIT,
+        query.dataType,
+        undefined,
+        { code: 'AGGREGATE_FAILED', originalError: error }
+      );
+    }
+  }
+
   /**
    * Subscribe to real-time updates (webhooks)
    * Note: Fitbit webhooks require special approval
@@ -481,6 +656,13 @@ export class FitbitPlugin extends BasePlugin {
     };
   }
 
+  /**
+   * Describe what the Fitbit endpoints support per data type
+   */
+  override getCapabilities(): PluginCapabilities {
+    return FITBIT_CAPABILITIES;
+  }
+
   // ============================================================================
   // Error Handling
   // ============================================================================
@@ -553,6 +735,63 @@ export class FitbitPlugin extends BasePlugin {
     return await this.auth.getCredentials();
   }
 
+  // ============================================================================
+  // Configuration
+  // ============================================================================
+
+  /**
+   * Merge SDK settings over the constructor configuration
+   */
+  private resolveConfig(config: PluginConfig): FitbitConfig {
+    const resolved: FitbitConfig = { ...this.baseConfig };
+
+    if (config.apiBaseUrl !== undefined) {
+      resolved.baseUrl = config.apiBaseUrl;
+    }
+    if (config.clientId !== undefined) {
+      resolved.clientId = config.clientId;
+    }
+    if (config.clientSecret !== undefined) {
+      resolved.clientSecret = config.clientSecret;
+    }
+    if (config.redirectUri !== undefined) {
+      resolved.redirectUri = config.redirectUri;
+    }
+    if (config.timeout !== undefined) {
+      resolved.timeout = config.timeout;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Create the OAuth module on the plugin's token storage
+   */
+  private createAuth(): FitbitAuth {
+    return new FitbitAuth(
+      {
+        clientId: this.fitbitConfig.clientId!,
+        clientSecret: this.fitbitConfig.clientSecret!,
+        redirectUri: this.fitbitConfig.redirectUri!,
+        scopes: this.fitbitConfig.scopes!,
+        baseUrl: this.fitbitConfig.baseUrl,
+        autoRefreshToken: this.fitbitConfig.autoRefreshToken,
+      },
+      this.tokenStorage,
+      this.fitbitConfig.accountId
+    );
+  }
+
+  /**
+   * Create the API client
+   */
+  private createApi(): FitbitAPI {
+    return new FitbitAPI(this.auth, {
+      baseUrl: this.fitbitConfig.baseUrl,
+      timeout: this.fitbitConfig.timeout,
+    });
+  }
+
   // ============================================================================
   // Private Data Fetching Methods
   // ============================================================================
@@ -560,19 +799,22 @@ export class FitbitPlugin extends BasePlugin {
   private async fetchActivityData(
     query: DataQuery,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    timeZone: string
   ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
     // Iterate through each day in the range
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
-
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       // Fetch daily activity summary
       const activityData = await this.api.getActivitySummary(dateStr);
 
       // Transform to RawHealthData
-      const transformed = this.transformer.transformActivitySummary(activityData, dateStr);
+      const transformed = this.transformer.transformActivitySummary(
+        activityData,
+        dateStr,
+        timeZone
+      );
 
       // Filter by requested data type
       const filtered = transformed.filter(d => {
@@ -592,7 +834,8 @@ export class FitbitPlugin extends BasePlugin {
   private async fetchHeartRateData(
     query: DataQuery,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    timeZone: string
   ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
@@ -601,29 +844,33 @@ export class FitbitPlugin extends BasePlugin {
 
     if (daysDiff <= 1) {
       // Single day - fetch intraday data
-      const dateStr = this.transformer.formatDate(startDate);
+      const dateStr = this.transformer.formatDate(startDate, timeZone);
       const intradayData = await this.api.getHeartRateIntraday(dateStr, '1min');
-      results.push(...this.transformer.transformHeartRateIntraday(intradayData));
+      results.push(...this.transformer.transformHeartRateIntraday(intradayData, dateStr, timeZone));
     } else {
       // Multiple days - fetch time series
-      const startStr = this.transformer.formatDate(startDate);
-      const endStr = this.transformer.formatDate(endDate);
+      const startStr = this.transformer.formatDate(startDate, timeZone);
+      const endStr = this.transformer.formatDate(endDate, timeZone);
       const timeSeriesData = await this.api.getHeartRateTimeSeries(startStr, '30d');
-      results.push(...this.transformer.transformHeartRateTimeSeries(timeSeriesData));
+      results.push(...this.transformer.transformHeartRateTimeSeries(timeSeriesData, timeZone));
     }
 
     return results;
   }
 
-  private async fetchSleepData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchSleepData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
     // Fetch sleep logs for date range
-    const startStr = this.transformer.formatDate(startDate);
-    const endStr = this.transformer.formatDate(endDate);
+    const startStr = this.transformer.formatDate(startDate, timeZone);
+    const endStr = this.transformer.formatDate(endDate, timeZone);
 
     const sleepData = await this.api.getSleepLogsRange(startStr, endStr);
-    results.push(...this.transformer.transformSleepLogs(sleepData));
+    results.push(...this.transformer.transformSleepLogs(sleepData, timeZone));
 
     return results;
   }
@@ -631,78 +878,98 @@ export class FitbitPlugin extends BasePlugin {
   private async fetchActivityLogs(
     startDate: Date,
     endDate: Date,
+    timeZone: string,
     limit?: number
   ): Promise<RawHealthData[]> {
-    const startStr = this.transformer.formatDate(startDate);
+    const startStr = this.transformer.formatDate(startDate, timeZone);
     const logsData = await this.api.getActivityLogs(startStr, 'asc', limit || 100);
-    return this.transformer.transformActivityLogs(logsData.activities);
+    return this.transformer.transformActivityLogs(logsData.activities, timeZone);
   }
 
-  private async fetchWeightData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchWeightData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    const startStr = this.transformer.formatDate(startDate);
+    const startStr = this.transformer.formatDate(startDate, timeZone);
     const weightData = await this.api.getWeightLogs(startStr, '30d');
-    results.push(...this.transformer.transformWeightLogs(weightData));
+    results.push(...this.transformer.transformWeightLogs(weightData, timeZone));
 
     return results;
   }
 
-  private async fetchSpO2Data(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchSpO2Data(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       const spo2Data = await this.api.getSpO2(dateStr);
-      results.push(...this.transformer.transformSpO2(spo2Data));
+      results.push(...this.transformer.transformSpO2(spo2Data, timeZone));
     }
 
     return results;
   }
 
-  private async fetchHRVData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchHRVData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       const hrvData = await this.api.getHRV(dateStr);
-      results.push(...this.transformer.transformHRV(hrvData));
+      results.push(...this.transformer.transformHRV(hrvData, timeZone));
     }
 
     return results;
   }
 
-  private async fetchVO2MaxData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchVO2MaxData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       const vo2Data = await this.api.getVO2Max(dateStr);
-      results.push(...this.transformer.transformVO2Max(vo2Data));
+      results.push(...this.transformer.transformVO2Max(vo2Data, timeZone));
     }
 
     return results;
   }
 
-  private async fetchTemperatureData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchTemperatureData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       const tempData = await this.api.getTemperature(dateStr);
-      results.push(...this.transformer.transformTemperature(tempData));
+      results.push(...this.transformer.transformTemperature(tempData, timeZone));
     }
 
     return results;
   }
 
-  private async fetchBreathingRateData(startDate: Date, endDate: Date): Promise<RawHealthData[]> {
+  private async fetchBreathingRateData(
+    startDate: Date,
+    endDate: Date,
+    timeZone: string
+  ): Promise<RawHealthData[]> {
     const results: RawHealthData[] = [];
 
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dateStr = this.transformer.formatDate(date);
+    for (const dateStr of this.transformer.getDates(startDate, endDate, timeZone)) {
       const brData = await this.api.getBreathingRate(dateStr);
-      results.push(...this.transformer.transformBreathingRate(brData));
+      results.push(...this.transformer.transformBreathingRate(brData, timeZone));
     }
 
     return results;
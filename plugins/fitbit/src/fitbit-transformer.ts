@@ -5,7 +5,12 @@
  * for normalization by HealthSync SDK
  */
 
-import { HealthSource } from '@healthsync/core';
+import {
+  HealthSource,
+  formatLocalDate,
+  parseLocalDateTime,
+  nextPeriod,
+} from '@healthsync/core';
 import type { RawHealthData } from '@healthsync/core';
 import type {
   FitbitActivitySession,
@@ -19,14 +24,20 @@ import type {
 /**
  * Fitbit Data Transformer
  *
- * Converts Fitbit-specific data structures to unified RawHealthData format
+ * Converts Fitbit-specific data structures to unified RawHealthData format.
+ * Fitbit dates and local times are interpreted in the IANA time zone passed
+ * to each method (the user's Fitbit profile zone, default UTC).
  */
 export class FitbitTransformer {
   /**
    * Transform activity summary to RawHealthData
    * Extracts: steps, distance, calories, active minutes, floors
    */
-  transformActivitySummary(fitbitData: any, date: string): RawHealthData[] {
+  transformActivitySummary(
+    fitbitData: any,
+    date: string,
+    timeZone: string = 'UTC'
+  ): RawHealthData[] {
     const results: RawHealthData[] = [];
     const summary = fitbitData.summary;
 
@@ -34,8 +45,7 @@ export class FitbitTransformer {
       return results;
     }
 
-    const startTimestamp = `${date}T00:00:00.000Z`;
-    const endTimestamp = `${date}T23:59:59.999Z`;
+    const { startTimestamp, endTimestamp } = this.getDayRange(date, timeZone);
 
     // Steps
     if (summary.steps !== undefined) {
@@ -105,7 +115,11 @@ export class FitbitTransformer {
   /**
    * Transform activity time series to RawHealthData
    */
-  transformActivityTimeSeries(fitbitData: any, resource: string): RawHealthData[] {
+  transformActivityTimeSeries(
+    fitbitData: any,
+    resource: string,
+    timeZone: string = 'UTC'
+  ): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit time series format: { "activities-steps": [{dateTime, value}] }
@@ -121,8 +135,7 @@ export class FitbitTransformer {
       const date = dataPoint.dateTime;
       const value = parseFloat(dataPoint.value);
 
-      const startTimestamp = `${date}T00:00:00.000Z`;
-      const endTimestamp = `${date}T23:59:59.999Z`;
+      const { startTimestamp, endTimestamp } = this.getDayRange(date, timeZone);
 
       results.push(this.createRawHealthData(
         `fitbit-${resource}`,
@@ -138,12 +151,15 @@ export class FitbitTransformer {
   /**
    * Transform activity logs (exercise sessions) to RawHealthData
    */
-  transformActivityLogs(activities: FitbitActivitySession[]): RawHealthData[] {
+  transformActivityLogs(
+    activities: FitbitActivitySession[],
+    timeZone: string = 'UTC'
+  ): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     for (const activity of activities) {
       // Parse start time
-      const startTime = new Date(`${activity.startDate}T${activity.startTime}`);
+      const startTime = this.parseDate(`${activity.startDate}T${activity.startTime}`, timeZone);
       const startTimestamp = startTime.toISOString();
 
       // Calculate end time from duration
@@ -174,7 +190,10 @@ export class FitbitTransformer {
   /**
    * Transform heart rate time series to RawHealthData
    */
-  transformHeartRateTimeSeries(fitbitData: FitbitHeartRateResponse): RawHealthData[] {
+  transformHeartRateTimeSeries(
+    fitbitData: FitbitHeartRateResponse,
+    timeZone: string = 'UTC'
+  ): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     if (!fitbitData['activities-heart']) {
@@ -183,7 +202,7 @@ export class FitbitTransformer {
 
     for (const dayData of fitbitData['activities-heart']) {
       const date = dayData.dateTime;
-      const timestamp = `${date}T00:00:00.000Z`;
+      const { startTimestamp: timestamp } = this.getDayRange(date, timeZone);
 
       // Resting heart rate
       if (dayData.value.restingHeartRate !== undefined) {
@@ -217,7 +236,11 @@ export class FitbitTransformer {
   /**
    * Transform heart rate intraday to RawHealthData
    */
-  transformHeartRateIntraday(fitbitData: FitbitIntradayHeartRate): RawHealthData[] {
+  transformHeartRateIntraday(
+    fitbitData: FitbitIntradayHeartRate,
+    date?: string,
+    timeZone: string = 'UTC'
+  ): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     const intraday = fitbitData['activities-heart-intraday'];
@@ -229,14 +252,12 @@ export class FitbitTransformer {
     // Instead of one record per second, group by minute
     const groupedData: Record<string, { sum: number; count: number; times: string[] }> = {};
 
-    for (const dataPoint of intraday.dataset) {
-      // Extract date from time (format: "HH:mm:ss")
-      // We need the base date from parent response, default to today
-      const baseDate = new Date().toISOString().split('T')[0];
-      const timestamp = `${baseDate}T${dataPoint.time}.000Z`;
+    // Intraday times (format: "HH:mm:ss") are local to the requested day
+    const baseDate = date ?? this.formatDate(new Date(), timeZone);
 
+    for (const dataPoint of intraday.dataset) {
       // Group by minute
-      const minuteKey = timestamp.substring(0, 16); // "YYYY-MM-DDTHH:mm"
+      const minuteKey = `${baseDate}T${dataPoint.time.substring(0, 5)}`; // "YYYY-MM-DDTHH:mm"
 
       if (!groupedData[minuteKey]) {
         groupedData[minuteKey] = { sum: 0, count: 0, times: [] };
@@ -251,16 +272,18 @@ export class FitbitTransformer {
     for (const [minuteKey, data] of Object.entries(groupedData)) {
       const avgHeartRate = Math.round(data.sum / data.count);
 
+      const minuteStart = this.parseDate(`${minuteKey}:00`, timeZone);
+
       results.push(this.createRawHealthData(
         'fitbit-heart-rate',
-        `${minuteKey}:00.000Z`,
+        minuteStart.toISOString(),
         {
           heartRate: avgHeartRate,
           samples: data.count,
           interval: intraday.datasetInterval,
           datasetType: intraday.datasetType,
         },
-        `${minuteKey}:59.999Z`
+        new Date(minuteStart.getTime() + 59999).toISOString()
       ));
     }
 
@@ -270,7 +293,7 @@ export class FitbitTransformer {
   /**
    * Transform sleep logs to RawHealthData
    */
-  transformSleepLogs(fitbitData: FitbitSleepResponse): RawHealthData[] {
+  transformSleepLogs(fitbitData: FitbitSleepResponse, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     if (!fitbitData.sleep) {
@@ -278,7 +301,7 @@ export class FitbitTransformer {
     }
 
     for (const sleepSession of fitbitData.sleep) {
-      results.push(this.transformSleepSession(sleepSession));
+      results.push(this.transformSleepSession(sleepSession, timeZone));
     }
 
     return results;
@@ -287,10 +310,10 @@ export class FitbitTransformer {
   /**
    * Transform individual sleep session
    */
-  private transformSleepSession(session: FitbitSleepSession): RawHealthData {
+  private transformSleepSession(session: FitbitSleepSession, timeZone: string): RawHealthData {
     // Parse timestamps
-    const startTimestamp = new Date(session.startTime).toISOString();
-    const endTimestamp = new Date(session.endTime).toISOString();
+    const startTimestamp = this.parseDate(session.startTime, timeZone).toISOString();
+    const endTimestamp = this.parseDate(session.endTime, timeZone).toISOString();
 
     // Extract sleep stages
     const stages = session.levels?.summary || {};
@@ -324,7 +347,7 @@ export class FitbitTransformer {
   /**
    * Transform weight logs to RawHealthData
    */
-  transformWeightLogs(fitbitData: FitbitWeightResponse): RawHealthData[] {
+  transformWeightLogs(fitbitData: FitbitWeightResponse, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     if (!fitbitData.weight) {
@@ -333,7 +356,10 @@ export class FitbitTransformer {
 
     for (const weightEntry of fitbitData.weight) {
       // Parse timestamp
-      const timestamp = new Date(`${weightEntry.date}T${weightEntry.time}`).toISOString();
+      const timestamp = this.parseDate(
+        `${weightEntry.date}T${weightEntry.time}`,
+        timeZone
+      ).toISOString();
 
       results.push(this.createRawHealthData(
         'fitbit-weight',
@@ -357,14 +383,14 @@ export class FitbitTransformer {
   /**
    * Transform SpO2 (blood oxygen) data to RawHealthData
    */
-  transformSpO2(fitbitData: any): RawHealthData[] {
+  transformSpO2(fitbitData: any, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit SpO2 format varies, handle common structures
     if (fitbitData.value !== undefined) {
       // Single value format
       const timestamp = fitbitData.dateTime
-        ? new Date(fitbitData.dateTime).toISOString()
+        ? this.parseDate(fitbitData.dateTime, timeZone).toISOString()
         : new Date().toISOString();
 
       results.push(this.createRawHealthData(
@@ -379,7 +405,7 @@ export class FitbitTransformer {
       // Array format
       for (const entry of fitbitData) {
         const timestamp = entry.dateTime
-          ? new Date(entry.dateTime).toISOString()
+          ? this.parseDate(entry.dateTime, timeZone).toISOString()
           : new Date().toISOString();
 
         results.push(this.createRawHealthData(
@@ -399,14 +425,14 @@ export class FitbitTransformer {
   /**
    * Transform HRV (heart rate variability) data to RawHealthData
    */
-  transformHRV(fitbitData: any): RawHealthData[] {
+  transformHRV(fitbitData: any, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit HRV format
     if (fitbitData.hrv && Array.isArray(fitbitData.hrv)) {
       for (const entry of fitbitData.hrv) {
         const timestamp = entry.dateTime
-          ? new Date(entry.dateTime).toISOString()
+          ? this.parseDate(entry.dateTime, timeZone).toISOString()
           : new Date().toISOString();
 
         results.push(this.createRawHealthData(
@@ -427,14 +453,14 @@ export class FitbitTransformer {
   /**
    * Transform VO2 Max (cardio fitness) data to RawHealthData
    */
-  transformVO2Max(fitbitData: any): RawHealthData[] {
+  transformVO2Max(fitbitData: any, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit VO2 Max format
     if (fitbitData.cardioScore && Array.isArray(fitbitData.cardioScore)) {
       for (const entry of fitbitData.cardioScore) {
         const timestamp = entry.dateTime
-          ? new Date(entry.dateTime).toISOString()
+          ? this.parseDate(entry.dateTime, timeZone).toISOString()
           : new Date().toISOString();
 
         results.push(this.createRawHealthData(
@@ -454,14 +480,14 @@ export class FitbitTransformer {
   /**
    * Transform temperature data to RawHealthData
    */
-  transformTemperature(fitbitData: any): RawHealthData[] {
+  transformTemperature(fitbitData: any, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit temperature format
     if (fitbitData.tempSkin && Array.isArray(fitbitData.tempSkin)) {
       for (const entry of fitbitData.tempSkin) {
         const timestamp = entry.dateTime
-          ? new Date(entry.dateTime).toISOString()
+          ? this.parseDate(entry.dateTime, timeZone).toISOString()
           : new Date().toISOString();
 
         results.push(this.createRawHealthData(
@@ -481,14 +507,14 @@ export class FitbitTransformer {
   /**
    * Transform breathing rate data to RawHealthData
    */
-  transformBreathingRate(fitbitData: any): RawHealthData[] {
+  transformBreathingRate(fitbitData: any, timeZone: string = 'UTC'): RawHealthData[] {
     const results: RawHealthData[] = [];
 
     // Fitbit breathing rate format
     if (fitbitData.br && Array.isArray(fitbitData.br)) {
       for (const entry of fitbitData.br) {
         const timestamp = entry.dateTime
-          ? new Date(entry.dateTime).toISOString()
+          ? this.parseDate(entry.dateTime, timeZone).toISOString()
           : new Date().toISOString();
 
         results.push(this.createRawHealthData(
@@ -538,19 +564,52 @@ export class FitbitTransformer {
   }
 
   /**
-   * Format date to Fitbit API format (yyyy-MM-dd)
+   * Get the first and last instant of a Fitbit date (yyyy-MM-dd)
+   */
+  private getDayRange(
+    date: string,
+    timeZone: string
+  ): { startTimestamp: string; endTimestamp: string } {
+    const start = this.parseDate(date, timeZone).getTime();
+    const end = nextPeriod(start, 'day', timeZone) - 1;
+
+    return {
+      startTimestamp: new Date(start).toISOString(),
+      endTimestamp: new Date(end).toISOString(),
+    };
+  }
+
+  /**
+   * List the Fitbit dates (yyyy-MM-dd) a date range touches, in the time zone
+   */
+  getDates(startDate: Date, endDate: Date, timeZone: string = 'UTC'): string[] {
+    const dates: string[] = [];
+    const end = endDate.getTime();
+
+    for (
+      let day = this.parseDate(this.formatDate(startDate, timeZone), timeZone).getTime();
+      day <= end;
+      day = nextPeriod(day, 'day', timeZone)
+    ) {
+      dates.push(formatLocalDate(day, timeZone));
+    }
+
+    return dates;
+  }
+
+  /**
+   * Format date to Fitbit API format (yyyy-MM-dd) as a calendar date in the time zone
    */
-  formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  formatDate(date: Date, timeZone: string = 'UTC'): string {
+    return formatLocalDate(date.getTime(), timeZone);
   }
 
   /**
-   * Parse Fitbit date string to Date object
+   * Parse Fitbit date (yyyy-MM-dd) or local date-time string to Date object
+   *
+   * Values without a UTC offset are local to the time zone.
    */
-  parseDate(dateStr: string): Date {
-    return new Date(dateStr);
+  parseDate(dateStr: string, timeZone: string = 'UTC'): Date {
+    return new Date(parseLocalDateTime(dateStr, timeZone));
   }
 }